@@ -0,0 +1,82 @@
+/**
+ * OIDC provider configuration
+ * Providers are read from OIDC_PROVIDERS (a JSON array). The built-in mock
+ * provider is only added when OIDC_MOCK_ENABLED=true, and never in production.
+ *
+ * Example:
+ * OIDC_PROVIDERS=[{"id":"acme","name":"Acme SSO","issuer":"https://sso.acme.com",
+ *   "clientId":"skill-swap","clientSecret":"...","scope":"openid email profile"}]
+ */
+
+const MOCK_PROVIDER_ID = 'mock';
+
+const MOCK_CLIENT = {
+  clientId: 'skill-swap-dev',
+  clientSecret: 'mock-oidc-secret'
+};
+
+/**
+ * Public base URL of this API server (used for redirect URIs and the mock issuer)
+ */
+const getServerUrl = () => {
+  return process.env.SERVER_URL || `http://localhost:${process.env.PORT || 5000}`;
+};
+
+/**
+ * The mock provider signs in any email typed into its form, so it has to be
+ * turned on explicitly and can never be turned on in production
+ */
+const isMockProviderEnabled = () => {
+  if (process.env.NODE_ENV === 'production') {
+    return false;
+  }
+  return process.env.OIDC_MOCK_ENABLED === 'true';
+};
+
+const getMockIssuer = () => `${getServerUrl()}/mock-oidc`;
+
+/**
+ * Get all configured providers
+ * @returns {Array<{ id, name, issuer, clientId, clientSecret, scope }>}
+ */
+const getOidcProviders = () => {
+  let providers = [];
+  
+  if (process.env.OIDC_PROVIDERS) {
+    try {
+      providers = JSON.parse(process.env.OIDC_PROVIDERS);
+    } catch (error) {
+      console.error('Invalid OIDC_PROVIDERS configuration:', error.message);
+    }
+  }
+  
+  if (isMockProviderEnabled()) {
+    providers.push({
+      id: MOCK_PROVIDER_ID,
+      name: 'Mock SSO',
+      issuer: getMockIssuer(),
+      ...MOCK_CLIENT
+    });
+  }
+  
+  return providers.map(provider => ({
+    scope: 'openid email profile',
+    ...provider
+  }));
+};
+
+/**
+ * Find a configured provider by id
+ */
+const getOidcProvider = (providerId) => {
+  return getOidcProviders().find(provider => provider.id === providerId);
+};
+
+module.exports = {
+  MOCK_CLIENT,
+  getServerUrl,
+  getMockIssuer,
+  isMockProviderEnabled,
+  getOidcProviders,
+  getOidcProvider
+};
@@ -2,7 +2,15 @@ const User = require('../models/User');
 const Swap = require('../models/Swap');
 const Rating = require('../models/Rating');
 const AdminMessage = require('../models/AdminMessage');
+const JobLock = require('../models/JobLock');
+const JobRun = require('../models/JobRun');
+const MailMessage = require('../models/MailMessage');
+const Dispute = require('../models/Dispute');
+const Session = require('../models/Session');
 const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { queueEmail, deliverMessage, getTransportName, buildFrontendUrl } = require('../services/mailService');
+const { notifyAdminMessage } = require('../services/notificationService');
+const { populateDispute, resolveDispute: applyResolution } = require('../services/disputeService');
 const createCsvWriter = require('csv-writer').createObjectCsvWriter;
 const path = require('path');
 const fs = require('fs');
@@ -131,6 +139,9 @@ const banUser = catchAsync(async (req, res, next) => {
   user.banReason = reason;
   await user.save();
   
+  // Signs the user out everywhere and ends their open event streams
+  await Session.revokeAllForUser(user._id, 'admin');
+  
   res.status(200).json({
     success: true,
     message: 'User banned successfully',
@@ -177,6 +188,70 @@ const unbanUser = catchAsync(async (req, res, next) => {
   });
 });
 
+/**
+ * Get the dispute resolution queue with both members' reliability stats
+ * @route GET /api/admin/disputes
+ * @access Private (Admin only)
+ */
+const getDisputes = catchAsync(async (req, res, next) => {
+  const { status = 'open', page = 1, limit = 20 } = req.query;
+  
+  const query = { status };
+  const skip = (page - 1) * limit;
+  
+  // Open disputes are worked through oldest first; resolved ones are reviewed newest first
+  const [disputes, totalDisputes] = await Promise.all([
+    populateDispute(Dispute.find(query), true)
+      .sort({ createdAt: status === 'open' ? 1 : -1 })
+      .skip(skip)
+      .limit(parseInt(limit)),
+    Dispute.countDocuments(query)
+  ]);
+  
+  const totalPages = Math.ceil(totalDisputes / limit);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      disputes,
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalDisputes,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+});
+
+/**
+ * Resolve a dispute
+ * Outcomes: dismiss, void-swap (cancel the swap and refund its credits), warn or ban the member at fault
+ * @route PUT /api/admin/disputes/:id/resolve
+ * @access Private (Admin only)
+ */
+const resolveDispute = catchAsync(async (req, res, next) => {
+  const dispute = await Dispute.findById(req.params.id).populate('swap');
+  
+  if (!dispute) {
+    return next(new AppError('Dispute not found', 404));
+  }
+  
+  const { outcome, atFault, note } = req.body;
+  await applyResolution(dispute, req.user, { outcome, atFault, note });
+  
+  const resolved = await populateDispute(Dispute.findById(dispute._id), true);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Dispute resolved successfully',
+    data: {
+      dispute: resolved
+    }
+  });
+});
+
 /**
  * Create platform-wide message
  * @route POST /api/admin/messages
@@ -193,6 +268,7 @@ const createAdminMessage = catchAsync(async (req, res, next) => {
   // If message is set to send immediately, send it
   if (message.status === 'scheduled' && message.scheduledAt <= new Date()) {
     await message.send();
+    await notifyAdminMessage(message);
   }
   
   res.status(201).json({
@@ -287,6 +363,7 @@ const sendAdminMessage = catchAsync(async (req, res, next) => {
   }
   
   await message.send();
+  await notifyAdminMessage(message);
   
   res.status(200).json({
     success: true,
@@ -606,6 +683,295 @@ const approveRating = catchAsync(async (req, res, next) => {
   });
 });
 
+/**
+ * Get skills awaiting approval
+ * @route GET /api/admin/skills/pending
+ * @access Private (Admin only)
+ */
+const getPendingSkills = catchAsync(async (req, res, next) => {
+  const { page = 1, limit = 20 } = req.query;
+  
+  // Tag each skill with its list so both lists form one queue, oldest first
+  const tagSkills = (field, type) => ({
+    $map: {
+      input: `$${field}`,
+      as: 'skill',
+      in: { $mergeObjects: ['$$skill', { type }] }
+    }
+  });
+  
+  const [result] = await User.aggregate([
+    {
+      $match: {
+        $or: [
+          { 'skillsOffered.isApproved': false },
+          { 'skillsWanted.isApproved': false }
+        ]
+      }
+    },
+    {
+      $project: {
+        name: 1,
+        email: 1,
+        skill: {
+          $concatArrays: [tagSkills('skillsOffered', 'offered'), tagSkills('skillsWanted', 'wanted')]
+        }
+      }
+    },
+    { $unwind: '$skill' },
+    { $match: { 'skill.isApproved': false } },
+    { $sort: { 'skill.submittedAt': 1 } },
+    {
+      $facet: {
+        skills: [{ $skip: (page - 1) * limit }, { $limit: parseInt(limit) }],
+        total: [{ $count: 'count' }]
+      }
+    }
+  ]);
+  
+  const totalSkills = result.total.length > 0 ? result.total[0].count : 0;
+  const totalPages = Math.ceil(totalSkills / limit);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      skills: result.skills.map(({ _id, name, email, skill }) => ({
+        id: skill._id,
+        name: skill.name,
+        category: skill.category,
+        description: skill.description,
+        level: skill.level,
+        type: skill.type,
+        submittedAt: skill.submittedAt,
+        user: { id: _id, name, email }
+      })),
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalSkills,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+});
+
+/**
+ * Find a skill awaiting approval and its owner
+ */
+const findPendingSkill = async (skillId) => {
+  const user = await User.findBySkillId(skillId);
+  
+  if (!user) {
+    throw new AppError('Skill not found', 404);
+  }
+  
+  const { field, skill } = user.findSkill(skillId);
+  
+  if (skill.isApproved) {
+    throw new AppError('Skill has already been approved', 400);
+  }
+  
+  return { user, field, skill };
+};
+
+/**
+ * Let a user know the outcome of a skill review
+ * Failures are logged so they never break the review
+ * @param {string} template - skill-approved or skill-rejected
+ */
+const sendSkillReviewEmail = async (user, template, data) => {
+  try {
+    await queueEmail(template, user.email, {
+      name: user.name,
+      profileUrl: buildFrontendUrl('/profile'),
+      ...data
+    });
+  } catch (error) {
+    console.error('Error sending skill review email:', error);
+  }
+};
+
+/**
+ * Approve a skill
+ * @route PUT /api/admin/skills/:id/approve
+ * @access Private (Admin only)
+ */
+const approveSkill = catchAsync(async (req, res, next) => {
+  const { user, skill } = await findPendingSkill(req.params.id);
+  
+  skill.isApproved = true;
+  await user.save({ validateBeforeSave: false });
+  
+  await sendSkillReviewEmail(user, 'skill-approved', { skillName: skill.name });
+  
+  res.status(200).json({
+    success: true,
+    message: 'Skill approved successfully',
+    data: {
+      skill
+    }
+  });
+});
+
+/**
+ * Reject a skill
+ * Removes the skill from the user's profile and tells them why
+ * @route PUT /api/admin/skills/:id/reject
+ * @access Private (Admin only)
+ */
+const rejectSkill = catchAsync(async (req, res, next) => {
+  const { reason } = req.body;
+  const { user, field, skill } = await findPendingSkill(req.params.id);
+  
+  user[field].pull(skill._id);
+  await user.save({ validateBeforeSave: false });
+  
+  await sendSkillReviewEmail(user, 'skill-rejected', { skillName: skill.name, reason });
+  
+  res.status(200).json({
+    success: true,
+    message: 'Skill rejected successfully'
+  });
+});
+
+/**
+ * Get background jobs and their recent runs
+ * @route GET /api/admin/jobs/runs
+ * @access Private (Admin only)
+ */
+const getJobRuns = catchAsync(async (req, res, next) => {
+  const { job, status, page = 1, limit = 20 } = req.query;
+  
+  const query = {};
+  if (job) query.job = job;
+  if (status) query.status = status;
+  
+  const skip = (page - 1) * limit;
+  
+  const [jobs, runs, totalRuns] = await Promise.all([
+    JobLock.find().sort('name'),
+    JobRun.find(query)
+      .sort({ startedAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit)),
+    JobRun.countDocuments(query)
+  ]);
+  
+  const totalPages = Math.ceil(totalRuns / limit);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      jobs,
+      runs,
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalRuns,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+});
+
+/**
+ * Get outbound email from the mail queue and outbox
+ * Bodies are left out of the list; fetch a single message to read it
+ * @route GET /api/admin/mail
+ * @access Private (Admin only)
+ */
+const getMailMessages = catchAsync(async (req, res, next) => {
+  const { status, template, to, page = 1, limit = 20 } = req.query;
+  
+  const query = {};
+  if (status) query.status = status;
+  if (template) query.template = template;
+  if (to) query.to = to.toLowerCase();
+  
+  const skip = (page - 1) * limit;
+  
+  const [messages, totalMessages, statusCounts] = await Promise.all([
+    MailMessage.find(query)
+      .select('-text -html')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit)),
+    MailMessage.countDocuments(query),
+    MailMessage.aggregate([
+      { $group: { _id: '$status', count: { $sum: 1 } } }
+    ])
+  ]);
+  
+  const totalPages = Math.ceil(totalMessages / limit);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      messages,
+      transport: getTransportName(),
+      counts: Object.fromEntries(statusCounts.map(({ _id, count }) => [_id, count])),
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalMessages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+});
+
+/**
+ * Get a single outbound email with its text and HTML bodies
+ * @route GET /api/admin/mail/:id
+ * @access Private (Admin only)
+ */
+const getMailMessage = catchAsync(async (req, res, next) => {
+  const message = await MailMessage.findById(req.params.id);
+  
+  if (!message) {
+    return next(new AppError('Mail message not found', 404));
+  }
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      message
+    }
+  });
+});
+
+/**
+ * Retry a failed email straight away with a fresh set of attempts
+ * @route POST /api/admin/mail/:id/retry
+ * @access Private (Admin only)
+ */
+const retryMailMessage = catchAsync(async (req, res, next) => {
+  const message = await MailMessage.findById(req.params.id);
+  
+  if (!message) {
+    return next(new AppError('Mail message not found', 404));
+  }
+  
+  if (message.status !== 'failed') {
+    return next(new AppError('Only failed messages can be retried', 400));
+  }
+  
+  await message.requeue();
+  const outcome = await deliverMessage(message._id);
+  
+  res.status(200).json({
+    success: true,
+    message: outcome === 'sent' ? 'Mail message sent' : 'Mail message queued for retry',
+    data: {
+      outcome,
+      message: await MailMessage.findById(message._id)
+    }
+  });
+});
+
 /**
  * Create temp directory if it doesn't exist
  */
@@ -624,6 +990,8 @@ module.exports = {
   getAllSwaps,
   banUser,
   unbanUser,
+  getDisputes,
+  resolveDispute,
   createAdminMessage,
   getAdminMessages,
   updateAdminMessage,
@@ -632,5 +1000,12 @@ module.exports = {
   generateSwapStatsReport,
   generateFeedbackReport,
   getFlaggedRatings,
-  approveRating
+  approveRating,
+  getPendingSkills,
+  approveSkill,
+  rejectSkill,
+  getJobRuns,
+  getMailMessages,
+  getMailMessage,
+  retryMailMessage
 };
\ No newline at end of file
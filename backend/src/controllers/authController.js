@@ -1,12 +1,84 @@
 const User = require('../models/User');
 const { catchAsync, AppError } = require('../middleware/errorHandler');
-const { generateToken } = require('../middleware/auth');
+const Session = require('../models/Session');
+const {
+  verifyEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken
+} = require('../middleware/auth');
+const {
+  startSession,
+  rotateSession,
+  endSession,
+  getRefreshTokenFromRequest,
+  clearRefreshCookie
+} = require('../services/sessionService');
+const { queueEmail, sendVerificationEmail, buildFrontendUrl } = require('../services/mailService');
+const { verifyCode } = require('../services/twoFactorService');
+const {
+  getLoginRetryAfter,
+  recordFailedLogin,
+  clearFailedLogins,
+  sendLoginThrottled,
+  sendLoginFailure
+} = require('../services/loginThrottleService');
+const SecurityEvent = require('../models/SecurityEvent');
+const { writeAccountExport } = require('../services/accountExportService');
+const { hashToken } = require('../utils/tokenUtils');
 
 /**
  * Authentication Controller
  * Handles user registration, login, and authentication-related operations
  */
 
+/**
+ * Finish a successful login
+ * Records the login, starts a session and sends the user payload
+ */
+const completeLogin = async (user, req, res) => {
+  // Only a fully completed login resets the failed attempt counter
+  await clearFailedLogins(user.email);
+  
+  // Logging in during the grace period cancels a pending deletion
+  const deletionCancelled = user.isPendingDeletion;
+  if (deletionCancelled) {
+    user.cancelDeletion();
+  }
+  
+  // Update last login
+  user.lastLogin = new Date();
+  await user.save({ validateBeforeSave: false });
+  
+  // Start a session (sets the refresh token cookie) and issue an access token
+  const token = await startSession(user, req, res);
+  
+  res.status(200).json({
+    success: true,
+    message: deletionCancelled
+      ? 'Login successful. Your account deletion has been cancelled.'
+      : 'Login successful',
+    token,
+    data: {
+      user: {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        skillsOffered: user.skillsOffered,
+        skillsWanted: user.skillsWanted,
+        location: user.location,
+        availability: user.availability,
+        isPublic: user.isPublic,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        profileCompletion: user.profileCompletion,
+        lastLogin: user.lastLogin,
+        createdAt: user.createdAt
+      }
+    }
+  });
+};
+
 /**
  * Register a new user
  * @route POST /api/auth/register
@@ -32,8 +104,11 @@ const register = catchAsync(async (req, res, next) => {
     availability
   });
   
-  // Generate JWT token
-  const token = generateToken(user._id);
+  // Send verification email
+  await sendVerificationEmail(user);
+  
+  // Start a session (sets the refresh token cookie) and issue an access token
+  const token = await startSession(user, req, res);
   
   // Remove password from response
   user.password = undefined;
@@ -52,6 +127,7 @@ const register = catchAsync(async (req, res, next) => {
         location: user.location,
         availability: user.availability,
         isPublic: user.isPublic,
+        emailVerified: user.emailVerified,
         profileCompletion: user.profileCompletion,
         createdAt: user.createdAt
       }
@@ -70,15 +146,13 @@ const login = catchAsync(async (req, res, next) => {
   // Check if user exists and get password
   const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
   
-  if (!user) {
-    return next(new AppError('Invalid email or password', 401));
-  }
-  
   // Check if password is correct
-  const isPasswordCorrect = await user.comparePassword(password);
+  const isPasswordCorrect = user ? await user.comparePassword(password) : false;
   
   if (!isPasswordCorrect) {
-    return next(new AppError('Invalid email or password', 401));
+    // Count the failure against the account and IP (backoff, then lockout)
+    const throttle = await recordFailedLogin(email, req, user);
+    return sendLoginFailure(res, 'Invalid email or password', throttle);
   }
   
   // Check if user is banned
@@ -86,42 +160,80 @@ const login = catchAsync(async (req, res, next) => {
     return next(new AppError('Your account has been banned. Please contact support.', 403));
   }
   
-  // Check if user is active
-  if (!user.isActive) {
+  // Check if user is active (accounts pending deletion can still log in to restore them)
+  if (!user.isActive && !user.isPendingDeletion) {
     return next(new AppError('Your account is inactive. Please contact support.', 403));
   }
   
-  // Update last login
-  user.lastLogin = new Date();
-  await user.save({ validateBeforeSave: false });
+  // Accounts with two-factor authentication need a second step
+  if (user.twoFactorEnabled) {
+    return res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication code required',
+      data: {
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user)
+      }
+    });
+  }
   
-  // Generate JWT token
-  const token = generateToken(user._id);
+  await completeLogin(user, req, res);
+});
+
+/**
+ * Complete the second login step with a TOTP or recovery code
+ * @route POST /api/auth/login/2fa
+ * @access Public (requires challenge token from login)
+ */
+const loginWithTwoFactor = catchAsync(async (req, res, next) => {
+  const { challengeToken, code, recoveryCode } = req.body;
+  
+  let decoded;
+  try {
+    decoded = verifyTwoFactorChallengeToken(challengeToken);
+  } catch (error) {
+    return next(new AppError('Your login attempt has expired. Please sign in again.', 401));
+  }
   
-  // Remove password from response
-  user.password = undefined;
+  const user = await User.findById(decoded.sub)
+    .select('+twoFactorSecret +twoFactorLastUsedStep +twoFactorRecoveryCodes');
   
-  res.status(200).json({
-    success: true,
-    message: 'Login successful',
-    token,
-    data: {
-      user: {
-        id: user._id,
-        name: user.name,
-        email: user.email,
-        skillsOffered: user.skillsOffered,
-        skillsWanted: user.skillsWanted,
-        location: user.location,
-        availability: user.availability,
-        isPublic: user.isPublic,
-        role: user.role,
-        profileCompletion: user.profileCompletion,
-        lastLogin: user.lastLogin,
-        createdAt: user.createdAt
-      }
+  if (!user || !user.twoFactorEnabled) {
+    return next(new AppError('Your login attempt has expired. Please sign in again.', 401));
+  }
+  
+  if (user.isBanned) {
+    return next(new AppError('Your account has been banned. Please contact support.', 403));
+  }
+  
+  if (!user.isActive && !user.isPendingDeletion) {
+    return next(new AppError('Your account is inactive. Please contact support.', 403));
+  }
+  
+  // Codes are throttled together with passwords for the same account
+  const throttleState = await getLoginRetryAfter(user.email, req.ip);
+  
+  if (throttleState.retryAfter > 0) {
+    return sendLoginThrottled(res, throttleState);
+  }
+  
+  if (recoveryCode) {
+    if (!user.useRecoveryCode(recoveryCode)) {
+      const throttle = await recordFailedLogin(user.email, req, user);
+      return sendLoginFailure(res, 'Invalid recovery code', throttle);
     }
-  });
+  } else {
+    const step = verifyCode(code, user.twoFactorSecret, user.twoFactorLastUsedStep);
+    
+    if (!step) {
+      const throttle = await recordFailedLogin(user.email, req, user);
+      return sendLoginFailure(res, 'Invalid authentication code', throttle);
+    }
+    
+    user.twoFactorLastUsedStep = step;
+  }
+  
+  await completeLogin(user, req, res);
 });
 
 /**
@@ -149,6 +261,8 @@ const getMe = catchAsync(async (req, res, next) => {
         availability: user.availability,
         isPublic: user.isPublic,
         role: user.role,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
         profileCompletion: user.profileCompletion,
         averageRating: user.averageRating,
         totalRatings: user.totalRatings,
@@ -186,8 +300,9 @@ const updatePassword = catchAsync(async (req, res, next) => {
   user.password = newPassword;
   await user.save();
   
-  // Generate new JWT token
-  const token = generateToken(user._id);
+  // Sign out every other device and start a fresh session for this one
+  await Session.revokeAllForUser(user._id, 'password-change');
+  const token = await startSession(user, req, res);
   
   res.status(200).json({
     success: true,
@@ -197,7 +312,8 @@ const updatePassword = catchAsync(async (req, res, next) => {
 });
 
 /**
- * Forgot password (basic implementation)
+ * Forgot password
+ * Emails a single-use reset link to the user
  * @route POST /api/auth/forgot-password
  * @access Public
  */
@@ -207,62 +323,125 @@ const forgotPassword = catchAsync(async (req, res, next) => {
   // Check if user exists
   const user = await User.findOne({ email: email.toLowerCase() });
   
+  // Respond the same way whether or not the account exists
+  if (!user || !user.isActive) {
+    return res.status(200).json({
+      success: true,
+      message: 'If an account exists for this email, password reset instructions have been sent'
+    });
+  }
+  
+  // Generate reset token (only the hash is stored on the user)
+  const resetToken = user.createPasswordResetToken();
+  await user.save({ validateBeforeSave: false });
+  
+  const resetUrl = buildFrontendUrl(`/reset-password/${resetToken}`);
+  
+  try {
+    await queueEmail('password-reset', user.email, { name: user.name, resetUrl });
+  } catch (error) {
+    console.error('Error sending password reset email:', error);
+    
+    user.passwordResetToken = undefined;
+    user.passwordResetExpires = undefined;
+    await user.save({ validateBeforeSave: false });
+    
+    return next(new AppError('There was an error sending the email. Please try again later.', 500));
+  }
+  
+  res.status(200).json({
+    success: true,
+    message: 'If an account exists for this email, password reset instructions have been sent'
+  });
+});
+
+/**
+ * Reset password with a token from the reset email
+ * @route POST /api/auth/reset-password/:token
+ * @access Public
+ */
+const resetPassword = catchAsync(async (req, res, next) => {
+  const { password } = req.body;
+  
+  // Find user by hashed token that has not expired yet
+  const user = await User.findOne({
+    passwordResetToken: hashToken(req.params.token),
+    passwordResetExpires: { $gt: Date.now() }
+  }).select('+passwordResetToken +passwordResetExpires');
+  
   if (!user) {
-    return next(new AppError('User with this email does not exist', 404));
+    return next(new AppError('Password reset link is invalid or has expired', 400));
   }
   
-  // For now, just return success message
-  // In a real application, you would:
-  // 1. Generate a reset token
-  // 2. Save it to the database with expiration
-  // 3. Send email with reset link
+  // Set new password and invalidate the token (pre-save hook updates passwordChangedAt)
+  user.password = password;
+  user.passwordResetToken = undefined;
+  user.passwordResetExpires = undefined;
+  await user.save();
+  
+  // Sign out every existing session
+  await Session.revokeAllForUser(user._id, 'password-change');
+  
+  // The reset link replaces the password, not the second factor
+  if (user.twoFactorEnabled) {
+    return res.status(200).json({
+      success: true,
+      message: 'Password reset successfully. Two-factor authentication code required',
+      data: {
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user)
+      }
+    });
+  }
+  
+  const token = await startSession(user, req, res);
   
   res.status(200).json({
     success: true,
-    message: 'Password reset instructions sent to email'
+    message: 'Password reset successfully',
+    token
   });
 });
 
 /**
- * Refresh token
+ * Refresh access token
+ * Rotates the refresh token stored in the httpOnly cookie
  * @route POST /api/auth/refresh
- * @access Private
+ * @access Public (requires refresh token cookie)
  */
 const refreshToken = catchAsync(async (req, res, next) => {
-  const user = await User.findById(req.user._id);
+  const { session, accessToken } = await rotateSession(getRefreshTokenFromRequest(req), req, res);
+  
+  const user = await User.findById(session.user);
   
   if (!user) {
+    await session.revoke('admin');
+    clearRefreshCookie(res);
     return next(new AppError('User not found', 404));
   }
   
   // Check if user is still active and not banned
-  if (user.isBanned) {
-    return next(new AppError('Your account has been banned', 403));
-  }
-  
-  if (!user.isActive) {
-    return next(new AppError('Your account is inactive', 403));
+  if (user.isBanned || !user.isActive) {
+    await session.revoke('admin');
+    clearRefreshCookie(res);
+    return next(new AppError(user.isBanned ? 'Your account has been banned' : 'Your account is inactive', 403));
   }
   
-  // Generate new token
-  const token = generateToken(user._id);
-  
   res.status(200).json({
     success: true,
     message: 'Token refreshed successfully',
-    token
+    token: accessToken
   });
 });
 
 /**
- * Logout user (client-side implementation)
+ * Logout user
+ * Revokes the current session and clears the refresh token cookie
  * @route POST /api/auth/logout
- * @access Private
+ * @access Public (uses refresh token cookie)
  */
 const logout = catchAsync(async (req, res, next) => {
-  // In a JWT-based system, logout is typically handled on the client side
-  // by removing the token from storage
-  // Here we just return a success message
+  await endSession(getRefreshTokenFromRequest(req), res);
   
   res.status(200).json({
     success: true,
@@ -271,7 +450,109 @@ const logout = catchAsync(async (req, res, next) => {
 });
 
 /**
- * Delete account (soft delete)
+ * Get active sessions for the current user
+ * @route GET /api/auth/sessions
+ * @access Private
+ */
+const getSessions = catchAsync(async (req, res, next) => {
+  const sessions = await Session.getActiveSessions(req.user._id);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      sessions: sessions.map(session => ({
+        id: session._id,
+        device: session.device,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        lastUsedAt: session.lastUsedAt,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        isCurrent: session._id.toString() === req.sessionId
+      }))
+    }
+  });
+});
+
+/**
+ * Revoke one of the current user's sessions
+ * @route DELETE /api/auth/sessions/:id
+ * @access Private
+ */
+const revokeSession = catchAsync(async (req, res, next) => {
+  const session = await Session.findOne({ _id: req.params.id, user: req.user._id });
+  
+  if (!session) {
+    return next(new AppError('Session not found', 404));
+  }
+  
+  await session.revoke('user');
+  
+  if (session._id.toString() === req.sessionId) {
+    clearRefreshCookie(res);
+  }
+  
+  res.status(200).json({
+    success: true,
+    message: 'Session revoked successfully'
+  });
+});
+
+/**
+ * Revoke all other sessions of the current user
+ * @route DELETE /api/auth/sessions
+ * @access Private
+ */
+const revokeOtherSessions = catchAsync(async (req, res, next) => {
+  const result = await Session.revokeAllForUser(req.user._id, 'user', req.sessionId);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Other sessions revoked successfully',
+    data: {
+      revokedCount: result.modifiedCount
+    }
+  });
+});
+
+/**
+ * Get the current user's security events (e.g. lockouts)
+ * @route GET /api/auth/security-events
+ * @access Private
+ */
+const getSecurityEvents = catchAsync(async (req, res, next) => {
+  const events = await SecurityEvent.getRecentForUser(req.user._id);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      events: events.map(event => ({
+        id: event._id,
+        type: event.type,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        details: event.details,
+        createdAt: event.createdAt
+      }))
+    }
+  });
+});
+
+/**
+ * Export all personal data as a ZIP archive (JSON and CSV files)
+ * @route GET /api/auth/account/export
+ * @access Private
+ */
+const exportAccountData = catchAsync(async (req, res, next) => {
+  const date = new Date().toISOString().slice(0, 10);
+  
+  res.attachment(`skill-swap-data-${date}.zip`);
+  await writeAccountExport(req.user._id, res);
+});
+
+/**
+ * Delete account
+ * Deactivates the account immediately and anonymises it after a grace period
  * @route DELETE /api/auth/account
  * @access Private
  */
@@ -292,13 +573,29 @@ const deleteAccount = catchAsync(async (req, res, next) => {
     return next(new AppError('Password is incorrect', 400));
   }
   
-  // Soft delete by setting isActive to false
-  user.isActive = false;
-  await user.save();
+  // Deactivate now; the account deletion job anonymises it once the grace period ends
+  const graceDays = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 30;
+  await user.scheduleDeletion(graceDays);
+  
+  // Sign out everywhere
+  await Session.revokeAllForUser(user._id, 'user');
+  clearRefreshCookie(res);
+  
+  try {
+    await queueEmail('account-deletion-scheduled', user.email, {
+      name: user.name,
+      deletionDate: user.deletionScheduledFor.toDateString()
+    });
+  } catch (error) {
+    console.error('Error sending account deletion email:', error);
+  }
   
   res.status(200).json({
     success: true,
-    message: 'Account deleted successfully'
+    message: `Account scheduled for deletion. Log in within ${graceDays} days to cancel.`,
+    data: {
+      deletionScheduledFor: user.deletionScheduledFor
+    }
   });
 });
 
@@ -322,33 +619,87 @@ const checkEmailAvailability = catchAsync(async (req, res, next) => {
 });
 
 /**
- * Verify user account (for future email verification)
+ * Verify user email address
  * @route GET /api/auth/verify/:token
  * @access Public
  */
 const verifyAccount = catchAsync(async (req, res, next) => {
   const { token } = req.params;
   
-  // For now, just return success
-  // In a real application, you would:
-  // 1. Verify the token
-  // 2. Update user's email verification status
+  let decoded;
+  try {
+    decoded = verifyEmailVerificationToken(token);
+  } catch (error) {
+    return next(new AppError('Verification link is invalid or has expired', 400));
+  }
+  
+  const user = await User.findById(decoded.sub);
+  
+  // The token is bound to the address it was sent to
+  if (!user || user.email !== decoded.email) {
+    return next(new AppError('Verification link is invalid or has expired', 400));
+  }
+  
+  if (!user.emailVerified) {
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    await user.save({ validateBeforeSave: false });
+  }
+  
+  res.status(200).json({
+    success: true,
+    message: 'Email verified successfully',
+    data: {
+      emailVerified: true
+    }
+  });
+});
+
+/**
+ * Resend the verification email
+ * @route POST /api/auth/verify/resend
+ * @access Private
+ */
+const resendVerification = catchAsync(async (req, res, next) => {
+  const user = await User.findById(req.user._id);
+  
+  if (!user) {
+    return next(new AppError('User not found', 404));
+  }
+  
+  if (user.emailVerified) {
+    return next(new AppError('Email is already verified', 400));
+  }
+  
+  const sent = await sendVerificationEmail(user);
+  
+  if (!sent) {
+    return next(new AppError('There was an error sending the email. Please try again later.', 500));
+  }
   
   res.status(200).json({
     success: true,
-    message: 'Account verified successfully'
+    message: 'Verification email sent'
   });
 });
 
 module.exports = {
   register,
   login,
+  loginWithTwoFactor,
   getMe,
   updatePassword,
   forgotPassword,
+  resetPassword,
   refreshToken,
   logout,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  getSecurityEvents,
+  exportAccountData,
   deleteAccount,
   checkEmailAvailability,
-  verifyAccount
+  verifyAccount,
+  resendVerification
 };
\ No newline at end of file
@@ -0,0 +1,134 @@
+const Swap = require('../models/Swap');
+const SwapSession = require('../models/SwapSession');
+const User = require('../models/User');
+const { catchAsync, AppError } = require('../middleware/errorHandler');
+const {
+  buildSwapCalendar,
+  buildFeed,
+  createFeedToken,
+  revokeFeedToken,
+  findFeedOwner
+} = require('../services/calendarService');
+
+/**
+ * Calendar Controller
+ * Handles iCalendar (.ics) downloads of swap sessions and members' calendar feeds
+ */
+
+const sendCalendar = (res, calendar, filename) => {
+  res.set({
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Cache-Control': 'private, no-cache'
+  });
+  
+  if (filename) {
+    res.attachment(filename);
+  }
+  
+  res.status(200).send(calendar);
+};
+
+/**
+ * Download a swap's sessions as an .ics file
+ * @route GET /api/swaps/:id/calendar.ics
+ * @access Private (swap participants only)
+ */
+const downloadSwapCalendar = catchAsync(async (req, res, next) => {
+  const swap = await Swap.findById(req.params.id).populate('requester receiver', 'name');
+  
+  if (!swap) {
+    return next(new AppError('Swap not found', 404));
+  }
+  
+  const isParticipant = [swap.requester, swap.receiver].some(member => member._id.equals(req.user._id));
+  
+  if (!isParticipant) {
+    return next(new AppError('You do not have permission to view this swap', 403));
+  }
+  
+  const sessions = await SwapSession.find({ swap: swap._id }).sort({ scheduledFor: 1 });
+  
+  if (sessions.length === 0 && !swap.confirmedDate) {
+    return next(new AppError('This swap has no sessions scheduled yet', 404));
+  }
+  
+  sendCalendar(res, buildSwapCalendar(swap, sessions, req.user), `skill-swap-${swap._id}.ics`);
+});
+
+/**
+ * Get the status of the current user's calendar feed
+ * @route GET /api/calendar/feed
+ * @access Private
+ */
+const getFeedStatus = catchAsync(async (req, res, next) => {
+  const user = await User.findById(req.user._id).select('+calendarFeed.tokenHash');
+  const feed = user.calendarFeed || {};
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      enabled: !!feed.tokenHash,
+      createdAt: feed.createdAt,
+      lastAccessedAt: feed.lastAccessedAt
+    }
+  });
+});
+
+/**
+ * Create a calendar feed URL for the current user
+ * Replaces any earlier URL, which stops working
+ * @route POST /api/calendar/feed
+ * @access Private
+ */
+const createFeed = catchAsync(async (req, res, next) => {
+  const { url, createdAt } = await createFeedToken(req.user);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Calendar feed created. Copy the URL now; it will not be shown again.',
+    data: {
+      url,
+      // Opens the subscription dialog of most calendar apps
+      webcalUrl: url.replace(/^https?:/, 'webcal:'),
+      createdAt
+    }
+  });
+});
+
+/**
+ * Turn off the current user's calendar feed
+ * @route DELETE /api/calendar/feed
+ * @access Private
+ */
+const deleteFeed = catchAsync(async (req, res, next) => {
+  await revokeFeedToken(req.user);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Calendar feed turned off'
+  });
+});
+
+/**
+ * Calendar feed of a member's swap sessions, for calendar apps to subscribe to
+ * The secret token in the URL identifies the member
+ * @route GET /api/calendar/:token.ics
+ * @access Public (feed token)
+ */
+const getFeed = catchAsync(async (req, res, next) => {
+  const user = await findFeedOwner(req.params.token);
+  
+  if (!user) {
+    return next(new AppError('Calendar feed not found', 404));
+  }
+  
+  sendCalendar(res, await buildFeed(user));
+});
+
+module.exports = {
+  downloadSwapCalendar,
+  getFeedStatus,
+  createFeed,
+  deleteFeed,
+  getFeed
+};
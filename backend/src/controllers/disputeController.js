@@ -0,0 +1,146 @@
+const Swap = require('../models/Swap');
+const Dispute = require('../models/Dispute');
+const SwapSession = require('../models/SwapSession');
+const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { populateDispute, openDispute, addDisputeComment } = require('../services/disputeService');
+
+/**
+ * Dispute Controller
+ * Handles disputes between swap partners: opening them and adding each side of the story
+ */
+
+/**
+ * Load a dispute for one of its members or an admin
+ */
+const findVisibleDispute = async (disputeId, user) => {
+  const dispute = await Dispute.findById(disputeId);
+  
+  if (!dispute) {
+    throw new AppError('Dispute not found', 404);
+  }
+  
+  if (user.role !== 'admin' && !dispute.involves(user._id)) {
+    throw new AppError('You do not have permission to view this dispute', 403);
+  }
+  
+  return dispute;
+};
+
+/**
+ * Open a dispute about a swap partner
+ * @route POST /api/disputes
+ * @access Private (swap participants only)
+ */
+const createDispute = catchAsync(async (req, res, next) => {
+  const { swap: swapId, session: sessionId, reason, body, evidence } = req.body;
+  
+  const swap = await Swap.findById(swapId);
+  
+  if (!swap) {
+    return next(new AppError('Swap not found', 404));
+  }
+  
+  let session;
+  if (sessionId) {
+    session = await SwapSession.findOne({ _id: sessionId, swap: swap._id });
+    
+    if (!session) {
+      return next(new AppError('Session not found', 404));
+    }
+  }
+  
+  const dispute = await openDispute(swap, req.user, { session, reason, body, evidence });
+  await populateDispute(dispute);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Dispute opened successfully',
+    data: {
+      dispute
+    }
+  });
+});
+
+/**
+ * Get the current user's disputes, newest first
+ * @route GET /api/disputes
+ * @access Private
+ */
+const getDisputes = catchAsync(async (req, res, next) => {
+  const { swap, status, page = 1, limit = 20 } = req.query;
+  
+  const query = { $or: [{ openedBy: req.user._id }, { against: req.user._id }] };
+  if (swap) query.swap = swap;
+  if (status) query.status = status;
+  
+  const skip = (page - 1) * limit;
+  
+  const [disputes, totalDisputes] = await Promise.all([
+    populateDispute(Dispute.find(query))
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit)),
+    Dispute.countDocuments(query)
+  ]);
+  
+  const totalPages = Math.ceil(totalDisputes / limit);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      disputes,
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalDisputes,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+});
+
+/**
+ * Get a single dispute
+ * @route GET /api/disputes/:id
+ * @access Private (dispute members and admins)
+ */
+const getDispute = catchAsync(async (req, res, next) => {
+  const dispute = await findVisibleDispute(req.params.id, req.user);
+  await populateDispute(dispute, req.user.role === 'admin');
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      dispute
+    }
+  });
+});
+
+/**
+ * Add a comment, with optional evidence links, to an open dispute
+ * @route POST /api/disputes/:id/comments
+ * @access Private (dispute members only)
+ */
+const addComment = catchAsync(async (req, res, next) => {
+  const dispute = await findVisibleDispute(req.params.id, req.user);
+  const { body, evidence } = req.body;
+  
+  await addDisputeComment(dispute, req.user, { body, evidence });
+  await populateDispute(dispute);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Comment added successfully',
+    data: {
+      dispute
+    }
+  });
+});
+
+module.exports = {
+  createDispute,
+  getDisputes,
+  getDispute,
+  addComment
+};
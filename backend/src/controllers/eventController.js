@@ -0,0 +1,31 @@
+const Session = require('../models/Session');
+const { catchAsync } = require('../middleware/errorHandler');
+const { subscribe } = require('../services/eventService');
+
+/**
+ * Event Controller
+ * Opens the real-time event stream for the signed-in member
+ */
+
+/**
+ * Stream swap, message, rating and admin message events as Server-Sent Events
+ * @route GET /api/events
+ * @access Private
+ */
+const streamEvents = catchAsync(async (req, res, next) => {
+  const unsubscribe = subscribe(req.user, res, {
+    // The stream ends once the session it was opened with is revoked
+    isActive: async () => {
+      if (!req.sessionId) return true;
+      
+      const session = await Session.findById(req.sessionId);
+      return Boolean(session && session.isActive);
+    }
+  });
+  
+  req.on('close', unsubscribe);
+});
+
+module.exports = {
+  streamEvents
+};
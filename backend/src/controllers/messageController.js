@@ -0,0 +1,225 @@
+const Swap = require('../models/Swap');
+const Conversation = require('../models/Conversation');
+const Message = require('../models/Message');
+const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { publish } = require('../services/eventService');
+
+/**
+ * Message Controller
+ * Handles the message thread of a swap between its requester and receiver
+ */
+
+const SENDER_FIELDS = 'name profilePhoto';
+
+/**
+ * Tell both members of a conversation that one of its messages changed
+ */
+const publishMessageEvent = (conversation, type, message, sender) => {
+  publish(conversation.participants, type, {
+    swapId: conversation.swap.toString(),
+    messageId: message._id.toString(),
+    senderId: sender._id.toString(),
+    senderName: sender.name
+  });
+};
+
+/**
+ * Load a swap's conversation for one of its participants
+ * Admins can read any thread but cannot write to it
+ */
+const findSwapConversation = async (swapId, user, { write = false } = {}) => {
+  const swap = await Swap.findById(swapId).populate('requester receiver', 'name isBanned');
+  
+  if (!swap) {
+    throw new AppError('Swap not found', 404);
+  }
+  
+  const isParticipant = [swap.requester, swap.receiver].some(member => member._id.equals(user._id));
+  
+  if (!isParticipant && (write || user.role !== 'admin')) {
+    throw new AppError('You do not have permission to access messages for this swap', 403);
+  }
+  
+  if (write && (swap.requester.isBanned || swap.receiver.isBanned)) {
+    throw new AppError('Messaging is blocked because a member of this swap is banned', 403);
+  }
+  
+  const conversation = await Conversation.findOrCreateForSwap(swap);
+  
+  return { swap, conversation };
+};
+
+/**
+ * Load a message the current user sent in a swap's conversation
+ */
+const findOwnMessage = async (conversation, messageId, user) => {
+  const message = await Message.findOne({ _id: messageId, conversation: conversation._id });
+  
+  if (!message) {
+    throw new AppError('Message not found', 404);
+  }
+  
+  if (!message.sender.equals(user._id)) {
+    throw new AppError('You can only change your own messages', 403);
+  }
+  
+  if (message.isDeleted) {
+    throw new AppError('This message has been deleted', 400);
+  }
+  
+  return message;
+};
+
+/**
+ * Get a page of a swap's messages, newest first
+ * @route GET /api/swaps/:id/messages
+ * @access Private (swap participants and admins)
+ */
+const getMessages = catchAsync(async (req, res, next) => {
+  const { page = 1, limit = 30 } = req.query;
+  const { conversation } = await findSwapConversation(req.params.id, req.user);
+  
+  const skip = (page - 1) * limit;
+  const query = { conversation: conversation._id };
+  
+  const [messages, totalMessages, unreadCount] = await Promise.all([
+    Message.find(query)
+      .populate('sender', SENDER_FIELDS)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit)),
+    Message.countDocuments(query),
+    Message.countUnread(conversation._id, req.user._id)
+  ]);
+  
+  const totalPages = Math.ceil(totalMessages / limit);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      conversation,
+      messages,
+      unreadCount,
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalMessages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+});
+
+/**
+ * Send a message in a swap's conversation
+ * @route POST /api/swaps/:id/messages
+ * @access Private (swap participants)
+ */
+const sendMessage = catchAsync(async (req, res, next) => {
+  const { conversation } = await findSwapConversation(req.params.id, req.user, { write: true });
+  
+  const message = await Message.create({
+    conversation: conversation._id,
+    sender: req.user._id,
+    body: req.body.body
+  });
+  
+  conversation.lastMessageAt = message.createdAt;
+  await conversation.save();
+  await message.populate('sender', SENDER_FIELDS);
+  publishMessageEvent(conversation, 'message.new', message, req.user);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Message sent successfully',
+    data: {
+      message
+    }
+  });
+});
+
+/**
+ * Mark the messages the current user received as read
+ * @route PUT /api/swaps/:id/messages/read
+ * @access Private (swap participants)
+ */
+const markMessagesRead = catchAsync(async (req, res, next) => {
+  const { conversation } = await findSwapConversation(req.params.id, req.user);
+  
+  if (!conversation.hasParticipant(req.user._id)) {
+    return next(new AppError('Only swap participants can mark messages as read', 403));
+  }
+  
+  const result = await Message.markRead(conversation._id, req.user._id);
+  
+  if (result.modifiedCount > 0) {
+    publish(conversation.participants, 'message.read', {
+      swapId: conversation.swap.toString(),
+      readerId: req.user._id.toString()
+    });
+  }
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      markedRead: result.modifiedCount
+    }
+  });
+});
+
+/**
+ * Edit a message within its edit window
+ * @route PUT /api/swaps/:id/messages/:messageId
+ * @access Private (sender only)
+ */
+const editMessage = catchAsync(async (req, res, next) => {
+  const { conversation } = await findSwapConversation(req.params.id, req.user, { write: true });
+  const message = await findOwnMessage(conversation, req.params.messageId, req.user);
+  
+  if (message.editableUntil < new Date()) {
+    return next(new AppError('Messages can only be edited within 15 minutes of sending', 400));
+  }
+  
+  await message.edit(req.body.body);
+  await message.populate('sender', SENDER_FIELDS);
+  publishMessageEvent(conversation, 'message.updated', message, req.user);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Message updated successfully',
+    data: {
+      message
+    }
+  });
+});
+
+/**
+ * Delete a message within its delete window
+ * @route DELETE /api/swaps/:id/messages/:messageId
+ * @access Private (sender only)
+ */
+const deleteMessage = catchAsync(async (req, res, next) => {
+  const { conversation } = await findSwapConversation(req.params.id, req.user);
+  const message = await findOwnMessage(conversation, req.params.messageId, req.user);
+  
+  if (message.deletableUntil < new Date()) {
+    return next(new AppError('Messages can only be deleted within an hour of sending', 400));
+  }
+  
+  await message.softDelete();
+  publishMessageEvent(conversation, 'message.deleted', message, req.user);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Message deleted successfully'
+  });
+});
+
+module.exports = {
+  getMessages,
+  sendMessage,
+  markMessagesRead,
+  editMessage,
+  deleteMessage
+};
@@ -0,0 +1,241 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { catchAsync } = require('../middleware/errorHandler');
+const { MOCK_CLIENT, getMockIssuer } = require('../config/oidc');
+const { buildFrontendUrl } = require('../services/mailService');
+const { generateRandomToken } = require('../utils/tokenUtils');
+
+/**
+ * Mock OIDC Provider Controller
+ * A minimal OpenID Connect provider for local development. It signs in
+ * whoever is typed into its form, so it must never be enabled in production.
+ */
+
+const CODE_LIFETIME_MS = 60 * 1000;
+const ID_TOKEN_LIFETIME_SECONDS = 5 * 60;
+
+// Signing key is generated per process; clients rediscover it through the JWKS endpoint
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = generateRandomToken(8);
+
+// Issued authorization codes, keyed by code
+const authorizationCodes = new Map();
+
+const escapeHtml = (value = '') => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const sendOAuthError = (res, statusCode, error, description) => {
+  res.status(statusCode).json({ error, error_description: description });
+};
+
+/**
+ * Read client credentials from HTTP Basic auth or the request body
+ */
+const getClientCredentials = (req) => {
+  const header = req.headers.authorization || '';
+  
+  if (header.startsWith('Basic ')) {
+    const [clientId, clientSecret] = Buffer.from(header.slice(6), 'base64').toString().split(':');
+    return {
+      clientId: decodeURIComponent(clientId || ''),
+      clientSecret: decodeURIComponent(clientSecret || '')
+    };
+  }
+  
+  return { clientId: req.body.client_id, clientSecret: req.body.client_secret };
+};
+
+/**
+ * Provider metadata
+ * @route GET /mock-oidc/.well-known/openid-configuration
+ * @access Public
+ */
+const getConfiguration = (req, res) => {
+  const issuer = getMockIssuer();
+  
+  res.status(200).json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+    code_challenge_methods_supported: ['S256'],
+    claims_supported: ['sub', 'email', 'email_verified', 'name']
+  });
+};
+
+/**
+ * Public signing keys
+ * @route GET /mock-oidc/jwks
+ * @access Public
+ */
+const getJwks = (req, res) => {
+  res.status(200).json({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }]
+  });
+};
+
+/**
+ * Show the sign-in form
+ * @route GET /mock-oidc/authorize
+ * @access Public
+ */
+const showAuthorizeForm = (req, res) => {
+  const { client_id, redirect_uri, response_type, code_challenge, code_challenge_method } = req.query;
+  
+  if (client_id !== MOCK_CLIENT.clientId || !redirect_uri) {
+    return res.status(400).send('Unknown client');
+  }
+  
+  if (response_type !== 'code' || !code_challenge || code_challenge_method !== 'S256') {
+    return res.status(400).send('Only the authorization code flow with S256 PKCE is supported');
+  }
+  
+  const hiddenFields = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(req.query[name])}">`)
+    .join('\n');
+  
+  // The form posts here and is redirected through the API callback to the frontend
+  res.set('Content-Security-Policy', `default-src 'none'; style-src 'unsafe-inline'; form-action 'self' ${new URL(buildFrontendUrl('/')).origin}`);
+  
+  res.status(200).type('html').send(`<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Mock SSO</title>
+<style>
+  body { font-family: sans-serif; max-width: 360px; margin: 60px auto; }
+  label { display: block; margin-top: 12px; }
+  input[type=text], input[type=email] { width: 100%; padding: 6px; }
+  button { margin-top: 16px; padding: 8px 16px; }
+</style>
+</head>
+<body>
+<h1>Mock SSO</h1>
+<p>Development sign-in. Any details entered here are trusted.</p>
+<form method="post" action="${escapeHtml(getMockIssuer())}/authorize">
+${hiddenFields}
+<label>Email <input type="email" name="email" required></label>
+<label>Name <input type="text" name="name"></label>
+<label><input type="checkbox" name="email_verified" value="true" checked> Email verified</label>
+<button type="submit">Sign in</button>
+</form>
+</body>
+</html>`);
+};
+
+/**
+ * Issue an authorization code for the submitted identity
+ * @route POST /mock-oidc/authorize
+ * @access Public
+ */
+const approveAuthorization = (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, email, name, email_verified } = req.body;
+  
+  if (client_id !== MOCK_CLIENT.clientId || !redirect_uri || !code_challenge || !email) {
+    return res.status(400).send('Invalid authorization request');
+  }
+  
+  // Drop codes that were never exchanged
+  authorizationCodes.forEach((authorization, issuedCode) => {
+    if (authorization.expiresAt < Date.now()) {
+      authorizationCodes.delete(issuedCode);
+    }
+  });
+  
+  const code = generateRandomToken();
+  const normalizedEmail = email.trim().toLowerCase();
+  
+  authorizationCodes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce,
+    codeChallenge: code_challenge,
+    claims: {
+      // Stable subject per email so repeat sign-ins match the linked identity
+      sub: crypto.createHash('sha256').update(normalizedEmail).digest('hex').slice(0, 24),
+      email: normalizedEmail,
+      email_verified: email_verified === 'true',
+      name: name ? name.trim() : undefined
+    },
+    expiresAt: Date.now() + CODE_LIFETIME_MS
+  });
+  
+  const redirectUrl = new URL(redirect_uri);
+  redirectUrl.searchParams.set('code', code);
+  if (state) {
+    redirectUrl.searchParams.set('state', state);
+  }
+  
+  res.redirect(redirectUrl.toString());
+};
+
+/**
+ * Exchange an authorization code for an ID token
+ * @route POST /mock-oidc/token
+ * @access Public (client credentials)
+ */
+const exchangeToken = catchAsync(async (req, res, next) => {
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+  const { clientId, clientSecret } = getClientCredentials(req);
+  
+  if (clientId !== MOCK_CLIENT.clientId || clientSecret !== MOCK_CLIENT.clientSecret) {
+    return sendOAuthError(res, 401, 'invalid_client', 'Client authentication failed');
+  }
+  
+  if (grant_type !== 'authorization_code') {
+    return sendOAuthError(res, 400, 'unsupported_grant_type', 'Only authorization_code is supported');
+  }
+  
+  // Codes are single use
+  const authorization = authorizationCodes.get(code);
+  authorizationCodes.delete(code);
+  
+  if (!authorization || authorization.expiresAt < Date.now() ||
+    authorization.clientId !== clientId || authorization.redirectUri !== redirect_uri) {
+    return sendOAuthError(res, 400, 'invalid_grant', 'Authorization code is invalid or expired');
+  }
+  
+  const challenge = code_verifier
+    ? crypto.createHash('sha256').update(code_verifier).digest('base64url')
+    : null;
+  
+  if (challenge !== authorization.codeChallenge) {
+    return sendOAuthError(res, 400, 'invalid_grant', 'PKCE verification failed');
+  }
+  
+  const idToken = jwt.sign(
+    { ...authorization.claims, nonce: authorization.nonce },
+    privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    {
+      algorithm: 'RS256',
+      keyid: KEY_ID,
+      issuer: getMockIssuer(),
+      audience: clientId,
+      expiresIn: ID_TOKEN_LIFETIME_SECONDS
+    }
+  );
+  
+  res.set('Cache-Control', 'no-store');
+  res.status(200).json({
+    access_token: generateRandomToken(),
+    token_type: 'Bearer',
+    expires_in: ID_TOKEN_LIFETIME_SECONDS,
+    id_token: idToken
+  });
+});
+
+module.exports = {
+  getConfiguration,
+  getJwks,
+  showAuthorizeForm,
+  approveAuthorization,
+  exchangeToken
+};
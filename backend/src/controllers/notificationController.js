@@ -0,0 +1,239 @@
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { NOTIFICATION_CATEGORIES } = require('../utils/notificationTypes');
+const { getNextDigestAt } = require('../services/digestService');
+
+/**
+ * Notification Controller
+ * Handles the current user's notification center and notification preferences
+ */
+
+/**
+ * Load one of the current user's notifications
+ */
+const findOwnNotification = async (notificationId, user) => {
+  const notification = await Notification.findOne({ _id: notificationId, user: user._id });
+  
+  if (!notification) {
+    throw new AppError('Notification not found', 404);
+  }
+  
+  return notification;
+};
+
+/**
+ * Get the current user's notifications, newest first
+ * @route GET /api/notifications
+ * @access Private
+ */
+const getNotifications = catchAsync(async (req, res, next) => {
+  const { page = 1, limit = 20, unread } = req.query;
+  
+  const skip = (page - 1) * limit;
+  const query = { user: req.user._id };
+  
+  if (unread === 'true') {
+    query.readAt = null;
+  }
+  
+  const [notifications, totalNotifications, unreadCount] = await Promise.all([
+    Notification.find(query)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit)),
+    Notification.countDocuments(query),
+    Notification.countUnread(req.user._id)
+  ]);
+  
+  const totalPages = Math.ceil(totalNotifications / limit);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      notifications,
+      unreadCount,
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalNotifications,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+});
+
+/**
+ * Get the number of unread notifications
+ * @route GET /api/notifications/unread-count
+ * @access Private
+ */
+const getUnreadCount = catchAsync(async (req, res, next) => {
+  const unreadCount = await Notification.countUnread(req.user._id);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      unreadCount
+    }
+  });
+});
+
+/**
+ * Mark a notification as read
+ * @route PUT /api/notifications/:id/read
+ * @access Private
+ */
+const markNotificationRead = catchAsync(async (req, res, next) => {
+  const notification = await findOwnNotification(req.params.id, req.user);
+  
+  await notification.markRead();
+  
+  res.status(200).json({
+    success: true,
+    message: 'Notification marked as read',
+    data: {
+      notification
+    }
+  });
+});
+
+/**
+ * Mark all of the current user's notifications as read
+ * @route PUT /api/notifications/read-all
+ * @access Private
+ */
+const markAllNotificationsRead = catchAsync(async (req, res, next) => {
+  const result = await Notification.markAllRead(req.user._id);
+  
+  res.status(200).json({
+    success: true,
+    message: 'All notifications marked as read',
+    data: {
+      markedRead: result.modifiedCount
+    }
+  });
+});
+
+/**
+ * Delete a notification
+ * @route DELETE /api/notifications/:id
+ * @access Private
+ */
+const deleteNotification = catchAsync(async (req, res, next) => {
+  const notification = await findOwnNotification(req.params.id, req.user);
+  
+  await notification.deleteOne();
+  
+  res.status(200).json({
+    success: true,
+    message: 'Notification deleted successfully'
+  });
+});
+
+/**
+ * Clear notifications in bulk: read ones by default, or all with ?scope=all
+ * @route DELETE /api/notifications
+ * @access Private
+ */
+const clearNotifications = catchAsync(async (req, res, next) => {
+  const query = { user: req.user._id };
+  
+  if (req.query.scope !== 'all') {
+    query.readAt = { $ne: null };
+  }
+  
+  const result = await Notification.deleteMany(query);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Notifications cleared successfully',
+    data: {
+      deleted: result.deletedCount
+    }
+  });
+});
+
+/**
+ * Preferences response shared by the get and update handlers
+ */
+const formatPreferences = (user) => ({
+  preferences: user.notificationPreferences,
+  categories: NOTIFICATION_CATEGORIES,
+  digest: {
+    frequency: user.digest.frequency,
+    nextDueAt: user.digest.nextDueAt,
+    lastSentAt: user.digest.lastSentAt
+  },
+  timezone: user.timezone
+});
+
+/**
+ * Get the current user's notification preferences
+ * @route GET /api/notifications/preferences
+ * @access Private
+ */
+const getNotificationPreferences = catchAsync(async (req, res, next) => {
+  const user = await User.findById(req.user._id).select('notificationPreferences digest timezone');
+  
+  res.status(200).json({
+    success: true,
+    data: formatPreferences(user)
+  });
+});
+
+/**
+ * Update the current user's notification preferences, digest frequency and time zone
+ * Only the fields sent are changed
+ * @route PUT /api/notifications/preferences
+ * @access Private
+ */
+const updateNotificationPreferences = catchAsync(async (req, res, next) => {
+  const { digestFrequency, timezone } = req.body;
+  const updates = {};
+  const removals = {};
+  
+  Object.keys(NOTIFICATION_CATEGORIES).forEach(category => {
+    if (req.body[category] !== undefined) {
+      updates[`notificationPreferences.${category}`] = req.body[category];
+    }
+  });
+  
+  if (digestFrequency !== undefined) updates['digest.frequency'] = digestFrequency;
+  if (timezone !== undefined) updates.timezone = timezone;
+  
+  // A new frequency or time zone moves the next digest
+  if (digestFrequency !== undefined || timezone !== undefined) {
+    const frequency = digestFrequency || req.user.digest.frequency;
+    
+    if (frequency === 'off') {
+      removals['digest.nextDueAt'] = '';
+    } else {
+      updates['digest.nextDueAt'] = getNextDigestAt(new Date(), frequency, timezone || req.user.timezone);
+    }
+  }
+  
+  const user = await User.findByIdAndUpdate(
+    req.user._id,
+    { $set: updates, $unset: removals },
+    { new: true, runValidators: true }
+  ).select('notificationPreferences digest timezone');
+  
+  res.status(200).json({
+    success: true,
+    message: 'Notification preferences updated successfully',
+    data: formatPreferences(user)
+  });
+});
+
+module.exports = {
+  getNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  deleteNotification,
+  clearNotifications,
+  getNotificationPreferences,
+  updateNotificationPreferences
+};
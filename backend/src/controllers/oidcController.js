@@ -0,0 +1,124 @@
+const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { generateTwoFactorChallengeToken } = require('../middleware/auth');
+const { getOidcProviders: getConfiguredProviders, getOidcProvider } = require('../config/oidc');
+const {
+  createAuthorizationRequest,
+  completeAuthorization,
+  setFlowCookie,
+  consumeFlowCookie,
+  resolveUserFromClaims
+} = require('../services/oidcService');
+const { startSession } = require('../services/sessionService');
+const { clearFailedLogins } = require('../services/loginThrottleService');
+const { buildFrontendUrl } = require('../services/mailService');
+
+/**
+ * OIDC Controller
+ * Handles sign-in with external OpenID Connect providers
+ */
+
+/**
+ * Send the browser back to the login page with an error message
+ */
+const redirectWithError = (res, message) => {
+  res.redirect(buildFrontendUrl(`/login?error=${encodeURIComponent(message)}`));
+};
+
+/**
+ * Get the providers available for sign-in
+ * @route GET /api/auth/oidc/providers
+ * @access Public
+ */
+const getOidcProviders = catchAsync(async (req, res, next) => {
+  const providers = getConfiguredProviders().map(({ id, name }) => ({ id, name }));
+  
+  res.status(200).json({
+    success: true,
+    data: { providers }
+  });
+});
+
+/**
+ * Redirect to the provider's authorization endpoint
+ * @route GET /api/auth/oidc/:provider/authorize
+ * @access Public
+ */
+const authorizeOidc = catchAsync(async (req, res, next) => {
+  const provider = getOidcProvider(req.params.provider);
+  
+  if (!provider) {
+    return next(new AppError('Unknown sign-in provider', 404));
+  }
+  
+  let authorization;
+  try {
+    authorization = await createAuthorizationRequest(provider);
+  } catch (error) {
+    console.error(`Error contacting OIDC provider ${provider.id}:`, error.message);
+    return redirectWithError(res, `${provider.name} is currently unavailable`);
+  }
+  
+  setFlowCookie(res, authorization.flow);
+  res.redirect(authorization.url);
+});
+
+/**
+ * Handle the provider's redirect back and sign the user in
+ * @route GET /api/auth/oidc/:provider/callback
+ * @access Public (requires flow cookie from authorize)
+ */
+const oidcCallback = catchAsync(async (req, res, next) => {
+  const provider = getOidcProvider(req.params.provider);
+  const flow = consumeFlowCookie(req, res);
+  
+  if (!provider || !flow || flow.provider !== provider.id) {
+    return redirectWithError(res, 'Your sign-in attempt has expired. Please try again.');
+  }
+  
+  if (req.query.error) {
+    return redirectWithError(res, req.query.error_description || 'Sign-in was cancelled');
+  }
+  
+  let user;
+  try {
+    const claims = await completeAuthorization(provider, req, flow);
+    user = await resolveUserFromClaims(provider.id, claims);
+  } catch (error) {
+    console.error(`OIDC sign-in with ${provider.id} failed:`, error.message);
+    return redirectWithError(res, error.isOperational ? error.message : `Sign-in with ${provider.name} failed`);
+  }
+  
+  if (user.isBanned) {
+    return redirectWithError(res, 'Your account has been banned. Please contact support.');
+  }
+  
+  if (!user.isActive && !user.isPendingDeletion) {
+    return redirectWithError(res, 'Your account is inactive. Please contact support.');
+  }
+  
+  // The provider replaces the password, not the second factor
+  if (user.twoFactorEnabled) {
+    const challengeToken = generateTwoFactorChallengeToken(user);
+    return res.redirect(buildFrontendUrl(`/login/two-factor#challenge=${challengeToken}`));
+  }
+  
+  await clearFailedLogins(user.email);
+  
+  if (user.isPendingDeletion) {
+    user.cancelDeletion();
+  }
+  
+  user.lastLogin = new Date();
+  await user.save({ validateBeforeSave: false });
+  
+  // Only the refresh cookie is set here; the frontend exchanges it for an access token
+  await startSession(user, req, res);
+  
+  res.redirect(buildFrontendUrl('/auth/callback'));
+});
+
+module.exports = {
+  getOidcProviders,
+  authorizeOidc,
+  oidcCallback
+};
@@ -2,6 +2,8 @@ const Rating = require('../models/Rating');
 const Swap = require('../models/Swap');
 const User = require('../models/User');
 const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { publish } = require('../services/eventService');
+const { notifyRatingReceived } = require('../services/notificationService');
 
 /**
  * Rating Controller
@@ -86,6 +88,14 @@ const createRating = catchAsync(async (req, res, next) => {
     { path: 'swap', select: 'requestedSkill offeredSkill completedAt' }
   ]);
   
+  publish([reviewee], 'rating.new', {
+    ratingId: newRating._id.toString(),
+    swapId: newRating.swap._id.toString(),
+    rating: newRating.rating,
+    reviewerName: newRating.isAnonymous ? null : newRating.reviewer.name
+  });
+  await notifyRatingReceived(newRating);
+  
   res.status(201).json({
     success: true,
     message: 'Rating created successfully',
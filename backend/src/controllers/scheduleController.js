@@ -0,0 +1,175 @@
+const Swap = require('../models/Swap');
+const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { publishSwapEvent } = require('../services/eventService');
+const { notifySwapUpdate } = require('../services/notificationService');
+const { DEFAULT_RANGE_DAYS, findOpenSlots, assertSlotsOpen } = require('../services/schedulingService');
+const { resolveTeacherRole, createSession } = require('../services/swapSessionService');
+const { assertCanAfford } = require('../services/creditService');
+
+/**
+ * Schedule Controller
+ * Handles picking a session time for a swap: one member proposes times both
+ * members are free, the other confirms one of them, which books a session
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Swaps whose session can still be (re)scheduled
+const SCHEDULABLE_STATUSES = ['pending', 'accepted'];
+
+/**
+ * Load a swap for one of its participants
+ */
+const findMemberSwap = async (swapId, user) => {
+  const swap = await Swap.findById(swapId);
+  
+  if (!swap) {
+    throw new AppError('Swap not found', 404);
+  }
+  
+  if (!swap.requester.equals(user._id) && !swap.receiver.equals(user._id)) {
+    throw new AppError('You do not have permission to schedule this swap', 403);
+  }
+  
+  return swap;
+};
+
+const assertSchedulable = (swap) => {
+  if (!SCHEDULABLE_STATUSES.includes(swap.status)) {
+    throw new AppError(`Sessions cannot be scheduled for a swap that is ${swap.status}`, 400);
+  }
+};
+
+const describeMember = (member) => ({
+  id: member._id,
+  name: member.name,
+  timezone: member.timezone,
+  hasAvailability: member.availabilityWindows.length > 0
+});
+
+/**
+ * Get session times both members are available and free
+ * @route GET /api/swaps/:id/schedule/slots
+ * @access Private (swap participants only)
+ */
+const getOpenSlots = catchAsync(async (req, res, next) => {
+  const swap = await findMemberSwap(req.params.id, req.user);
+  
+  const from = req.query.from ? new Date(req.query.from) : new Date();
+  const to = req.query.to ? new Date(req.query.to) : new Date(from.getTime() + DEFAULT_RANGE_DAYS * DAY_MS);
+  const minutes = req.query.minutes ? parseInt(req.query.minutes) : swap.sessionMinutes;
+  
+  const { slots, members } = await findOpenSlots(swap, { from, to, minutes });
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      slots,
+      sessionMinutes: minutes,
+      members: {
+        requester: describeMember(members.requester),
+        receiver: describeMember(members.receiver)
+      }
+    }
+  });
+});
+
+/**
+ * Propose session times for the other member to pick from
+ * Replaces any earlier proposal; the teacher defaults to the member with the fewest sessions
+ * @route POST /api/swaps/:id/schedule/proposal
+ * @access Private (swap participants only)
+ */
+const proposeSlots = catchAsync(async (req, res, next) => {
+  const swap = await findMemberSwap(req.params.id, req.user);
+  assertSchedulable(swap);
+  
+  const minutes = req.body.sessionMinutes || swap.sessionMinutes;
+  const slots = [...new Set(req.body.slots.map(start => new Date(start).getTime()))]
+    .sort((a, b) => a - b)
+    .map(start => ({ start: new Date(start), end: new Date(start + minutes * MINUTE_MS) }));
+  
+  await assertSlotsOpen(swap, slots, req.user);
+  const teacherRole = await resolveTeacherRole(swap, req.body.teacher);
+  
+  // Longer sessions cost the requester of a credit swap more credits
+  if (swap.paymentType === 'credits' && minutes !== swap.sessionMinutes) {
+    await assertCanAfford({ ...swap.toObject(), sessionMinutes: minutes });
+  }
+  
+  swap.sessionMinutes = minutes;
+  swap.slotProposal = { proposedBy: req.user._id, slots, teacher: swap[teacherRole] };
+  await swap.save();
+  
+  publishSwapEvent(swap, 'swap.slots-proposed', { actorId: req.user._id.toString() });
+  await notifySwapUpdate(swap, 'swap.slots-proposed', req.user);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Session times proposed successfully',
+    data: {
+      swap
+    }
+  });
+});
+
+/**
+ * Confirm one of the session times proposed by the other member, booking it as a session
+ * @route POST /api/swaps/:id/schedule/confirm
+ * @access Private (the member who did not propose the times)
+ */
+const confirmSlot = catchAsync(async (req, res, next) => {
+  const swap = await findMemberSwap(req.params.id, req.user);
+  assertSchedulable(swap);
+  
+  const proposal = swap.slotProposal;
+  
+  if (!proposal || proposal.slots.length === 0) {
+    return next(new AppError('No session times have been proposed for this swap', 400));
+  }
+  
+  if (proposal.proposedBy.equals(req.user._id)) {
+    return next(new AppError('The other member has to confirm the times you proposed', 403));
+  }
+  
+  const slot = proposal.slots.id(req.body.slotId);
+  
+  if (!slot) {
+    return next(new AppError('Session time not found in the proposal', 404));
+  }
+  
+  // Either member may have booked another session since the times were proposed
+  await assertSlotsOpen(swap, [slot], req.user);
+  
+  // Saved with the swap's progress once the session is booked
+  swap.slotProposal = undefined;
+  
+  const session = await createSession(swap, {
+    teacher: proposal.teacher,
+    scheduledFor: slot.start,
+    minutes: Math.round((slot.end - slot.start) / MINUTE_MS)
+  }, req.user);
+  
+  publishSwapEvent(swap, 'swap.scheduled', {
+    actorId: req.user._id.toString(),
+    sessionId: session._id.toString(),
+    confirmedDate: session.scheduledFor
+  });
+  await notifySwapUpdate(swap, 'swap.scheduled', req.user);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Session scheduled successfully',
+    data: {
+      swap,
+      session
+    }
+  });
+});
+
+module.exports = {
+  getOpenSlots,
+  proposeSlots,
+  confirmSlot
+};
@@ -0,0 +1,55 @@
+const SkillTaxonomy = require('../models/SkillTaxonomy');
+const { catchAsync } = require('../middleware/errorHandler');
+
+/**
+ * Skill Controller
+ * Exposes the curated skill taxonomy for autocomplete and category filters
+ */
+
+/**
+ * Suggest canonical skills for partially typed text
+ * @route GET /api/skills/autocomplete?q=
+ * @access Public
+ */
+const autocompleteSkills = catchAsync(async (req, res, next) => {
+  const { q, limit = 10 } = req.query;
+  
+  const skills = await SkillTaxonomy.autocomplete(q, limit);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      suggestions: skills.map(skill => ({
+        name: skill.name,
+        slug: skill.slug,
+        category: skill.category,
+        aliases: skill.aliases
+      }))
+    }
+  });
+});
+
+/**
+ * Get the skill categories with the number of skills in each
+ * @route GET /api/skills/categories
+ * @access Public
+ */
+const getSkillCategories = catchAsync(async (req, res, next) => {
+  const categories = await SkillTaxonomy.aggregate([
+    { $match: { isActive: true } },
+    { $group: { _id: '$category', skillCount: { $sum: 1 } } },
+    { $sort: { _id: 1 } }
+  ]);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      categories: categories.map(({ _id, skillCount }) => ({ name: _id, skillCount }))
+    }
+  });
+});
+
+module.exports = {
+  autocompleteSkills,
+  getSkillCategories
+};
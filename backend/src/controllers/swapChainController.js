@@ -0,0 +1,193 @@
+const SwapChain = require('../models/SwapChain');
+const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { findChainSuggestions, createChain } = require('../services/swapChainService');
+
+/**
+ * Swap Chain Controller
+ * Handles multi-party swap cycles: suggestions, proposals and confirmations
+ */
+
+const PARTICIPANT_FIELDS = 'name profilePhoto location averageRating';
+
+/**
+ * Load a chain the current user takes part in
+ */
+const findParticipantChain = async (chainId, user) => {
+  const chain = await SwapChain.findById(chainId);
+  
+  if (!chain) {
+    throw new AppError('Swap chain not found', 404);
+  }
+  
+  if (!chain.getParticipant(user._id) && user.role !== 'admin') {
+    throw new AppError('You do not have permission to view this swap chain', 403);
+  }
+  
+  return chain;
+};
+
+/**
+ * Check that the current user can still respond to a chain
+ */
+const assertCanRespond = (chain, user) => {
+  const participant = chain.getParticipant(user._id);
+  
+  if (!participant) {
+    throw new AppError('Only chain participants can respond to the chain', 403);
+  }
+  
+  if (chain.status !== 'pending') {
+    throw new AppError('This swap chain is no longer pending', 400);
+  }
+  
+  if (participant.status !== 'pending') {
+    throw new AppError('You have already responded to this swap chain', 400);
+  }
+};
+
+/**
+ * Get suggested swap chains for the current user
+ * @route GET /api/swap-chains/suggestions
+ * @access Private
+ */
+const getChainSuggestions = catchAsync(async (req, res, next) => {
+  const { limit = 5 } = req.query;
+  
+  const chains = await findChainSuggestions(req.user, { limit: parseInt(limit) });
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      chains
+    }
+  });
+});
+
+/**
+ * Propose a swap chain
+ * @route POST /api/swap-chains
+ * @access Private
+ */
+const createSwapChain = catchAsync(async (req, res, next) => {
+  const { participants, message } = req.body;
+  
+  const chain = await createChain(req.user, participants, message);
+  await chain.populate('participants.user', PARTICIPANT_FIELDS);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Swap chain proposed successfully',
+    data: {
+      chain
+    }
+  });
+});
+
+/**
+ * Get the current user's swap chains
+ * @route GET /api/swap-chains
+ * @access Private
+ */
+const getUserSwapChains = catchAsync(async (req, res, next) => {
+  const { status, page = 1, limit = 20 } = req.query;
+  
+  const chains = await SwapChain.getChainsByUser(req.user._id, {
+    status,
+    skip: (page - 1) * limit,
+    limit: parseInt(limit)
+  });
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      chains
+    }
+  });
+});
+
+/**
+ * Get a swap chain by ID
+ * @route GET /api/swap-chains/:id
+ * @access Private (participants and admins)
+ */
+const getSwapChainById = catchAsync(async (req, res, next) => {
+  const chain = await findParticipantChain(req.params.id, req.user);
+  await chain.populate([
+    { path: 'participants.user', select: PARTICIPANT_FIELDS },
+    { path: 'legs' }
+  ]);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      chain
+    }
+  });
+});
+
+/**
+ * Confirm a swap chain
+ * The chain and its swap legs are accepted once every participant confirms
+ * @route PUT /api/swap-chains/:id/confirm
+ * @access Private (participants only)
+ */
+const confirmSwapChain = catchAsync(async (req, res, next) => {
+  const current = await findParticipantChain(req.params.id, req.user);
+  assertCanRespond(current, req.user);
+  
+  // Another response may have changed the chain since it was loaded
+  const chain = await current.confirm(req.user._id);
+  
+  if (!chain) {
+    return next(new AppError('This swap chain can no longer be confirmed', 409));
+  }
+  
+  await chain.populate('participants.user', PARTICIPANT_FIELDS);
+  
+  res.status(200).json({
+    success: true,
+    message: chain.status === 'accepted'
+      ? 'Swap chain accepted by every participant'
+      : 'Swap chain confirmed successfully',
+    data: {
+      chain
+    }
+  });
+});
+
+/**
+ * Reject a swap chain
+ * Cancels the chain and every one of its swap legs
+ * @route PUT /api/swap-chains/:id/reject
+ * @access Private (participants only)
+ */
+const rejectSwapChain = catchAsync(async (req, res, next) => {
+  const current = await findParticipantChain(req.params.id, req.user);
+  assertCanRespond(current, req.user);
+  
+  // Another response may have changed the chain since it was loaded
+  const chain = await current.reject(req.user._id);
+  
+  if (!chain) {
+    return next(new AppError('This swap chain can no longer be rejected', 409));
+  }
+  
+  await chain.populate('participants.user', PARTICIPANT_FIELDS);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Swap chain rejected and cancelled',
+    data: {
+      chain
+    }
+  });
+});
+
+module.exports = {
+  getChainSuggestions,
+  createSwapChain,
+  getUserSwapChains,
+  getSwapChainById,
+  confirmSwapChain,
+  rejectSwapChain
+};
@@ -1,19 +1,35 @@
 const Swap = require('../models/Swap');
 const User = require('../models/User');
 const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { getAvailableActions, assertTransition, assertEditable } = require('../utils/swapStateMachine');
+const { diffTerms } = require('../utils/swapTerms');
+const { publishSwapEvent } = require('../services/eventService');
+const { notifySwapUpdate } = require('../services/notificationService');
+const { assertCanAfford, assertCanSettle, settleSwap } = require('../services/creditService');
 
 /**
  * Swap Controller
  * Handles all swap-related operations including creation, management, and status updates
  */
 
+/**
+ * Check whether a user offers a skill (partial, case-insensitive name match)
+ */
+const offersSkill = (user, skillName) => {
+  return user.skillsOffered.some(skill => 
+    skill.name.toLowerCase().includes(skillName.toLowerCase())
+  );
+};
+
 /**
  * Create a new swap request
+ * The requester pays with a skill they offer, or in time credits when paymentType is credits
  * @route POST /api/swaps
  * @access Private
  */
 const createSwap = catchAsync(async (req, res, next) => {
-  const { receiver, requestedSkill, offeredSkill, message, meetingType, location, proposedDate } = req.body;
+  const { receiver, requestedSkill, offeredSkill, message, meetingType, location, proposedDate, sessionCount, paymentType } = req.body;
+  const paysInCredits = paymentType === 'credits';
   
   // Check if receiver exists and is active
   const receiverUser = await User.findById(receiver);
@@ -31,20 +47,12 @@ const createSwap = catchAsync(async (req, res, next) => {
   }
   
   // Check if receiver has the requested skill
-  const hasRequestedSkill = receiverUser.skillsOffered.some(skill => 
-    skill.toLowerCase().includes(requestedSkill.toLowerCase())
-  );
-  
-  if (!hasRequestedSkill) {
+  if (!offersSkill(receiverUser, requestedSkill)) {
     return next(new AppError('Receiver does not offer the requested skill', 400));
   }
   
   // Check if requester has the offered skill
-  const hasOfferedSkill = req.user.skillsOffered.some(skill => 
-    skill.toLowerCase().includes(offeredSkill.toLowerCase())
-  );
-  
-  if (!hasOfferedSkill) {
+  if (!paysInCredits && !offersSkill(req.user, offeredSkill)) {
     return next(new AppError('You do not offer the specified skill', 400));
   }
   
@@ -60,24 +68,39 @@ const createSwap = catchAsync(async (req, res, next) => {
     return next(new AppError('A pending swap already exists between you and this user', 400));
   }
   
-  // Create the swap
-  const swap = await Swap.create({
+  const swap = new Swap({
     requester: req.user._id,
     receiver,
     requestedSkill,
-    offeredSkill,
+    offeredSkill: paysInCredits ? undefined : offeredSkill,
+    paymentType,
     message,
     meetingType,
     location,
-    proposedDate
+    proposedDate,
+    sessionCount
   });
   
+  // Credits promised to other open swaps cannot pay for this one
+  if (paysInCredits) {
+    await assertCanAfford(swap);
+  }
+  
+  // Create the swap
+  await swap.save();
+  
   // Populate the swap with user details
   await swap.populate([
     { path: 'requester', select: 'name email profilePhoto' },
     { path: 'receiver', select: 'name email profilePhoto' }
   ]);
   
+  publishSwapEvent(swap, 'swap.created', {
+    actorId: req.user._id.toString(),
+    actorName: req.user.name
+  });
+  await notifySwapUpdate(swap, 'swap.created', req.user);
+  
   res.status(201).json({
     success: true,
     message: 'Swap request created successfully',
@@ -93,7 +116,7 @@ const createSwap = catchAsync(async (req, res, next) => {
  * @access Private
  */
 const getUserSwaps = catchAsync(async (req, res, next) => {
-  const { status, page = 1, limit = 20, sort = '-createdAt' } = req.query;
+  const { status, page = 1, limit = 20 } = req.query;
   
   const options = {
     status,
@@ -138,7 +161,9 @@ const getSwapById = catchAsync(async (req, res, next) => {
   
   const swap = await Swap.findById(swapId)
     .populate('requester', 'name email profilePhoto averageRating')
-    .populate('receiver', 'name email profilePhoto averageRating');
+    .populate('receiver', 'name email profilePhoto averageRating')
+    .populate('statusHistory.actor', 'name')
+    .populate('revisions.proposedBy', 'name');
   
   if (!swap) {
     return next(new AppError('Swap not found', 404));
@@ -155,7 +180,8 @@ const getSwapById = catchAsync(async (req, res, next) => {
   res.status(200).json({
     success: true,
     data: {
-      swap
+      swap,
+      allowedActions: isParticipant ? getAvailableActions(swap, req.user) : []
     }
   });
 });
@@ -174,18 +200,9 @@ const acceptSwap = catchAsync(async (req, res, next) => {
     return next(new AppError('Swap not found', 404));
   }
   
-  // Check if user is the receiver
-  if (swap.receiver.toString() !== req.user._id.toString()) {
-    return next(new AppError('Only the receiver can accept the swap', 403));
-  }
-  
-  // Check if swap is still pending
-  if (swap.status !== 'pending') {
-    return next(new AppError('This swap is no longer pending', 400));
-  }
-  
-  // Accept the swap
-  await swap.accept();
+  // Accept the swap; the state machine checks the actor, status and deadline
+  await swap.accept(req.user, req.body.reason);
+  await notifySwapUpdate(swap, 'swap.accepted', req.user, req.body.reason);
   
   // Populate the swap with user details
   await swap.populate([
@@ -216,18 +233,74 @@ const rejectSwap = catchAsync(async (req, res, next) => {
     return next(new AppError('Swap not found', 404));
   }
   
-  // Check if user is the receiver
-  if (swap.receiver.toString() !== req.user._id.toString()) {
-    return next(new AppError('Only the receiver can reject the swap', 403));
+  // Reject the swap
+  await swap.reject(req.user, req.body.reason);
+  await notifySwapUpdate(swap, 'swap.rejected', req.user, req.body.reason);
+  
+  // Populate the swap with user details
+  await swap.populate([
+    { path: 'requester', select: 'name email profilePhoto' },
+    { path: 'receiver', select: 'name email profilePhoto' }
+  ]);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Swap rejected successfully',
+    data: {
+      swap
+    }
+  });
+});
+
+/**
+ * Counter the latest proposal on a swap request with new terms
+ * Either member can counter a proposal made by the other one
+ * @route PUT /api/swaps/:id/counter
+ * @access Private
+ */
+const counterSwap = catchAsync(async (req, res, next) => {
+  const swapId = req.params.id;
+  const { message, ...terms } = req.body;
+  
+  const swap = await Swap.findById(swapId);
+  
+  if (!swap) {
+    return next(new AppError('Swap not found', 404));
   }
   
-  // Check if swap is still pending
-  if (swap.status !== 'pending') {
-    return next(new AppError('This swap is no longer pending', 400));
+  // Check the actor and status before looking at the terms
+  assertTransition(swap, 'counter', req.user);
+  
+  const changes = diffTerms(swap, terms);
+  
+  if (changes.length === 0) {
+    return next(new AppError('A counter-offer must change at least one term', 400));
   }
   
-  // Reject the swap
-  await swap.reject();
+  // Skills still have to be offered by the member teaching them
+  const changedFields = changes.map(change => change.field);
+  const teachers = await User.find({ _id: { $in: [swap.requester, swap.receiver] } });
+  const findTeacher = (id) => teachers.find(teacher => teacher._id.equals(id));
+  
+  if (changedFields.includes('requestedSkill') && !offersSkill(findTeacher(swap.receiver), terms.requestedSkill)) {
+    return next(new AppError('The receiver does not offer the requested skill', 400));
+  }
+  
+  if (changedFields.includes('offeredSkill') && swap.paymentType === 'credits') {
+    return next(new AppError('A swap paid in time credits has no offered skill', 400));
+  }
+  
+  if (changedFields.includes('offeredSkill') && !offersSkill(findTeacher(swap.requester), terms.offeredSkill)) {
+    return next(new AppError('The requester does not offer the offered skill', 400));
+  }
+  
+  // More sessions cost the requester more credits
+  if (changedFields.includes('sessionCount') && swap.paymentType === 'credits') {
+    await assertCanAfford({ ...swap.toObject(), sessionCount: terms.sessionCount });
+  }
+  
+  await swap.counter(req.user, changes, message);
+  await notifySwapUpdate(swap, 'swap.countered', req.user);
   
   // Populate the swap with user details
   await swap.populate([
@@ -237,7 +310,7 @@ const rejectSwap = catchAsync(async (req, res, next) => {
   
   res.status(200).json({
     success: true,
-    message: 'Swap rejected successfully',
+    message: 'Counter-offer sent successfully',
     data: {
       swap
     }
@@ -258,18 +331,9 @@ const cancelSwap = catchAsync(async (req, res, next) => {
     return next(new AppError('Swap not found', 404));
   }
   
-  // Check if user is the requester
-  if (swap.requester.toString() !== req.user._id.toString()) {
-    return next(new AppError('Only the requester can cancel the swap', 403));
-  }
-  
-  // Check if swap can be cancelled
-  if (swap.status === 'completed') {
-    return next(new AppError('Cannot cancel completed swap', 400));
-  }
-  
   // Cancel the swap
-  await swap.cancel();
+  await swap.cancel(req.user, req.body.reason);
+  await notifySwapUpdate(swap, 'swap.cancelled', req.user, req.body.reason);
   
   res.status(200).json({
     success: true,
@@ -279,6 +343,8 @@ const cancelSwap = catchAsync(async (req, res, next) => {
 
 /**
  * Mark swap as completed
+ * Completing a credit swap pays the receiver for agreed sessions not recorded as completed,
+ * so only its requester can do so
  * @route PUT /api/swaps/:id/complete
  * @access Private
  */
@@ -291,21 +357,18 @@ const completeSwap = catchAsync(async (req, res, next) => {
     return next(new AppError('Swap not found', 404));
   }
   
-  // Check if user is part of this swap
-  const isParticipant = swap.requester.toString() === req.user._id.toString() ||
-                       swap.receiver.toString() === req.user._id.toString();
-  
-  if (!isParticipant) {
-    return next(new AppError('You do not have permission to complete this swap', 403));
+  if (swap.paymentType === 'credits' && swap.receiver.equals(req.user._id)) {
+    return next(new AppError('Only the requester can complete a swap paid in time credits', 403));
   }
   
-  // Check if swap is accepted
-  if (swap.status !== 'accepted') {
-    return next(new AppError('Swap must be accepted before it can be completed', 400));
-  }
+  // The settlement is checked first, so a swap is never completed without being paid for
+  assertTransition(swap, 'complete', req.user);
+  await assertCanSettle(swap);
   
   // Complete the swap
-  await swap.complete();
+  await swap.complete(req.user, req.body.reason);
+  await settleSwap(swap);
+  await notifySwapUpdate(swap, 'swap.completed', req.user, req.body.reason);
   
   // Update user swap counts
   await User.findByIdAndUpdate(swap.requester, { $inc: { totalSwaps: 1 } });
@@ -364,7 +427,7 @@ const getUserSwapStats = catchAsync(async (req, res, next) => {
  */
 const updateSwap = catchAsync(async (req, res, next) => {
   const swapId = req.params.id;
-  const { message, meetingType, location, proposedDate } = req.body;
+  const { message, meetingType, location, proposedDate, sessionCount } = req.body;
   
   const swap = await Swap.findById(swapId);
   
@@ -372,14 +435,12 @@ const updateSwap = catchAsync(async (req, res, next) => {
     return next(new AppError('Swap not found', 404));
   }
   
-  // Check if user is the requester
-  if (swap.requester.toString() !== req.user._id.toString()) {
-    return next(new AppError('Only the requester can update swap details', 403));
-  }
+  // Only the requester can edit, and only while the swap is pending
+  assertEditable(swap, req.user);
   
-  // Check if swap is still pending
-  if (swap.status !== 'pending') {
-    return next(new AppError('Cannot update swap details after it has been responded to', 400));
+  // More sessions cost the requester more credits
+  if (sessionCount && swap.paymentType === 'credits') {
+    await assertCanAfford({ ...swap.toObject(), sessionCount });
   }
   
   // Update allowed fields
@@ -388,6 +449,7 @@ const updateSwap = catchAsync(async (req, res, next) => {
   if (meetingType) updates.meetingType = meetingType;
   if (location !== undefined) updates.location = location;
   if (proposedDate) updates.proposedDate = proposedDate;
+  if (sessionCount) updates.sessionCount = sessionCount;
   
   const updatedSwap = await Swap.findByIdAndUpdate(
     swapId,
@@ -413,6 +475,7 @@ module.exports = {
   getSwapById,
   acceptSwap,
   rejectSwap,
+  counterSwap,
   cancelSwap,
   completeSwap,
   getUserSwapStats,
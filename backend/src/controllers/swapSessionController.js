@@ -0,0 +1,215 @@
+const Swap = require('../models/Swap');
+const SwapSession = require('../models/SwapSession');
+const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { publishSwapEvent } = require('../services/eventService');
+const { notifySwapUpdate } = require('../services/notificationService');
+const {
+  getTeachingRoles,
+  createSession,
+  findSwapSession,
+  recordAttendance,
+  cancelSession
+} = require('../services/swapSessionService');
+const { populateDispute, reportNoShow } = require('../services/disputeService');
+
+/**
+ * Swap Session Controller
+ * Handles the sessions of a swap: adding them, recording attendance, notes, cancellations and no-show reports
+ */
+
+/**
+ * Load a swap for one of its participants
+ */
+const findMemberSwap = async (swapId, user) => {
+  const swap = await Swap.findById(swapId);
+  
+  if (!swap) {
+    throw new AppError('Swap not found', 404);
+  }
+  
+  if (!swap.requester.equals(user._id) && !swap.receiver.equals(user._id)) {
+    throw new AppError('You do not have permission to view this swap', 403);
+  }
+  
+  return swap;
+};
+
+const populateSession = (session) => {
+  return session.populate([
+    { path: 'teacher learner', select: 'name profilePhoto' },
+    { path: 'notes.author', select: 'name' }
+  ]);
+};
+
+// Agreed sessions and how many each member has given
+const describeProgress = (swap) => ({
+  sessionCount: swap.sessionCount,
+  sessionsGiven: swap.sessionsGiven,
+  teachingRoles: getTeachingRoles(swap)
+});
+
+const publishSessionEvent = (swap, session, user) => {
+  publishSwapEvent(swap, 'swap.session-updated', {
+    actorId: user._id.toString(),
+    sessionId: session._id.toString(),
+    sessionStatus: session.status
+  });
+};
+
+/**
+ * Get the sessions of a swap, oldest first, with the swap's progress
+ * @route GET /api/swaps/:id/sessions
+ * @access Private (swap participants only)
+ */
+const getSessions = catchAsync(async (req, res, next) => {
+  const swap = await findMemberSwap(req.params.id, req.user);
+  
+  const sessions = await SwapSession.find({ swap: swap._id })
+    .populate('teacher learner', 'name profilePhoto')
+    .populate('notes.author', 'name')
+    .sort({ scheduledFor: 1 });
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      sessions,
+      progress: describeProgress(swap)
+    }
+  });
+});
+
+/**
+ * Add a session to a swap, to come or one that already took place
+ * @route POST /api/swaps/:id/sessions
+ * @access Private (swap participants only)
+ */
+const addSession = catchAsync(async (req, res, next) => {
+  const swap = await findMemberSwap(req.params.id, req.user);
+  const { teacher, scheduledFor, minutes, note } = req.body;
+  
+  const session = await createSession(swap, { teacher, scheduledFor, minutes, note }, req.user);
+  await populateSession(session);
+  
+  publishSessionEvent(swap, session, req.user);
+  await notifySwapUpdate(swap, 'swap.session-added', req.user);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Session added successfully',
+    data: {
+      session,
+      progress: describeProgress(swap)
+    }
+  });
+});
+
+/**
+ * Record whether the current user attended a session
+ * The session completes once both members attended; the swap completes once all agreed sessions did
+ * @route PUT /api/swaps/:id/sessions/:sessionId/attendance
+ * @access Private (swap participants only)
+ */
+const updateAttendance = catchAsync(async (req, res, next) => {
+  const swap = await findMemberSwap(req.params.id, req.user);
+  const session = await findSwapSession(swap, req.params.sessionId);
+  
+  await recordAttendance(swap, session, req.user, req.body.attended);
+  await populateSession(session);
+  
+  publishSessionEvent(swap, session, req.user);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Attendance recorded successfully',
+    data: {
+      session,
+      progress: describeProgress(swap),
+      swapStatus: swap.status
+    }
+  });
+});
+
+/**
+ * Add a note to a session
+ * @route POST /api/swaps/:id/sessions/:sessionId/notes
+ * @access Private (swap participants only)
+ */
+const addSessionNote = catchAsync(async (req, res, next) => {
+  const swap = await findMemberSwap(req.params.id, req.user);
+  const session = await findSwapSession(swap, req.params.sessionId);
+  
+  await session.addNote(req.user, req.body.body);
+  await populateSession(session);
+  
+  publishSessionEvent(swap, session, req.user);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Note added successfully',
+    data: {
+      session
+    }
+  });
+});
+
+/**
+ * Cancel a session that has not taken place
+ * @route PUT /api/swaps/:id/sessions/:sessionId/cancel
+ * @access Private (swap participants only)
+ */
+const cancelSwapSession = catchAsync(async (req, res, next) => {
+  const swap = await findMemberSwap(req.params.id, req.user);
+  const session = await findSwapSession(swap, req.params.sessionId);
+  
+  await cancelSession(swap, session, req.user, req.body.reason);
+  await populateSession(session);
+  
+  publishSessionEvent(swap, session, req.user);
+  await notifySwapUpdate(swap, 'swap.session-cancelled', req.user, req.body.reason);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Session cancelled successfully',
+    data: {
+      session,
+      progress: describeProgress(swap)
+    }
+  });
+});
+
+/**
+ * Report that the other member did not turn up to a session
+ * The session is marked missed and a no-show dispute is opened for an admin to resolve
+ * @route PUT /api/swaps/:id/sessions/:sessionId/no-show
+ * @access Private (swap participants only)
+ */
+const reportSessionNoShow = catchAsync(async (req, res, next) => {
+  const swap = await findMemberSwap(req.params.id, req.user);
+  const session = await findSwapSession(swap, req.params.sessionId);
+  const { body, evidence } = req.body;
+  
+  const dispute = await reportNoShow(swap, session, req.user, { body, evidence });
+  await populateSession(session);
+  await populateDispute(dispute);
+  
+  publishSessionEvent(swap, session, req.user);
+  
+  res.status(200).json({
+    success: true,
+    message: 'No-show reported successfully',
+    data: {
+      session,
+      dispute,
+      progress: describeProgress(swap)
+    }
+  });
+});
+
+module.exports = {
+  getSessions,
+  addSession,
+  updateAttendance,
+  addSessionNote,
+  cancelSwapSession,
+  reportSessionNoShow
+};
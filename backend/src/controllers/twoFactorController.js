@@ -0,0 +1,200 @@
+const User = require('../models/User');
+const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { createEnrolment, verifyCode } = require('../services/twoFactorService');
+
+/**
+ * Two-Factor Controller
+ * Handles TOTP enrolment, recovery codes and disabling two-factor authentication
+ */
+
+/**
+ * Get two-factor authentication status
+ * @route GET /api/auth/2fa
+ * @access Private
+ */
+const getTwoFactorStatus = catchAsync(async (req, res, next) => {
+  const user = await User.findById(req.user._id).select('+twoFactorRecoveryCodes');
+  
+  if (!user) {
+    return next(new AppError('User not found', 404));
+  }
+  
+  const recoveryCodes = user.twoFactorRecoveryCodes || [];
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      enabled: user.twoFactorEnabled,
+      required: user.role === 'admin',
+      recoveryCodesRemaining: recoveryCodes.filter(code => !code.usedAt).length
+    }
+  });
+});
+
+/**
+ * Start two-factor enrolment
+ * Generates a pending secret and returns it with its otpauth URI and QR code
+ * @route POST /api/auth/2fa/setup
+ * @access Private
+ */
+const setupTwoFactor = catchAsync(async (req, res, next) => {
+  const user = await User.findById(req.user._id);
+  
+  if (!user) {
+    return next(new AppError('User not found', 404));
+  }
+  
+  if (user.twoFactorEnabled) {
+    return next(new AppError('Two-factor authentication is already enabled', 400));
+  }
+  
+  const { secret, otpauthUrl, qrCode } = await createEnrolment(user.email);
+  
+  user.twoFactorPendingSecret = secret;
+  await user.save({ validateBeforeSave: false });
+  
+  res.status(200).json({
+    success: true,
+    message: 'Scan the QR code with your authenticator app',
+    data: {
+      secret,
+      otpauthUrl,
+      qrCode
+    }
+  });
+});
+
+/**
+ * Confirm enrolment with a code from the authenticator app
+ * @route POST /api/auth/2fa/enable
+ * @access Private
+ */
+const enableTwoFactor = catchAsync(async (req, res, next) => {
+  const { code } = req.body;
+  
+  const user = await User.findById(req.user._id).select('+twoFactorPendingSecret');
+  
+  if (!user) {
+    return next(new AppError('User not found', 404));
+  }
+  
+  if (user.twoFactorEnabled) {
+    return next(new AppError('Two-factor authentication is already enabled', 400));
+  }
+  
+  if (!user.twoFactorPendingSecret) {
+    return next(new AppError('Start two-factor setup before enabling it', 400));
+  }
+  
+  const step = verifyCode(code, user.twoFactorPendingSecret);
+  
+  if (!step) {
+    return next(new AppError('Invalid authentication code', 400));
+  }
+  
+  user.twoFactorEnabled = true;
+  user.twoFactorSecret = user.twoFactorPendingSecret;
+  user.twoFactorPendingSecret = undefined;
+  user.twoFactorLastUsedStep = step;
+  const recoveryCodes = user.createRecoveryCodes();
+  await user.save({ validateBeforeSave: false });
+  
+  res.status(200).json({
+    success: true,
+    message: 'Two-factor authentication enabled',
+    data: {
+      recoveryCodes
+    }
+  });
+});
+
+/**
+ * Replace the recovery codes
+ * @route POST /api/auth/2fa/recovery-codes
+ * @access Private
+ */
+const regenerateRecoveryCodes = catchAsync(async (req, res, next) => {
+  const { code } = req.body;
+  
+  const user = await User.findById(req.user._id)
+    .select('+twoFactorSecret +twoFactorLastUsedStep');
+  
+  if (!user) {
+    return next(new AppError('User not found', 404));
+  }
+  
+  if (!user.twoFactorEnabled) {
+    return next(new AppError('Two-factor authentication is not enabled', 400));
+  }
+  
+  const step = verifyCode(code, user.twoFactorSecret, user.twoFactorLastUsedStep);
+  
+  if (!step) {
+    return next(new AppError('Invalid authentication code', 400));
+  }
+  
+  user.twoFactorLastUsedStep = step;
+  const recoveryCodes = user.createRecoveryCodes();
+  await user.save({ validateBeforeSave: false });
+  
+  res.status(200).json({
+    success: true,
+    message: 'New recovery codes generated',
+    data: {
+      recoveryCodes
+    }
+  });
+});
+
+/**
+ * Disable two-factor authentication
+ * @route POST /api/auth/2fa/disable
+ * @access Private
+ */
+const disableTwoFactor = catchAsync(async (req, res, next) => {
+  const { password, code } = req.body;
+  
+  const user = await User.findById(req.user._id)
+    .select('+password +twoFactorSecret +twoFactorLastUsedStep');
+  
+  if (!user) {
+    return next(new AppError('User not found', 404));
+  }
+  
+  if (!user.twoFactorEnabled) {
+    return next(new AppError('Two-factor authentication is not enabled', 400));
+  }
+  
+  if (user.role === 'admin') {
+    return next(new AppError('Two-factor authentication is mandatory for admin accounts', 400));
+  }
+  
+  const isPasswordCorrect = await user.comparePassword(password);
+  
+  if (!isPasswordCorrect) {
+    return next(new AppError('Password is incorrect', 400));
+  }
+  
+  if (!verifyCode(code, user.twoFactorSecret, user.twoFactorLastUsedStep)) {
+    return next(new AppError('Invalid authentication code', 400));
+  }
+  
+  user.twoFactorEnabled = false;
+  user.twoFactorSecret = undefined;
+  user.twoFactorLastUsedStep = undefined;
+  user.twoFactorRecoveryCodes = [];
+  await user.save({ validateBeforeSave: false });
+  
+  res.status(200).json({
+    success: true,
+    message: 'Two-factor authentication disabled'
+  });
+});
+
+module.exports = {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor
+};
@@ -1,5 +1,8 @@
 const User = require('../models/User');
+const SkillTaxonomy = require('../models/SkillTaxonomy');
 const { catchAsync, AppError } = require('../middleware/errorHandler');
+const { findMatches } = require('../services/matchingService');
+const { sendVerificationEmail } = require('../services/mailService');
 
 /**
  * User Controller
@@ -12,8 +15,6 @@ const { catchAsync, AppError } = require('../middleware/errorHandler');
  * @access Public/Private (depends on privacy settings)
  */
 const getUserProfile = catchAsync(async (req, res, next) => {
-  const userId = req.params.id;
-  
   // Use the targetUser from checkProfileAccess middleware
   const user = req.targetUser;
   
@@ -21,6 +22,10 @@ const getUserProfile = catchAsync(async (req, res, next) => {
     return next(new AppError('User not found', 404));
   }
   
+  // Skills awaiting approval are only shown to their owner
+  const isOwnProfile = req.user && req.user._id.toString() === user._id.toString();
+  const { skillsOffered, skillsWanted } = isOwnProfile ? user : user.withApprovedSkills();
+  
   res.status(200).json({
     success: true,
     data: {
@@ -28,8 +33,8 @@ const getUserProfile = catchAsync(async (req, res, next) => {
         id: user._id,
         name: user.name,
         email: user.isPublic ? user.email : undefined,
-        skillsOffered: user.skillsOffered,
-        skillsWanted: user.skillsWanted,
+        skillsOffered,
+        skillsWanted,
         location: user.location,
         bio: user.bio,
         availability: user.availability,
@@ -69,12 +74,21 @@ const updateUserProfile = catchAsync(async (req, res, next) => {
   });
   
   // If email is being updated, check if it's already taken
-  if (filteredUpdates.email && filteredUpdates.email !== req.user.email) {
-    const existingUser = await User.findOne({ email: filteredUpdates.email.toLowerCase() });
+  if (filteredUpdates.email) {
+    filteredUpdates.email = filteredUpdates.email.toLowerCase();
+  }
+  
+  const emailChanged = Boolean(filteredUpdates.email) && filteredUpdates.email !== req.user.email;
+  
+  if (emailChanged) {
+    const existingUser = await User.findOne({ email: filteredUpdates.email });
     if (existingUser) {
       return next(new AppError('Email is already taken', 400));
     }
-    filteredUpdates.email = filteredUpdates.email.toLowerCase();
+    
+    // A new address has to be verified again before it counts as verified
+    filteredUpdates.emailVerified = false;
+    filteredUpdates.$unset = { emailVerifiedAt: 1 };
   }
   
   const user = await User.findByIdAndUpdate(
@@ -87,14 +101,21 @@ const updateUserProfile = catchAsync(async (req, res, next) => {
     return next(new AppError('User not found', 404));
   }
   
+  if (emailChanged) {
+    await sendVerificationEmail(user);
+  }
+  
   res.status(200).json({
     success: true,
-    message: 'Profile updated successfully',
+    message: emailChanged
+      ? 'Profile updated successfully. Check your new email address for a verification link.'
+      : 'Profile updated successfully',
     data: {
       user: {
         id: user._id,
         name: user.name,
         email: user.email,
+        emailVerified: user.emailVerified,
         skillsOffered: user.skillsOffered,
         skillsWanted: user.skillsWanted,
         location: user.location,
@@ -109,6 +130,33 @@ const updateUserProfile = catchAsync(async (req, res, next) => {
   });
 });
 
+/**
+ * Apply a submitted skill list to the user's existing skills
+ * Skills matched by id or name keep their identity; they keep their approval
+ * status only while the name is unchanged, so a renamed skill is moderated again
+ */
+const mergeSkills = (existingSkills, submittedSkills) => {
+  return submittedSkills.map(({ id, ...skill }) => {
+    const key = SkillTaxonomy.toLookupKey(skill.name);
+    const existing = existingSkills.find(current =>
+      current.id === id || SkillTaxonomy.toLookupKey(current.name) === key
+    );
+    
+    if (!existing) return skill;
+    
+    if (SkillTaxonomy.toLookupKey(existing.name) !== key) {
+      return { _id: existing._id, ...skill };
+    }
+    
+    return {
+      _id: existing._id,
+      isApproved: existing.isApproved,
+      submittedAt: existing.submittedAt,
+      ...skill
+    };
+  });
+};
+
 /**
  * Update user skills
  * @route PUT /api/users/:id/skills
@@ -123,20 +171,17 @@ const updateUserSkills = catchAsync(async (req, res, next) => {
     return next(new AppError('You can only update your own skills', 403));
   }
   
-  const updateData = {};
-  if (skillsOffered) updateData.skillsOffered = skillsOffered;
-  if (skillsWanted) updateData.skillsWanted = skillsWanted;
-  
-  const user = await User.findByIdAndUpdate(
-    userId,
-    updateData,
-    { new: true, runValidators: true }
-  );
+  const user = await User.findById(userId);
   
   if (!user) {
     return next(new AppError('User not found', 404));
   }
   
+  if (skillsOffered) user.skillsOffered = mergeSkills(user.skillsOffered, skillsOffered);
+  if (skillsWanted) user.skillsWanted = mergeSkills(user.skillsWanted, skillsWanted);
+  
+  await user.save();
+  
   res.status(200).json({
     success: true,
     message: 'Skills updated successfully',
@@ -157,22 +202,16 @@ const updateUserSkills = catchAsync(async (req, res, next) => {
  * @access Public
  */
 const searchUsers = catchAsync(async (req, res, next) => {
-  const { skill, location, availability, page = 1, limit = 20, sort = '-averageRating' } = req.query;
+  const { skill, category, location, availability, page = 1, limit = 20, sort = '-averageRating' } = req.query;
   
+  // Build search query
   const query = {
     isPublic: true,
     isBanned: false,
-    isActive: true
+    isActive: true,
+    ...(await User.buildSkillQuery(skill, { category }))
   };
   
-  // Build search query
-  if (skill) {
-    query.$or = [
-      { skillsOffered: { $regex: skill, $options: 'i' } },
-      { skillsWanted: { $regex: skill, $options: 'i' } }
-    ];
-  }
-  
   if (location) {
     query.location = { $regex: location, $options: 'i' };
   }
@@ -196,7 +235,7 @@ const searchUsers = catchAsync(async (req, res, next) => {
   res.status(200).json({
     success: true,
     data: {
-      users,
+      users: users.map(user => user.withApprovedSkills()),
       pagination: {
         currentPage: parseInt(page),
         totalPages,
@@ -226,16 +265,13 @@ const getUsersBySkill = catchAsync(async (req, res, next) => {
     isPublic: true,
     isBanned: false,
     isActive: true,
-    $or: [
-      { skillsOffered: { $regex: skill, $options: 'i' } },
-      { skillsWanted: { $regex: skill, $options: 'i' } }
-    ]
+    ...(await User.buildSkillQuery(skill))
   });
   
   res.status(200).json({
     success: true,
     data: {
-      users,
+      users: users.map(user => user.withApprovedSkills()),
       pagination: {
         currentPage: parseInt(page),
         totalUsers,
@@ -245,6 +281,75 @@ const getUsersBySkill = catchAsync(async (req, res, next) => {
   });
 });
 
+/**
+ * Get the best swap partners for the current user
+ * Each match has a score out of 100 with an explanation per factor
+ * @route GET /api/users/matches
+ * @access Private
+ */
+const getMatches = catchAsync(async (req, res, next) => {
+  const { meetingType = 'hybrid', limit = 10 } = req.query;
+  
+  const matches = await findMatches(req.user, { meetingType, limit });
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      matches,
+      meetingType
+    }
+  });
+});
+
+/**
+ * Get the current user's weekly availability windows
+ * @route GET /api/users/me/availability
+ * @access Private
+ */
+const getAvailability = catchAsync(async (req, res, next) => {
+  res.status(200).json({
+    success: true,
+    data: {
+      windows: req.user.availabilityWindows,
+      timezone: req.user.timezone
+    }
+  });
+});
+
+/**
+ * Replace the current user's weekly availability windows
+ * Windows are times in the user's time zone, which can be changed at the same time
+ * @route PUT /api/users/me/availability
+ * @access Private
+ */
+const updateAvailability = catchAsync(async (req, res, next) => {
+  const { windows, timezone } = req.body;
+  
+  const user = await User.findById(req.user._id);
+  
+  if (!user) {
+    return next(new AppError('User not found', 404));
+  }
+  
+  // Keep the list in weekly order so it reads naturally
+  user.availabilityWindows = windows
+    .map(({ day, start, end }) => ({ day, start, end }))
+    .sort((a, b) => a.day - b.day || a.start.localeCompare(b.start));
+  
+  if (timezone) user.timezone = timezone;
+  
+  await user.save();
+  
+  res.status(200).json({
+    success: true,
+    message: 'Availability updated successfully',
+    data: {
+      windows: user.availabilityWindows,
+      timezone: user.timezone
+    }
+  });
+});
+
 /**
  * Get user statistics
  * @route GET /api/users/:id/stats
@@ -387,6 +492,11 @@ const getUserSkillsSummary = catchAsync(async (req, res, next) => {
       skillsSummary: {
         totalSkillsOffered: user.skillsOffered.length,
         totalSkillsWanted: user.skillsWanted.length,
+        categories: [...new Set(user.skillsOffered.map(skill => skill.category))],
+        levels: user.skillsOffered.reduce((counts, skill) => {
+          counts[skill.level] = (counts[skill.level] || 0) + 1;
+          return counts;
+        }, {}),
         availability: user.availability,
         location: user.location
       }
@@ -400,6 +510,9 @@ module.exports = {
   updateUserSkills,
   searchUsers,
   getUsersBySkill,
+  getMatches,
+  getAvailability,
+  updateAvailability,
   getUserStats,
   getAllUsers,
   deleteUser,
@@ -0,0 +1,59 @@
+const { catchAsync } = require('../middleware/errorHandler');
+const { getWallet: loadWallet, getTransactions: loadTransactions } = require('../services/creditService');
+
+/**
+ * Wallet Controller
+ * Handles the current user's time-credit balance and transaction history
+ */
+
+/**
+ * Get the current user's credit balance
+ * held is promised to the remaining sessions of open swaps paid in credits
+ * @route GET /api/wallet
+ * @access Private
+ */
+const getWallet = catchAsync(async (req, res, next) => {
+  const wallet = await loadWallet(req.user._id);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      wallet
+    }
+  });
+});
+
+/**
+ * Get the current user's credit transactions, newest first
+ * @route GET /api/wallet/transactions
+ * @access Private
+ */
+const getTransactions = catchAsync(async (req, res, next) => {
+  const { page = 1, limit = 20 } = req.query;
+  
+  const { transactions, total } = await loadTransactions(req.user._id, {
+    skip: (page - 1) * limit,
+    limit: parseInt(limit)
+  });
+  
+  const totalPages = Math.ceil(total / limit);
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      transactions,
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalTransactions: total,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+});
+
+module.exports = {
+  getWallet,
+  getTransactions
+};
@@ -0,0 +1,117 @@
+/**
+ * Curated skill taxonomy
+ * Canonical skill names with common aliases, grouped by parent category.
+ * Loaded into the SkillTaxonomy collection by `npm run seed:skills`.
+ */
+module.exports = [
+  // Programming
+  { name: 'JavaScript', category: 'Programming', aliases: ['JS', 'ECMAScript', 'ES6'] },
+  { name: 'TypeScript', category: 'Programming', aliases: ['TS'] },
+  { name: 'Python', category: 'Programming', aliases: ['Py', 'Python 3'] },
+  { name: 'Java', category: 'Programming', aliases: [] },
+  { name: 'C', category: 'Programming', aliases: ['C language'] },
+  { name: 'C++', category: 'Programming', aliases: ['CPP', 'C plus plus'] },
+  { name: 'C#', category: 'Programming', aliases: ['C sharp', 'CSharp'] },
+  { name: 'Go', category: 'Programming', aliases: ['Golang'] },
+  { name: 'Rust', category: 'Programming', aliases: [] },
+  { name: 'Ruby', category: 'Programming', aliases: ['Ruby on Rails', 'Rails'] },
+  { name: 'PHP', category: 'Programming', aliases: [] },
+  { name: 'Swift', category: 'Programming', aliases: ['iOS development'] },
+  { name: 'Kotlin', category: 'Programming', aliases: ['Android development'] },
+  { name: 'React', category: 'Programming', aliases: ['React.js', 'ReactJS'] },
+  { name: 'Vue.js', category: 'Programming', aliases: ['Vue', 'VueJS'] },
+  { name: 'Angular', category: 'Programming', aliases: ['AngularJS'] },
+  { name: 'Node.js', category: 'Programming', aliases: ['Node', 'NodeJS'] },
+  { name: 'HTML & CSS', category: 'Programming', aliases: ['HTML', 'CSS', 'HTML5', 'CSS3'] },
+  { name: 'SQL', category: 'Programming', aliases: ['MySQL', 'PostgreSQL', 'Postgres'] },
+  { name: 'MongoDB', category: 'Programming', aliases: ['Mongo'] },
+  { name: 'Machine Learning', category: 'Programming', aliases: ['ML'] },
+  { name: 'Data Science', category: 'Programming', aliases: ['Data Analysis'] },
+  { name: 'AWS', category: 'Programming', aliases: ['Amazon Web Services'] },
+  { name: 'Docker', category: 'Programming', aliases: ['Containers'] },
+  { name: 'Git', category: 'Programming', aliases: ['GitHub', 'Version control'] },
+
+  // Design
+  { name: 'Photoshop', category: 'Design', aliases: ['Adobe Photoshop', 'PS'] },
+  { name: 'Illustrator', category: 'Design', aliases: ['Adobe Illustrator'] },
+  { name: 'Figma', category: 'Design', aliases: [] },
+  { name: 'UI/UX Design', category: 'Design', aliases: ['UX', 'UI', 'UX Design', 'UI Design', 'User Experience'] },
+  { name: 'Graphic Design', category: 'Design', aliases: [] },
+  { name: 'Video Editing', category: 'Design', aliases: ['Premiere Pro', 'Final Cut'] },
+  { name: '3D Modeling', category: 'Design', aliases: ['Blender', '3D Modelling'] },
+
+  // Language
+  { name: 'English', category: 'Language', aliases: ['ESL'] },
+  { name: 'Spanish', category: 'Language', aliases: ['Español', 'Espanol'] },
+  { name: 'French', category: 'Language', aliases: ['Français', 'Francais'] },
+  { name: 'German', category: 'Language', aliases: ['Deutsch'] },
+  { name: 'Italian', category: 'Language', aliases: ['Italiano'] },
+  { name: 'Portuguese', category: 'Language', aliases: ['Português', 'Portugues'] },
+  { name: 'Mandarin Chinese', category: 'Language', aliases: ['Mandarin', 'Chinese'] },
+  { name: 'Japanese', category: 'Language', aliases: ['Nihongo'] },
+  { name: 'Hindi', category: 'Language', aliases: [] },
+  { name: 'Arabic', category: 'Language', aliases: [] },
+  { name: 'Sign Language', category: 'Language', aliases: ['ASL', 'BSL'] },
+
+  // Music
+  { name: 'Guitar', category: 'Music', aliases: ['Acoustic Guitar', 'Electric Guitar'] },
+  { name: 'Piano', category: 'Music', aliases: ['Keyboard'] },
+  { name: 'Singing', category: 'Music', aliases: ['Vocals', 'Voice'] },
+  { name: 'Drums', category: 'Music', aliases: ['Percussion'] },
+  { name: 'Violin', category: 'Music', aliases: ['Fiddle'] },
+  { name: 'Music Production', category: 'Music', aliases: ['Ableton', 'FL Studio', 'Logic Pro'] },
+  { name: 'Music Theory', category: 'Music', aliases: [] },
+
+  // Sports
+  { name: 'Tennis', category: 'Sports', aliases: [] },
+  { name: 'Football', category: 'Sports', aliases: ['Soccer'] },
+  { name: 'Basketball', category: 'Sports', aliases: [] },
+  { name: 'Swimming', category: 'Sports', aliases: [] },
+  { name: 'Chess', category: 'Sports', aliases: [] },
+  { name: 'Rock Climbing', category: 'Sports', aliases: ['Climbing', 'Bouldering'] },
+
+  // Cooking
+  { name: 'Baking', category: 'Cooking', aliases: ['Pastry'] },
+  { name: 'Italian Cooking', category: 'Cooking', aliases: ['Pasta making'] },
+  { name: 'Asian Cooking', category: 'Cooking', aliases: ['Sushi', 'Chinese cooking', 'Thai cooking'] },
+  { name: 'Vegan Cooking', category: 'Cooking', aliases: ['Plant-based cooking'] },
+  { name: 'Meal Prep', category: 'Cooking', aliases: ['Meal Planning'] },
+
+  // Business
+  { name: 'Marketing', category: 'Business', aliases: ['Digital Marketing'] },
+  { name: 'SEO', category: 'Business', aliases: ['Search Engine Optimization'] },
+  { name: 'Public Speaking', category: 'Business', aliases: ['Presentation skills'] },
+  { name: 'Project Management', category: 'Business', aliases: ['PM', 'Agile', 'Scrum'] },
+  { name: 'Accounting', category: 'Business', aliases: ['Bookkeeping'] },
+  { name: 'Entrepreneurship', category: 'Business', aliases: ['Startups'] },
+  { name: 'Sales', category: 'Business', aliases: [] },
+
+  // Arts
+  { name: 'Drawing', category: 'Arts', aliases: ['Sketching'] },
+  { name: 'Painting', category: 'Arts', aliases: ['Watercolor', 'Oil painting', 'Acrylic painting'] },
+  { name: 'Photography', category: 'Arts', aliases: ['Photo'] },
+  { name: 'Creative Writing', category: 'Arts', aliases: ['Writing', 'Fiction writing'] },
+  { name: 'Calligraphy', category: 'Arts', aliases: ['Hand lettering'] },
+  { name: 'Knitting', category: 'Arts', aliases: ['Crochet'] },
+  { name: 'Pottery', category: 'Arts', aliases: ['Ceramics'] },
+
+  // Fitness
+  { name: 'Yoga', category: 'Fitness', aliases: [] },
+  { name: 'Pilates', category: 'Fitness', aliases: [] },
+  { name: 'Weight Training', category: 'Fitness', aliases: ['Weightlifting', 'Strength training'] },
+  { name: 'Running', category: 'Fitness', aliases: ['Jogging', 'Marathon training'] },
+  { name: 'Meditation', category: 'Fitness', aliases: ['Mindfulness'] },
+  { name: 'Dance', category: 'Fitness', aliases: ['Dancing', 'Salsa', 'Hip hop dance'] },
+
+  // Office
+  { name: 'Excel', category: 'Office', aliases: ['Microsoft Excel', 'Spreadsheets', 'Google Sheets'] },
+  { name: 'Word', category: 'Office', aliases: ['Microsoft Word'] },
+  { name: 'PowerPoint', category: 'Office', aliases: ['Microsoft PowerPoint', 'Slides', 'Keynote'] },
+  { name: 'Typing', category: 'Office', aliases: ['Touch typing'] },
+
+  // Other
+  { name: 'Gardening', category: 'Other', aliases: ['Horticulture'] },
+  { name: 'Home Repair', category: 'Other', aliases: ['DIY', 'Handyman'] },
+  { name: 'Sewing', category: 'Other', aliases: ['Tailoring'] },
+  { name: 'Personal Finance', category: 'Other', aliases: ['Budgeting', 'Investing'] }
+];
@@ -0,0 +1,17 @@
+const { processScheduledDeletions } = require('../services/accountDeletionService');
+
+/**
+ * Account Deletion Job
+ * Anonymises accounts whose deletion grace period has ended
+ */
+
+const run = async () => {
+  const anonymised = await processScheduledDeletions();
+  return { anonymised };
+};
+
+module.exports = {
+  name: 'account-deletion',
+  intervalMs: 60 * 60 * 1000, // hourly
+  run
+};
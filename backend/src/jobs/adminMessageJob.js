@@ -0,0 +1,48 @@
+const AdminMessage = require('../models/AdminMessage');
+const { notifyAdminMessage } = require('../services/notificationService');
+
+/**
+ * Admin Message Jobs
+ * Sends scheduled platform messages once they are due and archives expired ones
+ */
+
+const dispatchScheduledMessages = async () => {
+  const messages = await AdminMessage.find({
+    status: 'scheduled',
+    scheduledAt: { $lte: new Date() }
+  });
+  
+  let sent = 0;
+  let failed = 0;
+  
+  for (const message of messages) {
+    try {
+      await message.send();
+      await notifyAdminMessage(message);
+      sent += 1;
+    } catch (error) {
+      failed += 1;
+      console.error(`Error sending admin message ${message._id}:`, error);
+    }
+  }
+  
+  return { sent, failed };
+};
+
+const cleanupExpiredMessages = async () => {
+  const result = await AdminMessage.cleanupExpiredMessages();
+  return { archived: result.modifiedCount };
+};
+
+module.exports = [
+  {
+    name: 'admin-message-dispatch',
+    intervalMs: 60 * 1000, // every minute
+    run: dispatchScheduledMessages
+  },
+  {
+    name: 'admin-message-cleanup',
+    intervalMs: 60 * 60 * 1000, // hourly
+    run: cleanupExpiredMessages
+  }
+];
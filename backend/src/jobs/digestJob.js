@@ -0,0 +1,14 @@
+const { sendDueDigests } = require('../services/digestService');
+
+/**
+ * Notification Digest Job
+ * Sends daily and weekly digest emails to members whose digest is due
+ */
+
+const run = () => sendDueDigests();
+
+module.exports = {
+  name: 'notification-digest',
+  intervalMs: 15 * 60 * 1000, // every 15 minutes
+  run
+};
@@ -0,0 +1,31 @@
+const { registerJob, startScheduler } = require('./scheduler');
+const accountDeletionJob = require('./accountDeletionJob');
+const swapExpiryJob = require('./swapExpiryJob');
+const adminMessageJobs = require('./adminMessageJob');
+const tempFileCleanupJob = require('./tempFileCleanupJob');
+const mailDeliveryJob = require('./mailDeliveryJob');
+const digestJob = require('./digestJob');
+
+/**
+ * Background Jobs
+ * Registers every scheduled job with the scheduler
+ */
+
+const JOBS = [
+  accountDeletionJob,
+  swapExpiryJob,
+  ...adminMessageJobs,
+  tempFileCleanupJob,
+  mailDeliveryJob,
+  digestJob
+];
+
+const startJobs = () => {
+  JOBS.forEach(registerJob);
+  return startScheduler();
+};
+
+module.exports = {
+  JOBS,
+  startJobs
+};
@@ -0,0 +1,14 @@
+const { deliverQueuedMail } = require('../services/mailService');
+
+/**
+ * Mail Delivery Job
+ * Retries queued email whose backoff has elapsed and picks up sends abandoned mid-delivery
+ */
+
+const run = () => deliverQueuedMail();
+
+module.exports = {
+  name: 'mail-delivery',
+  intervalMs: 60 * 1000, // every minute
+  run
+};
@@ -0,0 +1,94 @@
+const os = require('os');
+const JobLock = require('../models/JobLock');
+const JobRun = require('../models/JobRun');
+
+/**
+ * Job Scheduler
+ * Runs background jobs in-process on a fixed interval. Each run is claimed
+ * through a lock document in MongoDB, so when several instances are running
+ * only one of them runs a given job at a time.
+ */
+
+const TICK_MS = 60 * 1000; // check for due jobs every minute
+const DEFAULT_LOCK_MS = 10 * 60 * 1000; // lock held while a job runs
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+const jobs = new Map();
+let ticking = false;
+
+/**
+ * Register a job
+ * @param {Object} job - { name, intervalMs, lockMs, run } where run resolves to a result summary
+ */
+const registerJob = (job) => {
+  jobs.set(job.name, { lockMs: DEFAULT_LOCK_MS, ...job });
+};
+
+/**
+ * Run a job now if it is due and no other instance holds it
+ * @returns {Promise<Object|null>} The job run, or null when the job was not claimed
+ */
+const runJob = async (name) => {
+  const job = jobs.get(name);
+  
+  if (!job) {
+    throw new Error(`Unknown job: ${name}`);
+  }
+  
+  const lock = await JobLock.claim(name, INSTANCE_ID, job.lockMs);
+  if (!lock) return null;
+  
+  const run = await JobRun.create({ job: name, instance: INSTANCE_ID });
+  let status = 'succeeded';
+  
+  try {
+    const result = await job.run();
+    await run.finish(status, { result });
+  } catch (error) {
+    status = 'failed';
+    console.error(`Job ${name} failed:`, error);
+    await run.finish(status, { error: error.message });
+  } finally {
+    await JobLock.release(name, INSTANCE_ID, {
+      status,
+      nextRunAt: new Date(Date.now() + job.intervalMs)
+    });
+  }
+  
+  return run;
+};
+
+// Run every due job once; jobs run one after another
+const tick = async () => {
+  if (ticking) return;
+  ticking = true;
+  
+  try {
+    for (const name of jobs.keys()) {
+      try {
+        await runJob(name);
+      } catch (error) {
+        console.error(`Could not run job ${name}:`, error);
+      }
+    }
+  } finally {
+    ticking = false;
+  }
+};
+
+/**
+ * Start the scheduler timer (does not keep the process alive on its own)
+ */
+const startScheduler = () => {
+  const timer = setInterval(tick, TICK_MS);
+  timer.unref();
+  tick();
+  return timer;
+};
+
+module.exports = {
+  registerJob,
+  runJob,
+  startScheduler
+};
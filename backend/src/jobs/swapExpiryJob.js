@@ -0,0 +1,57 @@
+const Swap = require('../models/Swap');
+const SwapChain = require('../models/SwapChain');
+const { notifySwapUpdate } = require('../services/notificationService');
+
+/**
+ * Swap Expiry Job
+ * Cancels pending swaps, and the swap chains of pending chain legs, whose
+ * response deadline has passed
+ */
+
+const EXPIRY_REASON = 'No response before the deadline';
+
+const run = async () => {
+  const swaps = await Swap.findExpiredSwaps();
+  const chainIds = new Set();
+  let expired = 0;
+  let failed = 0;
+  
+  for (const swap of swaps) {
+    // Chain legs are only ever changed together with their swap chain
+    if (swap.chain) {
+      chainIds.add(swap.chain.toString());
+      continue;
+    }
+    
+    try {
+      await swap.transition('expire', { reason: EXPIRY_REASON });
+      await notifySwapUpdate(swap, 'swap.expired', null);
+      expired += 1;
+    } catch (error) {
+      failed += 1;
+      console.error(`Error expiring swap ${swap._id}:`, error);
+    }
+  }
+  
+  // A chain that not every member confirmed in time is cancelled with all of its legs
+  const chains = await SwapChain.find({ _id: { $in: [...chainIds] } });
+  
+  for (const chain of chains) {
+    try {
+      const legs = await chain.expire(EXPIRY_REASON);
+      await Promise.all(legs.map(leg => notifySwapUpdate(leg, 'swap.expired', null)));
+      expired += legs.length;
+    } catch (error) {
+      failed += 1;
+      console.error(`Error expiring swap chain ${chain._id}:`, error);
+    }
+  }
+  
+  return { expired, failed };
+};
+
+module.exports = {
+  name: 'swap-expiry',
+  intervalMs: 15 * 60 * 1000, // every 15 minutes
+  run
+};
@@ -0,0 +1,22 @@
+const { purgeTempFiles } = require('../utils/reportGenerator');
+
+/**
+ * Temp File Cleanup Job
+ * Deletes report and export files left in the temp directory, e.g. after a failed download
+ */
+
+const MAX_AGE_MS = 60 * 60 * 1000; // files still in use are only seconds old
+
+// The file mail transport's default outbox lives alongside the reports
+const KEEP_FILES = ['mail-outbox.log'];
+
+const run = async () => {
+  const removed = await purgeTempFiles(MAX_AGE_MS, KEEP_FILES);
+  return { removed };
+};
+
+module.exports = {
+  name: 'temp-file-cleanup',
+  intervalMs: 6 * 60 * 60 * 1000, // every 6 hours
+  run
+};
@@ -1,5 +1,6 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const Session = require('../models/Session');
 
 /**
  * Authentication middleware for protecting routes
@@ -69,8 +70,21 @@ const authenticate = async (req, res, next) => {
         });
       }
       
-      // Add user to request object
+      // Check that the session behind the token has not been revoked
+      if (decoded.sid) {
+        const session = await Session.findById(decoded.sid);
+        
+        if (!session || !session.isActive) {
+          return res.status(401).json({
+            success: false,
+            message: 'Session has been revoked. Please login again.'
+          });
+        }
+      }
+      
+      // Add user and session to request object
       req.user = user;
+      req.sessionId = decoded.sid;
       next();
       
     } catch (error) {
@@ -121,6 +135,15 @@ const authorize = (...roles) => {
       });
     }
     
+    // Two-factor authentication is mandatory for admins
+    if (req.user.role === 'admin' && !req.user.twoFactorEnabled) {
+      return res.status(403).json({
+        success: false,
+        code: 'TWO_FACTOR_REQUIRED',
+        message: 'Admins must enable two-factor authentication to continue'
+      });
+    }
+    
     next();
   };
 };
@@ -148,8 +171,12 @@ const optionalAuth = async (req, res, next) => {
         const decoded = jwt.verify(token, process.env.JWT_SECRET);
         const user = await User.findById(decoded.id).select('-password');
         
-        if (user && !user.isBanned && user.isActive && !user.changedPasswordAfter(decoded.iat)) {
+        const session = decoded.sid ? await Session.findById(decoded.sid) : null;
+        const sessionIsValid = !decoded.sid || (session && session.isActive);
+        
+        if (user && !user.isBanned && user.isActive && !user.changedPasswordAfter(decoded.iat) && sessionIsValid) {
           req.user = user;
+          req.sessionId = decoded.sid;
         }
       } catch (error) {
         // Token is invalid, but we don't return an error
@@ -273,14 +300,95 @@ const checkProfileAccess = async (req, res, next) => {
 
 /**
  * Middleware to generate JWT token
- * Utility function for creating tokens
+ * Utility function for creating short-lived access tokens bound to a session
  */
-const generateToken = (userId) => {
-  return jwt.sign({ id: userId }, process.env.JWT_SECRET, {
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d'
+const generateToken = (userId, sessionId) => {
+  const payload = { id: userId };
+  
+  if (sessionId) {
+    payload.sid = sessionId.toString();
+  }
+  
+  return jwt.sign(payload, process.env.JWT_SECRET, {
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m'
   });
 };
 
+/**
+ * Middleware to require a verified email address
+ * Must be used after authenticate
+ */
+const requireVerifiedEmail = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: 'Authentication required'
+    });
+  }
+  
+  if (!req.user.emailVerified) {
+    return res.status(403).json({
+      success: false,
+      code: 'EMAIL_NOT_VERIFIED',
+      message: 'Please verify your email address to continue'
+    });
+  }
+  
+  next();
+};
+
+/**
+ * Generate a signed email verification token
+ * Uses a distinct purpose claim and no `id` so it can never be used as an access token
+ */
+const generateEmailVerificationToken = (user) => {
+  return jwt.sign(
+    { sub: user._id.toString(), email: user.email, purpose: 'email-verification' },
+    process.env.JWT_SECRET,
+    { expiresIn: process.env.EMAIL_VERIFICATION_EXPIRES_IN || '24h' }
+  );
+};
+
+/**
+ * Verify an email verification token and return its payload
+ * Throws if the token is invalid, expired or was issued for another purpose
+ */
+const verifyEmailVerificationToken = (token) => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET);
+  
+  if (decoded.purpose !== 'email-verification') {
+    throw new jwt.JsonWebTokenError('Invalid token purpose');
+  }
+  
+  return decoded;
+};
+
+/**
+ * Generate a short-lived two-factor login challenge token
+ * Issued after the password check; exchanged for a session once a code is verified
+ */
+const generateTwoFactorChallengeToken = (user) => {
+  return jwt.sign(
+    { sub: user._id.toString(), purpose: 'two-factor-challenge' },
+    process.env.JWT_SECRET,
+    { expiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m' }
+  );
+};
+
+/**
+ * Verify a two-factor challenge token and return its payload
+ * Throws if the token is invalid, expired or was issued for another purpose
+ */
+const verifyTwoFactorChallengeToken = (token) => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET);
+  
+  if (decoded.purpose !== 'two-factor-challenge') {
+    throw new jwt.JsonWebTokenError('Invalid token purpose');
+  }
+  
+  return decoded;
+};
+
 /**
  * Middleware to handle token refresh
  * Generates new token if current token is close to expiration
@@ -298,7 +406,7 @@ const refreshToken = (req, res, next) => {
         
         // If token is more than 80% expired, generate new one
         if (tokenAge > tokenLifetime * 0.8) {
-          const newToken = generateToken(req.user._id);
+          const newToken = generateToken(req.user._id, decoded.sid);
           res.set('X-New-Token', newToken);
         }
       } catch (error) {
@@ -316,6 +424,11 @@ module.exports = {
   optionalAuth,
   checkOwnership,
   checkProfileAccess,
+  requireVerifiedEmail,
   generateToken,
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
   refreshToken
 };
\ No newline at end of file
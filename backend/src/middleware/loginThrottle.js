@@ -0,0 +1,23 @@
+const { getLoginRetryAfter, sendLoginThrottled } = require('../services/loginThrottleService');
+
+/**
+ * Login throttle middleware
+ * Rejects login attempts for accounts or IPs that are backing off or locked
+ */
+const checkLoginThrottle = async (req, res, next) => {
+  try {
+    const state = await getLoginRetryAfter(req.body.email, req.ip);
+    
+    if (state.retryAfter > 0) {
+      return sendLoginThrottled(res, state);
+    }
+    
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+module.exports = {
+  checkLoginThrottle
+};
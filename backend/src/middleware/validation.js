@@ -1,4 +1,10 @@
 const { body, param, query, validationResult } = require('express-validator');
+const { checkLoginThrottle } = require('./loginThrottle');
+const { NOTIFICATION_CHANNELS, DIGEST_FREQUENCIES } = require('../utils/notificationTypes');
+const { isValidTimeZone } = require('../utils/timeZone');
+const { TEMPLATES } = require('../services/mailTemplates');
+const { MAX_RANGE_DAYS, MAX_PROPOSED_SLOTS, MAX_SESSION_MINUTES } = require('../services/schedulingService');
+const { MAX_SESSION_COUNT } = require('../services/swapSessionService');
 
 /**
  * Validation middleware using express-validator
@@ -29,6 +35,60 @@ const handleValidationErrors = (req, res, next) => {
   next();
 };
 
+/**
+ * Check a list of skills
+ * Each skill is either a name or an object with name, category, description and level
+ */
+const validateSkillList = (skills) => {
+  const validLevels = ['beginner', 'intermediate', 'advanced', 'expert'];
+  
+  if (skills.length > 10) {
+    throw new Error('Maximum 10 skills allowed');
+  }
+  
+  skills.forEach(skill => {
+    const details = typeof skill === 'string' ? { name: skill } : skill;
+    
+    if (!details || typeof details.name !== 'string' || details.name.trim().length === 0) {
+      throw new Error('Every skill must have a name');
+    }
+    if (details.name.trim().length > 50) {
+      throw new Error('Skill names cannot exceed 50 characters');
+    }
+    if (details.category !== undefined && typeof details.category !== 'string') {
+      throw new Error('Skill category must be a string');
+    }
+    if (details.description !== undefined && (typeof details.description !== 'string' || details.description.length > 200)) {
+      throw new Error('Skill description must be a string of at most 200 characters');
+    }
+    if (details.level !== undefined && !validLevels.includes(details.level)) {
+      throw new Error('Invalid skill level');
+    }
+  });
+  
+  return true;
+};
+
+/**
+ * Convert skills to subdocument input
+ * Plain names become { name }; only fields users may edit are kept (never isApproved)
+ */
+const toSkillInputs = (skills) => {
+  return skills.map(skill => {
+    if (typeof skill === 'string') {
+      return { name: skill.trim() };
+    }
+    
+    const input = { name: skill.name.trim() };
+    ['id', 'category', 'description', 'level'].forEach(field => {
+      if (skill[field] !== undefined && skill[field] !== '') {
+        input[field] = skill[field];
+      }
+    });
+    return input;
+  });
+};
+
 /**
  * User registration validation
  */
@@ -55,28 +115,18 @@ const validateUserRegistration = [
   body('skillsOffered')
     .isArray({ min: 1 })
     .withMessage('At least one skill offered is required')
-    .custom((skills) => {
-      if (skills.some(skill => typeof skill !== 'string' || skill.trim().length === 0)) {
-        throw new Error('All skills must be non-empty strings');
-      }
-      if (skills.length > 10) {
-        throw new Error('Maximum 10 skills allowed');
-      }
-      return true;
-    }),
+    .bail()
+    .custom(validateSkillList)
+    .bail()
+    .customSanitizer(toSkillInputs),
   
   body('skillsWanted')
     .isArray({ min: 1 })
     .withMessage('At least one skill wanted is required')
-    .custom((skills) => {
-      if (skills.some(skill => typeof skill !== 'string' || skill.trim().length === 0)) {
-        throw new Error('All skills must be non-empty strings');
-      }
-      if (skills.length > 10) {
-        throw new Error('Maximum 10 skills allowed');
-      }
-      return true;
-    }),
+    .bail()
+    .custom(validateSkillList)
+    .bail()
+    .customSanitizer(toSkillInputs),
   
   body('location')
     .optional()
@@ -113,7 +163,10 @@ const validateUserLogin = [
     .notEmpty()
     .withMessage('Password is required'),
   
-  handleValidationErrors
+  handleValidationErrors,
+  
+  // Accounts and IPs that are backing off get a 429 with Retry-After
+  checkLoginThrottle
 ];
 
 /**
@@ -175,29 +228,53 @@ const validateSkillsUpdate = [
     .optional()
     .isArray({ min: 1 })
     .withMessage('At least one skill offered is required')
-    .custom((skills) => {
-      if (skills.some(skill => typeof skill !== 'string' || skill.trim().length === 0)) {
-        throw new Error('All skills must be non-empty strings');
-      }
-      if (skills.length > 10) {
-        throw new Error('Maximum 10 skills allowed');
-      }
-      return true;
-    }),
+    .bail()
+    .custom(validateSkillList)
+    .bail()
+    .customSanitizer(toSkillInputs),
   
   body('skillsWanted')
     .optional()
     .isArray({ min: 1 })
     .withMessage('At least one skill wanted is required')
-    .custom((skills) => {
-      if (skills.some(skill => typeof skill !== 'string' || skill.trim().length === 0)) {
-        throw new Error('All skills must be non-empty strings');
-      }
-      if (skills.length > 10) {
-        throw new Error('Maximum 10 skills allowed');
-      }
-      return true;
-    }),
+    .bail()
+    .custom(validateSkillList)
+    .bail()
+    .customSanitizer(toSkillInputs),
+  
+  handleValidationErrors
+];
+
+/**
+ * Availability windows update validation
+ */
+const validateAvailability = [
+  body('windows')
+    .isArray({ max: 28 })
+    .withMessage('Windows must be an array of at most 28 availability windows'),
+  
+  body('windows.*.day')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Day must be a number from 0 (Sunday) to 6 (Saturday)')
+    .toInt(),
+  
+  body('windows.*.start')
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Start time must be in HH:MM format'),
+  
+  body('windows.*.end')
+    .matches(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/)
+    .withMessage('End time must be in HH:MM format')
+    .custom((end, { req, path }) => {
+      const index = parseInt(path.match(/\[(\d+)\]/)[1]);
+      return end > req.body.windows[index].start;
+    })
+    .withMessage('End time must be after start time'),
+  
+  body('timezone')
+    .optional()
+    .custom(isValidTimeZone)
+    .withMessage('Time zone must be a valid IANA time zone, e.g. Europe/Berlin'),
   
   handleValidationErrors
 ];
@@ -215,7 +292,14 @@ const validateSwapCreation = [
     .isLength({ min: 1, max: 100 })
     .withMessage('Requested skill must be between 1 and 100 characters'),
   
+  body('paymentType')
+    .optional()
+    .isIn(['skill', 'credits'])
+    .withMessage('Payment type must be skill or credits'),
+  
+  // Swaps paid in time credits have no offered skill
   body('offeredSkill')
+    .if(body('paymentType').not().equals('credits'))
     .trim()
     .isLength({ min: 1, max: 100 })
     .withMessage('Offered skill must be between 1 and 100 characters'),
@@ -248,199 +332,856 @@ const validateSwapCreation = [
       return true;
     }),
   
+  body('sessionCount')
+    .optional()
+    .isInt({ min: 1, max: MAX_SESSION_COUNT })
+    .withMessage(`A swap can have between 1 and ${MAX_SESSION_COUNT} sessions`)
+    .toInt(),
+  
   handleValidationErrors
 ];
 
 /**
- * Rating creation validation
+ * Swap chain creation validation
  */
-const validateRatingCreation = [
-  body('swap')
-    .isMongoId()
-    .withMessage('Valid swap ID is required'),
+const validateSwapChainCreation = [
+  body('participants')
+    .isArray({ min: 2, max: 3 })
+    .withMessage('A swap chain needs 2 or 3 other participants'),
   
-  body('reviewee')
+  body('participants.*')
     .isMongoId()
-    .withMessage('Valid reviewee ID is required'),
+    .withMessage('Valid participant IDs are required'),
   
-  body('rating')
-    .isInt({ min: 1, max: 5 })
-    .withMessage('Rating must be an integer between 1 and 5'),
+  body('message')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Message cannot exceed 500 characters'),
   
-  body('feedback')
+  handleValidationErrors
+];
+
+/**
+ * Swap counter-offer validation
+ */
+const validateCounterOffer = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  body('requestedSkill')
     .optional()
     .trim()
-    .isLength({ max: 1000 })
-    .withMessage('Feedback cannot exceed 1000 characters'),
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Requested skill must be between 1 and 100 characters'),
   
-  body('categories.communication')
+  body('offeredSkill')
     .optional()
-    .isInt({ min: 1, max: 5 })
-    .withMessage('Communication rating must be between 1 and 5'),
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Offered skill must be between 1 and 100 characters'),
   
-  body('categories.skillLevel')
+  body('meetingType')
     .optional()
-    .isInt({ min: 1, max: 5 })
-    .withMessage('Skill level rating must be between 1 and 5'),
+    .isIn(['online', 'in-person', 'hybrid'])
+    .withMessage('Invalid meeting type'),
   
-  body('categories.punctuality')
+  body('location')
     .optional()
-    .isInt({ min: 1, max: 5 })
-    .withMessage('Punctuality rating must be between 1 and 5'),
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Location cannot exceed 200 characters'),
   
-  body('categories.helpfulness')
+  body('proposedDate')
     .optional()
-    .isInt({ min: 1, max: 5 })
-    .withMessage('Helpfulness rating must be between 1 and 5'),
+    .isISO8601()
+    .withMessage('Invalid date format')
+    .custom((date) => {
+      if (new Date(date) <= new Date()) {
+        throw new Error('Proposed date must be in the future');
+      }
+      return true;
+    }),
   
-  body('wouldRecommend')
+  body('duration')
     .optional()
-    .isBoolean()
-    .withMessage('wouldRecommend must be a boolean'),
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Duration cannot exceed 50 characters'),
   
-  body('isPublic')
+  body('sessionCount')
     .optional()
-    .isBoolean()
-    .withMessage('isPublic must be a boolean'),
+    .isInt({ min: 1, max: MAX_SESSION_COUNT })
+    .withMessage(`A swap can have between 1 and ${MAX_SESSION_COUNT} sessions`)
+    .toInt(),
   
-  body('isAnonymous')
+  body('message')
     .optional()
-    .isBoolean()
-    .withMessage('isAnonymous must be a boolean'),
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Message cannot exceed 500 characters'),
   
   handleValidationErrors
 ];
 
 /**
- * Admin message creation validation
+ * Swap status change validation
  */
-const validateAdminMessage = [
-  body('title')
+const validateSwapStatusChange = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  body('reason')
+    .optional()
     .trim()
-    .isLength({ min: 1, max: 200 })
-    .withMessage('Title must be between 1 and 200 characters'),
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
   
-  body('message')
+  handleValidationErrors
+];
+
+/**
+ * Swap message validation
+ */
+const validateMessage = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  body('body')
     .trim()
     .isLength({ min: 1, max: 2000 })
     .withMessage('Message must be between 1 and 2000 characters'),
   
-  body('type')
-    .optional()
-    .isIn(['announcement', 'maintenance', 'update', 'warning', 'promotion'])
-    .withMessage('Invalid message type'),
-  
-  body('priority')
-    .optional()
-    .isIn(['low', 'medium', 'high', 'urgent'])
-    .withMessage('Invalid priority level'),
-  
-  body('targetUserType')
-    .optional()
-    .isIn(['all', 'active', 'inactive', 'new', 'premium', 'specific'])
-    .withMessage('Invalid target user type'),
-  
-  body('targetUsers')
-    .optional()
-    .isArray()
-    .withMessage('Target users must be an array')
-    .custom((users) => {
-      if (users.some(userId => !userId.match(/^[0-9a-fA-F]{24}$/))) {
-        throw new Error('All target user IDs must be valid MongoDB ObjectIds');
-      }
-      return true;
-    }),
-  
-  body('scheduledAt')
-    .optional()
-    .isISO8601()
-    .withMessage('Invalid scheduled date format'),
+  handleValidationErrors
+];
+
+/**
+ * Swap message ID validation
+ */
+const validateMessageId = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
   
-  body('expiresAt')
-    .optional()
-    .isISO8601()
-    .withMessage('Invalid expiration date format')
-    .custom((date, { req }) => {
-      const scheduledAt = req.body.scheduledAt || new Date();
-      if (new Date(date) <= new Date(scheduledAt)) {
-        throw new Error('Expiration date must be after scheduled date');
-      }
-      return true;
-    }),
+  param('messageId')
+    .isMongoId()
+    .withMessage('Invalid message ID format'),
   
   handleValidationErrors
 ];
 
 /**
- * MongoDB ObjectId validation
+ * Swap message edit validation
  */
-const validateObjectId = [
+const validateMessageUpdate = [
   param('id')
     .isMongoId()
     .withMessage('Invalid ID format'),
   
+  param('messageId')
+    .isMongoId()
+    .withMessage('Invalid message ID format'),
+  
+  body('body')
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Message must be between 1 and 2000 characters'),
+  
   handleValidationErrors
 ];
 
 /**
- * Pagination validation
+ * Open session slot query validation
  */
-const validatePagination = [
-  query('page')
+const validateSlotQuery = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  query('from')
     .optional()
-    .isInt({ min: 1 })
-    .withMessage('Page must be a positive integer'),
+    .isISO8601()
+    .withMessage('From must be a valid date'),
   
-  query('limit')
+  query('to')
     .optional()
-    .isInt({ min: 1, max: 100 })
-    .withMessage('Limit must be between 1 and 100'),
+    .isISO8601()
+    .withMessage('To must be a valid date')
+    .custom((to, { req }) => {
+      const from = req.query.from ? new Date(req.query.from) : new Date();
+      const days = (new Date(to) - from) / (24 * 60 * 60 * 1000);
+      return days > 0 && days <= MAX_RANGE_DAYS;
+    })
+    .withMessage(`To must be after from and at most ${MAX_RANGE_DAYS} days later`),
   
-  query('sort')
+  query('minutes')
     .optional()
-    .isIn(['createdAt', '-createdAt', 'updatedAt', '-updatedAt', 'name', '-name', 'rating', '-rating'])
-    .withMessage('Invalid sort option'),
+    .isInt({ min: 15, max: MAX_SESSION_MINUTES })
+    .withMessage(`Session length must be between 15 and ${MAX_SESSION_MINUTES} minutes`),
   
   handleValidationErrors
 ];
 
 /**
- * Search validation
+ * Session time proposal validation
  */
-const validateSearch = [
-  query('skill')
-    .optional()
-    .trim()
-    .isLength({ min: 1, max: 100 })
-    .withMessage('Search skill must be between 1 and 100 characters'),
+const validateSlotProposal = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
   
-  query('location')
+  body('slots')
+    .isArray({ min: 1, max: MAX_PROPOSED_SLOTS })
+    .withMessage(`Propose between 1 and ${MAX_PROPOSED_SLOTS} session times`),
+  
+  body('slots.*')
+    .isISO8601()
+    .withMessage('Each session time must be a valid date'),
+  
+  body('sessionMinutes')
     .optional()
-    .trim()
-    .isLength({ min: 1, max: 100 })
-    .withMessage('Search location must be between 1 and 100 characters'),
+    .isInt({ min: 15, max: MAX_SESSION_MINUTES })
+    .withMessage(`Session length must be between 15 and ${MAX_SESSION_MINUTES} minutes`)
+    .toInt(),
   
-  query('availability')
+  body('teacher')
     .optional()
-    .isIn(['weekdays', 'weekends', 'mornings', 'afternoons', 'evenings', 'flexible'])
-    .withMessage('Invalid availability option'),
+    .isMongoId()
+    .withMessage('Valid teacher ID is required'),
   
   handleValidationErrors
 ];
 
 /**
- * Password change validation
+ * Session time confirmation validation
  */
-const validatePasswordChange = [
-  body('currentPassword')
-    .notEmpty()
-    .withMessage('Current password is required'),
+const validateSlotConfirmation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
   
-  body('newPassword')
-    .isLength({ min: 6 })
-    .withMessage('New password must be at least 6 characters long')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
-    .withMessage('New password must contain at least one uppercase letter, one lowercase letter, and one number'),
+  body('slotId')
+    .isMongoId()
+    .withMessage('Valid session time ID is required'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Swap session creation validation
+ */
+const validateSessionCreation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  body('teacher')
+    .optional()
+    .isMongoId()
+    .withMessage('Valid teacher ID is required'),
+  
+  body('scheduledFor')
+    .isISO8601()
+    .withMessage('A valid session date is required'),
+  
+  body('minutes')
+    .optional()
+    .isInt({ min: 15, max: MAX_SESSION_MINUTES })
+    .withMessage(`Session length must be between 15 and ${MAX_SESSION_MINUTES} minutes`)
+    .toInt(),
+  
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Note cannot exceed 1000 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Swap session attendance validation
+ */
+const validateAttendance = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  param('sessionId')
+    .isMongoId()
+    .withMessage('Invalid session ID format'),
+  
+  body('attended')
+    .isBoolean()
+    .withMessage('attended must be a boolean')
+    .toBoolean(),
+  
+  handleValidationErrors
+];
+
+/**
+ * Swap session note validation
+ */
+const validateSessionNote = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  param('sessionId')
+    .isMongoId()
+    .withMessage('Invalid session ID format'),
+  
+  body('body')
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Note must be between 1 and 1000 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Swap session cancellation validation
+ */
+const validateSessionCancellation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  param('sessionId')
+    .isMongoId()
+    .withMessage('Invalid session ID format'),
+  
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * No-show report validation
+ */
+const validateNoShowReport = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  param('sessionId')
+    .isMongoId()
+    .withMessage('Invalid session ID format'),
+  
+  body('body')
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Description must be between 1 and 2000 characters'),
+  
+  body('evidence')
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage('Add at most 5 evidence links'),
+  
+  body('evidence.*')
+    .trim()
+    .isURL({ protocols: ['http', 'https'], require_protocol: true })
+    .withMessage('Evidence must be links starting with http:// or https://')
+    .isLength({ max: 500 })
+    .withMessage('Evidence links cannot exceed 500 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Dispute creation validation
+ */
+const validateDisputeCreation = [
+  body('swap')
+    .isMongoId()
+    .withMessage('Valid swap ID is required'),
+  
+  body('session')
+    .optional()
+    .isMongoId()
+    .withMessage('Valid session ID is required'),
+  
+  body('reason')
+    .isIn(['no-show', 'not-as-agreed', 'conduct', 'other'])
+    .withMessage('Reason must be no-show, not-as-agreed, conduct or other'),
+  
+  body('body')
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Description must be between 1 and 2000 characters'),
+  
+  body('evidence')
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage('Add at most 5 evidence links'),
+  
+  body('evidence.*')
+    .trim()
+    .isURL({ protocols: ['http', 'https'], require_protocol: true })
+    .withMessage('Evidence must be links starting with http:// or https://')
+    .isLength({ max: 500 })
+    .withMessage('Evidence links cannot exceed 500 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Dispute comment validation
+ */
+const validateDisputeComment = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  body('body')
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Comment must be between 1 and 2000 characters'),
+  
+  body('evidence')
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage('Add at most 5 evidence links'),
+  
+  body('evidence.*')
+    .trim()
+    .isURL({ protocols: ['http', 'https'], require_protocol: true })
+    .withMessage('Evidence must be links starting with http:// or https://')
+    .isLength({ max: 500 })
+    .withMessage('Evidence links cannot exceed 500 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Dispute list query validation
+ */
+const validateDisputeQuery = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  
+  query('swap')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid swap ID format'),
+  
+  query('status')
+    .optional()
+    .isIn(['open', 'resolved'])
+    .withMessage('Status must be open or resolved'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Calendar feed token validation
+ */
+const validateCalendarToken = [
+  param('token')
+    .isHexadecimal()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Invalid calendar feed token'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Notification list validation
+ */
+const validateNotificationQuery = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  
+  query('unread')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('Unread must be true or false'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Notification bulk clear validation
+ */
+const validateNotificationClear = [
+  query('scope')
+    .optional()
+    .isIn(['read', 'all'])
+    .withMessage('Scope must be read or all'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Notification preferences validation
+ */
+const validateNotificationPreferences = [
+  body('swapRequests')
+    .optional()
+    .isIn(NOTIFICATION_CHANNELS)
+    .withMessage(`Swap request notifications must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`),
+  
+  body('swapUpdates')
+    .optional()
+    .isIn(NOTIFICATION_CHANNELS)
+    .withMessage(`Swap update notifications must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`),
+  
+  body('ratings')
+    .optional()
+    .isIn(NOTIFICATION_CHANNELS)
+    .withMessage(`Rating notifications must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`),
+  
+  body('disputes')
+    .optional()
+    .isIn(NOTIFICATION_CHANNELS)
+    .withMessage(`Dispute notifications must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`),
+  
+  body('adminMessages')
+    .optional()
+    .isIn(NOTIFICATION_CHANNELS)
+    .withMessage(`Announcement notifications must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`),
+  
+  body('digestFrequency')
+    .optional()
+    .isIn(DIGEST_FREQUENCIES)
+    .withMessage(`Digest frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`),
+  
+  body('timezone')
+    .optional()
+    .custom(isValidTimeZone)
+    .withMessage('Time zone must be a valid IANA time zone, e.g. Europe/Berlin'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Rating creation validation
+ */
+const validateRatingCreation = [
+  body('swap')
+    .isMongoId()
+    .withMessage('Valid swap ID is required'),
+  
+  body('reviewee')
+    .isMongoId()
+    .withMessage('Valid reviewee ID is required'),
+  
+  body('rating')
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Rating must be an integer between 1 and 5'),
+  
+  body('feedback')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Feedback cannot exceed 1000 characters'),
+  
+  body('categories.communication')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Communication rating must be between 1 and 5'),
+  
+  body('categories.skillLevel')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Skill level rating must be between 1 and 5'),
+  
+  body('categories.punctuality')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Punctuality rating must be between 1 and 5'),
+  
+  body('categories.helpfulness')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Helpfulness rating must be between 1 and 5'),
+  
+  body('wouldRecommend')
+    .optional()
+    .isBoolean()
+    .withMessage('wouldRecommend must be a boolean'),
+  
+  body('isPublic')
+    .optional()
+    .isBoolean()
+    .withMessage('isPublic must be a boolean'),
+  
+  body('isAnonymous')
+    .optional()
+    .isBoolean()
+    .withMessage('isAnonymous must be a boolean'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Admin message creation validation
+ */
+const validateAdminMessage = [
+  body('title')
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Title must be between 1 and 200 characters'),
+  
+  body('message')
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Message must be between 1 and 2000 characters'),
+  
+  body('type')
+    .optional()
+    .isIn(['announcement', 'maintenance', 'update', 'warning', 'promotion'])
+    .withMessage('Invalid message type'),
+  
+  body('priority')
+    .optional()
+    .isIn(['low', 'medium', 'high', 'urgent'])
+    .withMessage('Invalid priority level'),
+  
+  body('targetUserType')
+    .optional()
+    .isIn(['all', 'active', 'inactive', 'new', 'premium', 'specific'])
+    .withMessage('Invalid target user type'),
+  
+  body('targetUsers')
+    .optional()
+    .isArray()
+    .withMessage('Target users must be an array')
+    .custom((users) => {
+      if (users.some(userId => !userId.match(/^[0-9a-fA-F]{24}$/))) {
+        throw new Error('All target user IDs must be valid MongoDB ObjectIds');
+      }
+      return true;
+    }),
+  
+  body('scheduledAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid scheduled date format'),
+  
+  body('expiresAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid expiration date format')
+    .custom((date, { req }) => {
+      const scheduledAt = req.body.scheduledAt || new Date();
+      if (new Date(date) <= new Date(scheduledAt)) {
+        throw new Error('Expiration date must be after scheduled date');
+      }
+      return true;
+    }),
+  
+  handleValidationErrors
+];
+
+/**
+ * MongoDB ObjectId validation
+ */
+const validateObjectId = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Pagination validation
+ */
+const validatePagination = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  
+  query('sort')
+    .optional()
+    .isIn(['createdAt', '-createdAt', 'updatedAt', '-updatedAt', 'name', '-name', 'rating', '-rating'])
+    .withMessage('Invalid sort option'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Search validation
+ */
+const validateSearch = [
+  query('skill')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Search skill must be between 1 and 100 characters'),
+  
+  query('location')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Search location must be between 1 and 100 characters'),
+  
+  query('category')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Category must be between 1 and 50 characters'),
+  
+  query('availability')
+    .optional()
+    .isIn(['weekdays', 'weekends', 'mornings', 'afternoons', 'evenings', 'flexible'])
+    .withMessage('Invalid availability option'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Skill autocomplete validation
+ */
+const validateSkillAutocomplete = [
+  query('q')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Search text must be between 1 and 50 characters'),
+  
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Limit must be between 1 and 20')
+    .toInt(),
+  
+  handleValidationErrors
+];
+
+/**
+ * Match query validation
+ */
+const validateMatchQuery = [
+  query('meetingType')
+    .optional()
+    .isIn(['online', 'in-person', 'hybrid'])
+    .withMessage('Meeting type must be online, in-person or hybrid'),
+  
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50')
+    .toInt(),
+  
+  handleValidationErrors
+];
+
+/**
+ * Skill rejection validation
+ */
+const validateSkillRejection = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Rejection reason must be between 3 and 500 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Dispute resolution validation
+ */
+const validateDisputeResolution = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid ID format'),
+  
+  body('outcome')
+    .isIn(['dismiss', 'void-swap', 'warn', 'ban'])
+    .withMessage('Outcome must be dismiss, void-swap, warn or ban'),
+  
+  body('atFault')
+    .optional()
+    .isMongoId()
+    .withMessage('Valid member ID is required'),
+  
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Note cannot exceed 1000 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Admin mail outbox query validation
+ */
+const validateMailQuery = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  
+  query('status')
+    .optional()
+    .isIn(['queued', 'sending', 'sent', 'failed'])
+    .withMessage('Status must be queued, sending, sent or failed'),
+  
+  query('template')
+    .optional()
+    .isIn(Object.keys(TEMPLATES))
+    .withMessage('Unknown mail template'),
+  
+  query('to')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 254 })
+    .withMessage('Recipient must be between 1 and 254 characters'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Password change validation
+ */
+const validatePasswordChange = [
+  body('currentPassword')
+    .notEmpty()
+    .withMessage('Current password is required'),
+  
+  body('newPassword')
+    .isLength({ min: 6 })
+    .withMessage('New password must be at least 6 characters long')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage('New password must contain at least one uppercase letter, one lowercase letter, and one number'),
   
   body('confirmPassword')
     .custom((value, { req }) => {
@@ -453,17 +1194,143 @@ const validatePasswordChange = [
   handleValidationErrors
 ];
 
+/**
+ * Forgot password validation
+ */
+const validateForgotPassword = [
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail()
+    .toLowerCase(),
+  
+  handleValidationErrors
+];
+
+/**
+ * Password reset validation
+ */
+const validatePasswordReset = [
+  param('token')
+    .isHexadecimal()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Invalid reset token'),
+  
+  body('password')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters long')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number'),
+  
+  body('confirmPassword')
+    .custom((value, { req }) => {
+      if (value !== req.body.password) {
+        throw new Error('Password confirmation does not match password');
+      }
+      return true;
+    }),
+  
+  handleValidationErrors
+];
+
+/**
+ * Two-factor authentication code validation
+ */
+const validateTwoFactorCode = [
+  body('code')
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Authentication code must be 6 digits'),
+  
+  handleValidationErrors
+];
+
+/**
+ * Two-factor login step validation
+ * Requires either an authenticator code or a recovery code
+ */
+const validateTwoFactorLogin = [
+  body('challengeToken')
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  
+  body('code')
+    .optional()
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Authentication code must be 6 digits'),
+  
+  body('recoveryCode')
+    .optional()
+    .trim()
+    .matches(/^[a-fA-F0-9]{5}-[a-fA-F0-9]{5}$/)
+    .withMessage('Invalid recovery code format'),
+  
+  body()
+    .custom((value) => {
+      if (!value.code && !value.recoveryCode) {
+        throw new Error('An authentication code or recovery code is required');
+      }
+      return true;
+    }),
+  
+  handleValidationErrors
+];
+
+/**
+ * Two-factor disable validation
+ */
+const validateTwoFactorDisable = [
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required'),
+  
+  ...validateTwoFactorCode
+];
+
 module.exports = {
   handleValidationErrors,
   validateUserRegistration,
   validateUserLogin,
   validateUserUpdate,
   validateSkillsUpdate,
+  validateAvailability,
   validateSwapCreation,
+  validateSwapChainCreation,
+  validateSwapStatusChange,
+  validateCounterOffer,
+  validateMessage,
+  validateMessageId,
+  validateMessageUpdate,
+  validateSlotQuery,
+  validateSlotProposal,
+  validateSlotConfirmation,
+  validateSessionCreation,
+  validateAttendance,
+  validateSessionNote,
+  validateSessionCancellation,
+  validateNoShowReport,
+  validateDisputeCreation,
+  validateDisputeComment,
+  validateDisputeQuery,
+  validateCalendarToken,
+  validateNotificationQuery,
+  validateNotificationClear,
+  validateNotificationPreferences,
   validateRatingCreation,
   validateAdminMessage,
   validateObjectId,
   validatePagination,
   validateSearch,
-  validatePasswordChange
+  validateSkillAutocomplete,
+  validateSkillRejection,
+  validateDisputeResolution,
+  validateMailQuery,
+  validateMatchQuery,
+  validatePasswordChange,
+  validateForgotPassword,
+  validatePasswordReset,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateTwoFactorDisable
 };
\ No newline at end of file
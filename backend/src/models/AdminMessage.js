@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const { publish } = require('../services/eventService');
 
 /**
  * AdminMessage Schema for platform-wide messages and announcements
@@ -284,70 +285,71 @@ adminMessageSchema.methods.incrementClicks = function() {
 
 // Instance method to send message
 adminMessageSchema.methods.send = async function() {
-  try {
-    const User = mongoose.model('User');
-    let recipients = [];
-    
-    switch (this.targetUserType) {
-      case 'all':
-        recipients = await User.find({ isActive: true, isBanned: false }, '_id');
-        break;
-      case 'active':
-        recipients = await User.find({ 
-          isActive: true, 
-          isBanned: false,
-          lastLogin: { $gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) }
-        }, '_id');
-        break;
-      case 'inactive':
-        recipients = await User.find({ 
-          isActive: true, 
-          isBanned: false,
-          lastLogin: { $lt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) }
-        }, '_id');
-        break;
-      case 'new':
-        recipients = await User.find({ 
-          isActive: true, 
-          isBanned: false,
-          createdAt: { $gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
-        }, '_id');
-        break;
-      case 'specific':
-        recipients = this.targetUsers.map(id => ({ _id: id }));
-        break;
-      default:
-        recipients = await User.find({ isActive: true, isBanned: false }, '_id');
-    }
-    
-    // Create delivery entries
-    this.deliveredTo = recipients.map(user => ({
-      user: user._id,
-      deliveredAt: new Date(),
-      isRead: false
-    }));
-    
-    this.status = 'sent';
-    this.totalRecipients = recipients.length;
-    
-    return this.save();
-  } catch (error) {
-    throw error;
+  const User = mongoose.model('User');
+  let recipients = [];
+  
+  switch (this.targetUserType) {
+    case 'all':
+      recipients = await User.find({ isActive: true, isBanned: false }, '_id');
+      break;
+    case 'active':
+      recipients = await User.find({ 
+        isActive: true, 
+        isBanned: false,
+        lastLogin: { $gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) }
+      }, '_id');
+      break;
+    case 'inactive':
+      recipients = await User.find({ 
+        isActive: true, 
+        isBanned: false,
+        lastLogin: { $lt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) }
+      }, '_id');
+      break;
+    case 'new':
+      recipients = await User.find({ 
+        isActive: true, 
+        isBanned: false,
+        createdAt: { $gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
+      }, '_id');
+      break;
+    case 'specific':
+      recipients = this.targetUsers.map(id => ({ _id: id }));
+      break;
+    default:
+      recipients = await User.find({ isActive: true, isBanned: false }, '_id');
   }
+  
+  // Create delivery entries
+  this.deliveredTo = recipients.map(user => ({
+    user: user._id,
+    deliveredAt: new Date(),
+    isRead: false
+  }));
+  
+  this.status = 'sent';
+  this.totalRecipients = recipients.length;
+  
+  await this.save();
+  
+  publish(recipients.map(user => user._id), 'admin.message', {
+    messageId: this._id.toString(),
+    title: this.title,
+    type: this.type,
+    priority: this.priority
+  });
+  
+  return this;
 };
 
 // Static method to get active messages for user
 adminMessageSchema.statics.getActiveMessagesForUser = function(userId) {
   return this.find({
     status: 'sent',
-    $or: [
-      { expiresAt: { $gt: new Date() } },
-      { expiresAt: { $exists: false } }
-    ],
     isArchived: false,
-    $or: [
-      { targetUserType: { $in: ['all', 'active'] } },
-      { targetUsers: userId }
+    $and: [
+      { $or: [{ expiresAt: { $gt: new Date() } }, { expiresAt: { $exists: false } }] },
+      { $or: [{ targetUserType: { $in: ['all', 'active'] } }, { targetUsers: userId }] }
     ]
   }).sort({ isSticky: -1, createdAt: -1 });
 };
@@ -356,14 +358,10 @@ adminMessageSchema.statics.getActiveMessagesForUser = function(userId) {
 adminMessageSchema.statics.getUnreadMessagesForUser = function(userId) {
   return this.find({
     status: 'sent',
-    $or: [
-      { expiresAt: { $gt: new Date() } },
-      { expiresAt: { $exists: false } }
-    ],
     isArchived: false,
-    $or: [
-      { targetUserType: { $in: ['all', 'active'] } },
-      { targetUsers: userId }
+    $and: [
+      { $or: [{ expiresAt: { $gt: new Date() } }, { expiresAt: { $exists: false } }] },
+      { $or: [{ targetUserType: { $in: ['all', 'active'] } }, { targetUsers: userId }] }
     ],
     'deliveredTo.user': userId,
     'deliveredTo.isRead': false
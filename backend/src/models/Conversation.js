@@ -0,0 +1,44 @@
+const mongoose = require('mongoose');
+
+/**
+ * Conversation Schema for in-swap messaging
+ * One conversation per swap, between its requester and receiver
+ */
+const conversationSchema = new mongoose.Schema({
+  swap: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Swap',
+    required: [true, 'Swap is required'],
+    unique: true
+  },
+  
+  participants: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  
+  lastMessageAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+conversationSchema.index({ participants: 1, lastMessageAt: -1 });
+
+// Instance method to check whether a user takes part in the conversation
+conversationSchema.methods.hasParticipant = function(userId) {
+  return this.participants.some(participant => participant.toString() === userId.toString());
+};
+
+// Static method to get the conversation for a swap, creating it on first use
+conversationSchema.statics.findOrCreateForSwap = function(swap) {
+  return this.findOneAndUpdate(
+    { swap: swap._id },
+    { $setOnInsert: { swap: swap._id, participants: [swap.requester._id || swap.requester, swap.receiver._id || swap.receiver] } },
+    { upsert: true, new: true }
+  );
+};
+
+module.exports = mongoose.model('Conversation', conversationSchema);
@@ -0,0 +1,101 @@
+const mongoose = require('mongoose');
+
+/**
+ * Credit Transaction Schema
+ * One entry of the time-credit ledger: minutes move from one account to another,
+ * so every transaction debits and credits the same amount. Members' balances are
+ * the sum of their entries; the platform account (from or to left unset) issues
+ * welcome credits and is the counterpart of every other balance
+ */
+const creditTransactionSchema = new mongoose.Schema({
+  // Account debited; unset for the platform account
+  from: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  
+  // Account credited; unset for the platform account
+  to: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  
+  minutes: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [1, 'A transaction must move at least one minute'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Amounts are whole minutes'
+    }
+  },
+  
+  // welcome: credits new members start with; session: a completed session paid
+  // by its learner; settlement: sessions a credit swap was completed without;
+  // refund: reverses a transaction of a swap voided after a dispute
+  kind: {
+    type: String,
+    enum: ['welcome', 'session', 'settlement', 'refund'],
+    required: true
+  },
+  
+  swap: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Swap'
+  },
+  
+  session: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SwapSession'
+  },
+  
+  // Transaction a refund reverses
+  reverses: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'CreditTransaction'
+  },
+  
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+creditTransactionSchema.index({ from: 1, createdAt: -1 });
+creditTransactionSchema.index({ to: 1, createdAt: -1 });
+
+// Each member is welcomed, each session paid, each swap settled and each transaction refunded at most once
+creditTransactionSchema.index({ to: 1 }, { unique: true, partialFilterExpression: { kind: 'welcome' } });
+creditTransactionSchema.index({ session: 1 }, { unique: true, partialFilterExpression: { kind: 'session' } });
+creditTransactionSchema.index({ swap: 1 }, { unique: true, partialFilterExpression: { kind: 'settlement' } });
+creditTransactionSchema.index({ reverses: 1 }, { unique: true, partialFilterExpression: { kind: 'refund' } });
+
+/**
+ * Static method to work out a member's balance in minutes
+ * @param {string} userId
+ * @returns {Promise<number>} Minutes received minus minutes spent
+ */
+creditTransactionSchema.statics.getBalance = async function(userId) {
+  const id = new mongoose.Types.ObjectId(userId);
+  
+  const [totals] = await this.aggregate([
+    { $match: { $or: [{ from: id }, { to: id }] } },
+    {
+      $group: {
+        _id: null,
+        received: { $sum: { $cond: [{ $eq: ['$to', id] }, '$minutes', 0] } },
+        spent: { $sum: { $cond: [{ $eq: ['$from', id] }, '$minutes', 0] } }
+      }
+    }
+  ]);
+  
+  return totals ? totals.received - totals.spent : 0;
+};
+
+module.exports = mongoose.model('CreditTransaction', creditTransactionSchema);
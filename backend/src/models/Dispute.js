@@ -0,0 +1,155 @@
+const mongoose = require('mongoose');
+
+// Evidence links a member can attach to one comment
+const MAX_EVIDENCE = 5;
+
+// Comments either member can add while the dispute is open
+const MAX_COMMENTS = 50;
+
+/**
+ * Dispute comment
+ * A member's side of the story, with links to evidence such as screenshots
+ */
+const commentSchema = new mongoose.Schema({
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  
+  body: {
+    type: String,
+    required: [true, 'Comment text is required'],
+    trim: true,
+    maxlength: [2000, 'Comment cannot exceed 2000 characters']
+  },
+  
+  evidence: {
+    type: [{
+      type: String,
+      trim: true,
+      maxlength: [500, 'Evidence links cannot exceed 500 characters']
+    }],
+    validate: {
+      validator: (links) => links.length <= MAX_EVIDENCE,
+      message: `A comment cannot have more than ${MAX_EVIDENCE} evidence links`
+    }
+  },
+  
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+/**
+ * Dispute Schema
+ * A member's complaint about a swap partner, answered by both members and
+ * resolved by an admin
+ */
+const disputeSchema = new mongoose.Schema({
+  swap: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Swap',
+    required: [true, 'Swap is required']
+  },
+  
+  // Set for disputes about a single session, such as no-show reports
+  session: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SwapSession'
+  },
+  
+  openedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Member opening the dispute is required']
+  },
+  
+  // The other member of the swap
+  against: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Member the dispute is about is required']
+  },
+  
+  // no-show: the partner did not turn up; not-as-agreed: the swap did not match its terms
+  reason: {
+    type: String,
+    enum: ['no-show', 'not-as-agreed', 'conduct', 'other'],
+    required: [true, 'Reason is required']
+  },
+  
+  status: {
+    type: String,
+    enum: ['open', 'resolved'],
+    default: 'open'
+  },
+  
+  // The opening statement first, then replies from both members
+  comments: {
+    type: [commentSchema],
+    validate: {
+      validator: (comments) => comments.length <= MAX_COMMENTS,
+      message: `A dispute cannot have more than ${MAX_COMMENTS} comments`
+    }
+  },
+  
+  /**
+   * Admin decision
+   * dismiss: no action; void-swap: the swap is cancelled and its credits refunded;
+   * warn and ban: the member at fault is warned or banned
+   */
+  resolution: {
+    outcome: {
+      type: String,
+      enum: ['dismiss', 'void-swap', 'warn', 'ban']
+    },
+    
+    // Member found at fault; unset when neither is
+    atFault: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Resolution note cannot exceed 1000 characters']
+    },
+    
+    resolvedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    
+    resolvedAt: {
+      type: Date
+    }
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+disputeSchema.index({ status: 1, createdAt: 1 });
+disputeSchema.index({ openedBy: 1, createdAt: -1 });
+disputeSchema.index({ against: 1, createdAt: -1 });
+
+// A swap has at most one open dispute; later complaints are added to it as comments
+disputeSchema.index({ swap: 1 }, { unique: true, partialFilterExpression: { status: 'open' } });
+
+// Whether a user is one of the two members of the dispute
+disputeSchema.methods.involves = function(userId) {
+  return [this.openedBy, this.against].some(member => (member._id || member).equals(userId));
+};
+
+// Instance method to add a comment with optional evidence links
+disputeSchema.methods.addComment = function(user, body, evidence = []) {
+  this.comments.push({ author: user._id, body, evidence });
+  return this.save();
+};
+
+module.exports = mongoose.model('Dispute', disputeSchema);
@@ -0,0 +1,82 @@
+const mongoose = require('mongoose');
+
+/**
+ * JobLock Schema for the background job scheduler
+ * One document per job: when it is next due and which instance currently holds it
+ */
+const jobLockSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Job name is required'],
+    unique: true
+  },
+  
+  nextRunAt: {
+    type: Date,
+    required: true
+  },
+  
+  // Instance running the job (hostname:pid); unset when the job is idle
+  lockedBy: {
+    type: String
+  },
+  
+  // A crashed instance's lock is taken over once this passes
+  lockedUntil: {
+    type: Date
+  },
+  
+  lastRunAt: {
+    type: Date
+  },
+  
+  lastStatus: {
+    type: String,
+    enum: ['succeeded', 'failed']
+  }
+}, {
+  timestamps: true
+});
+
+/**
+ * Static method to claim a due job for one instance
+ * The claim is a single atomic update, so only one instance wins it
+ * @returns {Promise<Object|null>} The lock, or null when the job is not due or held elsewhere
+ */
+jobLockSchema.statics.claim = async function(name, instance, lockMs) {
+  const now = new Date();
+  
+  // First sighting of a job: make it due straight away
+  await this.updateOne(
+    { name },
+    { $setOnInsert: { name, nextRunAt: now } },
+    { upsert: true }
+  );
+  
+  return this.findOneAndUpdate(
+    {
+      name,
+      nextRunAt: { $lte: now },
+      $or: [
+        { lockedUntil: { $exists: false } },
+        { lockedUntil: null },
+        { lockedUntil: { $lte: now } }
+      ]
+    },
+    { $set: { lockedBy: instance, lockedUntil: new Date(now.getTime() + lockMs) } },
+    { new: true }
+  );
+};
+
+// Static method to release a job and schedule its next run
+jobLockSchema.statics.release = function(name, instance, { status, nextRunAt }) {
+  return this.updateOne(
+    { name, lockedBy: instance },
+    {
+      $set: { lastRunAt: new Date(), lastStatus: status, nextRunAt },
+      $unset: { lockedBy: 1, lockedUntil: 1 }
+    }
+  );
+};
+
+module.exports = mongoose.model('JobLock', jobLockSchema);
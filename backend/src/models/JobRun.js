@@ -0,0 +1,66 @@
+const mongoose = require('mongoose');
+
+/**
+ * JobRun Schema for the background job history
+ * One document per run of a scheduled job
+ */
+const jobRunSchema = new mongoose.Schema({
+  job: {
+    type: String,
+    required: [true, 'Job name is required']
+  },
+  
+  status: {
+    type: String,
+    enum: ['running', 'succeeded', 'failed'],
+    default: 'running'
+  },
+  
+  // Instance that ran the job (hostname:pid)
+  instance: {
+    type: String
+  },
+  
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  
+  finishedAt: {
+    type: Date
+  },
+  
+  durationMs: {
+    type: Number
+  },
+  
+  // Job specific summary (e.g. number of swaps expired)
+  result: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  
+  error: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+jobRunSchema.index({ job: 1, startedAt: -1 });
+jobRunSchema.index({ status: 1, startedAt: -1 });
+
+// Keep 30 days of history
+jobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+// Instance method to record the outcome of the run
+jobRunSchema.methods.finish = function(status, { result, error } = {}) {
+  this.status = status;
+  this.finishedAt = new Date();
+  this.durationMs = this.finishedAt - this.startedAt;
+  this.result = result;
+  this.error = error;
+  return this.save();
+};
+
+module.exports = mongoose.model('JobRun', jobRunSchema);
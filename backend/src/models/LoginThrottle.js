@@ -0,0 +1,62 @@
+const mongoose = require('mongoose');
+
+/**
+ * LoginThrottle Schema for brute-force protection
+ * One document per throttled key: an account (`account:<email>`) or a client IP (`ip:<address>`)
+ */
+const loginThrottleSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: [true, 'Key is required'],
+    unique: true
+  },
+  
+  // Consecutive failed attempts since the last lockout or success
+  failures: {
+    type: Number,
+    default: 0
+  },
+  
+  // Number of lockouts so far; each one doubles the next lock duration
+  lockCount: {
+    type: Number,
+    default: 0
+  },
+  
+  // Exponential backoff between attempts
+  nextAttemptAt: {
+    type: Date
+  },
+  
+  lockedUntil: {
+    type: Date
+  },
+  
+  // Forget the key after a quiet period
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Let MongoDB drop stale throttle records
+loginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Virtual for seconds until another attempt is allowed
+loginThrottleSchema.virtual('retryAfter').get(function() {
+  const blockedUntil = Math.max(
+    this.lockedUntil ? this.lockedUntil.getTime() : 0,
+    this.nextAttemptAt ? this.nextAttemptAt.getTime() : 0
+  );
+  
+  return Math.max(0, Math.ceil((blockedUntil - Date.now()) / 1000));
+});
+
+// Virtual to check if the key is currently locked
+loginThrottleSchema.virtual('isLocked').get(function() {
+  return !!this.lockedUntil && this.lockedUntil > new Date();
+});
+
+module.exports = mongoose.model('LoginThrottle', loginThrottleSchema);
@@ -0,0 +1,189 @@
+const mongoose = require('mongoose');
+
+// Wait before each retry; the last entry is used for any later attempts
+const RETRY_DELAYS_MS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000 // 2 hours
+];
+
+// A message stuck in sending this long (e.g. the process crashed) is retried
+const SEND_LOCK_MS = 2 * 60 * 1000; // 2 minutes
+
+const RETENTION_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+/**
+ * MailMessage Schema for the outbound mail queue
+ * Every email is rendered and stored here before delivery, which also makes
+ * the collection an outbox admins can inspect
+ */
+const mailMessageSchema = new mongoose.Schema({
+  template: {
+    type: String,
+    required: [true, 'Template is required']
+  },
+  
+  to: {
+    type: String,
+    required: [true, 'Recipient is required'],
+    lowercase: true,
+    trim: true
+  },
+  
+  from: {
+    type: String,
+    required: [true, 'Sender is required']
+  },
+  
+  subject: {
+    type: String,
+    required: [true, 'Subject is required']
+  },
+  
+  text: {
+    type: String
+  },
+  
+  html: {
+    type: String
+  },
+  
+  // Messages with one-time links have their bodies removed once delivered
+  sensitive: {
+    type: Boolean,
+    default: false
+  },
+  
+  status: {
+    type: String,
+    enum: ['queued', 'sending', 'sent', 'failed'],
+    default: 'queued'
+  },
+  
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  
+  maxAttempts: {
+    type: Number,
+    default: 5
+  },
+  
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  
+  lockedUntil: {
+    type: Date
+  },
+  
+  lastError: {
+    type: String
+  },
+  
+  // Transport that delivered the message and its message ID
+  transport: {
+    type: String
+  },
+  
+  providerMessageId: {
+    type: String
+  },
+  
+  sentAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+mailMessageSchema.index({ status: 1, nextAttemptAt: 1 });
+mailMessageSchema.index({ to: 1, createdAt: -1 });
+mailMessageSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_SECONDS });
+
+/**
+ * Static method to claim a message for delivery
+ * Only queued messages that are due, or sends abandoned past their lock, can be claimed
+ * @returns {Promise<Object|null>} The claimed message, or null if it is not available
+ */
+mailMessageSchema.statics.claim = function(messageId) {
+  const now = new Date();
+  
+  return this.findOneAndUpdate(
+    {
+      _id: messageId,
+      $or: [
+        { status: 'queued', nextAttemptAt: { $lte: now } },
+        { status: 'sending', lockedUntil: { $lt: now } }
+      ]
+    },
+    {
+      $set: { status: 'sending', lockedUntil: new Date(now.getTime() + SEND_LOCK_MS) },
+      $inc: { attempts: 1 }
+    },
+    { new: true }
+  );
+};
+
+// Static method to find messages ready for a delivery attempt
+mailMessageSchema.statics.findDue = function(limit = 50) {
+  const now = new Date();
+  
+  return this.find({
+    $or: [
+      { status: 'queued', nextAttemptAt: { $lte: now } },
+      { status: 'sending', lockedUntil: { $lt: now } }
+    ]
+  }, '_id').sort({ nextAttemptAt: 1 }).limit(limit);
+};
+
+// Instance method to record a successful delivery
+mailMessageSchema.methods.markSent = function(info = {}, { dropBody = false } = {}) {
+  this.status = 'sent';
+  this.sentAt = new Date();
+  this.lockedUntil = undefined;
+  this.lastError = undefined;
+  this.transport = info.transport;
+  this.providerMessageId = info.id;
+  
+  if (dropBody) {
+    this.text = undefined;
+    this.html = undefined;
+  }
+  
+  return this.save();
+};
+
+// Instance method to record a failed attempt and schedule a retry if any are left
+mailMessageSchema.methods.markAttemptFailed = function(error) {
+  this.lastError = error.message;
+  this.lockedUntil = undefined;
+  
+  if (this.attempts >= this.maxAttempts) {
+    this.status = 'failed';
+  } else {
+    const delay = RETRY_DELAYS_MS[Math.min(this.attempts - 1, RETRY_DELAYS_MS.length - 1)];
+    this.status = 'queued';
+    this.nextAttemptAt = new Date(Date.now() + delay);
+  }
+  
+  return this.save();
+};
+
+// Instance method to queue a failed message again with a fresh set of attempts
+mailMessageSchema.methods.requeue = function() {
+  this.status = 'queued';
+  this.attempts = 0;
+  this.nextAttemptAt = new Date();
+  this.lastError = undefined;
+  
+  return this.save();
+};
+
+module.exports = mongoose.model('MailMessage', mailMessageSchema);
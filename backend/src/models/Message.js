@@ -0,0 +1,98 @@
+const mongoose = require('mongoose');
+
+// Senders can change their messages for a short while after sending them
+const EDIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const DELETE_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Message Schema for in-swap messaging
+ */
+const messageSchema = new mongoose.Schema({
+  conversation: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Conversation',
+    required: [true, 'Conversation is required']
+  },
+  
+  sender: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Sender is required']
+  },
+  
+  body: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Message cannot exceed 2000 characters']
+  },
+  
+  // Read receipt: when the other participant read the message
+  readAt: {
+    type: Date
+  },
+  
+  editedAt: {
+    type: Date
+  },
+  
+  // Deleted messages keep their place in the thread without their text
+  deletedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+messageSchema.index({ conversation: 1, createdAt: -1 });
+messageSchema.index({ conversation: 1, sender: 1, readAt: 1 });
+
+// Virtual to check if message was deleted
+messageSchema.virtual('isDeleted').get(function() {
+  return Boolean(this.deletedAt);
+});
+
+// Virtuals for the end of the edit and delete windows
+messageSchema.virtual('editableUntil').get(function() {
+  return this.createdAt && new Date(this.createdAt.getTime() + EDIT_WINDOW_MS);
+});
+
+messageSchema.virtual('deletableUntil').get(function() {
+  return this.createdAt && new Date(this.createdAt.getTime() + DELETE_WINDOW_MS);
+});
+
+// Instance method to edit the message text
+messageSchema.methods.edit = function(body) {
+  this.body = body;
+  this.editedAt = new Date();
+  return this.save();
+};
+
+// Instance method to delete the message, removing its text
+messageSchema.methods.softDelete = function() {
+  this.body = undefined;
+  this.deletedAt = new Date();
+  return this.save();
+};
+
+// Static method to mark the messages a user received in a conversation as read
+messageSchema.statics.markRead = function(conversationId, userId) {
+  return this.updateMany(
+    { conversation: conversationId, sender: { $ne: userId }, readAt: { $exists: false } },
+    { $set: { readAt: new Date() } }
+  );
+};
+
+// Static method to count the messages a user has not read yet
+messageSchema.statics.countUnread = function(conversationId, userId) {
+  return this.countDocuments({
+    conversation: conversationId,
+    sender: { $ne: userId },
+    readAt: { $exists: false },
+    deletedAt: { $exists: false }
+  });
+};
+
+module.exports = mongoose.model('Message', messageSchema);
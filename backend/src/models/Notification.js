@@ -0,0 +1,115 @@
+const mongoose = require('mongoose');
+const { NOTIFICATION_TYPES, NOTIFICATION_CHANNELS } = require('../utils/notificationTypes');
+
+// Notifications are removed automatically after this long
+const RETENTION_SECONDS = 90 * 24 * 60 * 60; // 90 days
+
+/**
+ * Notification Schema for the in-app notification center
+ */
+const notificationSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required']
+  },
+  
+  type: {
+    type: String,
+    enum: Object.keys(NOTIFICATION_TYPES),
+    required: [true, 'Notification type is required']
+  },
+  
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+  
+  body: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Body cannot exceed 1000 characters']
+  },
+  
+  // Frontend path to open when the notification is clicked
+  link: {
+    type: String
+  },
+  
+  // Records the notification is about
+  swap: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Swap'
+  },
+  
+  rating: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Rating'
+  },
+  
+  adminMessage: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'AdminMessage'
+  },
+  
+  dispute: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Dispute'
+  },
+  
+  // The member's preference for this category when it was created
+  channel: {
+    type: String,
+    enum: NOTIFICATION_CHANNELS.filter(channel => channel !== 'off'),
+    default: 'in-app'
+  },
+  
+  readAt: {
+    type: Date
+  },
+  
+  // Set once the notification has gone out by email or in a digest
+  emailedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+notificationSchema.index({ user: 1, createdAt: -1 });
+notificationSchema.index({ user: 1, readAt: 1 });
+notificationSchema.index({ channel: 1, emailedAt: 1 });
+notificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_SECONDS });
+
+// Virtual to check if notification was read
+notificationSchema.virtual('isRead').get(function() {
+  return Boolean(this.readAt);
+});
+
+// Instance method to mark notification as read
+notificationSchema.methods.markRead = function() {
+  if (!this.readAt) {
+    this.readAt = new Date();
+  }
+  return this.save();
+};
+
+// Static method to count a user's unread notifications
+notificationSchema.statics.countUnread = function(userId) {
+  return this.countDocuments({ user: userId, readAt: null });
+};
+
+// Static method to mark all of a user's notifications as read
+notificationSchema.statics.markAllRead = function(userId) {
+  return this.updateMany(
+    { user: userId, readAt: null },
+    { $set: { readAt: new Date() } }
+  );
+};
+
+module.exports = mongoose.model('Notification', notificationSchema);
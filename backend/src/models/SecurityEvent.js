@@ -0,0 +1,61 @@
+const mongoose = require('mongoose');
+
+/**
+ * SecurityEvent Schema for the account security log
+ * Records events users should be able to review, such as lockouts after failed logins
+ */
+const securityEventSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required']
+  },
+  
+  type: {
+    type: String,
+    enum: ['account-locked'],
+    required: [true, 'Event type is required']
+  },
+  
+  // Client details of the request that triggered the event
+  ipAddress: {
+    type: String,
+    trim: true
+  },
+  
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'User agent cannot exceed 500 characters']
+  },
+  
+  // Event specific details (e.g. lock duration)
+  details: {
+    type: mongoose.Schema.Types.Mixed
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+securityEventSchema.index({ user: 1, createdAt: -1 });
+
+// Static method to record an event for the request's client
+securityEventSchema.statics.record = function(userId, type, req, details) {
+  return this.create({
+    user: userId,
+    type,
+    ipAddress: req.ip,
+    userAgent: (req.get('User-Agent') || '').slice(0, 500),
+    details
+  });
+};
+
+// Static method to get a user's most recent events
+securityEventSchema.statics.getRecentForUser = function(userId, limit = 20) {
+  return this.find({ user: userId })
+    .sort({ createdAt: -1 })
+    .limit(limit);
+};
+
+module.exports = mongoose.model('SecurityEvent', securityEventSchema);
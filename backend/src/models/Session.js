@@ -0,0 +1,127 @@
+const mongoose = require('mongoose');
+
+/**
+ * Session Schema for refresh token tracking
+ * Each session is one refresh token family: every refresh rotates the token,
+ * and presenting an already-rotated token revokes the whole family
+ */
+const sessionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required']
+  },
+
+  // Hash of the current refresh token
+  refreshTokenHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+
+  // Hashes of refresh tokens that have already been rotated out
+  rotatedTokenHashes: {
+    type: [String],
+    select: false
+  },
+
+  // The token rotated out last, still accepted until the grace window after rotatedAt
+  // ends so that tabs refreshing at the same moment do not look like token reuse
+  previousTokenHash: {
+    type: String,
+    select: false
+  },
+
+  rotatedAt: {
+    type: Date
+  },
+
+  // Client details
+  device: {
+    type: String,
+    trim: true
+  },
+
+  ipAddress: {
+    type: String,
+    trim: true
+  },
+
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'User agent cannot exceed 500 characters']
+  },
+
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+
+  // Revocation
+  revokedAt: {
+    type: Date
+  },
+
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'user', 'password-change', 'token-reuse', 'admin']
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+sessionSchema.index({ user: 1, revokedAt: 1 });
+sessionSchema.index({ refreshTokenHash: 1 });
+sessionSchema.index({ rotatedTokenHashes: 1 });
+sessionSchema.index({ previousTokenHash: 1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Let MongoDB drop expired sessions
+
+// Virtual to check if session can still be used
+sessionSchema.virtual('isActive').get(function() {
+  return !this.revokedAt && this.expiresAt > new Date();
+});
+
+// Instance method to revoke the session
+sessionSchema.methods.revoke = function(reason = 'logout') {
+  if (!this.revokedAt) {
+    this.revokedAt = new Date();
+    this.revokedReason = reason;
+  }
+  return this.save();
+};
+
+// Static method to get active sessions for a user
+sessionSchema.statics.getActiveSessions = function(userId) {
+  return this.find({
+    user: userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  }).sort({ lastUsedAt: -1 });
+};
+
+// Static method to revoke every session of a user
+sessionSchema.statics.revokeAllForUser = function(userId, reason, exceptSessionId) {
+  const query = {
+    user: userId,
+    revokedAt: { $exists: false }
+  };
+
+  if (exceptSessionId) {
+    query._id = { $ne: exceptSessionId };
+  }
+
+  return this.updateMany(query, {
+    $set: { revokedAt: new Date(), revokedReason: reason }
+  });
+};
+
+module.exports = mongoose.model('Session', sessionSchema);
@@ -0,0 +1,133 @@
+const mongoose = require('mongoose');
+
+/**
+ * Normalise a skill name or alias for lookups
+ * Case, accents, spacing and punctuation are ignored, except characters that
+ * tell skills apart (C, C++ and C#)
+ */
+const toLookupKey = (value = '') => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9+#]/g, '');
+};
+
+const toSlug = (value = '') => {
+  return value
+    .toLowerCase()
+    .replace(/\+/g, '-plus')
+    .replace(/#/g, '-sharp')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * SkillTaxonomy Schema
+ * Curated catalogue of canonical skill names with their aliases and parent category
+ */
+const skillTaxonomySchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Skill name is required'],
+    trim: true,
+    unique: true,
+    maxlength: [50, 'Skill name cannot exceed 50 characters']
+  },
+  
+  slug: {
+    type: String,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  
+  // Alternative spellings and abbreviations (e.g. "JS" for JavaScript)
+  aliases: [{
+    type: String,
+    trim: true
+  }],
+  
+  category: {
+    type: String,
+    required: [true, 'Skill category is required'],
+    trim: true
+  },
+  
+  // Lookup keys for the name and every alias, maintained on save
+  lookupKeys: {
+    type: [String],
+    select: false
+  },
+  
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+skillTaxonomySchema.index({ lookupKeys: 1 });
+skillTaxonomySchema.index({ category: 1, name: 1 });
+
+// Pre-save middleware to derive the slug and lookup keys
+skillTaxonomySchema.pre('save', function(next) {
+  if (this.isModified('name') || !this.slug) {
+    this.slug = toSlug(this.name);
+  }
+  
+  this.lookupKeys = [...new Set([this.name, ...this.aliases].map(toLookupKey).filter(Boolean))];
+  next();
+});
+
+// Static method to compare skill names the way the taxonomy matches them
+skillTaxonomySchema.statics.toLookupKey = toLookupKey;
+
+// Static method to find the taxonomy entry for a name or alias
+skillTaxonomySchema.statics.findByNameOrAlias = function(value) {
+  return this.findOne({ lookupKeys: toLookupKey(value), isActive: true });
+};
+
+/**
+ * Static method to normalise a list of skill subdocument inputs
+ * Known skills get their canonical name, slug and category; duplicates are dropped
+ */
+skillTaxonomySchema.statics.normalizeSkills = async function(skills) {
+  const keys = skills.map(skill => toLookupKey(skill.name));
+  const entries = await this.find({ lookupKeys: { $in: keys }, isActive: true }).select('+lookupKeys');
+  const seen = new Set();
+  
+  return skills.reduce((normalized, skill, index) => {
+    const entry = entries.find(candidate => candidate.lookupKeys.includes(keys[index]));
+    
+    if (entry) {
+      skill.name = entry.name;
+      skill.slug = entry.slug;
+      skill.category = entry.category;
+    } else {
+      skill.slug = undefined;
+    }
+    
+    const key = toLookupKey(skill.name);
+    if (!seen.has(key)) {
+      seen.add(key);
+      normalized.push(skill);
+    }
+    
+    return normalized;
+  }, []);
+};
+
+// Static method to suggest skills whose name or alias starts with the given text
+skillTaxonomySchema.statics.autocomplete = function(text, limit = 10) {
+  const key = toLookupKey(text).replace(/[+]/g, '\\+');
+  
+  return this.find({ lookupKeys: { $regex: `^${key}` }, isActive: true })
+    .select('name slug category aliases')
+    .sort({ name: 1 })
+    .limit(limit);
+};
+
+module.exports = mongoose.model('SkillTaxonomy', skillTaxonomySchema);
@@ -1,4 +1,142 @@
 const mongoose = require('mongoose');
+const { assertTransition } = require('../utils/swapStateMachine');
+const { SWAP_ACTION_EVENTS, publishSwapEvent } = require('../services/eventService');
+const SwapSession = require('./SwapSession');
+
+/**
+ * Status history entry
+ * Records each status change: who made it, when and why
+ */
+const statusChangeSchema = new mongoose.Schema({
+  action: {
+    type: String,
+    required: true
+  },
+  
+  from: {
+    type: String
+  },
+  
+  to: {
+    type: String,
+    required: true
+  },
+  
+  // Unset for changes made by the platform
+  actor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  
+  actorRole: {
+    type: String,
+    enum: ['requester', 'receiver', 'system'],
+    required: true
+  },
+  
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  
+  at: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
+/**
+ * Swap revision
+ * A proposal of swap terms: the original request, then each counter-offer
+ */
+const revisionSchema = new mongoose.Schema({
+  version: {
+    type: Number,
+    required: true
+  },
+  
+  proposedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  
+  proposedByRole: {
+    type: String,
+    enum: ['requester', 'receiver'],
+    required: true
+  },
+  
+  // Terms changed from the previous revision (empty for the original request)
+  changes: [{
+    _id: false,
+    field: String,
+    from: mongoose.Schema.Types.Mixed,
+    to: mongoose.Schema.Types.Mixed
+  }],
+  
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Message cannot exceed 500 characters']
+  },
+  
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
+// A proposed session time; its id is used to confirm it
+const sessionSlotSchema = new mongoose.Schema({
+  start: {
+    type: Date,
+    required: true
+  },
+  
+  end: {
+    type: Date,
+    required: true
+  }
+});
+
+/**
+ * Slot proposal
+ * Session times one member offers; the other member confirms one of them
+ */
+const slotProposalSchema = new mongoose.Schema({
+  proposedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  
+  slots: [sessionSlotSchema],
+  
+  // Member who will give the session
+  teacher: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
+// Time the other member has to answer a request or counter-offer
+const RESPONSE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Statuses after which a swap's remaining sessions will not take place
+const CLOSED_STATUSES = ['rejected', 'cancelled'];
 
 /**
  * Swap Schema for managing skill exchange requests
@@ -26,9 +164,17 @@ const swapSchema = new mongoose.Schema({
     maxlength: [100, 'Requested skill cannot exceed 100 characters']
   },
   
+  // How the requester pays for what they learn: by teaching a skill or in time credits
+  paymentType: {
+    type: String,
+    enum: ['skill', 'credits'],
+    default: 'skill'
+  },
+  
+  // Unset when the swap is paid in time credits
   offeredSkill: {
     type: String,
-    required: [true, 'Offered skill is required'],
+    required: [function() { return this.paymentType !== 'credits'; }, 'Offered skill is required'],
     trim: true,
     maxlength: [100, 'Offered skill cannot exceed 100 characters']
   },
@@ -47,6 +193,12 @@ const swapSchema = new mongoose.Schema({
     default: 'pending'
   },
   
+  // Status changes, oldest first; only changed through transition()
+  statusHistory: [statusChangeSchema],
+  
+  // Proposals, oldest first; the swap's own fields hold the latest terms
+  revisions: [revisionSchema],
+  
   // Timestamps for status changes
   acceptedAt: {
     type: Date
@@ -87,10 +239,44 @@ const swapSchema = new mongoose.Schema({
     type: Date
   },
   
+  // Start of the next scheduled session
   confirmedDate: {
     type: Date
   },
   
+  // Sessions each teaching member agreed to give
+  sessionCount: {
+    type: Number,
+    min: [1, 'A swap needs at least one session'],
+    max: [20, 'A swap cannot have more than 20 sessions'],
+    default: 1
+  },
+  
+  // Completed sessions given by each member; the swap completes once both reach sessionCount
+  sessionsGiven: {
+    requester: {
+      type: Number,
+      default: 0
+    },
+    receiver: {
+      type: Number,
+      default: 0
+    }
+  },
+  
+  // Length of a session, used to offer times and find clashes with other swaps
+  sessionMinutes: {
+    type: Number,
+    min: [15, 'Sessions must be at least 15 minutes'],
+    max: [480, 'Sessions cannot exceed 8 hours'],
+    default: 60
+  },
+  
+  // Session times waiting for the other member to confirm one
+  slotProposal: {
+    type: slotProposalSchema
+  },
+  
   // Metadata
   priority: {
     type: String,
@@ -103,6 +289,13 @@ const swapSchema = new mongoose.Schema({
     default: false
   },
   
+  // Swap chain this swap is a leg of; in a leg the requester learns from the
+  // receiver and teaches the offered skill to the next member of the chain
+  chain: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SwapChain'
+  },
+  
   // Admin notes (for moderation)
   adminNotes: {
     type: String,
@@ -113,7 +306,7 @@ const swapSchema = new mongoose.Schema({
   responseDeadline: {
     type: Date,
     default: function() {
-      return new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days from now
+      return new Date(Date.now() + RESPONSE_WINDOW_MS);
     }
   }
 }, {
@@ -129,6 +322,7 @@ swapSchema.index({ status: 1, createdAt: -1 });
 swapSchema.index({ requestedSkill: 1 });
 swapSchema.index({ offeredSkill: 1 });
 swapSchema.index({ responseDeadline: 1 });
+swapSchema.index({ chain: 1 });
 
 // Compound index for efficient queries
 swapSchema.index({ requester: 1, receiver: 1, status: 1 });
@@ -153,6 +347,27 @@ swapSchema.pre('save', function(next) {
   next();
 });
 
+// Pre-save middleware to record the creation of the swap request and its first proposal
+swapSchema.pre('save', function(next) {
+  if (this.isNew && this.statusHistory.length === 0) {
+    this.statusHistory.push({
+      action: 'create',
+      to: this.status,
+      actor: this.requester,
+      actorRole: 'requester'
+    });
+  }
+  if (this.isNew && this.revisions.length === 0) {
+    this.revisions.push({
+      version: 1,
+      proposedBy: this.requester,
+      proposedByRole: 'requester',
+      message: this.message
+    });
+  }
+  next();
+});
+
 // Pre-save middleware to set timestamp based on status
 swapSchema.pre('save', function(next) {
   if (this.isModified('status')) {
@@ -176,32 +391,95 @@ swapSchema.pre('save', function(next) {
   next();
 });
 
+/**
+ * Instance method to change the swap status through the state machine
+ * @param {string} action - accept, reject, cancel, complete or expire
+ * @param {Object} options - { user: acting user (omit for the system), reason, apply(role) }
+ */
+swapSchema.methods.transition = function(action, options = {}) {
+  const { user = null, reason, apply } = options;
+  const { to, role } = assertTransition(this, action, user);
+  
+  // Action specific changes, made once the transition is known to be allowed
+  if (apply) apply(role);
+  
+  this.statusHistory.push({
+    action,
+    from: this.status,
+    to,
+    actor: user ? user._id : undefined,
+    actorRole: role,
+    reason
+  });
+  this.status = to;
+  
+  return this.save().then(async swap => {
+    if (CLOSED_STATUSES.includes(to)) {
+      await SwapSession.cancelOpenSessions(swap._id, `Swap ${to}`);
+    }
+    
+    publishSwapEvent(swap, SWAP_ACTION_EVENTS[action], {
+      action,
+      actorId: user ? user._id.toString() : null,
+      actorRole: role,
+      reason
+    });
+    return swap;
+  });
+};
+
 // Instance method to accept swap
-swapSchema.methods.accept = function() {
-  this.status = 'accepted';
-  this.acceptedAt = new Date();
-  return this.save();
+swapSchema.methods.accept = function(user, reason) {
+  return this.transition('accept', { user, reason });
 };
 
 // Instance method to reject swap
-swapSchema.methods.reject = function() {
-  this.status = 'rejected';
-  this.rejectedAt = new Date();
-  return this.save();
+swapSchema.methods.reject = function(user, reason) {
+  return this.transition('reject', { user, reason });
 };
 
 // Instance method to cancel swap
-swapSchema.methods.cancel = function() {
-  this.status = 'cancelled';
-  this.cancelledAt = new Date();
-  return this.save();
+swapSchema.methods.cancel = function(user, reason) {
+  return this.transition('cancel', { user, reason });
+};
+
+/**
+ * Instance method to counter the latest proposal with new terms
+ * @param {Object} user - Member making the counter-offer
+ * @param {Array} changes - Changed terms as { field, from, to } (see utils/swapTerms)
+ * @param {string} message - Optional note for the other member
+ */
+swapSchema.methods.counter = function(user, changes, message) {
+  return this.transition('counter', {
+    user,
+    reason: message,
+    apply: (role) => {
+      // Swaps created before counter-offers existed start with the original request
+      if (this.revisions.length === 0) {
+        this.revisions.push({ version: 1, proposedBy: this.requester, proposedByRole: 'requester', message: this.message });
+      }
+      
+      changes.forEach(({ field, to }) => {
+        this[field] = to;
+      });
+      
+      this.revisions.push({
+        version: this.revisions.length + 1,
+        proposedBy: user._id,
+        proposedByRole: role,
+        changes,
+        message
+      });
+      
+      // The other member gets a fresh window to answer
+      this.responseDeadline = new Date(Date.now() + RESPONSE_WINDOW_MS);
+    }
+  });
 };
 
 // Instance method to complete swap
-swapSchema.methods.complete = function() {
-  this.status = 'completed';
-  this.completedAt = new Date();
-  return this.save();
+swapSchema.methods.complete = function(user, reason) {
+  return this.transition('complete', { user, reason });
 };
 
 // Static method to get swaps by user
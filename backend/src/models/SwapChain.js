@@ -0,0 +1,226 @@
+const mongoose = require('mongoose');
+const Swap = require('./Swap');
+const { TRANSITIONS } = require('../utils/swapStateMachine');
+
+const MIN_CHAIN_LENGTH = 3;
+const MAX_CHAIN_LENGTH = 4;
+
+/**
+ * Chain participant subdocument
+ * Each participant teaches the next participant and learns from the previous one
+ */
+const chainParticipantSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Participant is required']
+  },
+  
+  // Skill taught to the next participant in the chain
+  teaches: {
+    type: String,
+    required: [true, 'Taught skill is required'],
+    trim: true,
+    maxlength: [100, 'Skill cannot exceed 100 characters']
+  },
+  
+  // Skill learned from the previous participant in the chain
+  learns: {
+    type: String,
+    required: [true, 'Learned skill is required'],
+    trim: true,
+    maxlength: [100, 'Skill cannot exceed 100 characters']
+  },
+  
+  status: {
+    type: String,
+    enum: ['pending', 'confirmed', 'rejected'],
+    default: 'pending'
+  },
+  
+  respondedAt: {
+    type: Date
+  }
+}, {
+  _id: false
+});
+
+/**
+ * SwapChain Schema
+ * Multi-party swap cycle (A teaches B, B teaches C, C teaches A).
+ * Each teaching step is a Swap leg; the chain is accepted only once every
+ * participant confirms, and one rejection cancels every leg.
+ */
+const swapChainSchema = new mongoose.Schema({
+  participants: {
+    type: [chainParticipantSchema],
+    validate: {
+      validator: (participants) => participants.length >= MIN_CHAIN_LENGTH && participants.length <= MAX_CHAIN_LENGTH,
+      message: `A swap chain needs ${MIN_CHAIN_LENGTH} to ${MAX_CHAIN_LENGTH} participants`
+    }
+  },
+  
+  // Swap legs, in the same order as the participants who teach them
+  legs: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Swap'
+  }],
+  
+  initiator: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Initiator is required']
+  },
+  
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Message cannot exceed 500 characters']
+  },
+  
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'cancelled'],
+    default: 'pending'
+  },
+  
+  acceptedAt: {
+    type: Date
+  },
+  
+  cancelledAt: {
+    type: Date
+  },
+  
+  cancelledBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+swapChainSchema.index({ 'participants.user': 1, status: 1 });
+swapChainSchema.index({ status: 1, createdAt: -1 });
+
+// Instance method to find a participant entry
+swapChainSchema.methods.getParticipant = function(userId) {
+  const id = userId.toString();
+  return this.participants.find(participant => (participant.user._id || participant.user).toString() === id);
+};
+
+// Instance method to move every open leg through the swap state machine as the system
+// Resolves to the legs that were moved
+swapChainSchema.methods.transitionLegs = async function(action, reason) {
+  const { from } = TRANSITIONS[action];
+  const legs = await Swap.find({ _id: { $in: this.legs }, status: { $in: from } });
+  
+  return Promise.all(legs.map(leg => leg.transition(action, { reason })));
+};
+
+// Instance method to confirm the chain for one participant
+// The chain and all of its legs are accepted once everyone has confirmed.
+// Both steps are conditional updates, so concurrent confirmations cannot
+// overwrite each other and exactly one of them accepts the chain.
+// Resolves to the updated chain, or null when the participant can no longer confirm
+swapChainSchema.methods.confirm = async function(userId) {
+  const now = new Date();
+  
+  const confirmed = await this.constructor.findOneAndUpdate(
+    { _id: this._id, status: 'pending', participants: { $elemMatch: { user: userId, status: 'pending' } } },
+    { $set: { 'participants.$.status': 'confirmed', 'participants.$.respondedAt': now } },
+    { new: true }
+  );
+  
+  if (!confirmed) return null;
+  
+  const accepted = await this.constructor.findOneAndUpdate(
+    { _id: this._id, status: 'pending', 'participants.status': { $nin: ['pending', 'rejected'] } },
+    { $set: { status: 'accepted', acceptedAt: now } },
+    { new: true }
+  );
+  
+  if (!accepted) return confirmed;
+  
+  await accepted.transitionLegs('accept', 'Every chain member confirmed');
+  return accepted;
+};
+
+// Instance method to reject the chain for one participant, cancelling every leg
+// Resolves to the updated chain, or null when the chain is no longer pending
+swapChainSchema.methods.reject = async function(userId) {
+  const now = new Date();
+  
+  const rejected = await this.constructor.findOneAndUpdate(
+    { _id: this._id, status: 'pending', participants: { $elemMatch: { user: userId, status: 'pending' } } },
+    {
+      $set: {
+        'participants.$.status': 'rejected',
+        'participants.$.respondedAt': now,
+        status: 'cancelled',
+        cancelledAt: now,
+        cancelledBy: userId
+      }
+    },
+    { new: true }
+  );
+  
+  if (!rejected) return null;
+  
+  await rejected.transitionLegs('cancel', 'Swap chain rejected by a member');
+  return rejected;
+};
+
+// Instance method to cancel a pending or accepted chain for a member who left the platform
+// Resolves to the legs that were cancelled, or null when the chain was already closed
+swapChainSchema.methods.cancel = async function(userId, reason) {
+  const cancelled = await this.constructor.findOneAndUpdate(
+    { _id: this._id, status: { $in: ['pending', 'accepted'] } },
+    { $set: { status: 'cancelled', cancelledAt: new Date(), cancelledBy: userId } },
+    { new: true }
+  );
+  
+  if (!cancelled) return null;
+  
+  return cancelled.transitionLegs('cancel', reason);
+};
+
+// Instance method to cancel a chain that was not confirmed by its legs' deadline
+// Legs are expired once their own deadline has passed; the expiry job calls this
+// again for legs that were a few moments behind the first one
+// Resolves to the legs that were expired
+swapChainSchema.methods.expire = async function(reason) {
+  await this.constructor.updateOne(
+    { _id: this._id, status: 'pending' },
+    { $set: { status: 'cancelled', cancelledAt: new Date() } }
+  );
+  
+  // Every member may have confirmed in the meantime
+  if (!(await this.constructor.exists({ _id: this._id, status: 'cancelled' }))) {
+    return [];
+  }
+  
+  const legs = await Swap.find({ _id: { $in: this.legs }, status: 'pending', responseDeadline: { $lt: new Date() } });
+  
+  return Promise.all(legs.map(leg => leg.transition('expire', { reason })));
+};
+
+// Static method to get the chains a user takes part in
+swapChainSchema.statics.getChainsByUser = function(userId, options = {}) {
+  const query = { 'participants.user': userId };
+  
+  if (options.status) {
+    query.status = options.status;
+  }
+  
+  return this.find(query)
+    .populate('participants.user', 'name profilePhoto location averageRating')
+    .sort({ createdAt: -1 })
+    .limit(options.limit || 20)
+    .skip(options.skip || 0);
+};
+
+module.exports = mongoose.model('SwapChain', swapChainSchema);
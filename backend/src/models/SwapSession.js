@@ -0,0 +1,225 @@
+const mongoose = require('mongoose');
+
+const MINUTE_MS = 60 * 1000;
+
+// Notes either member can leave on a session
+const MAX_NOTES = 50;
+
+/**
+ * Attendance record
+ * Whether a member says they took part in the session
+ */
+const attendanceSchema = new mongoose.Schema({
+  member: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  
+  attended: {
+    type: Boolean,
+    required: true
+  },
+  
+  recordedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
+/**
+ * Session note
+ */
+const noteSchema = new mongoose.Schema({
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  
+  body: {
+    type: String,
+    required: [true, 'Note text is required'],
+    trim: true,
+    maxlength: [1000, 'Note cannot exceed 1000 characters']
+  },
+  
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+/**
+ * Swap Session Schema
+ * One lesson of a swap, given by one of its members to the other
+ */
+const swapSessionSchema = new mongoose.Schema({
+  swap: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Swap',
+    required: [true, 'Swap is required']
+  },
+  
+  // Member giving the session
+  teacher: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Teacher is required']
+  },
+  
+  learner: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Learner is required']
+  },
+  
+  scheduledFor: {
+    type: Date,
+    required: [true, 'Session date is required']
+  },
+  
+  minutes: {
+    type: Number,
+    min: [15, 'Sessions must be at least 15 minutes'],
+    max: [480, 'Sessions cannot exceed 8 hours'],
+    default: 60
+  },
+  
+  // scheduled: waiting to take place or for both members to record attendance
+  // completed: both members attended; missed: a member says it did not happen
+  status: {
+    type: String,
+    enum: ['scheduled', 'completed', 'missed', 'cancelled'],
+    default: 'scheduled'
+  },
+  
+  // At most one record per member
+  attendance: [attendanceSchema],
+  
+  // Member who reported that the other one did not turn up
+  noShowReportedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  
+  notes: {
+    type: [noteSchema],
+    validate: {
+      validator: (notes) => notes.length <= MAX_NOTES,
+      message: `A session cannot have more than ${MAX_NOTES} notes`
+    }
+  },
+  
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  
+  completedAt: {
+    type: Date
+  },
+  
+  cancelledAt: {
+    type: Date
+  },
+  
+  // Unset when the platform cancelled the session with its swap
+  cancelledBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  
+  cancellationReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for better query performance
+swapSessionSchema.index({ swap: 1, scheduledFor: 1 });
+swapSessionSchema.index({ teacher: 1, status: 1, scheduledFor: 1 });
+swapSessionSchema.index({ learner: 1, status: 1, scheduledFor: 1 });
+
+// Virtual for the end of the session
+swapSessionSchema.virtual('endsAt').get(function() {
+  return this.scheduledFor && new Date(this.scheduledFor.getTime() + this.minutes * MINUTE_MS);
+});
+
+/**
+ * Instance method to record whether a member attended
+ * Once both members have answered the session is completed, or missed if either was absent
+ * @param {Object} user - Member recording their attendance
+ * @param {boolean} attended
+ */
+swapSessionSchema.methods.recordAttendance = function(user, attended) {
+  const record = this.attendance.find(entry => entry.member.equals(user._id));
+  
+  if (record) {
+    record.attended = attended;
+    record.recordedAt = new Date();
+  } else {
+    this.attendance.push({ member: user._id, attended });
+  }
+  
+  const members = [this.teacher, this.learner];
+  const answered = members.every(member => this.attendance.some(entry => entry.member.equals(member)));
+  
+  if (answered) {
+    this.status = this.attendance.every(entry => entry.attended) ? 'completed' : 'missed';
+    this.completedAt = new Date();
+  }
+  
+  return this.save();
+};
+
+/**
+ * Instance method to report that the other member did not turn up
+ * Records the reporter as present and the other member as absent, so the session is missed
+ * @param {Object} user - Member reporting the no-show
+ */
+swapSessionSchema.methods.reportNoShow = function(user) {
+  const absentee = this.teacher.equals(user._id) ? this.learner : this.teacher;
+  
+  this.attendance = [
+    { member: user._id, attended: true },
+    { member: absentee, attended: false }
+  ];
+  this.noShowReportedBy = user._id;
+  this.status = 'missed';
+  this.completedAt = new Date();
+  
+  return this.save();
+};
+
+// Instance method to add a note
+swapSessionSchema.methods.addNote = function(user, body) {
+  this.notes.push({ author: user._id, body });
+  return this.save();
+};
+
+// Instance method to cancel the session (user is omitted when the platform cancels it)
+swapSessionSchema.methods.cancel = function(user, reason) {
+  this.status = 'cancelled';
+  this.cancelledAt = new Date();
+  this.cancelledBy = user ? user._id : undefined;
+  this.cancellationReason = reason;
+  return this.save();
+};
+
+// Static method to cancel the sessions of a swap that have not taken place
+swapSessionSchema.statics.cancelOpenSessions = function(swapId, reason) {
+  return this.updateMany(
+    { swap: swapId, status: 'scheduled' },
+    { $set: { status: 'cancelled', cancelledAt: new Date(), cancellationReason: reason } }
+  );
+};
+
+module.exports = mongoose.model('SwapSession', swapSessionSchema);
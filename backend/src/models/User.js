@@ -1,5 +1,104 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const SkillTaxonomy = require('./SkillTaxonomy');
+const { generateRandomToken, hashToken } = require('../utils/tokenUtils');
+const {
+  NOTIFICATION_CHANNELS,
+  DEFAULT_CHANNEL,
+  DIGEST_FREQUENCIES,
+  DEFAULT_DIGEST_FREQUENCY
+} = require('../utils/notificationTypes');
+const { DEFAULT_TIME_ZONE, isValidTimeZone } = require('../utils/timeZone');
+
+/**
+ * Skill Subdocument Schema
+ * A skill a user offers or wants, with its category and proficiency level
+ */
+const skillSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Skill name is required'],
+    trim: true,
+    maxlength: [50, 'Skill name cannot exceed 50 characters']
+  },
+  
+  // Slug of the matching SkillTaxonomy entry (unset for skills outside the taxonomy)
+  slug: {
+    type: String,
+    trim: true
+  },
+  
+  category: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Skill category cannot exceed 50 characters'],
+    default: 'Other'
+  },
+  
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Skill description cannot exceed 200 characters']
+  },
+  
+  level: {
+    type: String,
+    enum: ['beginner', 'intermediate', 'advanced', 'expert'],
+    default: 'intermediate'
+  },
+  
+  // Skills outside the taxonomy wait for an admin to approve them
+  isApproved: {
+    type: Boolean,
+    default: false
+  },
+  
+  submittedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Wall clock time, 00:00 to 24:00
+const CLOCK_TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+/**
+ * Availability Window Subdocument Schema
+ * A weekly period the user is free for sessions, in the user's time zone
+ */
+const availabilityWindowSchema = new mongoose.Schema({
+  // 0 = Sunday
+  day: {
+    type: Number,
+    required: [true, 'Day is required'],
+    min: [0, 'Day must be between 0 and 6'],
+    max: [6, 'Day must be between 0 and 6']
+  },
+  
+  start: {
+    type: String,
+    required: [true, 'Start time is required'],
+    match: [CLOCK_TIME_PATTERN, 'Start time must be in HH:MM format']
+  },
+  
+  end: {
+    type: String,
+    required: [true, 'End time is required'],
+    match: [CLOCK_TIME_PATTERN, 'End time must be in HH:MM format'],
+    validate: {
+      // Zero-padded times compare correctly as strings
+      validator: function(end) {
+        return end > this.start;
+      },
+      message: 'End time must be after start time'
+    }
+  }
+}, {
+  _id: false
+});
 
 /**
  * User Schema for the Skill Swap Platform
@@ -52,17 +151,9 @@ const userSchema = new mongoose.Schema({
   },
   
   // Skills Management
-  skillsOffered: [{
-    type: String,
-    trim: true,
-    required: true
-  }],
+  skillsOffered: [skillSchema],
   
-  skillsWanted: [{
-    type: String,
-    trim: true,
-    required: true
-  }],
+  skillsWanted: [skillSchema],
   
   // Availability
   availability: [{
@@ -71,12 +162,99 @@ const userSchema = new mongoose.Schema({
     trim: true
   }],
   
+  // Weekly periods the user is free for sessions, used to offer session times
+  availabilityWindows: {
+    type: [availabilityWindowSchema],
+    validate: {
+      validator: (windows) => windows.length <= 28,
+      message: 'Cannot have more than 28 availability windows'
+    }
+  },
+  
+  // IANA time zone, e.g. Europe/Berlin; digests and availability windows use the member's local time
+  timezone: {
+    type: String,
+    default: DEFAULT_TIME_ZONE,
+    validate: {
+      validator: isValidTimeZone,
+      message: 'Invalid time zone'
+    }
+  },
+  
   // Privacy Settings
   isPublic: {
     type: Boolean,
     default: true
   },
   
+  // Notification preferences: how the user hears about each category
+  notificationPreferences: {
+    swapRequests: {
+      type: String,
+      enum: NOTIFICATION_CHANNELS,
+      default: DEFAULT_CHANNEL
+    },
+    swapUpdates: {
+      type: String,
+      enum: NOTIFICATION_CHANNELS,
+      default: DEFAULT_CHANNEL
+    },
+    ratings: {
+      type: String,
+      enum: NOTIFICATION_CHANNELS,
+      default: DEFAULT_CHANNEL
+    },
+    disputes: {
+      type: String,
+      enum: NOTIFICATION_CHANNELS,
+      default: DEFAULT_CHANNEL
+    },
+    adminMessages: {
+      type: String,
+      enum: NOTIFICATION_CHANNELS,
+      default: DEFAULT_CHANNEL
+    }
+  },
+  
+  // Digest email: a periodic summary of activity
+  digest: {
+    frequency: {
+      type: String,
+      enum: DIGEST_FREQUENCIES,
+      default: DEFAULT_DIGEST_FREQUENCY
+    },
+    // Unset until the digest job schedules the next digest
+    nextDueAt: {
+      type: Date
+    },
+    // End of the period covered by the last digest, whether or not it was sent
+    lastRunAt: {
+      type: Date
+    },
+    lastSentAt: {
+      type: Date
+    },
+    // Match partners already reported, so each one is only announced once
+    reportedMatches: {
+      type: [mongoose.Schema.Types.ObjectId],
+      select: false
+    }
+  },
+  
+  // Personal calendar feed of swap sessions; only a hash of its secret URL token is kept
+  calendarFeed: {
+    tokenHash: {
+      type: String,
+      select: false
+    },
+    createdAt: {
+      type: Date
+    },
+    lastAccessedAt: {
+      type: Date
+    }
+  },
+  
   // User Status and Roles
   role: {
     type: String,
@@ -94,6 +272,78 @@ const userSchema = new mongoose.Schema({
     default: true
   },
   
+  // Account deletion: the account is anonymised once the grace period ends
+  deletionRequestedAt: {
+    type: Date
+  },
+  
+  deletionScheduledFor: {
+    type: Date
+  },
+  
+  anonymizedAt: {
+    type: Date
+  },
+  
+  // Email verification
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  
+  emailVerifiedAt: {
+    type: Date
+  },
+  
+  // Two-factor authentication (TOTP)
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false
+  },
+  
+  twoFactorSecret: {
+    type: String,
+    select: false
+  },
+  
+  // Secret generated during enrolment, promoted once a code is confirmed
+  twoFactorPendingSecret: {
+    type: String,
+    select: false
+  },
+  
+  // Time step of the last accepted code, used to reject replays
+  twoFactorLastUsedStep: {
+    type: Number,
+    select: false
+  },
+  
+  // One-time recovery codes (only hashes are stored)
+  twoFactorRecoveryCodes: {
+    type: [{
+      codeHash: String,
+      usedAt: Date
+    }],
+    select: false
+  },
+  
+  // Identities from external OpenID Connect providers linked to this account
+  oidcIdentities: [{
+    provider: {
+      type: String,
+      required: true
+    },
+    subject: {
+      type: String,
+      required: true
+    },
+    email: String,
+    linkedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  
   // User Statistics
   totalSwaps: {
     type: Number,
@@ -112,6 +362,32 @@ const userSchema = new mongoose.Schema({
     default: 0
   },
   
+  // Outcomes of resolved disputes, shown to admins resolving new ones
+  reliability: {
+    // Resolved disputes the member was part of, on either side
+    disputes: {
+      type: Number,
+      default: 0
+    },
+    
+    // Disputes resolved with the member at fault
+    disputesLost: {
+      type: Number,
+      default: 0
+    },
+    
+    // No-show reports upheld against the member
+    noShows: {
+      type: Number,
+      default: 0
+    },
+    
+    warnings: {
+      type: Number,
+      default: 0
+    }
+  },
+  
   // Timestamps
   lastLogin: {
     type: Date
@@ -119,6 +395,17 @@ const userSchema = new mongoose.Schema({
   
   passwordChangedAt: {
     type: Date
+  },
+  
+  // Password reset (only the hashed token is stored)
+  passwordResetToken: {
+    type: String,
+    select: false
+  },
+  
+  passwordResetExpires: {
+    type: Date,
+    select: false
   }
 }, {
   timestamps: true,
@@ -128,10 +415,19 @@ const userSchema = new mongoose.Schema({
 
 // Indexes for better query performance
 userSchema.index({ email: 1 });
-userSchema.index({ skillsOffered: 1 });
-userSchema.index({ skillsWanted: 1 });
+userSchema.index({ 'skillsOffered.name': 1 });
+userSchema.index({ 'skillsWanted.name': 1 });
+userSchema.index({ 'skillsOffered.category': 1 });
+userSchema.index({ 'skillsOffered.slug': 1 });
+userSchema.index({ 'skillsWanted.slug': 1 });
+userSchema.index({ 'skillsOffered.isApproved': 1 });
+userSchema.index({ 'skillsWanted.isApproved': 1 });
 userSchema.index({ location: 1 });
 userSchema.index({ isPublic: 1, isBanned: 1, isActive: 1 });
+userSchema.index({ deletionScheduledFor: 1 });
+userSchema.index({ 'digest.frequency': 1, 'digest.nextDueAt': 1 });
+userSchema.index({ 'calendarFeed.tokenHash': 1 }, { sparse: true });
+userSchema.index({ 'oidcIdentities.provider': 1, 'oidcIdentities.subject': 1 });
 
 // Virtual for user's full profile completion percentage
 userSchema.virtual('profileCompletion').get(function() {
@@ -173,6 +469,24 @@ userSchema.pre('save', function(next) {
   next();
 });
 
+// Pre-save middleware to map skills onto the canonical taxonomy
+// Taxonomy skills are approved automatically; others go to the moderation queue
+userSchema.pre('save', async function(next) {
+  try {
+    for (const field of ['skillsOffered', 'skillsWanted']) {
+      if (this.isModified(field) && this[field].length > 0) {
+        this[field] = await SkillTaxonomy.normalizeSkills(this[field]);
+        this[field].forEach(skill => {
+          if (skill.slug) skill.isApproved = true;
+        });
+      }
+    }
+    next();
+  } catch (error) {
+    return next(error);
+  }
+});
+
 // Instance method to check password
 userSchema.methods.comparePassword = async function(candidatePassword) {
   return await bcrypt.compare(candidatePassword, this.password);
@@ -190,6 +504,62 @@ userSchema.methods.changedPasswordAfter = function(JWTTimestamp) {
   return false;
 };
 
+// Instance method to create a single-use password reset token
+userSchema.methods.createPasswordResetToken = function() {
+  const resetToken = generateRandomToken();
+  
+  this.passwordResetToken = hashToken(resetToken);
+  this.passwordResetExpires = Date.now() + 10 * 60 * 1000; // 10 minutes
+  
+  return resetToken;
+};
+
+// Instance method to replace the recovery codes
+// Returns the plain codes so they can be shown to the user once
+userSchema.methods.createRecoveryCodes = function(count = 10) {
+  const codes = Array.from({ length: count }, () => {
+    const raw = generateRandomToken(5);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  
+  this.twoFactorRecoveryCodes = codes.map(code => ({ codeHash: hashToken(code) }));
+  
+  return codes;
+};
+
+// Instance method to consume a recovery code (requires +twoFactorRecoveryCodes)
+userSchema.methods.useRecoveryCode = function(code) {
+  const codeHash = hashToken(code.trim().toLowerCase());
+  const entry = (this.twoFactorRecoveryCodes || []).find(
+    recoveryCode => recoveryCode.codeHash === codeHash && !recoveryCode.usedAt
+  );
+  
+  if (!entry) return false;
+  
+  entry.usedAt = new Date();
+  return true;
+};
+
+// Virtual to check if the account is waiting to be deleted
+userSchema.virtual('isPendingDeletion').get(function() {
+  return !!this.deletionScheduledFor && !this.anonymizedAt;
+});
+
+// Instance method to start the deletion grace period
+userSchema.methods.scheduleDeletion = function(graceDays) {
+  this.isActive = false;
+  this.deletionRequestedAt = new Date();
+  this.deletionScheduledFor = new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000);
+  return this.save({ validateBeforeSave: false });
+};
+
+// Instance method to cancel a pending deletion
+userSchema.methods.cancelDeletion = function() {
+  this.isActive = true;
+  this.deletionRequestedAt = undefined;
+  this.deletionScheduledFor = undefined;
+};
+
 // Instance method to update rating
 userSchema.methods.updateRating = function(newRating) {
   const totalPoints = this.averageRating * this.totalRatings + newRating;
@@ -198,16 +568,63 @@ userSchema.methods.updateRating = function(newRating) {
   return this.save();
 };
 
+// Static method to build the skill conditions shared by the user searches
+// Taxonomy names and aliases match the canonical skill exactly; other text matches by name.
+// Only approved skills are searchable.
+userSchema.statics.buildSkillQuery = async function(skill, options = {}) {
+  const query = {};
+  const approved = (condition) => ({ $elemMatch: { ...condition, isApproved: true } });
+  
+  if (skill) {
+    const entry = await SkillTaxonomy.findByNameOrAlias(skill);
+    const condition = entry
+      ? { slug: entry.slug }
+      : { name: new RegExp(skill.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i') };
+    
+    query.$or = [
+      { skillsOffered: approved(condition) },
+      { skillsWanted: approved(condition) }
+    ];
+  }
+  
+  if (options.category) {
+    query.skillsOffered = approved({ category: options.category });
+  }
+  
+  return query;
+};
+
+// Static method to find the user owning a skill subdocument
+userSchema.statics.findBySkillId = function(skillId) {
+  return this.findOne({
+    $or: [{ 'skillsOffered._id': skillId }, { 'skillsWanted._id': skillId }]
+  });
+};
+
+// Instance method to locate one of the user's skills
+userSchema.methods.findSkill = function(skillId) {
+  for (const field of ['skillsOffered', 'skillsWanted']) {
+    const skill = this[field].id(skillId);
+    if (skill) return { field, skill };
+  }
+  return null;
+};
+
+// Instance method to get a copy of the user without skills awaiting approval
+userSchema.methods.withApprovedSkills = function() {
+  const user = this.toJSON();
+  user.skillsOffered = user.skillsOffered.filter(skill => skill.isApproved);
+  user.skillsWanted = user.skillsWanted.filter(skill => skill.isApproved);
+  return user;
+};
+
 // Static method to search users by skills
-userSchema.statics.searchBySkill = function(skill, options = {}) {
+userSchema.statics.searchBySkill = async function(skill, options = {}) {
   const query = {
     isPublic: true,
     isBanned: false,
     isActive: true,
-    $or: [
-      { skillsOffered: { $regex: skill, $options: 'i' } },
-      { skillsWanted: { $regex: skill, $options: 'i' } }
-    ]
+    ...(await this.buildSkillQuery(skill, options))
   };
   
   return this.find(query)
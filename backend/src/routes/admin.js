@@ -4,6 +4,8 @@ const {
   getAllSwaps,
   banUser,
   unbanUser,
+  getDisputes,
+  resolveDispute,
   createAdminMessage,
   getAdminMessages,
   updateAdminMessage,
@@ -12,13 +14,24 @@ const {
   generateSwapStatsReport,
   generateFeedbackReport,
   getFlaggedRatings,
-  approveRating
+  approveRating,
+  getPendingSkills,
+  approveSkill,
+  rejectSkill,
+  getJobRuns,
+  getMailMessages,
+  getMailMessage,
+  retryMailMessage
 } = require('../controllers/adminController');
 const { authenticate, authorize } = require('../middleware/auth');
 const {
   validateAdminMessage,
   validateObjectId,
-  validatePagination
+  validatePagination,
+  validateMailQuery,
+  validateSkillRejection,
+  validateDisputeQuery,
+  validateDisputeResolution
 } = require('../middleware/validation');
 
 const router = express.Router();
@@ -39,6 +52,10 @@ router.get('/dashboard', getDashboardStats);
 router.put('/users/:id/ban', validateObjectId, banUser);
 router.put('/users/:id/unban', validateObjectId, unbanUser);
 
+// Dispute resolution queue
+router.get('/disputes', validateDisputeQuery, getDisputes);
+router.put('/disputes/:id/resolve', validateDisputeResolution, resolveDispute);
+
 // Swap management
 router.get('/swaps', validatePagination, getAllSwaps);
 
@@ -52,6 +69,19 @@ router.post('/messages/:id/send', validateObjectId, sendAdminMessage);
 router.get('/ratings/flagged', validatePagination, getFlaggedRatings);
 router.put('/ratings/:id/approve', validateObjectId, approveRating);
 
+// Skill moderation
+router.get('/skills/pending', validatePagination, getPendingSkills);
+router.put('/skills/:id/approve', validateObjectId, approveSkill);
+router.put('/skills/:id/reject', validateSkillRejection, rejectSkill);
+
+// Background jobs
+router.get('/jobs/runs', validatePagination, getJobRuns);
+
+// Outbound mail
+router.get('/mail', validateMailQuery, getMailMessages);
+router.get('/mail/:id', validateObjectId, getMailMessage);
+router.post('/mail/:id/retry', validateObjectId, retryMailMessage);
+
 // Reports and analytics
 router.get('/reports/user-activity', generateUserActivityReport);
 router.get('/reports/swap-stats', generateSwapStatsReport);
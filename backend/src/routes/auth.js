@@ -2,20 +2,46 @@ const express = require('express');
 const {
   register,
   login,
+  loginWithTwoFactor,
   getMe,
   updatePassword,
   forgotPassword,
+  resetPassword,
   refreshToken,
   logout,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  getSecurityEvents,
+  exportAccountData,
   deleteAccount,
   checkEmailAvailability,
-  verifyAccount
+  verifyAccount,
+  resendVerification
 } = require('../controllers/authController');
+const {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor
+} = require('../controllers/twoFactorController');
+const {
+  getOidcProviders,
+  authorizeOidc,
+  oidcCallback
+} = require('../controllers/oidcController');
 const { authenticate } = require('../middleware/auth');
 const {
   validateUserRegistration,
   validateUserLogin,
-  validatePasswordChange
+  validatePasswordChange,
+  validateForgotPassword,
+  validatePasswordReset,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateTwoFactorDisable,
+  validateObjectId
 } = require('../middleware/validation');
 
 const router = express.Router();
@@ -28,17 +54,39 @@ const router = express.Router();
 // Public routes
 router.post('/register', validateUserRegistration, register);
 router.post('/login', validateUserLogin, login);
-router.post('/forgot-password', forgotPassword);
+router.post('/login/2fa', validateTwoFactorLogin, loginWithTwoFactor);
+router.post('/forgot-password', validateForgotPassword, forgotPassword);
+router.post('/reset-password/:token', validatePasswordReset, resetPassword);
 router.get('/check-email/:email', checkEmailAvailability);
 router.get('/verify/:token', verifyAccount);
+router.post('/refresh', refreshToken); // Uses the httpOnly refresh token cookie
+router.post('/logout', logout);
+
+// External sign-in (OpenID Connect)
+router.get('/oidc/providers', getOidcProviders);
+router.get('/oidc/:provider/authorize', authorizeOidc);
+router.get('/oidc/:provider/callback', oidcCallback);
 
 // Protected routes (require authentication)
 router.use(authenticate); // All routes below this require authentication
 
 router.get('/me', getMe);
 router.put('/password', validatePasswordChange, updatePassword);
-router.post('/refresh', refreshToken);
-router.post('/logout', logout);
+router.post('/verify/resend', resendVerification);
+router.get('/account/export', exportAccountData);
 router.delete('/account', deleteAccount);
 
+// Session management
+router.get('/sessions', getSessions);
+router.delete('/sessions', revokeOtherSessions);
+router.delete('/sessions/:id', validateObjectId, revokeSession);
+router.get('/security-events', getSecurityEvents);
+
+// Two-factor authentication
+router.get('/2fa', getTwoFactorStatus);
+router.post('/2fa/setup', setupTwoFactor);
+router.post('/2fa/enable', validateTwoFactorCode, enableTwoFactor);
+router.post('/2fa/recovery-codes', validateTwoFactorCode, regenerateRecoveryCodes);
+router.post('/2fa/disable', validateTwoFactorDisable, disableTwoFactor);
+
 module.exports = router;
\ No newline at end of file
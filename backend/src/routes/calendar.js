@@ -0,0 +1,26 @@
+const express = require('express');
+const {
+  getFeedStatus,
+  createFeed,
+  deleteFeed,
+  getFeed
+} = require('../controllers/calendarController');
+const { authenticate } = require('../middleware/auth');
+const { validateCalendarToken } = require('../middleware/validation');
+
+const router = express.Router();
+
+/**
+ * Calendar Routes
+ * Routes for members' iCalendar feeds of their swap sessions
+ */
+
+// Managing the current user's feed
+router.get('/feed', authenticate, getFeedStatus);
+router.post('/feed', authenticate, createFeed);
+router.delete('/feed', authenticate, deleteFeed);
+
+// Calendar apps cannot sign in, so the feed itself is found by its secret token
+router.get('/:token.ics', validateCalendarToken, getFeed);
+
+module.exports = router;
@@ -0,0 +1,31 @@
+const express = require('express');
+const {
+  createDispute,
+  getDisputes,
+  getDispute,
+  addComment
+} = require('../controllers/disputeController');
+const { authenticate } = require('../middleware/auth');
+const {
+  validateObjectId,
+  validateDisputeCreation,
+  validateDisputeComment,
+  validateDisputeQuery
+} = require('../middleware/validation');
+
+const router = express.Router();
+
+/**
+ * Dispute Routes
+ * Routes for disputes between swap partners (admins resolve them through the admin routes)
+ */
+
+// All dispute routes require authentication
+router.use(authenticate);
+
+router.post('/', validateDisputeCreation, createDispute);
+router.get('/', validateDisputeQuery, getDisputes);
+router.get('/:id', validateObjectId, getDispute);
+router.post('/:id/comments', validateDisputeComment, addComment);
+
+module.exports = router;
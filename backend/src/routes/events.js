@@ -0,0 +1,15 @@
+const express = require('express');
+const { streamEvents } = require('../controllers/eventController');
+const { authenticate } = require('../middleware/auth');
+
+const router = express.Router();
+
+/**
+ * Event Routes
+ * Real-time event stream for signed-in members
+ */
+
+// The stream uses the same bearer token check as every other private route
+router.get('/', authenticate, streamEvents);
+
+module.exports = router;
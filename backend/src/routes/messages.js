@@ -0,0 +1,34 @@
+const express = require('express');
+const {
+  getMessages,
+  sendMessage,
+  markMessagesRead,
+  editMessage,
+  deleteMessage
+} = require('../controllers/messageController');
+const {
+  validateMessage,
+  validateMessageUpdate,
+  validateMessageId,
+  validateObjectId,
+  validatePagination
+} = require('../middleware/validation');
+
+// Mounted under /api/swaps/:id/messages, which provides the swap ID
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Message Routes
+ * Routes for the message thread of a swap (authentication is applied by the swap routes)
+ */
+
+// Message thread routes
+router.get('/', validateObjectId, validatePagination, getMessages);
+router.post('/', validateMessage, sendMessage);
+router.put('/read', validateObjectId, markMessagesRead);
+
+// Changes to a single message
+router.put('/:messageId', validateMessageUpdate, editMessage);
+router.delete('/:messageId', validateMessageId, deleteMessage);
+
+module.exports = router;
@@ -0,0 +1,23 @@
+const express = require('express');
+const {
+  getConfiguration,
+  getJwks,
+  showAuthorizeForm,
+  approveAuthorization,
+  exchangeToken
+} = require('../controllers/mockOidcController');
+
+const router = express.Router();
+
+/**
+ * Mock OIDC Provider Routes
+ * Development-only identity provider (mounted when OIDC_MOCK_ENABLED)
+ */
+
+router.get('/.well-known/openid-configuration', getConfiguration);
+router.get('/jwks', getJwks);
+router.get('/authorize', showAuthorizeForm);
+router.post('/authorize', approveAuthorization);
+router.post('/token', exchangeToken);
+
+module.exports = router;
@@ -0,0 +1,42 @@
+const express = require('express');
+const {
+  getNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  deleteNotification,
+  clearNotifications,
+  getNotificationPreferences,
+  updateNotificationPreferences
+} = require('../controllers/notificationController');
+const { authenticate } = require('../middleware/auth');
+const {
+  validateNotificationQuery,
+  validateNotificationClear,
+  validateNotificationPreferences,
+  validateObjectId
+} = require('../middleware/validation');
+
+const router = express.Router();
+
+/**
+ * Notification Routes
+ * Routes for the current user's notification center and preferences
+ */
+
+// All notification routes require authentication
+router.use(authenticate);
+
+// Preferences
+router.get('/preferences', getNotificationPreferences);
+router.put('/preferences', validateNotificationPreferences, updateNotificationPreferences);
+
+// Notification center
+router.get('/', validateNotificationQuery, getNotifications);
+router.get('/unread-count', getUnreadCount);
+router.put('/read-all', markAllNotificationsRead);
+router.delete('/', validateNotificationClear, clearNotifications);
+router.put('/:id/read', validateObjectId, markNotificationRead);
+router.delete('/:id', validateObjectId, deleteNotification);
+
+module.exports = router;
@@ -11,7 +11,7 @@ const {
   flagRating,
   getRatingTrends
 } = require('../controllers/ratingController');
-const { authenticate, authorize } = require('../middleware/auth');
+const { authenticate, authorize, requireVerifiedEmail } = require('../middleware/auth');
 const {
   validateRatingCreation,
   validateObjectId,
@@ -33,7 +33,7 @@ router.get('/user/:userId/stats', validateObjectId, getUserRatingStats);
 router.use(authenticate);
 
 // Rating management
-router.post('/', validateRatingCreation, createRating);
+router.post('/', requireVerifiedEmail, validateRatingCreation, createRating);
 router.get('/given', validatePagination, getRatingsGiven);
 router.get('/received', validatePagination, getRatingsReceived);
 router.get('/:id', validateObjectId, getRatingById);
@@ -0,0 +1,25 @@
+const express = require('express');
+const {
+  getOpenSlots,
+  proposeSlots,
+  confirmSlot
+} = require('../controllers/scheduleController');
+const {
+  validateSlotQuery,
+  validateSlotProposal,
+  validateSlotConfirmation
+} = require('../middleware/validation');
+
+// Mounted under /api/swaps/:id/schedule, which provides the swap ID
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Schedule Routes
+ * Routes for agreeing a session time for a swap (authentication is applied by the swap routes)
+ */
+
+router.get('/slots', validateSlotQuery, getOpenSlots);
+router.post('/proposal', validateSlotProposal, proposeSlots);
+router.post('/confirm', validateSlotConfirmation, confirmSlot);
+
+module.exports = router;
@@ -0,0 +1,36 @@
+const express = require('express');
+const {
+  getSessions,
+  addSession,
+  updateAttendance,
+  addSessionNote,
+  cancelSwapSession,
+  reportSessionNoShow
+} = require('../controllers/swapSessionController');
+const {
+  validateObjectId,
+  validateSessionCreation,
+  validateAttendance,
+  validateSessionNote,
+  validateSessionCancellation,
+  validateNoShowReport
+} = require('../middleware/validation');
+
+// Mounted under /api/swaps/:id/sessions, which provides the swap ID
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Session Routes
+ * Routes for the sessions of a swap (authentication is applied by the swap routes)
+ */
+
+router.get('/', validateObjectId, getSessions);
+router.post('/', validateSessionCreation, addSession);
+
+// Changes to a single session
+router.put('/:sessionId/attendance', validateAttendance, updateAttendance);
+router.post('/:sessionId/notes', validateSessionNote, addSessionNote);
+router.put('/:sessionId/cancel', validateSessionCancellation, cancelSwapSession);
+router.put('/:sessionId/no-show', validateNoShowReport, reportSessionNoShow);
+
+module.exports = router;
@@ -0,0 +1,18 @@
+const express = require('express');
+const {
+  autocompleteSkills,
+  getSkillCategories
+} = require('../controllers/skillController');
+const { validateSkillAutocomplete } = require('../middleware/validation');
+
+const router = express.Router();
+
+/**
+ * Skill Routes
+ * Public routes for the canonical skill taxonomy
+ */
+
+router.get('/autocomplete', validateSkillAutocomplete, autocompleteSkills);
+router.get('/categories', getSkillCategories);
+
+module.exports = router;
@@ -0,0 +1,37 @@
+const express = require('express');
+const {
+  getChainSuggestions,
+  createSwapChain,
+  getUserSwapChains,
+  getSwapChainById,
+  confirmSwapChain,
+  rejectSwapChain
+} = require('../controllers/swapChainController');
+const { authenticate, requireVerifiedEmail } = require('../middleware/auth');
+const {
+  validateSwapChainCreation,
+  validateObjectId,
+  validatePagination
+} = require('../middleware/validation');
+
+const router = express.Router();
+
+/**
+ * Swap Chain Routes
+ * Routes for multi-party swap cycles
+ */
+
+// All swap chain routes require authentication
+router.use(authenticate);
+
+// Swap chain management routes
+router.get('/suggestions', validatePagination, getChainSuggestions);
+router.post('/', requireVerifiedEmail, validateSwapChainCreation, createSwapChain);
+router.get('/', validatePagination, getUserSwapChains);
+router.get('/:id', validateObjectId, getSwapChainById);
+
+// Swap chain responses
+router.put('/:id/confirm', validateObjectId, confirmSwapChain);
+router.put('/:id/reject', validateObjectId, rejectSwapChain);
+
+module.exports = router;
@@ -5,17 +5,24 @@ const {
   getSwapById,
   acceptSwap,
   rejectSwap,
+  counterSwap,
   cancelSwap,
   completeSwap,
   getUserSwapStats,
   updateSwap
 } = require('../controllers/swapController');
-const { authenticate } = require('../middleware/auth');
+const { downloadSwapCalendar } = require('../controllers/calendarController');
+const { authenticate, requireVerifiedEmail } = require('../middleware/auth');
 const {
   validateSwapCreation,
+  validateSwapStatusChange,
+  validateCounterOffer,
   validateObjectId,
   validatePagination
 } = require('../middleware/validation');
+const messageRoutes = require('./messages');
+const scheduleRoutes = require('./schedule');
+const sessionRoutes = require('./sessions');
 
 const router = express.Router();
 
@@ -28,16 +35,25 @@ const router = express.Router();
 router.use(authenticate);
 
 // Swap management routes
-router.post('/', validateSwapCreation, createSwap);
+router.post('/', requireVerifiedEmail, validateSwapCreation, createSwap);
 router.get('/', validatePagination, getUserSwaps);
 router.get('/stats', getUserSwapStats);
 router.get('/:id', validateObjectId, getSwapById);
 router.put('/:id', validateObjectId, updateSwap);
-router.delete('/:id', validateObjectId, cancelSwap);
+router.delete('/:id', validateSwapStatusChange, cancelSwap);
 
 // Swap status management
-router.put('/:id/accept', validateObjectId, acceptSwap);
-router.put('/:id/reject', validateObjectId, rejectSwap);
-router.put('/:id/complete', validateObjectId, completeSwap);
+router.put('/:id/accept', validateSwapStatusChange, acceptSwap);
+router.put('/:id/reject', validateSwapStatusChange, rejectSwap);
+router.put('/:id/counter', validateCounterOffer, counterSwap);
+router.put('/:id/complete', validateSwapStatusChange, completeSwap);
+
+// Swap message thread
+router.use('/:id/messages', messageRoutes);
+
+// Session scheduling
+router.use('/:id/schedule', scheduleRoutes);
+router.use('/:id/sessions', sessionRoutes);
+router.get('/:id/calendar.ics', validateObjectId, downloadSwapCalendar);
 
 module.exports = router;
\ No newline at end of file
@@ -5,6 +5,9 @@ const {
   updateUserSkills,
   searchUsers,
   getUsersBySkill,
+  getMatches,
+  getAvailability,
+  updateAvailability,
   getUserStats,
   getAllUsers,
   deleteUser,
@@ -16,7 +19,9 @@ const {
   validateSkillsUpdate,
   validateObjectId,
   validatePagination,
-  validateSearch
+  validateSearch,
+  validateMatchQuery,
+  validateAvailability
 } = require('../middleware/validation');
 
 const router = express.Router();
@@ -30,6 +35,11 @@ const router = express.Router();
 router.get('/search', validateSearch, validatePagination, optionalAuth, searchUsers);
 router.get('/by-skill/:skill', validatePagination, getUsersBySkill);
 
+// Matching and availability (registered before /:id so "matches" and "me" are not read as user IDs)
+router.get('/matches', authenticate, validateMatchQuery, getMatches);
+router.get('/me/availability', authenticate, getAvailability);
+router.put('/me/availability', authenticate, validateAvailability, updateAvailability);
+
 // Mixed access routes (authentication optional or conditional)
 router.get('/:id', validateObjectId, optionalAuth, checkProfileAccess, getUserProfile);
 router.get('/:id/stats', validateObjectId, optionalAuth, getUserStats);
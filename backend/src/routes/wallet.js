@@ -0,0 +1,19 @@
+const express = require('express');
+const { getWallet, getTransactions } = require('../controllers/walletController');
+const { authenticate } = require('../middleware/auth');
+const { validatePagination } = require('../middleware/validation');
+
+const router = express.Router();
+
+/**
+ * Wallet Routes
+ * Routes for the current user's time credits
+ */
+
+// All wallet routes require authentication
+router.use(authenticate);
+
+router.get('/', getWallet);
+router.get('/transactions', validatePagination, getTransactions);
+
+module.exports = router;
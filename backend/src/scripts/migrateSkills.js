@@ -0,0 +1,66 @@
+require('colors');
+require('dotenv').config();
+const mongoose = require('mongoose');
+const connectDB = require('../config/database');
+const User = require('../models/User');
+
+/**
+ * Skills migration
+ * Converts skills stored as plain strings into skill subdocuments.
+ * Safe to run repeatedly: already structured skills are left unchanged.
+ *
+ * Usage: npm run migrate:skills
+ */
+
+const toSkill = (skill) => {
+  if (typeof skill !== 'string') return skill;
+  
+  return {
+    _id: new mongoose.Types.ObjectId(),
+    name: skill.trim(),
+    category: 'Other',
+    level: 'intermediate',
+    isApproved: true
+  };
+};
+
+const migrateSkills = async () => {
+  // Use the raw collection so string skills are read without schema casting
+  const cursor = User.collection.find(
+    { $or: [{ skillsOffered: { $type: 'string' } }, { skillsWanted: { $type: 'string' } }] },
+    { projection: { skillsOffered: 1, skillsWanted: 1 } }
+  );
+  
+  let migrated = 0;
+  
+  for await (const user of cursor) {
+    await User.collection.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          skillsOffered: (user.skillsOffered || []).map(toSkill),
+          skillsWanted: (user.skillsWanted || []).map(toSkill)
+        }
+      }
+    );
+    migrated += 1;
+  }
+  
+  return migrated;
+};
+
+const run = async () => {
+  await connectDB();
+  
+  try {
+    const migrated = await migrateSkills();
+    console.log(`Migrated skills for ${migrated} user(s)`.green);
+  } catch (error) {
+    console.error('Skills migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.connection.close();
+  }
+};
+
+run();
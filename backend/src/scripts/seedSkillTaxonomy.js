@@ -0,0 +1,64 @@
+require('colors');
+require('dotenv').config();
+const mongoose = require('mongoose');
+const connectDB = require('../config/database');
+const SkillTaxonomy = require('../models/SkillTaxonomy');
+const User = require('../models/User');
+const taxonomy = require('../data/skillTaxonomy');
+
+/**
+ * Skill taxonomy seed
+ * Creates or updates the curated taxonomy entries, then re-normalises the
+ * skills already stored on users so they use the canonical names.
+ * Safe to run repeatedly.
+ *
+ * Usage: npm run seed:skills
+ */
+
+const seedTaxonomy = async () => {
+  for (const { name, category, aliases } of taxonomy) {
+    const entry = await SkillTaxonomy.findOne({ name }) || new SkillTaxonomy({ name });
+    entry.category = category;
+    entry.aliases = aliases;
+    await entry.save();
+  }
+  
+  return taxonomy.length;
+};
+
+const normalizeUserSkills = async () => {
+  const cursor = User.find({
+    $or: [{ 'skillsOffered.0': { $exists: true } }, { 'skillsWanted.0': { $exists: true } }]
+  }).cursor();
+  
+  let updated = 0;
+  
+  for await (const user of cursor) {
+    // The User pre-save hook maps modified skill lists onto the taxonomy
+    user.markModified('skillsOffered');
+    user.markModified('skillsWanted');
+    await user.save({ validateBeforeSave: false });
+    updated += 1;
+  }
+  
+  return updated;
+};
+
+const run = async () => {
+  await connectDB();
+  
+  try {
+    const seeded = await seedTaxonomy();
+    console.log(`Seeded ${seeded} taxonomy entries`.green);
+    
+    const updated = await normalizeUserSkills();
+    console.log(`Normalised skills for ${updated} user(s)`.green);
+  } catch (error) {
+    console.error('Skill taxonomy seed failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.connection.close();
+  }
+};
+
+run();
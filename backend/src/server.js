@@ -3,8 +3,9 @@ const cors = require('cors');
 const helmet = require('helmet');
 const morgan = require('morgan');
 const compression = require('compression');
+const cookieParser = require('cookie-parser');
 const rateLimit = require('express-rate-limit');
-const colors = require('colors');
+require('colors');
 require('express-async-errors');
 require('dotenv').config();
 
@@ -14,12 +15,24 @@ const connectDB = require('./config/database');
 // Middleware
 const { globalErrorHandler, handleNotFound } = require('./middleware/errorHandler');
 
+// Background jobs
+const { startJobs } = require('./jobs');
+
 // Routes
 const authRoutes = require('./routes/auth');
 const userRoutes = require('./routes/users');
 const swapRoutes = require('./routes/swaps');
+const swapChainRoutes = require('./routes/swapChains');
 const ratingRoutes = require('./routes/ratings');
 const adminRoutes = require('./routes/admin');
+const skillRoutes = require('./routes/skills');
+const eventRoutes = require('./routes/events');
+const notificationRoutes = require('./routes/notifications');
+const calendarRoutes = require('./routes/calendar');
+const walletRoutes = require('./routes/wallet');
+const disputeRoutes = require('./routes/disputes');
+const mockOidcRoutes = require('./routes/mockOidc');
+const { isMockProviderEnabled } = require('./config/oidc');
 
 const app = express();
 
@@ -62,6 +75,7 @@ app.use(cors({
     'http://localhost:8080', // Vite dev server
   ],
   credentials: true,
+  exposedHeaders: ['Retry-After'], // Login throttling countdown
   optionsSuccessStatus: 200
 }));
 
@@ -69,6 +83,9 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// Cookie parsing (refresh tokens are sent as httpOnly cookies)
+app.use(cookieParser());
+
 // Compression middleware
 app.use(compression());
 
@@ -94,8 +111,22 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/swaps', swapRoutes);
+app.use('/api/swap-chains', swapChainRoutes);
 app.use('/api/ratings', ratingRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/skills', skillRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/wallet', walletRoutes);
+app.use('/api/disputes', disputeRoutes);
+
+// Development identity provider for testing external sign-in
+if (isMockProviderEnabled()) {
+  app.use('/mock-oidc', mockOidcRoutes);
+} else if (process.env.OIDC_MOCK_ENABLED === 'true') {
+  console.warn('OIDC_MOCK_ENABLED is ignored in production; the mock identity provider is not mounted');
+}
 
 // API documentation endpoint
 app.get('/api', (req, res) => {
@@ -107,28 +138,76 @@ app.get('/api', (req, res) => {
       auth: {
         register: 'POST /api/auth/register',
         login: 'POST /api/auth/login',
+        loginTwoFactor: 'POST /api/auth/login/2fa',
         profile: 'GET /api/auth/me',
         updatePassword: 'PUT /api/auth/password',
         forgotPassword: 'POST /api/auth/forgot-password',
+        resetPassword: 'POST /api/auth/reset-password/:token',
         refreshToken: 'POST /api/auth/refresh',
         logout: 'POST /api/auth/logout',
+        oidcProviders: 'GET /api/auth/oidc/providers',
+        oidcAuthorize: 'GET /api/auth/oidc/:provider/authorize',
+        oidcCallback: 'GET /api/auth/oidc/:provider/callback',
+        sessions: 'GET /api/auth/sessions',
+        revokeSession: 'DELETE /api/auth/sessions/:id',
+        revokeOtherSessions: 'DELETE /api/auth/sessions',
+        securityEvents: 'GET /api/auth/security-events',
+        twoFactorStatus: 'GET /api/auth/2fa',
+        twoFactorSetup: 'POST /api/auth/2fa/setup',
+        twoFactorEnable: 'POST /api/auth/2fa/enable',
+        twoFactorRecoveryCodes: 'POST /api/auth/2fa/recovery-codes',
+        twoFactorDisable: 'POST /api/auth/2fa/disable',
+        verifyEmail: 'GET /api/auth/verify/:token',
+        resendVerification: 'POST /api/auth/verify/resend',
+        exportAccount: 'GET /api/auth/account/export',
         deleteAccount: 'DELETE /api/auth/account'
       },
       users: {
         searchUsers: 'GET /api/users/search',
+        getMatches: 'GET /api/users/matches',
+        getAvailability: 'GET /api/users/me/availability',
+        updateAvailability: 'PUT /api/users/me/availability',
         getUserProfile: 'GET /api/users/:id',
         updateProfile: 'PUT /api/users/:id',
         updateSkills: 'PUT /api/users/:id/skills',
         getUserStats: 'GET /api/users/:id/stats'
       },
+      skills: {
+        autocomplete: 'GET /api/skills/autocomplete?q=',
+        categories: 'GET /api/skills/categories'
+      },
       swaps: {
         createSwap: 'POST /api/swaps',
         getUserSwaps: 'GET /api/swaps',
         getSwapById: 'GET /api/swaps/:id',
         acceptSwap: 'PUT /api/swaps/:id/accept',
         rejectSwap: 'PUT /api/swaps/:id/reject',
+        counterSwap: 'PUT /api/swaps/:id/counter',
         cancelSwap: 'DELETE /api/swaps/:id',
-        completeSwap: 'PUT /api/swaps/:id/complete'
+        completeSwap: 'PUT /api/swaps/:id/complete',
+        getMessages: 'GET /api/swaps/:id/messages',
+        sendMessage: 'POST /api/swaps/:id/messages',
+        markMessagesRead: 'PUT /api/swaps/:id/messages/read',
+        editMessage: 'PUT /api/swaps/:id/messages/:messageId',
+        deleteMessage: 'DELETE /api/swaps/:id/messages/:messageId',
+        getOpenSlots: 'GET /api/swaps/:id/schedule/slots',
+        proposeSlots: 'POST /api/swaps/:id/schedule/proposal',
+        confirmSlot: 'POST /api/swaps/:id/schedule/confirm',
+        getSessions: 'GET /api/swaps/:id/sessions',
+        addSession: 'POST /api/swaps/:id/sessions',
+        recordAttendance: 'PUT /api/swaps/:id/sessions/:sessionId/attendance',
+        addSessionNote: 'POST /api/swaps/:id/sessions/:sessionId/notes',
+        cancelSession: 'PUT /api/swaps/:id/sessions/:sessionId/cancel',
+        reportNoShow: 'PUT /api/swaps/:id/sessions/:sessionId/no-show',
+        downloadCalendar: 'GET /api/swaps/:id/calendar.ics'
+      },
+      swapChains: {
+        getSuggestions: 'GET /api/swap-chains/suggestions',
+        createChain: 'POST /api/swap-chains',
+        getUserChains: 'GET /api/swap-chains',
+        getChainById: 'GET /api/swap-chains/:id',
+        confirmChain: 'PUT /api/swap-chains/:id/confirm',
+        rejectChain: 'PUT /api/swap-chains/:id/reject'
       },
       ratings: {
         createRating: 'POST /api/ratings',
@@ -143,7 +222,45 @@ app.get('/api', (req, res) => {
         unbanUser: 'PUT /api/admin/users/:id/unban',
         createMessage: 'POST /api/admin/messages',
         getSwaps: 'GET /api/admin/swaps',
-        reports: 'GET /api/admin/reports/*'
+        reports: 'GET /api/admin/reports/*',
+        pendingSkills: 'GET /api/admin/skills/pending',
+        approveSkill: 'PUT /api/admin/skills/:id/approve',
+        rejectSkill: 'PUT /api/admin/skills/:id/reject',
+        disputes: 'GET /api/admin/disputes',
+        resolveDispute: 'PUT /api/admin/disputes/:id/resolve',
+        jobRuns: 'GET /api/admin/jobs/runs',
+        mail: 'GET /api/admin/mail',
+        mailMessage: 'GET /api/admin/mail/:id',
+        retryMail: 'POST /api/admin/mail/:id/retry'
+      },
+      events: {
+        stream: 'GET /api/events'
+      },
+      notifications: {
+        getNotifications: 'GET /api/notifications',
+        getUnreadCount: 'GET /api/notifications/unread-count',
+        markRead: 'PUT /api/notifications/:id/read',
+        markAllRead: 'PUT /api/notifications/read-all',
+        deleteNotification: 'DELETE /api/notifications/:id',
+        clearNotifications: 'DELETE /api/notifications',
+        getPreferences: 'GET /api/notifications/preferences',
+        updatePreferences: 'PUT /api/notifications/preferences'
+      },
+      calendar: {
+        getFeedStatus: 'GET /api/calendar/feed',
+        createFeed: 'POST /api/calendar/feed',
+        deleteFeed: 'DELETE /api/calendar/feed',
+        feed: 'GET /api/calendar/:token.ics'
+      },
+      wallet: {
+        getWallet: 'GET /api/wallet',
+        getTransactions: 'GET /api/wallet/transactions'
+      },
+      disputes: {
+        openDispute: 'POST /api/disputes',
+        getDisputes: 'GET /api/disputes',
+        getDispute: 'GET /api/disputes/:id',
+        addComment: 'POST /api/disputes/:id/comments'
       }
     }
   });
@@ -162,6 +279,8 @@ const server = app.listen(PORT, () => {
   console.log(
     `Server running in ${process.env.NODE_ENV} mode on port ${PORT}`.yellow.bold
   );
+  
+  startJobs();
 });
 
 // Handle unhandled promise rejections
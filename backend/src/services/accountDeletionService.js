@@ -0,0 +1,153 @@
+const User = require('../models/User');
+const Swap = require('../models/Swap');
+const SwapChain = require('../models/SwapChain');
+const SwapSession = require('../models/SwapSession');
+const Dispute = require('../models/Dispute');
+const Rating = require('../models/Rating');
+const Session = require('../models/Session');
+const SecurityEvent = require('../models/SecurityEvent');
+const LoginThrottle = require('../models/LoginThrottle');
+const Message = require('../models/Message');
+const Notification = require('../models/Notification');
+const MailMessage = require('../models/MailMessage');
+const { generateRandomToken } = require('../utils/tokenUtils');
+const { notifySwapUpdate } = require('./notificationService');
+
+/**
+ * Account Deletion Service
+ * Anonymises accounts whose deletion grace period has ended.
+ * Swap, message and rating records are kept (without personal content) so that
+ * partners' ratings and platform statistics stay consistent.
+ */
+
+const ACCOUNT_DELETED_REASON = 'The member deleted their account';
+
+/**
+ * Cancel a user's open swaps through the swap state machine
+ * Chain legs are cancelled with their whole chain. Credits held for the swaps
+ * are released with them, and partners are told why.
+ * @param {Object} user - User document, before it is scrubbed
+ */
+const cancelOpenSwaps = async (user) => {
+  const swaps = await Swap.find({
+    $or: [{ requester: user._id }, { receiver: user._id }],
+    status: { $in: ['pending', 'accepted'] }
+  });
+  
+  const chainIds = [...new Set(swaps.filter(swap => swap.chain).map(swap => swap.chain.toString()))];
+  const chains = await SwapChain.find({ _id: { $in: chainIds } });
+  const cancelled = [];
+  
+  for (const swap of swaps.filter(swap => !swap.chain)) {
+    cancelled.push(await swap.transition('cancel', { reason: ACCOUNT_DELETED_REASON }));
+  }
+  
+  for (const chain of chains) {
+    cancelled.push(...(await chain.cancel(user._id, ACCOUNT_DELETED_REASON) || []));
+  }
+  
+  await Promise.all(cancelled.map(swap => notifySwapUpdate(swap, 'swap.cancelled', user, ACCOUNT_DELETED_REASON)));
+};
+
+/**
+ * Anonymise a single user and their swap and rating records
+ * @param {Object} user - User document
+ */
+const anonymizeUser = async (user) => {
+  const userId = user._id;
+  const previousEmail = user.email;
+  const participantQuery = { $or: [{ requester: userId }, { receiver: userId }] };
+  
+  // Open swaps can no longer take place
+  await cancelOpenSwaps(user);
+  
+  await SwapSession.updateMany(
+    { $or: [{ teacher: userId }, { learner: userId }], status: 'scheduled' },
+    { $set: { status: 'cancelled', cancelledAt: new Date() } }
+  );
+  
+  // Remove free text, keep skills, statuses and dates for statistics
+  await Swap.updateMany({ requester: userId }, { $unset: { message: 1 } });
+  await Swap.updateMany(participantQuery, { $unset: { location: 1 } });
+  await SwapSession.updateMany({ 'notes.author': userId }, { $pull: { notes: { author: userId } } });
+  await Dispute.updateMany({ 'comments.author': userId }, { $pull: { comments: { author: userId } } });
+  
+  // The user's messages stay in their partners' conversations the way deleted
+  // messages do, without their text; conversations themselves hold no content
+  await Message.updateMany(
+    { sender: userId, deletedAt: { $exists: false } },
+    { $set: { deletedAt: new Date() }, $unset: { body: 1 } }
+  );
+  
+  // Keep the scores (they count towards averages) but drop the written feedback.
+  // updateMany avoids the Rating post-save hook that would re-apply the score.
+  await Rating.updateMany(
+    { reviewer: userId },
+    { $set: { isAnonymous: true }, $unset: { feedback: 1 } }
+  );
+  await Rating.updateMany({ reviewee: userId }, { $unset: { feedback: 1 } });
+  
+  // Scrub the profile; statistics fields are left untouched
+  user.name = 'Deleted User';
+  user.email = `deleted-${userId}@deleted.invalid`;
+  user.password = generateRandomToken();
+  user.location = undefined;
+  user.profilePhoto = null;
+  user.bio = undefined;
+  user.skillsOffered = [];
+  user.skillsWanted = [];
+  user.availability = [];
+  user.availabilityWindows = [];
+  user.calendarFeed = undefined;
+  user.isPublic = false;
+  user.isActive = false;
+  user.emailVerified = false;
+  user.emailVerifiedAt = undefined;
+  user.twoFactorEnabled = false;
+  user.twoFactorSecret = undefined;
+  user.twoFactorPendingSecret = undefined;
+  user.twoFactorLastUsedStep = undefined;
+  user.twoFactorRecoveryCodes = [];
+  user.oidcIdentities = [];
+  user.passwordResetToken = undefined;
+  user.passwordResetExpires = undefined;
+  user.anonymizedAt = new Date();
+  await user.save({ validateBeforeSave: false });
+  
+  await Promise.all([
+    Session.deleteMany({ user: userId }),
+    SecurityEvent.deleteMany({ user: userId }),
+    LoginThrottle.deleteOne({ key: `account:${previousEmail}` }),
+    Notification.deleteMany({ user: userId }),
+    MailMessage.deleteMany({ to: previousEmail })
+  ]);
+};
+
+/**
+ * Anonymise every account whose grace period has ended
+ * @returns {Promise<number>} - Number of anonymised accounts
+ */
+const processScheduledDeletions = async () => {
+  const users = await User.find({
+    deletionScheduledFor: { $lte: new Date() },
+    anonymizedAt: { $exists: false }
+  });
+  
+  let processed = 0;
+  
+  for (const user of users) {
+    try {
+      await anonymizeUser(user);
+      processed += 1;
+    } catch (error) {
+      console.error(`Error anonymising user ${user._id}:`, error);
+    }
+  }
+  
+  return processed;
+};
+
+module.exports = {
+  anonymizeUser,
+  processScheduledDeletions
+};
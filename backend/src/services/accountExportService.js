@@ -0,0 +1,213 @@
+const archiver = require('archiver');
+const User = require('../models/User');
+const Swap = require('../models/Swap');
+const SwapSession = require('../models/SwapSession');
+const CreditTransaction = require('../models/CreditTransaction');
+const Dispute = require('../models/Dispute');
+const Rating = require('../models/Rating');
+const AdminMessage = require('../models/AdminMessage');
+const Conversation = require('../models/Conversation');
+const Message = require('../models/Message');
+const Notification = require('../models/Notification');
+const MailMessage = require('../models/MailMessage');
+const {
+  generateCSV,
+  cleanupFile,
+  formatUserDataForCSV,
+  formatSwapDataForCSV,
+  formatRatingDataForCSV,
+  getCSVHeaders
+} = require('../utils/reportGenerator');
+
+/**
+ * Account Export Service
+ * Builds a ZIP archive with everything the platform stores about a user
+ */
+
+const PARTICIPANT_FIELDS = 'name email';
+
+/**
+ * Hide the reviewer of anonymous ratings the user received
+ */
+const maskAnonymousReviewer = (rating) => {
+  if (!rating.isAnonymous) return rating;
+  
+  return {
+    ...rating,
+    reviewer: { _id: null, name: 'Anonymous', email: '' }
+  };
+};
+
+/**
+ * Emails with one-time links are exported without their bodies
+ */
+const maskSensitiveMail = ({ sensitive, text, ...mail }) => {
+  return sensitive ? mail : { ...mail, text };
+};
+
+/**
+ * Collect the user's conversations with the messages in each, oldest first
+ */
+const collectConversations = async (userId) => {
+  const conversations = await Conversation.find({ participants: userId })
+    .populate('participants', PARTICIPANT_FIELDS)
+    .populate('swap', 'requestedSkill offeredSkill paymentType status')
+    .sort({ lastMessageAt: -1 })
+    .lean();
+  
+  const messages = await Message.find({ conversation: { $in: conversations.map(conversation => conversation._id) } })
+    .select('conversation sender body readAt editedAt deletedAt createdAt')
+    .sort({ createdAt: 1 })
+    .lean();
+  
+  return conversations.map(conversation => ({
+    ...conversation,
+    messages: messages.filter(message => message.conversation.toString() === conversation._id.toString())
+  }));
+};
+
+/**
+ * Collect the user's personal data
+ * @param {string} userId - ID of the user to export
+ */
+const collectAccountData = async (userId) => {
+  const [user, swaps, sessions, creditTransactions, disputes, ratingsGiven, ratingsReceived, adminMessages, conversations, notifications] = await Promise.all([
+    User.findById(userId).lean(),
+    Swap.find({ $or: [{ requester: userId }, { receiver: userId }] })
+      .populate('requester', PARTICIPANT_FIELDS)
+      .populate('receiver', PARTICIPANT_FIELDS)
+      .sort({ createdAt: -1 })
+      .lean(),
+    SwapSession.find({ $or: [{ teacher: userId }, { learner: userId }] })
+      .populate('teacher', PARTICIPANT_FIELDS)
+      .populate('learner', PARTICIPANT_FIELDS)
+      .sort({ scheduledFor: -1 })
+      .lean(),
+    CreditTransaction.find({ $or: [{ from: userId }, { to: userId }] })
+      .populate('from', PARTICIPANT_FIELDS)
+      .populate('to', PARTICIPANT_FIELDS)
+      .sort({ createdAt: -1 })
+      .lean(),
+    // The admin who resolved a dispute is left out
+    Dispute.find({ $or: [{ openedBy: userId }, { against: userId }] })
+      .select('-resolution.resolvedBy')
+      .populate('openedBy', PARTICIPANT_FIELDS)
+      .populate('against', PARTICIPANT_FIELDS)
+      .populate('comments.author', PARTICIPANT_FIELDS)
+      .sort({ createdAt: -1 })
+      .lean(),
+    Rating.find({ reviewer: userId })
+      .populate('reviewer', PARTICIPANT_FIELDS)
+      .populate('reviewee', PARTICIPANT_FIELDS)
+      .sort({ createdAt: -1 })
+      .lean(),
+    Rating.find({ reviewee: userId })
+      .populate('reviewer', PARTICIPANT_FIELDS)
+      .populate('reviewee', PARTICIPANT_FIELDS)
+      .sort({ createdAt: -1 })
+      .lean(),
+    AdminMessage.find({ 'deliveredTo.user': userId })
+      .select('title message type priority scheduledAt deliveredTo createdAt')
+      .sort({ createdAt: -1 })
+      .lean(),
+    collectConversations(userId),
+    Notification.find({ user: userId })
+      .sort({ createdAt: -1 })
+      .lean()
+  ]);
+  
+  // Queued and sent emails are addressed by email, not by user
+  const emails = await MailMessage.find({ to: user.email })
+    .select('template to subject text sensitive status sentAt createdAt')
+    .sort({ createdAt: -1 })
+    .lean();
+  
+  return {
+    user,
+    swaps,
+    sessions,
+    creditTransactions,
+    disputes,
+    ratingsGiven,
+    ratingsReceived: ratingsReceived.map(maskAnonymousReviewer),
+    // Only include this user's delivery record, never other recipients
+    adminMessages: adminMessages.map(({ deliveredTo, ...message }) => {
+      const delivery = deliveredTo.find(entry => entry.user.toString() === userId.toString());
+      
+      return {
+        ...message,
+        deliveredAt: delivery.deliveredAt,
+        readAt: delivery.readAt,
+        isRead: delivery.isRead
+      };
+    }),
+    conversations,
+    notifications,
+    emails: emails.map(maskSensitiveMail)
+  };
+};
+
+/**
+ * Write a user's data export as a ZIP archive to a writable stream
+ * Contains JSON files for every section and CSV files built with the report formatters
+ * @param {string} userId - ID of the user to export
+ * @param {Object} output - Writable stream (e.g. the Express response)
+ */
+const writeAccountExport = async (userId, output) => {
+  const data = await collectAccountData(userId);
+  const { user } = data;
+  
+  // Secrets and internal security state never leave the server
+  const profile = { ...user };
+  delete profile.password;
+  delete profile.__v;
+  
+  const prefix = `export-${userId}-${Date.now()}`;
+  const csvFiles = [];
+  
+  try {
+    const csvSections = [
+      ['profile.csv', formatUserDataForCSV([user]), getCSVHeaders.users],
+      ['swaps.csv', formatSwapDataForCSV(data.swaps), getCSVHeaders.swaps],
+      ['ratings-given.csv', formatRatingDataForCSV(data.ratingsGiven), getCSVHeaders.ratings],
+      ['ratings-received.csv', formatRatingDataForCSV(data.ratingsReceived), getCSVHeaders.ratings]
+    ];
+    
+    for (const [name, rows, headers] of csvSections) {
+      csvFiles.push([name, await generateCSV(rows, headers, `${prefix}-${name}`)]);
+    }
+    
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    archive.pipe(output);
+    
+    const jsonFiles = {
+      'profile.json': profile,
+      'swaps.json': data.swaps,
+      'swap-sessions.json': data.sessions,
+      'credit-transactions.json': data.creditTransactions,
+      'disputes.json': data.disputes,
+      'ratings-given.json': data.ratingsGiven,
+      'ratings-received.json': data.ratingsReceived,
+      'admin-messages.json': data.adminMessages,
+      'conversations.json': data.conversations,
+      'notifications.json': data.notifications,
+      'emails.json': data.emails
+    };
+    
+    Object.entries(jsonFiles).forEach(([name, content]) => {
+      archive.append(JSON.stringify(content, null, 2), { name });
+    });
+    
+    csvFiles.forEach(([name, filePath]) => {
+      archive.file(filePath, { name });
+    });
+    
+    await archive.finalize();
+  } finally {
+    csvFiles.forEach(([, filePath]) => cleanupFile(filePath));
+  }
+};
+
+module.exports = {
+  writeAccountExport
+};
@@ -0,0 +1,221 @@
+const Swap = require('../models/Swap');
+const SwapSession = require('../models/SwapSession');
+const User = require('../models/User');
+const { buildCalendar } = require('../utils/icalendar');
+const { generateRandomToken, hashToken } = require('../utils/tokenUtils');
+const { getServerUrl } = require('../config/oidc');
+const { buildFrontendUrl } = require('./mailService');
+const { getTeachingRoles } = require('./swapSessionService');
+const { describeOffer } = require('../utils/swapTerms');
+
+/**
+ * Calendar Service
+ * Turns swap sessions into iCalendar events, for one-off downloads and for
+ * each member's subscribable calendar feed
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Sessions that ended longer ago than this are left out of feeds
+const FEED_HISTORY_DAYS = 90;
+
+// How often calendar apps are asked to check the feed for changes
+const FEED_REFRESH_MINUTES = 60;
+
+// Swap status -> event status of its scheduled sessions; cancelled sessions
+// stay in feeds so calendar apps remove them
+const EVENT_STATUSES = {
+  pending: 'TENTATIVE',
+  accepted: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  rejected: 'CANCELLED',
+  cancelled: 'CANCELLED'
+};
+
+// Session status -> event status, once the session is no longer scheduled
+const SESSION_EVENT_STATUSES = {
+  completed: 'CONFIRMED',
+  missed: 'CANCELLED',
+  cancelled: 'CANCELLED'
+};
+
+// Event sequence numbers count seconds from here, which keeps them within 32 bits
+const SEQUENCE_EPOCH = Date.UTC(2024, 0, 1);
+
+const MEETING_TYPES = {
+  online: 'Online',
+  'in-person': 'In person',
+  hybrid: 'Online or in person'
+};
+
+const idOf = (value) => (value && value._id ? value._id : value).toString();
+
+const describeLocation = (swap) => {
+  if (swap.meetingType === 'in-person') return swap.location;
+  return swap.location ? `${MEETING_TYPES[swap.meetingType]}: ${swap.location}` : MEETING_TYPES[swap.meetingType];
+};
+
+// Skill the teacher of a session teaches: the receiver teaches the requested skill
+const taughtSkill = (swap, teacherId) => (idOf(swap.receiver) === idOf(teacherId) ? swap.requestedSkill : swap.offeredSkill);
+
+/**
+ * Calendar event for a session of a swap, described for one of its members
+ * @param {Object} swap - Swap with requester and receiver populated with name
+ * @param {Object|null} session - The session; null for a swap scheduled before
+ *   sessions were tracked, whose confirmedDate is used instead
+ * @param {string} viewerId - Member the calendar is for
+ */
+const buildSessionEvent = (swap, session, viewerId) => {
+  const { requester, receiver } = swap;
+  const partner = idOf(requester) === idOf(viewerId) ? receiver : requester;
+  const status = session && session.status !== 'scheduled'
+    ? SESSION_EVENT_STATUSES[session.status]
+    : EVENT_STATUSES[swap.status];
+  const start = session ? session.scheduledFor : swap.confirmedDate;
+  const minutes = session ? session.minutes : swap.sessionMinutes;
+  // Changes to either the session or its swap (e.g. a cancellation) must update the event
+  const updatedAt = new Date(Math.max(swap.updatedAt.getTime(), session ? session.updatedAt.getTime() : 0));
+  
+  const [teacher, learner] = session && idOf(session.teacher) === idOf(requester) ? [requester, receiver] : [receiver, requester];
+  const title = session
+    ? `${taughtSkill(swap, session.teacher)} with ${partner.name}`
+    : `${swap.requestedSkill} / ${describeOffer(swap)} with ${partner.name}`;
+  
+  // In a chain leg or a credit swap only the receiver teaches
+  const description = [
+    `Skill swap with ${partner.name}`,
+    ...(session
+      ? [`${teacher.name} teaches ${taughtSkill(swap, teacher)} to ${learner.name}`]
+      : [
+        `${requester.name} learns ${swap.requestedSkill} from ${receiver.name}`,
+        ...(getTeachingRoles(swap).includes('requester') ? [`${receiver.name} learns ${swap.offeredSkill} from ${requester.name}`] : [])
+      ]),
+    `Meeting: ${MEETING_TYPES[swap.meetingType]}`,
+    ...(swap.location ? [`Location: ${swap.location}`] : []),
+    `Details: ${buildFrontendUrl(`/swaps/${idOf(swap)}`)}`
+  ];
+  
+  return {
+    // Stable per session, so a cancelled session replaces the earlier event
+    uid: `${session ? `session-${idOf(session)}` : `swap-${idOf(swap)}`}@${new URL(getServerUrl()).hostname}`,
+    // Every change moves updatedAt forward, which keeps the sequence increasing
+    sequence: Math.max(0, Math.floor((updatedAt.getTime() - SEQUENCE_EPOCH) / 1000)),
+    stamp: updatedAt,
+    start,
+    end: new Date(start.getTime() + minutes * MINUTE_MS),
+    summary: `${status === 'CANCELLED' ? 'Cancelled: ' : ''}${title}`,
+    description: description.join('\n'),
+    location: describeLocation(swap),
+    url: buildFrontendUrl(`/swaps/${idOf(swap)}`),
+    status
+  };
+};
+
+/**
+ * Calendar with the sessions of a single swap
+ * @param {Object} swap - Swap with requester and receiver populated with name
+ * @param {Array} sessions - The swap's sessions; when empty the swap's confirmedDate is used
+ * @param {Object} viewer - Member downloading the calendar
+ * @returns {string} iCalendar text
+ */
+const buildSwapCalendar = (swap, sessions, viewer) => {
+  const events = sessions.length > 0
+    ? sessions.map(session => buildSessionEvent(swap, session, viewer._id))
+    : [buildSessionEvent(swap, null, viewer._id)];
+  
+  return buildCalendar({
+    name: 'Skill Swap',
+    events
+  });
+};
+
+/**
+ * A member's calendar feed: their sessions, recent and upcoming, including cancellations
+ * @param {Object} user - Feed owner
+ * @returns {Promise<string>} iCalendar text
+ */
+const buildFeed = async (user) => {
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * DAY_MS);
+  
+  const [sessions, swaps] = await Promise.all([
+    SwapSession.find({
+      $or: [{ teacher: user._id }, { learner: user._id }],
+      scheduledFor: { $gte: since }
+    })
+      .populate({ path: 'swap', populate: { path: 'requester receiver', select: 'name' } })
+      .sort({ scheduledFor: 1 }),
+    Swap.find({
+      $or: [{ requester: user._id }, { receiver: user._id }],
+      confirmedDate: { $gte: since }
+    })
+      .populate('requester receiver', 'name')
+  ]);
+  
+  // A swap's confirmedDate is its next session, unless it was scheduled before sessions were tracked
+  const swapsWithSessions = new Set(sessions.map(session => idOf(session.swap)));
+  const unscheduledSwaps = swaps.filter(swap => !swapsWithSessions.has(idOf(swap)));
+  
+  return buildCalendar({
+    name: 'Skill Swap sessions',
+    events: [
+      ...sessions.filter(session => session.swap).map(session => buildSessionEvent(session.swap, session, user._id)),
+      ...unscheduledSwaps.map(swap => buildSessionEvent(swap, null, user._id))
+    ],
+    refreshMinutes: FEED_REFRESH_MINUTES
+  });
+};
+
+/**
+ * Public URL of a calendar feed
+ * @param {string} token - Plain feed token
+ */
+const getFeedUrl = (token) => `${getServerUrl()}/api/calendar/${token}.ics`;
+
+/**
+ * Create a new feed token for a member, replacing any earlier one
+ * @returns {Promise<Object>} { url, createdAt }; the URL cannot be recovered later
+ */
+const createFeedToken = async (user) => {
+  const token = generateRandomToken();
+  const createdAt = new Date();
+  
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { 'calendarFeed.tokenHash': hashToken(token), 'calendarFeed.createdAt': createdAt }, $unset: { 'calendarFeed.lastAccessedAt': 1 } }
+  );
+  
+  return { url: getFeedUrl(token), createdAt };
+};
+
+// Turn off a member's feed; its URL stops working
+const revokeFeedToken = (user) => {
+  return User.updateOne({ _id: user._id }, { $unset: { calendarFeed: 1 } });
+};
+
+/**
+ * Find the active member a feed token belongs to, and record the access
+ * @returns {Promise<Object|null>}
+ */
+const findFeedOwner = async (token) => {
+  const user = await User.findOne({
+    'calendarFeed.tokenHash': hashToken(token),
+    isActive: true,
+    isBanned: false
+  });
+  
+  if (user) {
+    await User.updateOne({ _id: user._id }, { $set: { 'calendarFeed.lastAccessedAt': new Date() } });
+  }
+  
+  return user;
+};
+
+module.exports = {
+  buildSessionEvent,
+  buildSwapCalendar,
+  buildFeed,
+  createFeedToken,
+  revokeFeedToken,
+  findFeedOwner
+};
@@ -0,0 +1,279 @@
+const CreditTransaction = require('../models/CreditTransaction');
+const Swap = require('../models/Swap');
+const { AppError } = require('../middleware/errorHandler');
+
+/**
+ * Credit Service
+ * The time bank: members earn credits for the time they teach and spend them on
+ * the time they learn, which lets them pay for swaps in credits instead of a skill
+ */
+
+// Credits every member starts with, so newcomers can book a first swap
+const WELCOME_CREDIT_MINUTES = 120;
+
+// Swaps whose remaining sessions the requester still has to pay for
+const OPEN_STATUSES = ['pending', 'accepted'];
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+const idOf = (value) => (value && value._id ? value._id : value).toString();
+
+/**
+ * Format minutes of credit for messages, e.g. "1.5 hours"
+ */
+const formatCredits = (minutes) => {
+  const hours = Math.round((minutes / 60) * 100) / 100;
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+};
+
+/**
+ * Minutes a credit swap will cost its requester for the sessions not given yet
+ */
+const outstandingCost = (swap) => {
+  const remaining = Math.max(swap.sessionCount - (swap.sessionsGiven ? swap.sessionsGiven.receiver : 0), 0);
+  return remaining * swap.sessionMinutes;
+};
+
+/**
+ * Post a transaction to the ledger
+ * Transactions that may only happen once (see the model's unique indexes) are skipped when repeated
+ * @param {Object} entry - { from, to, minutes, kind, swap, session, description }
+ * @returns {Promise<Object|null>} The transaction, or null when it was already posted
+ */
+const postTransaction = async (entry) => {
+  try {
+    return await CreditTransaction.create(entry);
+  } catch (error) {
+    if (error.code === DUPLICATE_KEY_ERROR) return null;
+    throw error;
+  }
+};
+
+/**
+ * Give a member their welcome credits if they have not had them yet
+ */
+const ensureWelcomeCredits = (userId) => {
+  return postTransaction({
+    to: userId,
+    minutes: WELCOME_CREDIT_MINUTES,
+    kind: 'welcome',
+    description: 'Welcome credits'
+  });
+};
+
+/**
+ * A member's credit balance and the part of it promised to open credit swaps
+ * @param {string} userId
+ * @param {Object} [options] - { excludeSwapId: swap left out of the held credits }
+ * @returns {Promise<Object>} { balance, held, available } in minutes
+ */
+const getWallet = async (userId, { excludeSwapId } = {}) => {
+  await ensureWelcomeCredits(userId);
+  
+  const [balance, openSwaps] = await Promise.all([
+    CreditTransaction.getBalance(userId),
+    Swap.find({
+      requester: userId,
+      paymentType: 'credits',
+      status: { $in: OPEN_STATUSES },
+      ...(excludeSwapId && { _id: { $ne: excludeSwapId } })
+    }).select('sessionCount sessionsGiven sessionMinutes')
+  ]);
+  
+  const held = openSwaps.reduce((total, swap) => total + outstandingCost(swap), 0);
+  
+  return { balance, held, available: balance - held };
+};
+
+/**
+ * Check that a credit swap's requester can pay for its remaining sessions
+ * @param {Object} swap - Swap, saved or not, with the terms to pay for
+ * @throws {AppError} When the requester's available credits fall short
+ */
+const assertCanAfford = async (swap) => {
+  const { available } = await getWallet(idOf(swap.requester), { excludeSwapId: swap._id });
+  const cost = outstandingCost(swap);
+  
+  if (cost > available) {
+    throw new AppError(`This swap costs ${formatCredits(cost)} of time credits but only ${formatCredits(Math.max(available, 0))} are available`, 400);
+  }
+};
+
+/**
+ * Check that a credit swap session's learner can pay for it without overdrawing
+ * Credits held for the learner's other open credit swaps are not available;
+ * the credits held for this swap are what the session is paid from.
+ * Skill swaps are paid for by teaching in return, so they are not checked
+ * @param {Object} swap - Swap the session belongs to
+ * @param {Object} session - Session to pay for
+ * @throws {AppError} When the learner's available credits fall short
+ */
+const assertCanPaySession = async (swap, session) => {
+  if (swap.paymentType !== 'credits') return;
+  
+  const { available } = await getWallet(idOf(session.learner), { excludeSwapId: swap._id });
+  
+  if (session.minutes > available) {
+    throw new AppError(`This session costs its learner ${formatCredits(session.minutes)} of time credits but only ${formatCredits(Math.max(available, 0))} are available`, 400);
+  }
+};
+
+/**
+ * Move a completed session's minutes from its learner to its teacher
+ * @param {Object} swap - Swap the session belongs to
+ * @param {Object} session - Completed session
+ * @throws {AppError} When the learner of a credit swap cannot pay for the session
+ */
+const paySession = async (swap, session) => {
+  await assertCanPaySession(swap, session);
+  
+  return postTransaction({
+    from: idOf(session.learner),
+    to: idOf(session.teacher),
+    minutes: session.minutes,
+    kind: 'session',
+    swap: swap._id,
+    session: session._id,
+    description: `Session of the ${swap.requestedSkill} swap`
+  });
+};
+
+/**
+ * Check that a credit swap's requester can settle it before it is completed
+ * The settlement is paid from the credits held for the swap, like its sessions
+ * @param {Object} swap - Swap about to be completed
+ * @throws {AppError} When the requester's available credits fall short
+ */
+const assertCanSettle = async (swap) => {
+  const minutes = outstandingCost(swap);
+  
+  if (swap.paymentType !== 'credits' || minutes === 0) return;
+  
+  const { available } = await getWallet(idOf(swap.requester), { excludeSwapId: swap._id });
+  
+  if (minutes > available) {
+    throw new AppError(`Completing this swap settles ${formatCredits(minutes)} of time credits for the remaining sessions but only ${formatCredits(Math.max(available, 0))} are available`, 400);
+  }
+};
+
+/**
+ * Pay for the agreed sessions of a credit swap that was completed before they were all recorded
+ * Check the payment with assertCanSettle before completing the swap
+ * @param {Object} swap - Completed swap
+ */
+const settleSwap = (swap) => {
+  const minutes = outstandingCost(swap);
+  
+  if (swap.paymentType !== 'credits' || minutes === 0) {
+    return Promise.resolve(null);
+  }
+  
+  return postTransaction({
+    from: idOf(swap.requester),
+    to: idOf(swap.receiver),
+    minutes,
+    kind: 'settlement',
+    swap: swap._id,
+    description: `Remaining sessions of the ${swap.requestedSkill} swap`
+  });
+};
+
+// Session payments and settlement of a swap that have not been refunded yet
+const findRefundablePayments = async (swap) => {
+  const [payments, refunds] = await Promise.all([
+    CreditTransaction.find({ swap: swap._id, kind: { $in: ['session', 'settlement'] } }),
+    CreditTransaction.find({ swap: swap._id, kind: 'refund' })
+  ]);
+  
+  const refunded = new Set(refunds.map(refund => idOf(refund.reverses)));
+  return payments.filter(payment => !refunded.has(idOf(payment)));
+};
+
+/**
+ * Check that the members paid by a credit swap can give the credits back before it is voided
+ * Skill swap refunds may overdraw, like their session payments
+ * @param {Object} swap - Swap about to be voided
+ * @throws {AppError} When a member's available credits fall short of their refund
+ */
+const assertCanRefund = async (swap) => {
+  if (swap.paymentType !== 'credits') return;
+  
+  const owed = new Map();
+  for (const payment of await findRefundablePayments(swap)) {
+    owed.set(idOf(payment.to), (owed.get(idOf(payment.to)) || 0) + payment.minutes);
+  }
+  
+  for (const [userId, minutes] of owed) {
+    const { available } = await getWallet(userId);
+    
+    if (minutes > available) {
+      throw new AppError(`Voiding this swap refunds ${formatCredits(minutes)} of time credits but the member who was paid only has ${formatCredits(Math.max(available, 0))} available`, 400);
+    }
+  }
+};
+
+/**
+ * Reverse the session payments and settlement of a voided swap
+ * Check the refunds with assertCanRefund before voiding the swap
+ * @param {Object} swap - Voided swap
+ * @returns {Promise<Array>} The refunds posted
+ */
+const refundSwap = async (swap) => {
+  const payments = await findRefundablePayments(swap);
+  
+  const refunds = [];
+  for (const payment of payments) {
+    const refund = await postTransaction({
+      from: payment.to,
+      to: payment.from,
+      minutes: payment.minutes,
+      kind: 'refund',
+      swap: swap._id,
+      reverses: payment._id,
+      description: `Refund for the voided ${swap.requestedSkill} swap`
+    });
+    if (refund) refunds.push(refund);
+  }
+  
+  return refunds;
+};
+
+/**
+ * A member's transactions, newest first, with the amount signed from their side
+ * @returns {Promise<Object>} { transactions, total }
+ */
+const getTransactions = async (userId, { skip = 0, limit = 20 } = {}) => {
+  const query = { $or: [{ from: userId }, { to: userId }] };
+  
+  const [entries, total] = await Promise.all([
+    CreditTransaction.find(query)
+      .populate('from to', 'name')
+      .populate('swap', 'requestedSkill')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit),
+    CreditTransaction.countDocuments(query)
+  ]);
+  
+  const transactions = entries.map(entry => ({
+    ...entry.toJSON(),
+    amount: entry.to && idOf(entry.to) === idOf(userId) ? entry.minutes : -entry.minutes
+  }));
+  
+  return { transactions, total };
+};
+
+module.exports = {
+  WELCOME_CREDIT_MINUTES,
+  formatCredits,
+  ensureWelcomeCredits,
+  getWallet,
+  assertCanAfford,
+  assertCanPaySession,
+  assertCanSettle,
+  assertCanRefund,
+  paySession,
+  settleSwap,
+  refundSwap,
+  getTransactions
+};
@@ -0,0 +1,257 @@
+const User = require('../models/User');
+const Swap = require('../models/Swap');
+const Rating = require('../models/Rating');
+const AdminMessage = require('../models/AdminMessage');
+const Notification = require('../models/Notification');
+const { findMatches } = require('./matchingService');
+const { queueEmail, buildFrontendUrl } = require('./mailService');
+const { getActorRole, getProposerRole } = require('../utils/swapStateMachine');
+const { describeOffer } = require('../utils/swapTerms');
+const { getZonedParts, zonedTimeToDate, formatInTimeZone, isValidTimeZone, DEFAULT_TIME_ZONE } = require('../utils/timeZone');
+
+/**
+ * Digest Service
+ * Builds the daily or weekly summary email: swap requests waiting for the member,
+ * upcoming sessions, new ratings and matches, unread announcements and any
+ * notifications held back for the digest
+ */
+
+const DIGEST_HOUR = 8; // local time
+const DIGEST_WEEKDAY = 1; // Monday, for weekly digests
+
+const PERIOD_MS = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+const MIN_MATCH_SCORE = 50;
+const MAX_NEW_MATCHES = 3;
+const REPORTED_MATCHES_LIMIT = 100;
+
+// Digest notifications of these types are already covered by a section of their own
+const COVERED_TYPES = ['swap.created', 'swap.countered', 'rating.new', 'admin.message'];
+
+const idOf = (value) => (value && value._id ? value._id : value).toString();
+
+const getTimeZone = (user) => (isValidTimeZone(user.timezone) ? user.timezone : DEFAULT_TIME_ZONE);
+
+/**
+ * Next time a digest is due after a given instant
+ * Digests go out at 08:00 in the member's time zone, every day or on Mondays
+ * @param {Date} from - Instant to start from
+ * @param {string} frequency - daily or weekly
+ * @param {string} timeZone - IANA time zone
+ * @returns {Date}
+ */
+const getNextDigestAt = (from, frequency, timeZone) => {
+  const today = getZonedParts(from, timeZone);
+  
+  for (let days = 0; days <= 7; days++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + days));
+    
+    if (frequency === 'weekly' && date.getUTCDay() !== DIGEST_WEEKDAY) continue;
+    
+    const at = zonedTimeToDate({
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: DIGEST_HOUR
+    }, timeZone);
+    
+    if (at > from) return at;
+  }
+  
+  return new Date(from.getTime() + PERIOD_MS[frequency]);
+};
+
+// Swaps, pending or accepted, that the member takes part in
+const findMemberSwaps = (userId, conditions) => {
+  return Swap.find({
+    $or: [{ requester: userId }, { receiver: userId }],
+    ...conditions
+  }).populate('requester receiver', 'name');
+};
+
+const otherMember = (swap, userId) => {
+  return idOf(swap.requester) === idOf(userId) ? swap.receiver : swap.requester;
+};
+
+/**
+ * Collect the digest sections for a member
+ * @param {Object} user - Member (with skills, timezone and digest.reportedMatches)
+ * @param {Date} since - Start of the period covered
+ * @param {Date} until - When the member's next digest is due
+ * @returns {Promise<Object>} { sections, matchIds, notificationIds }
+ */
+const collectDigest = async (user, since, until) => {
+  const now = new Date();
+  const timeZone = getTimeZone(user);
+  
+  const [pendingSwaps, upcomingSwaps, ratings, announcements, notifications, matches] = await Promise.all([
+    // Chain legs are answered through their swap chain
+    findMemberSwaps(user._id, { status: 'pending', chain: { $exists: false } }),
+    findMemberSwaps(user._id, { status: 'accepted', confirmedDate: { $gte: now, $lte: until } })
+      .sort({ confirmedDate: 1 }),
+    Rating.find({ reviewee: user._id, isApproved: true, createdAt: { $gt: since } })
+      .populate('reviewer', 'name')
+      .sort({ createdAt: -1 }),
+    AdminMessage.find({
+      status: 'sent',
+      isArchived: false,
+      deliveredTo: { $elemMatch: { user: user._id, isRead: false, deliveredAt: { $gt: since } } },
+      $or: [
+        { expiresAt: { $gt: now } },
+        { expiresAt: { $exists: false } }
+      ]
+    }).sort({ createdAt: -1 }),
+    Notification.find({ user: user._id, channel: 'digest', emailedAt: { $exists: false } })
+      .sort({ createdAt: -1 }),
+    findMatches(user, { limit: 10 })
+  ]);
+  
+  const reported = new Set((user.digest.reportedMatches || []).map(idOf));
+  const newMatches = matches
+    .filter(match => match.score >= MIN_MATCH_SCORE && !reported.has(idOf(match.user.id)))
+    .slice(0, MAX_NEW_MATCHES);
+  
+  const sections = [
+    {
+      title: 'Swap requests waiting for your answer',
+      items: pendingSwaps
+        .filter(swap => getActorRole(swap, user) !== getProposerRole(swap))
+        .map(swap => ({
+          text: getProposerRole(swap) === 'requester'
+            ? `${swap.requester.name} wants to learn ${swap.requestedSkill} and offers ${describeOffer(swap)}`
+            : `${swap.receiver.name} sent a counter-offer: ${swap.requestedSkill} for ${describeOffer(swap)}`,
+          url: buildFrontendUrl(`/swaps/${swap._id}`)
+        }))
+    },
+    {
+      title: 'Upcoming sessions',
+      items: upcomingSwaps.map(swap => ({
+        text: `${swap.requestedSkill} / ${describeOffer(swap)} with ${otherMember(swap, user._id).name} on ${formatInTimeZone(swap.confirmedDate, timeZone)}`,
+        url: buildFrontendUrl(`/swaps/${swap._id}`)
+      }))
+    },
+    {
+      title: 'New ratings',
+      items: ratings.map(rating => ({
+        text: `${rating.isAnonymous || !rating.reviewer ? 'A member' : rating.reviewer.name} rated you ${rating.rating} out of 5`,
+        url: buildFrontendUrl('/profile')
+      }))
+    },
+    {
+      title: 'New matches',
+      items: newMatches.map(match => ({
+        text: `${match.user.name} is a ${Math.round(match.score)}/100 match${
+          match.matchedSkills.theyTeach.length > 0 ? ` and can teach you ${match.matchedSkills.theyTeach.join(', ')}` : ''
+        }`,
+        url: buildFrontendUrl('/browse')
+      }))
+    },
+    {
+      title: 'Unread announcements',
+      items: announcements.map(message => ({
+        text: message.title,
+        url: buildFrontendUrl('/notifications')
+      }))
+    },
+    {
+      title: 'Other updates',
+      items: notifications
+        .filter(notification => !COVERED_TYPES.includes(notification.type))
+        .map(notification => ({
+          text: notification.body ? `${notification.title}: ${notification.body}` : notification.title,
+          url: buildFrontendUrl(notification.link || '/notifications')
+        }))
+    }
+  ].filter(section => section.items.length > 0);
+  
+  return {
+    sections,
+    matchIds: newMatches.map(match => match.user.id),
+    notificationIds: notifications.map(notification => notification._id)
+  };
+};
+
+/**
+ * Send a member's digest if it has anything to report, then schedule the next one
+ * Members seen for the first time are only scheduled
+ * @returns {Promise<string>} 'sent', 'skipped' (nothing to report) or 'scheduled'
+ */
+const processDigest = async (user, now = new Date()) => {
+  const { frequency } = user.digest;
+  const nextDueAt = getNextDigestAt(now, frequency, getTimeZone(user));
+  
+  if (!user.digest.nextDueAt) {
+    await User.updateOne({ _id: user._id }, { $set: { 'digest.nextDueAt': nextDueAt } });
+    return 'scheduled';
+  }
+  
+  const since = user.digest.lastRunAt || new Date(now.getTime() - PERIOD_MS[frequency]);
+  const { sections, matchIds, notificationIds } = await collectDigest(user, since, nextDueAt);
+  
+  const update = {
+    $set: { 'digest.nextDueAt': nextDueAt, 'digest.lastRunAt': now }
+  };
+  
+  if (sections.length > 0) {
+    await queueEmail('digest', user.email, {
+      name: user.name,
+      frequency,
+      sections,
+      url: buildFrontendUrl('/dashboard'),
+      settingsUrl: buildFrontendUrl('/notifications')
+    });
+    
+    await Notification.updateMany({ _id: { $in: notificationIds } }, { $set: { emailedAt: now } });
+    
+    update.$set['digest.lastSentAt'] = now;
+    if (matchIds.length > 0) {
+      update.$push = { 'digest.reportedMatches': { $each: matchIds, $slice: -REPORTED_MATCHES_LIMIT } };
+    }
+  }
+  
+  await User.updateOne({ _id: user._id }, update);
+  return sections.length > 0 ? 'sent' : 'skipped';
+};
+
+/**
+ * Process every member whose digest is due (used by the notification-digest job)
+ * @param {number} limit - Maximum number of members to process in one run
+ */
+const sendDueDigests = async (limit = 200) => {
+  const now = new Date();
+  const result = { sent: 0, skipped: 0, scheduled: 0, failed: 0 };
+  
+  const users = await User.find({
+    'digest.frequency': { $ne: 'off' },
+    isActive: true,
+    isBanned: false,
+    $or: [
+      { 'digest.nextDueAt': { $lte: now } },
+      { 'digest.nextDueAt': { $exists: false } }
+    ]
+  })
+    .select('name email timezone digest.frequency digest.nextDueAt digest.lastRunAt digest.reportedMatches skillsOffered skillsWanted availability location')
+    .sort({ 'digest.nextDueAt': 1 })
+    .limit(limit);
+  
+  for (const user of users) {
+    try {
+      result[await processDigest(user, now)] += 1;
+    } catch (error) {
+      result.failed += 1;
+      console.error(`Error sending digest to user ${user._id}:`, error);
+    }
+  }
+  
+  return result;
+};
+
+module.exports = {
+  getNextDigestAt,
+  collectDigest,
+  processDigest,
+  sendDueDigests
+};
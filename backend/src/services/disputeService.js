@@ -0,0 +1,275 @@
+const Dispute = require('../models/Dispute');
+const User = require('../models/User');
+const Session = require('../models/Session');
+const { AppError } = require('../middleware/errorHandler');
+const { getActorRole } = require('../utils/swapStateMachine');
+const { describeOffer } = require('../utils/swapTerms');
+const { notifyDisputeUpdate } = require('./notificationService');
+const { assertCanRefund, refundSwap } = require('./creditService');
+const { refreshProgress } = require('./swapSessionService');
+
+/**
+ * Dispute Service
+ * No-show reports, disputes between swap partners and their resolution by an admin.
+ * Every resolved dispute is recorded against both members' reliability stats
+ */
+
+// Outcomes that act on the member found at fault
+const FAULT_OUTCOMES = ['warn', 'ban'];
+
+const OUTCOME_LABELS = {
+  dismiss: 'dismissed with no further action',
+  'void-swap': 'resolved by voiding the swap',
+  warn: 'resolved with a warning',
+  ban: 'resolved by banning a member'
+};
+
+const idOf = (value) => (value && value._id ? value._id : value).toString();
+
+// Member details shown with a dispute; admins also see the members' track record
+const MEMBER_FIELDS = 'name profilePhoto';
+const ADMIN_MEMBER_FIELDS = 'name email profilePhoto averageRating totalRatings totalSwaps reliability isBanned';
+
+/**
+ * Populate a dispute, or a query for disputes, for display
+ * @param {Object} target - Dispute document or query
+ * @param {boolean} [forAdmin] - Include the members' reliability stats
+ */
+const populateDispute = (target, forAdmin = false) => {
+  return target.populate([
+    { path: 'openedBy against', select: forAdmin ? ADMIN_MEMBER_FIELDS : MEMBER_FIELDS },
+    { path: 'comments.author', select: 'name' },
+    { path: 'swap', select: 'requester receiver requestedSkill offeredSkill paymentType status sessionCount' },
+    { path: 'session', select: 'teacher learner scheduledFor minutes status' },
+    { path: 'resolution.atFault resolution.resolvedBy', select: 'name' }
+  ]);
+};
+
+/**
+ * The member of a swap other than the user
+ * @throws {AppError} 403 when the user is not a member
+ */
+const getPartner = (swap, user) => {
+  const role = getActorRole(swap, user);
+  
+  if (role !== 'requester' && role !== 'receiver') {
+    throw new AppError('You do not have permission to view this swap', 403);
+  }
+  
+  return role === 'requester' ? swap.receiver : swap.requester;
+};
+
+/**
+ * Open a dispute about a swap partner
+ * @param {Object} swap - Swap document
+ * @param {Object} user - Member opening the dispute
+ * @param {Object} details - { session, reason, body, evidence }
+ * @returns {Promise<Object>} The dispute
+ * @throws {AppError} 400 before the swap was accepted, 409 when it already has an open dispute
+ */
+const openDispute = async (swap, user, { session, reason, body, evidence = [] }) => {
+  const against = getPartner(swap, user);
+  
+  if (!swap.acceptedAt) {
+    throw new AppError('Disputes can only be opened for swaps that were accepted', 400);
+  }
+  
+  if (await Dispute.exists({ swap: swap._id, status: 'open' })) {
+    throw new AppError('This swap already has an open dispute; add a comment to it instead', 409);
+  }
+  
+  const dispute = await Dispute.create({
+    swap: swap._id,
+    session: session ? session._id : undefined,
+    openedBy: user._id,
+    against: idOf(against),
+    reason,
+    comments: [{ author: user._id, body, evidence }]
+  });
+  
+  await notifyDisputeUpdate(dispute, 'dispute.opened', [against],
+    `${user.name} opened a dispute about the ${swap.requestedSkill} for ${describeOffer(swap)} swap. Add your side of the story.`);
+  
+  return dispute;
+};
+
+/**
+ * Add a comment to an open dispute
+ * @param {Object} dispute - Dispute document
+ * @param {Object} user - Member commenting
+ * @param {Object} details - { body, evidence }
+ * @returns {Promise<Object>} The dispute
+ */
+const addDisputeComment = async (dispute, user, { body, evidence = [] }) => {
+  if (!dispute.involves(user._id)) {
+    throw new AppError('You do not have permission to view this dispute', 403);
+  }
+  
+  if (dispute.status !== 'open') {
+    throw new AppError('Comments cannot be added to a resolved dispute', 400);
+  }
+  
+  await dispute.addComment(user, body, evidence);
+  
+  const other = [dispute.openedBy, dispute.against].find(member => idOf(member) !== idOf(user));
+  await notifyDisputeUpdate(dispute, 'dispute.comment', [other], `${user.name} added a comment to your dispute`);
+  
+  return dispute;
+};
+
+/**
+ * Report that the other member did not turn up to a session
+ * The session is marked missed and a no-show dispute is opened, or the report is
+ * added to the swap's open dispute
+ * @param {Object} swap - Swap document
+ * @param {Object} session - Session the partner missed
+ * @param {Object} user - Member reporting the no-show
+ * @param {Object} details - { body, evidence }
+ * @returns {Promise<Object>} The dispute
+ */
+const reportNoShow = async (swap, session, user, { body, evidence = [] }) => {
+  getPartner(swap, user);
+  
+  if (swap.status !== 'accepted') {
+    throw new AppError('No-shows can only be reported for accepted swaps', 400);
+  }
+  
+  if (session.status !== 'scheduled') {
+    throw new AppError(`Cannot report a no-show for a session that is ${session.status}`, 400);
+  }
+  
+  if (session.scheduledFor > new Date()) {
+    throw new AppError('A no-show can be reported once the session has started', 400);
+  }
+  
+  await session.reportNoShow(user);
+  await refreshProgress(swap);
+  
+  const openDisputeForSwap = await Dispute.findOne({ swap: swap._id, status: 'open' });
+  
+  if (openDisputeForSwap) {
+    return addDisputeComment(openDisputeForSwap, user, { body, evidence });
+  }
+  
+  return openDispute(swap, user, { session, reason: 'no-show', body, evidence });
+};
+
+/**
+ * Record a resolved dispute against both members' reliability stats
+ */
+const recordReliability = (dispute, atFault) => {
+  const members = [idOf(dispute.openedBy), idOf(dispute.against)];
+  const updates = [User.updateMany({ _id: { $in: members } }, { $inc: { 'reliability.disputes': 1 } })];
+  
+  if (atFault) {
+    const inc = { 'reliability.disputesLost': 1 };
+    if (dispute.reason === 'no-show' && atFault === idOf(dispute.against)) {
+      inc['reliability.noShows'] = 1;
+    }
+    updates.push(User.updateOne({ _id: atFault }, { $inc: inc }));
+  }
+  
+  return Promise.all(updates);
+};
+
+/**
+ * Resolve a dispute
+ * Every check runs before the dispute is claimed, and the claim is a conditional
+ * update, so a dispute resolved twice at once only has its outcome applied once
+ * @param {Object} dispute - Dispute document with its swap populated
+ * @param {Object} admin - Admin resolving the dispute
+ * @param {Object} decision - { outcome, atFault: member id (optional), note }
+ * @returns {Promise<Object>} The dispute
+ * @throws {AppError} 409 when the dispute was already resolved
+ */
+const resolveDispute = async (dispute, admin, { outcome, atFault, note }) => {
+  if (dispute.status !== 'open') {
+    throw new AppError('This dispute is already resolved', 409);
+  }
+  
+  if (atFault && !dispute.involves(atFault)) {
+    throw new AppError('The member at fault must be a member of the dispute', 400);
+  }
+  
+  if (FAULT_OUTCOMES.includes(outcome) && !atFault) {
+    throw new AppError(`Choose the member at fault to ${outcome}`, 400);
+  }
+  
+  const swap = dispute.swap;
+  let member;
+  
+  if (outcome === 'void-swap') {
+    await assertCanRefund(swap);
+  }
+  
+  if (outcome === 'ban') {
+    member = await User.findById(atFault);
+    
+    if (!member) {
+      throw new AppError('The member at fault no longer exists', 404);
+    }
+    
+    if (member.role === 'admin') {
+      throw new AppError('Cannot ban admin users', 400);
+    }
+  }
+  
+  const resolution = {
+    outcome,
+    atFault: atFault || undefined,
+    note,
+    resolvedBy: admin._id,
+    resolvedAt: new Date()
+  };
+  
+  const claimed = await Dispute.findOneAndUpdate(
+    { _id: dispute._id, status: 'open' },
+    { $set: { status: 'resolved', resolution } },
+    { new: true }
+  );
+  
+  if (!claimed) {
+    throw new AppError('This dispute is already resolved', 409);
+  }
+  
+  if (outcome === 'void-swap') {
+    const wasCompleted = swap.status === 'completed';
+    
+    if (swap.status !== 'cancelled') {
+      await swap.transition('void', { reason: note || 'Voided after a dispute' });
+    }
+    await refundSwap(swap);
+    
+    if (wasCompleted) {
+      await User.updateMany({ _id: { $in: [idOf(swap.requester), idOf(swap.receiver)] } }, { $inc: { totalSwaps: -1 } });
+    }
+  }
+  
+  if (outcome === 'warn') {
+    await User.updateOne({ _id: atFault }, { $inc: { 'reliability.warnings': 1 } });
+  }
+  
+  if (outcome === 'ban') {
+    member.isBanned = true;
+    member.banReason = note || 'Banned after a dispute';
+    await member.save();
+    
+    // Signs the member out everywhere and ends their open event streams
+    await Session.revokeAllForUser(member._id, 'admin');
+  }
+  
+  await recordReliability(claimed, atFault && idOf(atFault));
+  
+  await notifyDisputeUpdate(claimed, 'dispute.resolved', [claimed.openedBy, claimed.against],
+    `Your dispute was ${OUTCOME_LABELS[outcome]}.${note ? ` ${note}` : ''}`);
+  
+  return claimed;
+};
+
+module.exports = {
+  populateDispute,
+  openDispute,
+  addDisputeComment,
+  reportNoShow,
+  resolveDispute
+};
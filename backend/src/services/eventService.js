@@ -0,0 +1,172 @@
+const { describeOffer } = require('../utils/swapTerms');
+
+/**
+ * Event Service
+ * Pushes typed real-time events to signed-in members over Server-Sent Events.
+ *
+ * Streams are held in memory by the process that accepted the connection, so
+ * with several server instances a member only hears about changes made through
+ * the instance they are connected to.
+ */
+
+const HEARTBEAT_MS = 25 * 1000;
+
+// Client reconnect delay sent at the start of each stream
+const RETRY_MS = 5 * 1000;
+
+const EVENT_TYPES = [
+  'swap.created',
+  'swap.accepted',
+  'swap.rejected',
+  'swap.countered',
+  'swap.cancelled',
+  'swap.completed',
+  'swap.expired',
+  'swap.slots-proposed',
+  'swap.scheduled',
+  'swap.session-updated',
+  'message.new',
+  'message.updated',
+  'message.deleted',
+  'message.read',
+  'rating.new',
+  'admin.message',
+  'notification.new'
+];
+
+// Swap state machine actions and the event each one publishes
+const SWAP_ACTION_EVENTS = {
+  accept: 'swap.accepted',
+  reject: 'swap.rejected',
+  counter: 'swap.countered',
+  cancel: 'swap.cancelled',
+  complete: 'swap.completed',
+  expire: 'swap.expired',
+  void: 'swap.cancelled'
+};
+
+// userId -> Set of open responses (one per tab or device)
+const streams = new Map();
+
+let nextEventId = 1;
+
+const idOf = (value) => (value && value._id ? value._id : value).toString();
+
+const write = (res, type, data, id) => {
+  res.write(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Register an open response as an event stream for a user
+ * @param {Object} user - Authenticated user
+ * @param {Object} res - Express response kept open for the stream
+ * @param {Object} options - { isActive: async check run on every heartbeat; the stream ends once it resolves false }
+ * @returns {Function} Closes the stream and stops the heartbeat
+ */
+const subscribe = (user, res, options = {}) => {
+  const { isActive } = options;
+  const userId = idOf(user);
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps the compression middleware from buffering the stream
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+  write(res, 'ready', { userId }, nextEventId++);
+  
+  if (!streams.has(userId)) {
+    streams.set(userId, new Set());
+  }
+  streams.get(userId).add(res);
+  
+  let heartbeat;
+  
+  const close = () => {
+    clearInterval(heartbeat);
+    
+    const userStreams = streams.get(userId);
+    if (userStreams) {
+      userStreams.delete(res);
+      if (userStreams.size === 0) {
+        streams.delete(userId);
+      }
+    }
+  };
+  
+  // Comment lines keep proxies from closing an idle connection. The check also
+  // ends streams whose session was revoked since they opened (logout, password
+  // reset, signing out other devices), even when that happened on another instance
+  heartbeat = setInterval(async () => {
+    try {
+      if (isActive && !(await isActive())) {
+        close();
+        res.end();
+        return;
+      }
+    } catch (error) {
+      console.error(`Error checking the event stream session of user ${userId}:`, error);
+    }
+    
+    res.write(': ping\n\n');
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+  
+  return close;
+};
+
+/**
+ * Publish an event to every open stream of the given users
+ * @param {Array} userIds - Recipient user ids or documents
+ * @param {string} type - One of EVENT_TYPES
+ * @param {Object} data - JSON payload
+ * @returns {number} Number of streams the event was written to
+ */
+const publish = (userIds, type, data = {}) => {
+  if (!EVENT_TYPES.includes(type)) {
+    throw new Error(`Unknown event type: ${type}`);
+  }
+  
+  const id = nextEventId++;
+  let delivered = 0;
+  
+  for (const userId of new Set(userIds.filter(Boolean).map(idOf))) {
+    for (const res of streams.get(userId) || []) {
+      try {
+        write(res, type, data, id);
+        delivered += 1;
+      } catch (error) {
+        console.error(`Error writing ${type} event to user ${userId}:`, error);
+      }
+    }
+  }
+  
+  return delivered;
+};
+
+/**
+ * Publish a swap event to both members of the swap
+ * @param {Object} swap - Swap document
+ * @param {string} type - Event type
+ * @param {Object} extra - Additional payload fields
+ */
+const publishSwapEvent = (swap, type, extra = {}) => {
+  return publish([swap.requester, swap.receiver], type, {
+    swapId: idOf(swap),
+    status: swap.status,
+    requestedSkill: swap.requestedSkill,
+    // Text for messages; "time credits" for swaps paid in credits
+    offeredSkill: describeOffer(swap),
+    ...extra
+  });
+};
+
+module.exports = {
+  EVENT_TYPES,
+  SWAP_ACTION_EVENTS,
+  subscribe,
+  publish,
+  publishSwapEvent
+};
@@ -0,0 +1,160 @@
+const LoginThrottle = require('../models/LoginThrottle');
+const SecurityEvent = require('../models/SecurityEvent');
+
+/**
+ * Login Throttle Service
+ * Tracks failed logins per account and per IP, applies exponential backoff
+ * between attempts and temporarily locks keys after too many failures
+ */
+
+const ACCOUNT_LIMITS = {
+  maxFailures: parseInt(process.env.LOGIN_MAX_FAILURES) || 5,
+  backoff: true
+};
+
+// IPs are shared (offices, NAT), so they only lock after many more failures
+const IP_LIMITS = {
+  maxFailures: parseInt(process.env.LOGIN_IP_MAX_FAILURES) || 20,
+  backoff: false
+};
+
+const BASE_LOCK_MS = (parseInt(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60 * 1000;
+const MAX_LOCK_MS = 24 * 60 * 60 * 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+const RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+
+const accountKey = (email) => `account:${email.toLowerCase()}`;
+const ipKey = (ip) => `ip:${ip}`;
+
+/**
+ * Combine throttle records into the most restrictive state
+ * @returns {{ retryAfter: number, locked: boolean }}
+ */
+const summarize = (throttles) => {
+  return throttles.reduce((state, throttle) => ({
+    retryAfter: Math.max(state.retryAfter, throttle.retryAfter),
+    locked: state.locked || throttle.isLocked
+  }), { retryAfter: 0, locked: false });
+};
+
+/**
+ * Count one failure against a key, locking it once the limit is reached
+ * Each lockout doubles the duration of the next one
+ */
+const registerFailure = async (key, limits) => {
+  const throttle = await LoginThrottle.findOneAndUpdate(
+    { key },
+    {
+      $inc: { failures: 1 },
+      $set: { expiresAt: new Date(Date.now() + RECORD_TTL_MS) }
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  
+  let lockedNow = false;
+  
+  if (throttle.failures >= limits.maxFailures) {
+    const lockMs = Math.min(BASE_LOCK_MS * 2 ** throttle.lockCount, MAX_LOCK_MS);
+    
+    throttle.lockedUntil = new Date(Date.now() + lockMs);
+    throttle.expiresAt = new Date(throttle.lockedUntil.getTime() + RECORD_TTL_MS);
+    throttle.lockCount += 1;
+    throttle.failures = 0;
+    throttle.nextAttemptAt = undefined;
+    lockedNow = true;
+  } else if (limits.backoff) {
+    const delayMs = Math.min(1000 * 2 ** (throttle.failures - 1), MAX_BACKOFF_MS);
+    throttle.nextAttemptAt = new Date(Date.now() + delayMs);
+  }
+  
+  await throttle.save();
+  
+  return { throttle, lockedNow };
+};
+
+/**
+ * Get how long a login for this account and IP has to wait
+ * @returns {Promise<{ retryAfter: number, locked: boolean }>}
+ */
+const getLoginRetryAfter = async (email, ip) => {
+  const throttles = await LoginThrottle.find({
+    key: { $in: [accountKey(email), ipKey(ip)] }
+  });
+  
+  return summarize(throttles);
+};
+
+/**
+ * Record a failed login attempt
+ * Locking an existing account is recorded as a security event for its owner
+ * @param {string} email - Email the attempt was made for
+ * @param {Object} req - Express request (client IP and user agent)
+ * @param {Object} [user] - Account the email belongs to, if any
+ * @returns {Promise<{ retryAfter: number, locked: boolean }>}
+ */
+const recordFailedLogin = async (email, req, user) => {
+  const [account, ip] = await Promise.all([
+    registerFailure(accountKey(email), ACCOUNT_LIMITS),
+    registerFailure(ipKey(req.ip), IP_LIMITS)
+  ]);
+  
+  if (account.lockedNow && user) {
+    await SecurityEvent.record(user._id, 'account-locked', req, {
+      failedAttempts: ACCOUNT_LIMITS.maxFailures,
+      lockedUntil: account.throttle.lockedUntil
+    });
+  }
+  
+  return summarize([account.throttle, ip.throttle]);
+};
+
+/**
+ * Forget failed attempts for an account after a successful login
+ */
+const clearFailedLogins = (email) => {
+  return LoginThrottle.deleteOne({ key: accountKey(email) });
+};
+
+/**
+ * Reject a login attempt that arrived before the throttle allows it
+ */
+const sendLoginThrottled = (res, { retryAfter, locked }) => {
+  res.set('Retry-After', String(retryAfter));
+  
+  return res.status(429).json({
+    success: false,
+    code: locked ? 'ACCOUNT_LOCKED' : 'LOGIN_THROTTLED',
+    message: locked
+      ? 'Too many failed login attempts. This account is temporarily locked.'
+      : 'Please wait before trying to log in again.',
+    retryAfter
+  });
+};
+
+/**
+ * Reject a failed login attempt
+ * Carries the same Retry-After as the throttle so clients can count down
+ */
+const sendLoginFailure = (res, message, state) => {
+  if (state.locked) {
+    return sendLoginThrottled(res, state);
+  }
+  
+  if (state.retryAfter > 0) {
+    res.set('Retry-After', String(state.retryAfter));
+  }
+  
+  return res.status(401).json({
+    success: false,
+    message,
+    retryAfter: state.retryAfter
+  });
+};
+
+module.exports = {
+  getLoginRetryAfter,
+  recordFailedLogin,
+  clearFailedLogins,
+  sendLoginThrottled,
+  sendLoginFailure
+};
@@ -0,0 +1,240 @@
+const fs = require('fs');
+const path = require('path');
+const MailMessage = require('../models/MailMessage');
+const { renderTemplate } = require('./mailTemplates');
+const { createSmtpTransport } = require('./smtpTransport');
+const { generateEmailVerificationToken } = require('../middleware/auth');
+
+/**
+ * Mail Service
+ * Renders templated email, queues it in the MailMessage collection and delivers
+ * it through a pluggable transport selected by MAIL_TRANSPORT
+ */
+
+const DEFAULT_OUTBOX_FILE = path.join(__dirname, '../temp/mail-outbox.log');
+
+// Transports that deliver nowhere; messages keep their bodies for the admin outbox
+const DEVELOPMENT_TRANSPORTS = ['outbox', 'file', 'console'];
+
+let smtpTransport = null;
+
+/**
+ * SMTP transport built from EMAIL_HOST, EMAIL_PORT, EMAIL_SECURE, EMAIL_USERNAME,
+ * EMAIL_PASSWORD and EMAIL_ALLOW_INSECURE_AUTH
+ */
+const getSmtpTransport = () => {
+  if (!smtpTransport) {
+    const port = parseInt(process.env.EMAIL_PORT) || 587;
+
+    smtpTransport = createSmtpTransport({
+      host: process.env.EMAIL_HOST,
+      port,
+      secure: process.env.EMAIL_SECURE ? process.env.EMAIL_SECURE === 'true' : port === 465,
+      user: process.env.EMAIL_USERNAME,
+      pass: process.env.EMAIL_PASSWORD,
+      allowInsecureAuth: process.env.EMAIL_ALLOW_INSECURE_AUTH === 'true'
+    });
+  }
+
+  return smtpTransport;
+};
+
+/**
+ * Built-in transports
+ * Each transport exposes an async send(mail) function
+ */
+const transports = {
+  // Deliver through a real mail server
+  smtp: {
+    send: (mail) => getSmtpTransport().send(mail)
+  },
+
+  // Keep messages only in the MailMessage collection (read them in the admin outbox)
+  outbox: {
+    send: async () => ({ id: `${Date.now()}`, transport: 'outbox' })
+  },
+
+  // Append every message as a JSON line to a local outbox file (default outside production)
+  file: {
+    send: async (mail) => {
+      const outboxFile = process.env.MAIL_OUTBOX_FILE || DEFAULT_OUTBOX_FILE;
+      await fs.promises.mkdir(path.dirname(outboxFile), { recursive: true });
+      await fs.promises.appendFile(outboxFile, `${JSON.stringify(mail)}\n`);
+      return { id: `${Date.now()}`, transport: 'file' };
+    }
+  },
+
+  // Print the message to the server log
+  console: {
+    send: async (mail) => {
+      console.log(`[mail] To: ${mail.to} | Subject: ${mail.subject}\n${mail.text}`);
+      return { id: `${Date.now()}`, transport: 'console' };
+    }
+  }
+};
+
+/**
+ * Register an additional transport
+ * @param {string} name - Transport name used in MAIL_TRANSPORT
+ * @param {Object} transport - Object with an async send(mail) function
+ */
+const registerTransport = (name, transport) => {
+  transports[name] = transport;
+};
+
+// Production delivers real mail unless another transport is chosen explicitly
+const getTransportName = () => {
+  return process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'file');
+};
+
+/**
+ * Resolve the configured transport
+ */
+const getTransport = () => {
+  const name = getTransportName();
+  const transport = transports[name];
+
+  if (!transport) {
+    throw new Error(`Unknown mail transport: ${name}`);
+  }
+
+  return transport;
+};
+
+const getSender = () => process.env.MAIL_FROM || 'Skill Swap <no-reply@skillswap.local>';
+
+/**
+ * Send an email straight through the configured transport, bypassing the queue
+ * @param {Object} options - Message options
+ * @param {string} [options.from] - Sender (defaults to MAIL_FROM)
+ * @param {string} options.to - Recipient address
+ * @param {string} options.subject - Subject line
+ * @param {string} options.text - Plain text body
+ * @param {string} [options.html] - HTML body
+ * @returns {Promise<Object>} - Transport delivery info
+ */
+const sendEmail = async ({ from, to, subject, text, html }) => {
+  const mail = {
+    from: from || getSender(),
+    to,
+    subject,
+    text,
+    html,
+    createdAt: new Date().toISOString()
+  };
+
+  return getTransport().send(mail);
+};
+
+/**
+ * Attempt delivery of a queued message
+ * Failed attempts are rescheduled with backoff until the message runs out of attempts
+ * @param {string} messageId - MailMessage id
+ * @returns {Promise<string>} 'sent', 'retrying', 'failed', or 'skipped' when it is not due or already being sent
+ */
+const deliverMessage = async (messageId) => {
+  const message = await MailMessage.claim(messageId);
+
+  if (!message) {
+    return 'skipped';
+  }
+
+  const transportName = getTransportName();
+
+  try {
+    const info = await sendEmail(message);
+    await message.markSent(
+      { id: info && info.id, transport: transportName },
+      { dropBody: message.sensitive && !DEVELOPMENT_TRANSPORTS.includes(transportName) }
+    );
+    return 'sent';
+  } catch (error) {
+    console.error(`Error delivering mail ${message._id} (attempt ${message.attempts}):`, error.message);
+    await message.markAttemptFailed(error);
+    return message.status === 'failed' ? 'failed' : 'retrying';
+  }
+};
+
+/**
+ * Queue a templated email and start delivering it in the background
+ * @param {string} template - Template name (see mailTemplates)
+ * @param {string} to - Recipient address
+ * @param {Object} data - Template data
+ * @returns {Promise<Object>} The queued MailMessage
+ * @throws {Error} When the template cannot be rendered or the message cannot be stored
+ */
+const queueEmail = async (template, to, data) => {
+  const { subject, text, html, sensitive } = renderTemplate(template, data);
+
+  const message = await MailMessage.create({
+    template,
+    to,
+    from: getSender(),
+    subject,
+    text,
+    html,
+    sensitive
+  });
+
+  // Retries are left to the mail-delivery job
+  deliverMessage(message._id).catch(error => {
+    console.error(`Error delivering mail ${message._id}:`, error);
+  });
+
+  return message;
+};
+
+/**
+ * Deliver every queued message that is due (used by the mail-delivery job)
+ * @param {number} limit - Maximum number of messages to attempt
+ */
+const deliverQueuedMail = async (limit = 50) => {
+  const due = await MailMessage.findDue(limit);
+  const result = { sent: 0, retrying: 0, failed: 0 };
+
+  for (const { _id } of due) {
+    const outcome = await deliverMessage(_id);
+    if (outcome in result) {
+      result[outcome] += 1;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Build an absolute link into the frontend application
+ * @param {string} pathname - Path starting with a slash
+ */
+const buildFrontendUrl = (pathname) => {
+  const baseUrl = process.env.FRONTEND_URL || 'http://localhost:8080';
+  return `${baseUrl.replace(/\/$/, '')}${pathname}`;
+};
+
+/**
+ * Queue the account verification email for the user's current address
+ * Failures are logged so they never break the calling flow
+ * @returns {Promise<boolean>} Whether the email was queued
+ */
+const sendVerificationEmail = async (user) => {
+  const verifyUrl = buildFrontendUrl(`/verify-email/${generateEmailVerificationToken(user)}`);
+
+  try {
+    await queueEmail('email-verification', user.email, { name: user.name, verifyUrl });
+    return true;
+  } catch (error) {
+    console.error('Error sending verification email:', error);
+    return false;
+  }
+};
+
+module.exports = {
+  queueEmail,
+  sendVerificationEmail,
+  deliverMessage,
+  deliverQueuedMail,
+  sendEmail,
+  registerTransport,
+  getTransportName,
+  buildFrontendUrl
+};
@@ -0,0 +1,177 @@
+/**
+ * Mail Templates
+ * Every outbound email is built from a named template that renders a subject,
+ * a plain text body and an HTML body from the template's data.
+ *
+ * Values, including those in nested lists, are HTML-escaped before they reach
+ * the html() functions, so templates can interpolate member supplied text safely.
+ */
+
+/**
+ * @typedef {Object} EmailVerificationData
+ * @property {string} name
+ * @property {string} verifyUrl
+ *
+ * @typedef {Object} PasswordResetData
+ * @property {string} name
+ * @property {string} resetUrl
+ *
+ * @typedef {Object} AccountDeletionData
+ * @property {string} name
+ * @property {string} deletionDate - Human readable date
+ *
+ * @typedef {Object} SkillReviewData
+ * @property {string} name
+ * @property {string} skillName
+ * @property {string} profileUrl
+ * @property {string} [reason] - Only for rejections
+ *
+ * @typedef {Object} NotificationData
+ * @property {string} name
+ * @property {string} title
+ * @property {string} message
+ * @property {string} url
+ * @property {string} settingsUrl
+ *
+ * @typedef {Object} DigestData
+ * @property {string} name
+ * @property {string} frequency - daily or weekly
+ * @property {Array<{ title: string, items: Array<{ text: string, url: string }> }>} sections
+ * @property {string} url
+ * @property {string} settingsUrl
+ */
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Escape every string in the template data, including inside lists and objects
+const escapeData = (value) => {
+  if (typeof value === 'string') return escapeHtml(value);
+  if (Array.isArray(value)) return value.map(escapeData);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, escapeData(entry)]));
+  }
+  return value;
+};
+
+// Shared HTML frame around every template body
+const layout = (body) => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f5f3ff;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+<h1 style="margin:0 0 16px;font-size:20px;color:#7c3aed;">Skill Swap</h1>
+${body}
+</div>
+<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#6b7280;text-align:center;">You received this email because you have a Skill Swap account.</p>
+</body>
+</html>`;
+
+const button = (url, label) => `<p><a href="${url}" style="display:inline-block;padding:10px 16px;background:#7c3aed;color:#ffffff;text-decoration:none;border-radius:6px;">${label}</a></p>`;
+
+// Plain text and HTML lists for the digest sections
+const digestText = (sections) => sections
+  .map(section => `${section.title}\n${section.items.map(item => `- ${item.text}\n  ${item.url}`).join('\n')}`)
+  .join('\n\n');
+
+const digestHtml = (sections) => sections
+  .map(section => `<h2 style="margin:24px 0 8px;font-size:16px;">${section.title}</h2><ul style="padding-left:20px;">${
+    section.items.map(item => `<li style="margin-bottom:6px;"><a href="${item.url}" style="color:#1f2937;">${item.text}</a></li>`).join('')
+  }</ul>`)
+  .join('');
+
+/**
+ * Template registry
+ * required: data fields the template cannot render without
+ * sensitive: the email carries a one-time link, so its body is not kept after delivery
+ */
+const TEMPLATES = {
+  'email-verification': {
+    required: ['name', 'verifyUrl'],
+    sensitive: true,
+    subject: () => 'Verify your Skill Swap email address',
+    text: (data) => `Hi ${data.name},\n\nPlease confirm your email address by opening the link below:\n\n${data.verifyUrl}\n\nThe link is valid for 24 hours.`,
+    html: (data) => `<p>Hi ${data.name},</p><p>Please confirm your email address.</p>${button(data.verifyUrl, 'Confirm email address')}<p>The link is valid for 24 hours.</p>`
+  },
+  
+  'password-reset': {
+    required: ['name', 'resetUrl'],
+    sensitive: true,
+    subject: () => 'Reset your Skill Swap password (valid for 10 minutes)',
+    text: (data) => `Hi ${data.name},\n\nWe received a request to reset your password. Open the link below to choose a new one:\n\n${data.resetUrl}\n\nIf you did not request this, you can ignore this email.`,
+    html: (data) => `<p>Hi ${data.name},</p><p>We received a request to reset your password.</p>${button(data.resetUrl, 'Choose a new password')}<p>If you did not request this, you can ignore this email.</p>`
+  },
+  
+  'account-deletion-scheduled': {
+    required: ['name', 'deletionDate'],
+    subject: () => 'Your Skill Swap account is scheduled for deletion',
+    text: (data) => `Hi ${data.name},\n\nYour account will be permanently deleted on ${data.deletionDate}.\n\nChanged your mind? Simply log in before then to keep your account.`,
+    html: (data) => `<p>Hi ${data.name},</p><p>Your account will be permanently deleted on <strong>${data.deletionDate}</strong>.</p><p>Changed your mind? Simply log in before then to keep your account.</p>`
+  },
+  
+  'skill-approved': {
+    required: ['name', 'skillName', 'profileUrl'],
+    subject: () => 'Your Skill Swap skill was approved',
+    text: (data) => `Hi ${data.name},\n\nYour skill "${data.skillName}" has been approved and is now visible in search results.\n\nManage your skills here:\n\n${data.profileUrl}`,
+    html: (data) => `<p>Hi ${data.name},</p><p>Your skill "${data.skillName}" has been approved and is now visible in search results.</p>${button(data.profileUrl, 'Manage your skills')}`
+  },
+  
+  'skill-rejected': {
+    required: ['name', 'skillName', 'reason', 'profileUrl'],
+    subject: () => 'Your Skill Swap skill was not approved',
+    text: (data) => `Hi ${data.name},\n\nYour skill "${data.skillName}" was not approved and has been removed from your profile. Reason: ${data.reason}\n\nManage your skills here:\n\n${data.profileUrl}`,
+    html: (data) => `<p>Hi ${data.name},</p><p>Your skill "${data.skillName}" was not approved and has been removed from your profile.</p><p>Reason: ${data.reason}</p>${button(data.profileUrl, 'Manage your skills')}`
+  },
+  
+  notification: {
+    required: ['name', 'title', 'message', 'url', 'settingsUrl'],
+    subject: (data) => data.title,
+    text: (data) => `Hi ${data.name},\n\n${data.message}\n\n${data.url}\n\nYou can change which notifications you receive by email at ${data.settingsUrl}`,
+    html: (data) => `<p>Hi ${data.name},</p><p>${data.message.replace(/\n/g, '<br>')}</p>${button(data.url, 'Open Skill Swap')}<p style="font-size:12px;color:#6b7280;">You can change which notifications you receive by email in your <a href="${data.settingsUrl}">notification settings</a>.</p>`
+  },
+  
+  digest: {
+    required: ['name', 'frequency', 'sections', 'url', 'settingsUrl'],
+    subject: (data) => `Your ${data.frequency} Skill Swap digest`,
+    text: (data) => `Hi ${data.name},\n\nHere is what happened on Skill Swap.\n\n${digestText(data.sections)}\n\n${data.url}\n\nYou can change how often you receive this digest at ${data.settingsUrl}`,
+    html: (data) => `<p>Hi ${data.name},</p><p>Here is what happened on Skill Swap.</p>${digestHtml(data.sections)}${button(data.url, 'Open Skill Swap')}<p style="font-size:12px;color:#6b7280;">You can change how often you receive this digest in your <a href="${data.settingsUrl}">notification settings</a>.</p>`
+  }
+};
+
+/**
+ * Render a template
+ * @param {string} name - Template name
+ * @param {Object} data - Template data
+ * @returns {{ subject: string, text: string, html: string, sensitive: boolean }}
+ * @throws {Error} When the template is unknown or data is missing
+ */
+const renderTemplate = (name, data = {}) => {
+  const template = TEMPLATES[name];
+  
+  if (!template) {
+    throw new Error(`Unknown mail template: ${name}`);
+  }
+  
+  const missing = template.required.filter(field => data[field] === undefined || data[field] === null);
+  
+  if (missing.length > 0) {
+    throw new Error(`Mail template ${name} is missing: ${missing.join(', ')}`);
+  }
+  
+  const escaped = escapeData(data);
+  
+  return {
+    subject: template.subject(data),
+    text: template.text(data),
+    html: layout(template.html(escaped)),
+    sensitive: Boolean(template.sensitive)
+  };
+};
+
+module.exports = {
+  TEMPLATES,
+  renderTemplate
+};
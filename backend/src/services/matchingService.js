@@ -0,0 +1,268 @@
+const User = require('../models/User');
+
+/**
+ * Matching Service
+ * Scores potential swap partners out of 100 points and explains each score.
+ * Two-way skill overlap dominates the score; availability, location and rating refine it.
+ */
+
+const LEVEL_WEIGHTS = {
+  beginner: 0.5,
+  intermediate: 0.75,
+  advanced: 0.9,
+  expert: 1
+};
+
+const POINTS = {
+  skills: 60,
+  availability: 15,
+  location: 15,
+  rating: 10
+};
+
+// Skill points: a two-way match always outranks a one-way match
+const RECIPROCAL_BASE_POINTS = 40;
+const ONE_WAY_MAX_POINTS = 25;
+
+// Upper bound on users scored per request
+const CANDIDATE_LIMIT = 200;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Taxonomy skills compare by slug, custom skills by name
+const skillKey = (skill) => skill.slug || skill.name.toLowerCase();
+
+const round = (value) => Math.round(value * 10) / 10;
+
+/**
+ * Find the skills one user offers that another wants
+ * Returns the matched skills, strongest teacher level first
+ */
+const findOverlap = (offered, wanted) => {
+  const wantedKeys = new Set(wanted.map(skillKey));
+  
+  return offered
+    .filter(skill => wantedKeys.has(skillKey(skill)))
+    .sort((a, b) => LEVEL_WEIGHTS[b.level] - LEVEL_WEIGHTS[a.level]);
+};
+
+const describeSkills = (skills) => skills.map(skill => `${skill.name} (${skill.level})`).join(', ');
+
+const scoreSkills = (theyTeach, youTeach) => {
+  const teachWeight = theyTeach.length > 0 ? LEVEL_WEIGHTS[theyTeach[0].level] : 0;
+  const learnWeight = youTeach.length > 0 ? LEVEL_WEIGHTS[youTeach[0].level] : 0;
+  const levelPoints = (POINTS.skills - RECIPROCAL_BASE_POINTS) / 2;
+  
+  if (theyTeach.length > 0 && youTeach.length > 0) {
+    return {
+      points: RECIPROCAL_BASE_POINTS + levelPoints * teachWeight + levelPoints * learnWeight,
+      reason: `Two-way match: they can teach you ${describeSkills(theyTeach)} and want to learn ${describeSkills(youTeach)} from you`
+    };
+  }
+  
+  if (theyTeach.length > 0) {
+    return {
+      points: ONE_WAY_MAX_POINTS * teachWeight,
+      reason: `They can teach you ${describeSkills(theyTeach)}, but do not want any of your skills`
+    };
+  }
+  
+  return {
+    points: ONE_WAY_MAX_POINTS * learnWeight,
+    reason: `They want to learn ${describeSkills(youTeach)} from you, but offer none of the skills you want`
+  };
+};
+
+const scoreAvailability = (yours = [], theirs = []) => {
+  if (yours.length === 0 || theirs.length === 0) {
+    return {
+      points: POINTS.availability / 2,
+      reason: 'Availability is not set on both profiles'
+    };
+  }
+  
+  if (yours.includes('flexible') || theirs.includes('flexible')) {
+    return {
+      points: POINTS.availability,
+      reason: 'At least one of you has flexible availability'
+    };
+  }
+  
+  const shared = yours.filter(slot => theirs.includes(slot));
+  
+  if (shared.length === 0) {
+    return {
+      points: 0,
+      reason: 'Your availability does not overlap'
+    };
+  }
+  
+  return {
+    points: POINTS.availability * shared.length / Math.min(yours.length, theirs.length),
+    reason: `You are both available ${shared.join(', ')}`
+  };
+};
+
+const isSameLocation = (yours, theirs) => {
+  if (!yours || !theirs) return false;
+  
+  const a = yours.trim().toLowerCase();
+  const b = theirs.trim().toLowerCase();
+  return a.includes(b) || b.includes(a);
+};
+
+const scoreLocation = (yours, theirs, meetingType) => {
+  if (meetingType === 'online') {
+    return {
+      points: POINTS.location,
+      reason: 'Location does not matter for online swaps'
+    };
+  }
+  
+  if (isSameLocation(yours, theirs)) {
+    return {
+      points: POINTS.location,
+      reason: `They are in ${theirs}, near you`
+    };
+  }
+  
+  // Hybrid swaps can fall back to meeting online
+  const fallback = meetingType === 'hybrid' ? POINTS.location / 2 : 0;
+  
+  return {
+    points: fallback,
+    reason: theirs
+      ? `They are in ${theirs}, which is not near you`
+      : 'Their location is not set'
+  };
+};
+
+const scoreRating = (averageRating = 0, totalRatings = 0) => {
+  if (totalRatings === 0) {
+    return {
+      points: POINTS.rating / 2,
+      reason: 'No ratings yet'
+    };
+  }
+  
+  return {
+    points: POINTS.rating * averageRating / 5,
+    reason: `Rated ${averageRating.toFixed(1)} out of 5 from ${totalRatings} rating(s)`
+  };
+};
+
+/**
+ * Score a candidate swap partner for a user
+ * @param {Object} user - User looking for matches
+ * @param {Object} candidate - Potential partner (only approved skills are considered)
+ * @param {Object} options - { meetingType: 'online' | 'in-person' | 'hybrid' }
+ * @returns {Object|null} Score breakdown, or null when no skills overlap
+ */
+const scoreMatch = (user, candidate, options = {}) => {
+  const { meetingType = 'hybrid' } = options;
+  const theyTeach = findOverlap(candidate.skillsOffered.filter(skill => skill.isApproved), user.skillsWanted);
+  const youTeach = findOverlap(user.skillsOffered, candidate.skillsWanted.filter(skill => skill.isApproved));
+  
+  if (theyTeach.length === 0 && youTeach.length === 0) {
+    return null;
+  }
+  
+  const factors = {
+    skills: scoreSkills(theyTeach, youTeach),
+    availability: scoreAvailability(user.availability, candidate.availability),
+    location: scoreLocation(user.location, candidate.location, meetingType),
+    rating: scoreRating(candidate.averageRating, candidate.totalRatings)
+  };
+  
+  const explanations = Object.entries(factors).map(([factor, { points, reason }]) => ({
+    factor,
+    points: round(points),
+    maxPoints: POINTS[factor],
+    reason
+  }));
+  
+  return {
+    score: round(explanations.reduce((total, explanation) => total + explanation.points, 0)),
+    isReciprocal: theyTeach.length > 0 && youTeach.length > 0,
+    matchedSkills: {
+      theyTeach: theyTeach.map(skill => skill.name),
+      youTeach: youTeach.map(skill => skill.name)
+    },
+    explanations
+  };
+};
+
+/**
+ * Build the conditions for skills matching any of the given skills
+ */
+const buildSkillConditions = (skills) => {
+  const slugs = skills.filter(skill => skill.slug).map(skill => skill.slug);
+  const names = skills
+    .filter(skill => !skill.slug)
+    .map(skill => new RegExp(`^${escapeRegex(skill.name)}$`, 'i'));
+  
+  return [
+    ...(slugs.length > 0 ? [{ slug: { $in: slugs } }] : []),
+    ...(names.length > 0 ? [{ name: { $in: names } }] : [])
+  ].map(condition => ({ $elemMatch: { ...condition, isApproved: true } }));
+};
+
+/**
+ * Find the best swap partners for a user
+ * @param {Object} user - User looking for matches
+ * @param {Object} options - { meetingType, limit }
+ * @returns {Promise<Array>} Scored matches, best first
+ */
+const findMatches = async (user, options = {}) => {
+  const { limit = 10 } = options;
+  
+  const skillConditions = [
+    ...buildSkillConditions(user.skillsWanted).map(condition => ({ skillsOffered: condition })),
+    ...buildSkillConditions(user.skillsOffered).map(condition => ({ skillsWanted: condition }))
+  ];
+  
+  if (skillConditions.length === 0) {
+    return [];
+  }
+  
+  const candidates = await User.find({
+    _id: { $ne: user._id },
+    isPublic: true,
+    isBanned: false,
+    isActive: true,
+    $or: skillConditions
+  })
+    .select('name location profilePhoto availability skillsOffered skillsWanted averageRating totalRatings totalSwaps')
+    .limit(CANDIDATE_LIMIT);
+  
+  return candidates
+    .map(candidate => ({ candidate, match: scoreMatch(user, candidate, options) }))
+    .filter(({ match }) => match !== null)
+    .sort((a, b) => b.match.score - a.match.score || b.candidate.averageRating - a.candidate.averageRating)
+    .slice(0, limit)
+    .map(({ candidate, match }) => {
+      const { skillsOffered, skillsWanted } = candidate.withApprovedSkills();
+      
+      return {
+        user: {
+          id: candidate._id,
+          name: candidate.name,
+          location: candidate.location,
+          profilePhoto: candidate.profilePhoto,
+          availability: candidate.availability,
+          skillsOffered,
+          skillsWanted,
+          averageRating: candidate.averageRating,
+          totalRatings: candidate.totalRatings,
+          totalSwaps: candidate.totalSwaps
+        },
+        ...match
+      };
+    });
+};
+
+module.exports = {
+  findOverlap,
+  scoreMatch,
+  findMatches
+};
@@ -0,0 +1,232 @@
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const { NOTIFICATION_TYPES, DEFAULT_CHANNEL } = require('../utils/notificationTypes');
+const { describeOffer } = require('../utils/swapTerms');
+const { publish } = require('./eventService');
+const { queueEmail, buildFrontendUrl } = require('./mailService');
+
+/**
+ * Notification Service
+ * Records notifications for members according to their per-category preferences
+ * and emails those who asked to hear about a category straight away
+ */
+
+const BODY_MAX_LENGTH = 1000;
+
+const idOf = (value) => (value && value._id ? value._id : value).toString();
+
+// Title and body for each swap notification, seen by the member who did not act
+const SWAP_NOTIFICATIONS = {
+  'swap.created': {
+    title: 'New swap request',
+    body: (swap, actorName) => `${actorName} would like to learn ${swap.requestedSkill} from you in return for ${describeOffer(swap)}`
+  },
+  'swap.countered': {
+    title: 'New counter-offer',
+    body: (swap, actorName) => `${actorName} proposed new terms for the ${swap.requestedSkill} for ${describeOffer(swap)} swap`
+  },
+  'swap.accepted': {
+    title: 'Swap accepted',
+    body: (swap, actorName) => `${actorName} accepted the ${swap.requestedSkill} for ${describeOffer(swap)} swap`
+  },
+  'swap.rejected': {
+    title: 'Swap rejected',
+    body: (swap, actorName) => `${actorName} rejected the ${swap.requestedSkill} for ${describeOffer(swap)} swap`
+  },
+  'swap.cancelled': {
+    title: 'Swap cancelled',
+    body: (swap, actorName) => `${actorName} cancelled the ${swap.requestedSkill} for ${describeOffer(swap)} swap`
+  },
+  'swap.completed': {
+    title: 'Swap completed',
+    body: (swap, actorName) => `${actorName} marked the ${swap.requestedSkill} for ${describeOffer(swap)} swap as completed. Remember to rate your swap partner.`
+  },
+  'swap.expired': {
+    title: 'Swap request expired',
+    body: (swap) => `The ${swap.requestedSkill} for ${describeOffer(swap)} swap request expired without a response`
+  },
+  'swap.slots-proposed': {
+    title: 'Session times proposed',
+    body: (swap, actorName) => `${actorName} suggested times for the ${swap.requestedSkill} for ${describeOffer(swap)} session. Pick the one that suits you.`
+  },
+  'swap.scheduled': {
+    title: 'Session scheduled',
+    body: (swap, actorName) => `${actorName} confirmed a time for the ${swap.requestedSkill} for ${describeOffer(swap)} session`
+  },
+  'swap.session-added': {
+    title: 'Session added',
+    body: (swap, actorName) => `${actorName} added a session to the ${swap.requestedSkill} for ${describeOffer(swap)} swap`
+  },
+  'swap.session-cancelled': {
+    title: 'Session cancelled',
+    body: (swap, actorName) => `${actorName} cancelled a session of the ${swap.requestedSkill} for ${describeOffer(swap)} swap`
+  }
+};
+
+// Title for each dispute notification
+const DISPUTE_TITLES = {
+  'dispute.opened': 'Dispute opened',
+  'dispute.comment': 'New comment on a dispute',
+  'dispute.resolved': 'Dispute resolved'
+};
+
+/**
+ * Email a notification to a member who chose the email channel
+ */
+const emailNotification = async (user, notification) => {
+  await queueEmail('notification', user.email, {
+    name: user.name,
+    title: notification.title,
+    message: notification.body || notification.title,
+    url: buildFrontendUrl(notification.link || '/notifications'),
+    settingsUrl: buildFrontendUrl('/notifications')
+  });
+  
+  await Notification.updateOne({ _id: notification._id }, { $set: { emailedAt: new Date() } });
+};
+
+/**
+ * Record a notification for each user, following their preference for its category
+ * Failures are logged rather than thrown so they never undo the action being notified
+ * @param {Array} userIds - Recipient user ids or documents
+ * @param {Object} notification - { type, title, body, link, swap, rating, adminMessage }
+ * @returns {Promise<Array>} The notifications created
+ */
+const notifyUsers = async (userIds, notification) => {
+  try {
+    const category = NOTIFICATION_TYPES[notification.type];
+    
+    if (!category) {
+      throw new Error(`Unknown notification type: ${notification.type}`);
+    }
+    
+    const users = await User.find({
+      _id: { $in: userIds.filter(Boolean).map(idOf) },
+      isActive: true,
+      isBanned: false
+    }).select('name email notificationPreferences');
+    
+    const channels = new Map(users.map(user => [
+      user._id.toString(),
+      (user.notificationPreferences && user.notificationPreferences[category]) || DEFAULT_CHANNEL
+    ]));
+    
+    const recipients = users.filter(user => channels.get(user._id.toString()) !== 'off');
+    
+    if (recipients.length === 0) {
+      return [];
+    }
+    
+    const body = notification.body && notification.body.slice(0, BODY_MAX_LENGTH);
+    
+    const notifications = await Notification.insertMany(recipients.map(user => ({
+      ...notification,
+      body,
+      user: user._id,
+      channel: channels.get(user._id.toString())
+    })));
+    
+    publish(recipients, 'notification.new', {
+      type: notification.type,
+      title: notification.title
+    });
+    
+    for (const created of notifications) {
+      if (created.channel !== 'email') continue;
+      
+      const user = recipients.find(recipient => recipient._id.equals(created.user));
+      try {
+        await emailNotification(user, created);
+      } catch (error) {
+        console.error(`Error emailing notification ${created._id}:`, error);
+      }
+    }
+    
+    return notifications;
+  } catch (error) {
+    console.error(`Error creating ${notification.type} notifications:`, error);
+    return [];
+  }
+};
+
+/**
+ * Notify swap members about a status change
+ * The acting member is not notified; system changes notify both members
+ * @param {Object} swap - Swap document (participants may be populated)
+ * @param {string} type - Swap notification type, e.g. 'swap.accepted'
+ * @param {Object|null} actor - Acting user, or null for the system
+ * @param {string} [reason] - Reason given for the change
+ */
+const notifySwapUpdate = (swap, type, actor, reason) => {
+  const template = SWAP_NOTIFICATIONS[type];
+  const participants = [swap.requester, swap.receiver];
+  const recipients = actor
+    ? participants.filter(participant => idOf(participant) !== idOf(actor))
+    : participants;
+  
+  const body = template.body(swap, actor ? actor.name : 'SkillSwap');
+  
+  return notifyUsers(recipients, {
+    type,
+    title: template.title,
+    body: reason ? `${body}\nReason: ${reason}` : body,
+    link: `/swaps/${idOf(swap)}`,
+    swap: idOf(swap)
+  });
+};
+
+/**
+ * Notify a member that they were rated
+ * @param {Object} rating - Rating document with reviewer populated
+ */
+const notifyRatingReceived = (rating) => {
+  const reviewerName = rating.isAnonymous ? 'Someone' : rating.reviewer.name;
+  
+  return notifyUsers([rating.reviewee], {
+    type: 'rating.new',
+    title: 'New rating',
+    body: `${reviewerName} rated your swap ${rating.rating}/5`,
+    link: '/profile',
+    swap: idOf(rating.swap),
+    rating: rating._id
+  });
+};
+
+/**
+ * Notify every recipient of a sent admin message
+ * @param {Object} message - AdminMessage document after send()
+ */
+const notifyAdminMessage = (message) => {
+  return notifyUsers(message.deliveredTo.map(delivery => delivery.user), {
+    type: 'admin.message',
+    title: message.title,
+    body: message.message,
+    adminMessage: message._id
+  });
+};
+
+/**
+ * Notify members of a dispute about a change to it
+ * @param {Object} dispute - Dispute document
+ * @param {string} type - Dispute notification type, e.g. 'dispute.opened'
+ * @param {Array} recipients - Member ids or documents
+ * @param {string} body - What happened
+ */
+const notifyDisputeUpdate = (dispute, type, recipients, body) => {
+  return notifyUsers(recipients, {
+    type,
+    title: DISPUTE_TITLES[type],
+    body,
+    link: `/swaps/${idOf(dispute.swap)}`,
+    swap: idOf(dispute.swap),
+    dispute: dispute._id
+  });
+};
+
+module.exports = {
+  notifyUsers,
+  notifySwapUpdate,
+  notifyRatingReceived,
+  notifyAdminMessage,
+  notifyDisputeUpdate
+};
@@ -0,0 +1,180 @@
+const jwt = require('jsonwebtoken');
+const { Issuer, generators } = require('openid-client');
+const User = require('../models/User');
+const { AppError } = require('../middleware/errorHandler');
+const { getServerUrl } = require('../config/oidc');
+const { generateRandomToken } = require('../utils/tokenUtils');
+
+/**
+ * OIDC Service
+ * Authorization code flow with PKCE against any OpenID Connect provider,
+ * and linking of provider identities to User records
+ */
+
+const FLOW_COOKIE_NAME = 'oidcFlow';
+const FLOW_COOKIE_PATH = '/api/auth/oidc';
+const FLOW_LIFETIME_MS = 10 * 60 * 1000;
+
+// Discovered clients, keyed by provider id
+const clients = new Map();
+
+const getRedirectUri = (providerId) => {
+  return `${getServerUrl()}/api/auth/oidc/${providerId}/callback`;
+};
+
+/**
+ * Discover the provider and build a client (cached per provider)
+ */
+const getClient = (provider) => {
+  if (!clients.has(provider.id)) {
+    const clientPromise = Issuer.discover(provider.issuer)
+      .then(issuer => new issuer.Client({
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+        redirect_uris: [getRedirectUri(provider.id)],
+        response_types: ['code']
+      }))
+      .catch(error => {
+        // Allow a retry once the provider is reachable again
+        clients.delete(provider.id);
+        throw error;
+      });
+    
+    clients.set(provider.id, clientPromise);
+  }
+  
+  return clients.get(provider.id);
+};
+
+/**
+ * Start an authorization request
+ * @returns {Promise<{ url: string, flow: Object }>} - Provider URL and the state to keep until the callback
+ */
+const createAuthorizationRequest = async (provider) => {
+  const client = await getClient(provider);
+  
+  const flow = {
+    provider: provider.id,
+    state: generators.state(),
+    nonce: generators.nonce(),
+    codeVerifier: generators.codeVerifier()
+  };
+  
+  const url = client.authorizationUrl({
+    scope: provider.scope,
+    redirect_uri: getRedirectUri(provider.id),
+    code_challenge: generators.codeChallenge(flow.codeVerifier),
+    code_challenge_method: 'S256',
+    state: flow.state,
+    nonce: flow.nonce
+  });
+  
+  return { url, flow };
+};
+
+/**
+ * Exchange the authorization code and return the verified ID token claims
+ */
+const completeAuthorization = async (provider, req, flow) => {
+  const client = await getClient(provider);
+  const params = client.callbackParams(req);
+  
+  const tokenSet = await client.callback(getRedirectUri(provider.id), params, {
+    state: flow.state,
+    nonce: flow.nonce,
+    code_verifier: flow.codeVerifier
+  });
+  
+  return tokenSet.claims();
+};
+
+/**
+ * Store the flow state in a short-lived signed cookie
+ * SameSite=Lax so it is sent on the provider's redirect back to us
+ */
+const setFlowCookie = (res, flow) => {
+  const value = jwt.sign({ ...flow, purpose: 'oidc-flow' }, process.env.JWT_SECRET, {
+    expiresIn: FLOW_LIFETIME_MS / 1000
+  });
+  
+  res.cookie(FLOW_COOKIE_NAME, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: FLOW_COOKIE_PATH,
+    maxAge: FLOW_LIFETIME_MS
+  });
+};
+
+/**
+ * Read and clear the flow cookie
+ * @returns {Object|null} - Flow state, or null if missing, expired or tampered with
+ */
+const consumeFlowCookie = (req, res) => {
+  const value = req.cookies ? req.cookies[FLOW_COOKIE_NAME] : undefined;
+  
+  res.clearCookie(FLOW_COOKIE_NAME, { path: FLOW_COOKIE_PATH });
+  
+  if (!value) return null;
+  
+  try {
+    const decoded = jwt.verify(value, process.env.JWT_SECRET);
+    return decoded.purpose === 'oidc-flow' ? decoded : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Find the user for a provider identity
+ * Falls back to linking by verified email to a verified account, and creates a new user otherwise
+ * @param {string} providerId - Provider id
+ * @param {Object} claims - Verified ID token claims
+ */
+const resolveUserFromClaims = async (providerId, claims) => {
+  const linkedUser = await User.findOne({
+    oidcIdentities: { $elemMatch: { provider: providerId, subject: claims.sub } }
+  });
+  
+  if (linkedUser) return linkedUser;
+  
+  // Only a verified email proves ownership of an existing account
+  if (!claims.email || claims.email_verified !== true) {
+    throw new AppError('Your identity provider did not confirm your email address', 400);
+  }
+  
+  const email = claims.email.toLowerCase();
+  let user = await User.findOne({ email });
+  
+  if (!user) {
+    user = new User({
+      name: (claims.name || email.split('@')[0]).slice(0, 50),
+      email,
+      password: generateRandomToken(),
+      emailVerified: true,
+      emailVerifiedAt: new Date()
+    });
+  } else if (!user.emailVerified) {
+    // Whoever registered the unverified account may not own the email, and
+    // linking would let their password sign in to the provider's account
+    throw new AppError('An account with this email address is awaiting verification. Verify it and log in with your password before using this provider.', 409);
+  }
+  
+  user.oidcIdentities.push({
+    provider: providerId,
+    subject: claims.sub,
+    email
+  });
+  
+  await user.save({ validateBeforeSave: user.isNew });
+  
+  return user;
+};
+
+module.exports = {
+  createAuthorizationRequest,
+  completeAuthorization,
+  setFlowCookie,
+  consumeFlowCookie,
+  resolveUserFromClaims
+};
@@ -0,0 +1,278 @@
+const Swap = require('../models/Swap');
+const SwapSession = require('../models/SwapSession');
+const User = require('../models/User');
+const { AppError } = require('../middleware/errorHandler');
+const { getZonedParts, zonedTimeToDate, formatInTimeZone, isValidTimeZone, DEFAULT_TIME_ZONE } = require('../utils/timeZone');
+
+/**
+ * Scheduling Service
+ * Finds session times when both members of a swap are available and free,
+ * from their weekly availability windows and the sessions they already booked
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Offered sessions start on the hour or half hour (UTC)
+const SLOT_STEP_MINUTES = 30;
+
+const DEFAULT_RANGE_DAYS = 14;
+const MAX_RANGE_DAYS = 28;
+const MAX_PROPOSED_SLOTS = 5;
+const MAX_SESSION_MINUTES = 480;
+
+// Swaps whose sessions block the members' calendars
+const BOOKED_STATUSES = ['pending', 'accepted'];
+
+const idOf = (value) => (value && value._id ? value._id : value).toString();
+
+const getTimeZone = (user) => (isValidTimeZone(user.timezone) ? user.timezone : DEFAULT_TIME_ZONE);
+
+// Merge overlapping or touching intervals ({ start, end } in milliseconds)
+const mergeIntervals = (intervals) => {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged = [];
+  
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  
+  return merged;
+};
+
+// Times covered by both lists of merged intervals
+const intersectIntervals = (a, b) => {
+  const result = [];
+  let i = 0;
+  let j = 0;
+  
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i].start, b[j].start);
+    const end = Math.min(a[i].end, b[j].end);
+    
+    if (start < end) result.push({ start, end });
+    
+    if (a[i].end < b[j].end) i++;
+    else j++;
+  }
+  
+  return result;
+};
+
+// Times in the intervals not covered by any busy interval
+const subtractIntervals = (intervals, busy) => {
+  const blocked = mergeIntervals(busy);
+  const result = [];
+  
+  for (const interval of intervals) {
+    let start = interval.start;
+    
+    for (const block of blocked) {
+      if (block.end <= start || block.start >= interval.end) continue;
+      if (block.start > start) result.push({ start, end: block.start });
+      start = Math.max(start, block.end);
+    }
+    
+    if (start < interval.end) result.push({ start, end: interval.end });
+  }
+  
+  return result;
+};
+
+/**
+ * Expand a member's weekly availability windows into intervals within a range
+ * @param {Object} user - Member with availabilityWindows and timezone
+ * @param {number} from - Range start (milliseconds)
+ * @param {number} to - Range end (milliseconds)
+ * @returns {Array} Merged { start, end } intervals in milliseconds
+ */
+const expandAvailability = (user, from, to) => {
+  const windows = user.availabilityWindows || [];
+  
+  if (windows.length === 0) return [];
+  
+  const timeZone = getTimeZone(user);
+  const first = getZonedParts(new Date(from), timeZone);
+  const days = Math.ceil((to - from) / DAY_MS);
+  const intervals = [];
+  
+  // Start a day early for windows still open when the range begins
+  for (let offset = -1; offset <= days; offset++) {
+    const date = new Date(Date.UTC(first.year, first.month - 1, first.day + offset));
+    const day = { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+    
+    for (const window of windows.filter(({ day: weekday }) => weekday === date.getUTCDay())) {
+      const [startHour, startMinute] = window.start.split(':').map(Number);
+      const [endHour, endMinute] = window.end.split(':').map(Number);
+      
+      // 24:00 is midnight at the end of the day
+      const start = zonedTimeToDate({ ...day, hour: startHour, minute: startMinute }, timeZone).getTime();
+      const end = zonedTimeToDate({ ...day, hour: endHour, minute: endMinute }, timeZone).getTime();
+      
+      if (start < to && end > from) {
+        intervals.push({ start: Math.max(start, from), end: Math.min(end, to) });
+      }
+    }
+  }
+  
+  return mergeIntervals(intervals);
+};
+
+/**
+ * Sessions already booked by any of the members within a range
+ * Swaps scheduled before sessions were tracked separately only have a confirmedDate
+ * @param {Array} userIds - Member ids
+ * @param {number} from - Range start (milliseconds)
+ * @param {number} to - Range end (milliseconds)
+ * @param {string} [excludeSwapId] - Swap being scheduled, whose confirmedDate does not count (its sessions do)
+ * @returns {Promise<Array>} { start, end, swap } intervals
+ */
+const findBookedSessions = async (userIds, from, to, excludeSwapId) => {
+  const earliestStart = new Date(from - MAX_SESSION_MINUTES * MINUTE_MS);
+  
+  const [swaps, sessions] = await Promise.all([
+    Swap.find({
+      ...(excludeSwapId && { _id: { $ne: excludeSwapId } }),
+      status: { $in: BOOKED_STATUSES },
+      $or: [
+        { requester: { $in: userIds } },
+        { receiver: { $in: userIds } }
+      ],
+      confirmedDate: { $gt: earliestStart, $lt: new Date(to) }
+    }).select('requester receiver requestedSkill offeredSkill confirmedDate sessionMinutes'),
+    SwapSession.find({
+      status: 'scheduled',
+      $or: [
+        { teacher: { $in: userIds } },
+        { learner: { $in: userIds } }
+      ],
+      scheduledFor: { $gt: earliestStart, $lt: new Date(to) }
+    }).select('swap scheduledFor minutes')
+  ]);
+  
+  return [
+    ...swaps.map(swap => ({
+      start: swap.confirmedDate.getTime(),
+      end: swap.confirmedDate.getTime() + (swap.sessionMinutes || 60) * MINUTE_MS,
+      swap
+    })),
+    ...sessions.map(session => ({
+      start: session.scheduledFor.getTime(),
+      end: session.scheduledFor.getTime() + session.minutes * MINUTE_MS,
+      swap: session.swap
+    }))
+  ].filter(session => session.end > from);
+};
+
+// Load both members of a swap with their availability
+const loadMembers = async (swap) => {
+  const members = await User.find({ _id: { $in: [swap.requester, swap.receiver] } })
+    .select('name timezone availabilityWindows');
+  
+  const find = (id) => members.find(member => member._id.equals(idOf(id)));
+  
+  return { requester: find(swap.requester), receiver: find(swap.receiver) };
+};
+
+/**
+ * Times within a range when both members are available and have no other session
+ * @returns {Promise<Object>} { free: merged intervals, members: { requester, receiver } }
+ */
+const findFreeTime = async (swap, from, to) => {
+  const members = await loadMembers(swap);
+  
+  if (!members.requester || !members.receiver) {
+    throw new AppError('A member of this swap no longer exists', 404);
+  }
+  
+  const available = intersectIntervals(
+    expandAvailability(members.requester, from, to),
+    expandAvailability(members.receiver, from, to)
+  );
+  const booked = await findBookedSessions([members.requester._id, members.receiver._id], from, to, swap._id);
+  
+  return { free: subtractIntervals(available, booked), members };
+};
+
+// Cut free time into sessions of the given length
+const splitIntoSlots = (free, minutes) => {
+  const stepMs = SLOT_STEP_MINUTES * MINUTE_MS;
+  const lengthMs = minutes * MINUTE_MS;
+  const slots = [];
+  
+  for (const interval of free) {
+    for (let start = Math.ceil(interval.start / stepMs) * stepMs; start + lengthMs <= interval.end; start += stepMs) {
+      slots.push({ start: new Date(start), end: new Date(start + lengthMs) });
+    }
+  }
+  
+  return slots;
+};
+
+/**
+ * Session times both members of a swap can make
+ * @param {Object} swap - Swap document
+ * @param {Object} options - { from, to (Dates), minutes: session length }
+ * @returns {Promise<Object>} { slots, members }
+ */
+const findOpenSlots = async (swap, { from, to, minutes }) => {
+  const start = Math.max(from.getTime(), Date.now());
+  const end = Math.min(to.getTime(), start + MAX_RANGE_DAYS * DAY_MS);
+  
+  if (end <= start) {
+    return { slots: [], members: await loadMembers(swap) };
+  }
+  
+  const { free, members } = await findFreeTime(swap, start, end);
+  
+  return { slots: splitIntoSlots(free, minutes), members };
+};
+
+/**
+ * Check that both members of a swap can still make each of the given sessions
+ * @param {Object} swap - Swap document
+ * @param {Array} slots - { start, end } Dates
+ * @param {Object} viewer - Member the error messages are written for (times use their time zone)
+ * @throws {AppError} 409 if a session is outside either member's availability or clashes with another session
+ */
+const assertSlotsOpen = async (swap, slots, viewer) => {
+  const now = Date.now();
+  const timeZone = getTimeZone(viewer);
+  
+  if (slots.some(slot => slot.start.getTime() <= now)) {
+    throw new AppError('Session times must be in the future', 400);
+  }
+  
+  const from = Math.min(...slots.map(slot => slot.start.getTime()));
+  const to = Math.max(...slots.map(slot => slot.end.getTime()));
+  const { free } = await findFreeTime(swap, from, to);
+  
+  for (const slot of slots) {
+    const isFree = free.some(interval => interval.start <= slot.start.getTime() && interval.end >= slot.end.getTime());
+    
+    if (!isFree) {
+      throw new AppError(
+        `${formatInTimeZone(slot.start, timeZone)} is no longer free for both members. Choose another time.`,
+        409
+      );
+    }
+  }
+};
+
+module.exports = {
+  SLOT_STEP_MINUTES,
+  DEFAULT_RANGE_DAYS,
+  MAX_RANGE_DAYS,
+  MAX_PROPOSED_SLOTS,
+  MAX_SESSION_MINUTES,
+  expandAvailability,
+  findBookedSessions,
+  findOpenSlots,
+  assertSlotsOpen
+};
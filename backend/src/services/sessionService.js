@@ -0,0 +1,198 @@
+const Session = require('../models/Session');
+const { AppError } = require('../middleware/errorHandler');
+const { generateToken } = require('../middleware/auth');
+const { generateRandomToken, hashToken } = require('../utils/tokenUtils');
+
+/**
+ * Session Service
+ * Issues access tokens and rotating refresh tokens backed by the Session collection
+ */
+
+const REFRESH_COOKIE_NAME = 'refreshToken';
+
+// How long a just-rotated refresh token is still accepted
+const REUSE_GRACE_MS = 30 * 1000;
+
+const getRefreshTokenLifetimeMs = () => {
+  const days = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS) || 30;
+  return days * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Build a short human readable device label from a user agent
+ * @param {string} userAgent - Raw User-Agent header
+ */
+const describeDevice = (userAgent = '') => {
+  const browsers = [
+    ['Edge', /Edg\//],
+    ['Opera', /OPR\//],
+    ['Chrome', /Chrome\//],
+    ['Firefox', /Firefox\//],
+    ['Safari', /Safari\//]
+  ];
+  const systems = [
+    ['Android', /Android/],
+    ['iOS', /iPhone|iPad|iPod/],
+    ['Windows', /Windows/],
+    ['macOS', /Mac OS X/],
+    ['Linux', /Linux/]
+  ];
+
+  const browser = browsers.find(([, pattern]) => pattern.test(userAgent));
+  const system = systems.find(([, pattern]) => pattern.test(userAgent));
+
+  if (!browser && !system) return 'Unknown device';
+  if (!system) return browser[0];
+  if (!browser) return system[0];
+  return `${browser[0]} on ${system[0]}`;
+};
+
+/**
+ * Set the refresh token cookie
+ */
+const setRefreshCookie = (res, refreshToken) => {
+  res.cookie(REFRESH_COOKIE_NAME, refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api/auth',
+    maxAge: getRefreshTokenLifetimeMs()
+  });
+};
+
+/**
+ * Clear the refresh token cookie
+ */
+const clearRefreshCookie = (res) => {
+  res.clearCookie(REFRESH_COOKIE_NAME, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api/auth'
+  });
+};
+
+/**
+ * Read the refresh token from the request cookies
+ */
+const getRefreshTokenFromRequest = (req) => {
+  return req.cookies ? req.cookies[REFRESH_COOKIE_NAME] : undefined;
+};
+
+/**
+ * Start a new session for a user and set the refresh cookie
+ * @returns {Promise<string>} - Access token bound to the new session
+ */
+const startSession = async (user, req, res) => {
+  const refreshToken = generateRandomToken(48);
+  const userAgent = req.get('User-Agent') || '';
+
+  const session = await Session.create({
+    user: user._id,
+    refreshTokenHash: hashToken(refreshToken),
+    device: describeDevice(userAgent),
+    ipAddress: req.ip,
+    userAgent: userAgent.slice(0, 500),
+    expiresAt: new Date(Date.now() + getRefreshTokenLifetimeMs())
+  });
+
+  setRefreshCookie(res, refreshToken);
+
+  return generateToken(user._id, session._id);
+};
+
+/**
+ * Rotate a refresh token
+ * The rotation is a conditional update on the current token, so only one of
+ * several concurrent refreshes rotates it. The token it replaced is still
+ * accepted for REUSE_GRACE_MS without rotating again (the browser already has
+ * the new cookie); after that, reusing a rotated token revokes the whole session family
+ * @returns {Promise<{ session: Object, accessToken: string }>}
+ */
+const rotateSession = async (refreshToken, req, res) => {
+  if (!refreshToken) {
+    throw new AppError('No refresh token provided', 401);
+  }
+
+  const tokenHash = hashToken(refreshToken);
+  const now = new Date();
+  const newRefreshToken = generateRandomToken(48);
+
+  const session = await Session.findOneAndUpdate(
+    { refreshTokenHash: tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+    {
+      $set: {
+        refreshTokenHash: hashToken(newRefreshToken),
+        previousTokenHash: tokenHash,
+        rotatedAt: now,
+        lastUsedAt: now,
+        ipAddress: req.ip
+      },
+      $push: { rotatedTokenHashes: tokenHash }
+    },
+    { new: true }
+  );
+
+  if (session) {
+    setRefreshCookie(res, newRefreshToken);
+
+    return {
+      session,
+      accessToken: generateToken(session.user, session._id)
+    };
+  }
+
+  if (await Session.exists({ refreshTokenHash: tokenHash })) {
+    clearRefreshCookie(res);
+    throw new AppError('Session has expired. Please login again.', 401);
+  }
+
+  // Another tab rotated this token a moment ago
+  const concurrent = await Session.findOne({
+    previousTokenHash: tokenHash,
+    rotatedAt: { $gt: new Date(now.getTime() - REUSE_GRACE_MS) },
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: now }
+  });
+
+  if (concurrent) {
+    return {
+      session: concurrent,
+      accessToken: generateToken(concurrent.user, concurrent._id)
+    };
+  }
+
+  // A rotated token being presented again means it was stolen or replayed
+  const compromised = await Session.findOne({ rotatedTokenHashes: tokenHash });
+
+  if (compromised) {
+    await compromised.revoke('token-reuse');
+  }
+
+  clearRefreshCookie(res);
+  throw new AppError('Invalid refresh token. Please login again.', 401);
+};
+
+/**
+ * Revoke the session identified by a refresh token, if any
+ */
+const endSession = async (refreshToken, res) => {
+  if (refreshToken) {
+    const session = await Session.findOne({ refreshTokenHash: hashToken(refreshToken) });
+
+    if (session) {
+      await session.revoke('logout');
+    }
+  }
+
+  clearRefreshCookie(res);
+};
+
+module.exports = {
+  startSession,
+  rotateSession,
+  endSession,
+  getRefreshTokenFromRequest,
+  clearRefreshCookie,
+  describeDevice
+};
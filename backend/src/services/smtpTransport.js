@@ -0,0 +1,225 @@
+const net = require('net');
+const tls = require('tls');
+const os = require('os');
+const crypto = require('crypto');
+
+/**
+ * SMTP Transport
+ * Minimal SMTP client for the mail service: implicit TLS or STARTTLS,
+ * AUTH PLAIN (only over an encrypted connection unless explicitly allowed),
+ * and multipart text/HTML messages
+ */
+
+const COMMAND_TIMEOUT_MS = 30 * 1000;
+
+// Mail addresses may be written as "Name <address>"
+const extractAddress = (value) => {
+  const match = /<([^>]+)>/.exec(value);
+  return (match ? match[1] : value).trim();
+};
+
+// RFC 2047 encoding for header values that are not plain ASCII
+// Line breaks are dropped so a value can never start a new header
+const encodeHeader = (value) => {
+  const line = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(line)
+    ? line
+    : `=?UTF-8?B?${Buffer.from(line, 'utf8').toString('base64')}?=`;
+};
+
+const encodeBody = (value) => {
+  return Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+};
+
+/**
+ * Build the RFC 5322 message source
+ * @param {Object} mail - { from, to, subject, text, html }
+ */
+const buildMessage = (mail, host) => {
+  const boundary = `skillswap-${crypto.randomBytes(12).toString('hex')}`;
+  const messageId = `<${crypto.randomUUID()}@${host}>`;
+  
+  const headers = [
+    `From: ${encodeHeader(mail.from)}`,
+    `To: ${encodeHeader(mail.to)}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0'
+  ];
+  
+  const textPart = [
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(mail.text || '')
+  ];
+  
+  if (!mail.html) {
+    return { messageId, source: [...headers, ...textPart].join('\r\n') };
+  }
+  
+  const source = [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(mail.html),
+    `--${boundary}--`
+  ].join('\r\n');
+  
+  return { messageId, source };
+};
+
+/**
+ * Line based reader for SMTP replies (multi-line replies use "250-" continuations)
+ */
+const createReplyReader = () => {
+  let buffer = '';
+  let lines = [];
+  let waiting = null;
+  let failure = null;
+  
+  const flush = () => {
+    const index = lines.findIndex(line => /^\d{3} /.test(line) || /^\d{3}$/.test(line));
+    if (index === -1 || !waiting) return;
+    
+    const reply = lines.slice(0, index + 1);
+    lines = lines.slice(index + 1);
+    
+    const { resolve } = waiting;
+    waiting = null;
+    resolve({ code: parseInt(reply[reply.length - 1].slice(0, 3)), lines: reply });
+  };
+  
+  return {
+    push(chunk) {
+      buffer += chunk.toString('utf8');
+      const parts = buffer.split('\r\n');
+      buffer = parts.pop();
+      lines.push(...parts);
+      flush();
+    },
+    next() {
+      return new Promise((resolve, reject) => {
+        if (failure) return reject(failure);
+        waiting = { resolve, reject };
+        flush();
+      });
+    },
+    fail(error) {
+      failure = error;
+      if (waiting) {
+        waiting.reject(error);
+        waiting = null;
+      }
+    }
+  };
+};
+
+/**
+ * Create an SMTP transport
+ * @param {Object} options - { host, port, secure, user, pass, allowInsecureAuth }
+ * @returns {Object} Transport with an async send(mail) function
+ */
+const createSmtpTransport = ({ host, port = 587, secure = port === 465, user, pass, allowInsecureAuth = false }) => {
+  if (!host) {
+    throw new Error('SMTP transport requires EMAIL_HOST');
+  }
+  
+  const clientName = os.hostname();
+  
+  const send = (mail) => new Promise((resolve, reject) => {
+    let socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    const reader = createReplyReader();
+    
+    const attach = (target) => {
+      target.setTimeout(COMMAND_TIMEOUT_MS);
+      target.on('data', chunk => reader.push(chunk));
+      target.on('timeout', () => target.destroy(new Error('SMTP connection timed out')));
+      target.on('error', error => reader.fail(error));
+    };
+    
+    attach(socket);
+    
+    // Send a command and check the reply code
+    const command = async (line, expected, name = line ? line.split(' ')[0] : 'greeting') => {
+      if (line !== null) {
+        socket.write(`${line}\r\n`);
+      }
+      
+      const reply = await reader.next();
+      
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP ${name} failed: ${reply.lines.join(' ')}`);
+      }
+      
+      return reply;
+    };
+    
+    const upgradeToTls = () => new Promise((resolveUpgrade, rejectUpgrade) => {
+      socket.removeAllListeners('data');
+      socket.removeAllListeners('timeout');
+      socket.removeAllListeners('error');
+      
+      const secureSocket = tls.connect({ socket, servername: host }, () => resolveUpgrade(secureSocket));
+      secureSocket.once('error', rejectUpgrade);
+      attach(secureSocket);
+    });
+    
+    const converse = async () => {
+      await command(null, [220]);
+      const ehlo = await command(`EHLO ${clientName}`, [250]);
+      let encrypted = secure;
+      
+      if (!secure && ehlo.lines.some(line => /STARTTLS/i.test(line))) {
+        await command('STARTTLS', [220]);
+        socket = await upgradeToTls();
+        encrypted = true;
+        await command(`EHLO ${clientName}`, [250]);
+      }
+      
+      // AUTH PLAIN sends the password as it is, so it must not go out in cleartext
+      if (user && !encrypted && !allowInsecureAuth) {
+        await command('QUIT', [221]).catch(() => {});
+        throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials over an unencrypted connection');
+      }
+      
+      if (user) {
+        const credentials = Buffer.from(`\u0000${user}\u0000${pass || ''}`, 'utf8').toString('base64');
+        await command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+      
+      const { messageId, source } = buildMessage(mail, host);
+      
+      await command(`MAIL FROM:<${extractAddress(mail.from)}>`, [250]);
+      await command(`RCPT TO:<${extractAddress(mail.to)}>`, [250, 251]);
+      await command('DATA', [354]);
+      
+      // Dot-stuffing: lines starting with "." get an extra one
+      const body = source.replace(/\r\n\./g, '\r\n..');
+      const reply = await command(`${body}\r\n.`, [250], 'message');
+      
+      await command('QUIT', [221]).catch(() => {});
+      
+      return { id: messageId, transport: 'smtp', response: reply.lines.join(' ') };
+    };
+    
+    converse()
+      .then(resolve, reject)
+      .finally(() => socket.end());
+  });
+  
+  return { send };
+};
+
+module.exports = {
+  createSmtpTransport
+};
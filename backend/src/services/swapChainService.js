@@ -0,0 +1,209 @@
+const User = require('../models/User');
+const Swap = require('../models/Swap');
+const SwapChain = require('../models/SwapChain');
+const { AppError } = require('../middleware/errorHandler');
+const { findOverlap } = require('./matchingService');
+
+/**
+ * Swap Chain Service
+ * Finds multi-party swap cycles in the offered/wanted skill graph and turns them into swap chains.
+ * There is an edge from X to Y when X offers a skill Y wants.
+ */
+
+const MIN_CHAIN_LENGTH = 3;
+const MAX_CHAIN_LENGTH = 4;
+
+// Upper bound on users loaded into the skill graph per search
+const POOL_LIMIT = 200;
+
+// Stop searching once this many cycles have been found
+const MAX_CYCLES = 100;
+
+// Stop searching after this many skill comparisons; the search runs on the
+// request's thread, so its cost has to stay bounded however dense the graph is
+const MAX_EDGE_CHECKS = 20000;
+
+/**
+ * Build a graph node for a user
+ * Other users only contribute approved skills; the searching user's own skills all count
+ */
+const toNode = (user, approvedOnly = true) => {
+  const usable = (skills) => approvedOnly ? skills.filter(skill => skill.isApproved) : skills;
+  
+  return {
+    user,
+    offered: usable(user.skillsOffered),
+    wanted: usable(user.skillsWanted)
+  };
+};
+
+// Strongest skill the teacher offers that the learner wants, or undefined
+const findTeachableSkill = (teacher, learner) => findOverlap(teacher.offered, learner.wanted)[0];
+
+const averageRating = (nodes) => {
+  return nodes.reduce((total, node) => total + (node.user.averageRating || 0), 0) / nodes.length;
+};
+
+/**
+ * Describe a cycle as chain participants
+ * skills[i] is taught by path[i] to the next member, wrapping back to the first
+ */
+const toParticipants = (path, skills) => {
+  return path.map((node, index) => ({
+    user: node.user,
+    teaches: skills[index].name,
+    learns: skills[(index + path.length - 1) % path.length].name
+  }));
+};
+
+/**
+ * Find swap chains that start and end with a user
+ * @param {Object} user - User looking for a chain
+ * @param {Object} options - { limit }
+ * @returns {Promise<Array>} Suggested chains, shortest and best rated first
+ */
+const findChainSuggestions = async (user, options = {}) => {
+  const { limit = 5 } = options;
+  
+  const pool = await User.find({
+    _id: { $ne: user._id },
+    isPublic: true,
+    isBanned: false,
+    isActive: true,
+    'skillsOffered.isApproved': true,
+    'skillsWanted.isApproved': true
+  })
+    .select('name location profilePhoto averageRating skillsOffered skillsWanted')
+    .sort({ lastLogin: -1 })
+    .limit(POOL_LIMIT);
+  
+  const start = toNode(user, false);
+  const nodes = pool.map(member => toNode(member));
+  
+  // Only members who can teach the user can close a cycle
+  const closers = new Set(nodes.filter(node => findTeachableSkill(node, start)));
+  const cycles = [];
+  let edgeChecks = 0;
+  
+  const search = (path, skills) => {
+    if (cycles.length >= MAX_CYCLES || edgeChecks >= MAX_EDGE_CHECKS) return;
+    
+    const current = path[path.length - 1];
+    
+    if (path.length >= MIN_CHAIN_LENGTH && closers.has(current)) {
+      cycles.push({ path, skills: [...skills, findTeachableSkill(current, start)] });
+    }
+    
+    if (path.length === MAX_CHAIN_LENGTH) return;
+    
+    // The last member added must be able to close the cycle
+    const candidates = path.length === MAX_CHAIN_LENGTH - 1 ? [...closers] : nodes;
+    
+    for (const next of candidates) {
+      if (edgeChecks >= MAX_EDGE_CHECKS) return;
+      if (path.includes(next)) continue;
+      
+      edgeChecks += 1;
+      const skill = findTeachableSkill(current, next);
+      if (skill) {
+        search([...path, next], [...skills, skill]);
+      }
+    }
+  };
+  
+  search([start], []);
+  
+  return cycles
+    .sort((a, b) => a.path.length - b.path.length || averageRating(b.path.slice(1)) - averageRating(a.path.slice(1)))
+    .slice(0, limit)
+    .map(({ path, skills }) => ({
+      participants: toParticipants(path, skills).map(({ user: member, teaches, learns }) => ({
+        user: {
+          id: member._id,
+          name: member.name,
+          location: member.location,
+          profilePhoto: member.profilePhoto,
+          averageRating: member.averageRating
+        },
+        teaches,
+        learns
+      }))
+    }));
+};
+
+/**
+ * Propose a swap chain and create its swap legs
+ * The initiator is confirmed straight away; every other member has to confirm
+ * @param {Object} initiator - User proposing the chain
+ * @param {Array<string>} memberIds - Other members, in teaching order after the initiator
+ * @param {string} message - Optional message for the members
+ */
+const createChain = async (initiator, memberIds, message) => {
+  if (new Set(memberIds).size !== memberIds.length || memberIds.includes(initiator._id.toString())) {
+    throw new AppError('Chain members must be different people and cannot include you', 400);
+  }
+  
+  const members = await User.find({ _id: { $in: memberIds }, isBanned: false, isActive: true });
+  
+  if (members.length !== memberIds.length) {
+    throw new AppError('One or more chain members were not found or are inactive', 400);
+  }
+  
+  const path = [
+    toNode(initiator, false),
+    ...memberIds.map(id => toNode(members.find(member => member._id.toString() === id)))
+  ];
+  
+  const skills = path.map((node, index) => {
+    const next = path[(index + 1) % path.length];
+    const skill = findTeachableSkill(node, next);
+    
+    if (!skill) {
+      throw new AppError(`${node.user.name} does not offer a skill that ${next.user.name} wants`, 400);
+    }
+    
+    return skill;
+  });
+  
+  const existingChain = await SwapChain.findOne({
+    status: 'pending',
+    participants: { $size: path.length },
+    'participants.user': { $all: path.map(node => node.user._id) }
+  });
+  
+  if (existingChain) {
+    throw new AppError('A pending swap chain with these members already exists', 400);
+  }
+  
+  const now = new Date();
+  const chain = new SwapChain({
+    initiator: initiator._id,
+    message,
+    participants: toParticipants(path, skills).map(({ user, teaches, learns }, index) => ({
+      user: user._id,
+      teaches,
+      learns,
+      ...(index === 0 && { status: 'confirmed', respondedAt: now })
+    }))
+  });
+  
+  // Leg i: the next member requests the skill taught by member i
+  const legs = await Swap.create(path.map((node, index) => ({
+    requester: path[(index + 1) % path.length].user._id,
+    receiver: node.user._id,
+    requestedSkill: skills[index].name,
+    offeredSkill: skills[(index + 1) % path.length].name,
+    message,
+    chain: chain._id
+  })));
+  
+  chain.legs = legs.map(leg => leg._id);
+  await chain.save();
+  
+  return chain;
+};
+
+module.exports = {
+  findChainSuggestions,
+  createChain
+};
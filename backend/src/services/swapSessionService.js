@@ -0,0 +1,263 @@
+const SwapSession = require('../models/SwapSession');
+const User = require('../models/User');
+const { AppError } = require('../middleware/errorHandler');
+const { getActorRole } = require('../utils/swapStateMachine');
+const { findBookedSessions } = require('./schedulingService');
+const { notifySwapUpdate } = require('./notificationService');
+const { assertCanAfford, assertCanPaySession, paySession } = require('./creditService');
+
+/**
+ * Swap Session Service
+ * Keeps track of the sessions of a swap: who teaches each one, how many each
+ * member has given, and completing the swap once all agreed sessions took place
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+const MAX_SESSION_COUNT = 20;
+
+// Swaps sessions can be added to or cancelled in
+const SCHEDULABLE_STATUSES = ['pending', 'accepted'];
+
+// Sessions that count towards the number a member agreed to give
+const COUNTED_STATUSES = ['scheduled', 'completed'];
+
+const COMPLETION_REASON = 'All agreed sessions completed';
+
+const idOf = (value) => (value && value._id ? value._id : value).toString();
+
+const otherRole = (role) => (role === 'requester' ? 'receiver' : 'requester');
+
+/**
+ * Roles of the members who teach in a swap
+ * In a chain leg the requester teaches the next member of the chain instead,
+ * and in a credit swap the requester pays in time credits
+ */
+const getTeachingRoles = (swap) => (swap.chain || swap.paymentType === 'credits' ? ['receiver'] : ['requester', 'receiver']);
+
+const assertSchedulable = (swap) => {
+  if (!SCHEDULABLE_STATUSES.includes(swap.status)) {
+    throw new AppError(`Sessions cannot be scheduled for a swap that is ${swap.status}`, 400);
+  }
+};
+
+/**
+ * Sessions each member has given or is booked to give
+ * @returns {Promise<Object>} { requester, receiver } counts
+ */
+const countSessions = async (swap) => {
+  const counts = await SwapSession.aggregate([
+    { $match: { swap: swap._id, status: { $in: COUNTED_STATUSES } } },
+    { $group: { _id: '$teacher', count: { $sum: 1 } } }
+  ]);
+  
+  const countFor = (role) => {
+    const entry = counts.find(({ _id }) => idOf(_id) === idOf(swap[role]));
+    return entry ? entry.count : 0;
+  };
+  
+  return { requester: countFor('requester'), receiver: countFor('receiver') };
+};
+
+/**
+ * Work out who teaches a new session
+ * @param {Object} swap - Swap document
+ * @param {string} [teacherId] - Requested teacher; by default the teaching member with the fewest sessions
+ * @returns {Promise<string>} Role of the teacher
+ * @throws {AppError} When the member cannot teach in this swap or has no sessions left to give
+ */
+const resolveTeacherRole = async (swap, teacherId) => {
+  const roles = getTeachingRoles(swap);
+  const counts = await countSessions(swap);
+  
+  const role = teacherId
+    ? getActorRole(swap, { _id: teacherId })
+    : roles.reduce((fewest, candidate) => (counts[candidate] < counts[fewest] ? candidate : fewest));
+  
+  if (!roles.includes(role)) {
+    throw new AppError(roles.length === 1 ? 'Only the receiver teaches in this swap' : 'The teacher must be a member of this swap', 400);
+  }
+  
+  if (counts[role] >= swap.sessionCount) {
+    throw new AppError(teacherId
+      ? `The ${role} has no agreed sessions left to give`
+      : 'Every agreed session of this swap is already given or booked', 400);
+  }
+  
+  return role;
+};
+
+/**
+ * Check that neither member has another session booked at a time
+ * @throws {AppError} 409 on a clash
+ */
+const assertNoClash = async (swap, start, minutes) => {
+  const from = start.getTime();
+  const to = from + minutes * MINUTE_MS;
+  const booked = await findBookedSessions([idOf(swap.requester), idOf(swap.receiver)], from, to, swap._id);
+  
+  if (booked.some(session => session.start < to && session.end > from)) {
+    throw new AppError('One of you already has a session booked at that time', 409);
+  }
+};
+
+/**
+ * Update a swap's session balance and next session, and complete the swap once
+ * every teaching member has given the agreed number of sessions
+ * @param {Object} swap - Swap document
+ * @returns {Promise<boolean>} Whether the swap was completed
+ */
+const refreshProgress = async (swap) => {
+  const sessions = await SwapSession.find({ swap: swap._id, status: { $in: COUNTED_STATUSES } })
+    .select('teacher scheduledFor minutes status')
+    .sort({ scheduledFor: 1 });
+  
+  const given = (role) => sessions.filter(session => session.status === 'completed' && idOf(session.teacher) === idOf(swap[role])).length;
+  const next = sessions.find(session => session.status === 'scheduled' && session.scheduledFor > new Date());
+  
+  swap.sessionsGiven = { requester: given('requester'), receiver: given('receiver') };
+  swap.confirmedDate = next ? next.scheduledFor : undefined;
+  // Credit swaps check every session's length against the requester's credits when it is booked
+  if (next) swap.sessionMinutes = next.minutes;
+  
+  const isFinished = swap.status === 'accepted' &&
+    getTeachingRoles(swap).every(role => swap.sessionsGiven[role] >= swap.sessionCount);
+  
+  if (!isFinished) {
+    await swap.save();
+    return false;
+  }
+  
+  await swap.transition('complete', { reason: COMPLETION_REASON });
+  await User.updateMany({ _id: { $in: [idOf(swap.requester), idOf(swap.receiver)] } }, { $inc: { totalSwaps: 1 } });
+  await notifySwapUpdate(swap, 'swap.completed', null, COMPLETION_REASON);
+  
+  return true;
+};
+
+/**
+ * Add a session to a swap
+ * Sessions still to come must not clash with other sessions of either member
+ * @param {Object} swap - Swap document
+ * @param {Object} details - { teacher: member id (optional), scheduledFor, minutes, note }
+ * @param {Object} user - Member adding the session
+ * @returns {Promise<Object>} The session
+ */
+const createSession = async (swap, { teacher, scheduledFor, minutes = swap.sessionMinutes, note }, user) => {
+  assertSchedulable(swap);
+  
+  const role = await resolveTeacherRole(swap, teacher);
+  const start = new Date(scheduledFor);
+  
+  // Longer sessions cost the requester of a credit swap more credits
+  if (swap.paymentType === 'credits' && minutes !== swap.sessionMinutes) {
+    await assertCanAfford({ ...swap.toObject(), sessionMinutes: minutes });
+  }
+  
+  if (start > new Date()) {
+    await assertNoClash(swap, start, minutes);
+  }
+  
+  const session = await SwapSession.create({
+    swap: swap._id,
+    teacher: idOf(swap[role]),
+    learner: idOf(swap[otherRole(role)]),
+    scheduledFor: start,
+    minutes,
+    createdBy: user._id,
+    notes: note ? [{ author: user._id, body: note }] : []
+  });
+  
+  await refreshProgress(swap);
+  
+  return session;
+};
+
+/**
+ * Find a session of a swap
+ * @throws {AppError} 404 when the session does not belong to the swap
+ */
+const findSwapSession = async (swap, sessionId) => {
+  const session = await SwapSession.findOne({ _id: sessionId, swap: swap._id });
+  
+  if (!session) {
+    throw new AppError('Session not found', 404);
+  }
+  
+  return session;
+};
+
+/**
+ * Whether recording a member's attendance completes a session
+ * That is when they attended and the other member already recorded attending
+ */
+const completesSession = (session, user, attended) => {
+  const other = session.teacher.equals(user._id) ? session.learner : session.teacher;
+  return attended && session.attendance.some(entry => entry.member.equals(other) && entry.attended);
+};
+
+/**
+ * Record whether a member attended a session that has started
+ * A session both members attended is paid for in time credits by its learner
+ * @returns {Promise<Object>} The session
+ */
+const recordAttendance = async (swap, session, user, attended) => {
+  if (swap.status !== 'accepted') {
+    throw new AppError('Attendance can only be recorded for accepted swaps', 400);
+  }
+  
+  if (session.status !== 'scheduled') {
+    throw new AppError(`Attendance cannot be changed for a session that is ${session.status}`, 400);
+  }
+  
+  if (session.scheduledFor > new Date()) {
+    throw new AppError('Attendance can be recorded once the session has started', 400);
+  }
+  
+  // A session both members attended is paid for straight away, so make sure a
+  // credit swap's learner can pay before recording the attendance that completes it
+  if (completesSession(session, user, attended)) {
+    await assertCanPaySession(swap, session);
+  }
+  
+  await session.recordAttendance(user, attended);
+  
+  if (session.status === 'completed') {
+    await paySession(swap, session);
+  }
+  
+  if (session.status !== 'scheduled') {
+    await refreshProgress(swap);
+  }
+  
+  return session;
+};
+
+/**
+ * Cancel a session that has not taken place
+ * @returns {Promise<Object>} The session
+ */
+const cancelSession = async (swap, session, user, reason) => {
+  assertSchedulable(swap);
+  
+  if (session.status !== 'scheduled') {
+    throw new AppError(`Cannot cancel a session that is ${session.status}`, 400);
+  }
+  
+  await session.cancel(user, reason);
+  await refreshProgress(swap);
+  
+  return session;
+};
+
+module.exports = {
+  MAX_SESSION_COUNT,
+  getTeachingRoles,
+  countSessions,
+  resolveTeacherRole,
+  refreshProgress,
+  createSession,
+  findSwapSession,
+  recordAttendance,
+  cancelSession
+};
@@ -0,0 +1,53 @@
+const { authenticator } = require('otplib');
+const QRCode = require('qrcode');
+
+/**
+ * Two-Factor Service
+ * TOTP (RFC 6238) secrets, otpauth URIs and code verification
+ */
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'Skill Swap';
+const STEP_SECONDS = 30;
+
+// Accept codes from the previous and next 30s window to tolerate clock drift
+const totp = authenticator.clone({ window: 1, step: STEP_SECONDS });
+
+/**
+ * Create a new base32 secret together with its otpauth URI and QR code
+ * @param {string} accountName - Label shown in the authenticator app (the user's email)
+ * @returns {Promise<{ secret: string, otpauthUrl: string, qrCode: string }>}
+ */
+const createEnrolment = async (accountName) => {
+  const secret = totp.generateSecret();
+  const otpauthUrl = totp.keyuri(accountName, ISSUER, secret);
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+  return { secret, otpauthUrl, qrCode };
+};
+
+/**
+ * Verify a TOTP code against a secret
+ * Returns the time step the code belongs to, or null when the code is invalid.
+ * Callers store the step so a code cannot be replayed within its window.
+ * @param {string} code - Six digit code from the authenticator app
+ * @param {string} secret - Base32 secret
+ * @param {number} [lastUsedStep] - Step of the last accepted code
+ */
+const verifyCode = (code, secret, lastUsedStep) => {
+  if (!code || !secret) return null;
+
+  const delta = totp.checkDelta(String(code).replace(/\s/g, ''), secret);
+
+  if (delta === null) return null;
+
+  const step = Math.floor(Date.now() / 1000 / STEP_SECONDS) + delta;
+
+  if (lastUsedStep && step <= lastUsedStep) return null;
+
+  return step;
+};
+
+module.exports = {
+  createEnrolment,
+  verifyCode
+};
@@ -0,0 +1,106 @@
+/**
+ * iCalendar Utilities
+ * Serialises events to RFC 5545 calendars (.ics) that calendar apps can import
+ * or subscribe to
+ */
+
+const PRODUCT_ID = '-//Skill Swap//Swap Sessions//EN';
+
+// Content lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75;
+
+// Escape a TEXT value (backslashes, separators and newlines)
+const escapeText = (value) => {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// UTC DATE-TIME value, e.g. 20250304T170000Z
+const formatDateTime = (date) => {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Split a content line into 75-octet chunks joined by CRLF and a space,
+// without cutting a multi-byte character in half
+const foldLine = (line) => {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+  
+  const chunks = [];
+  let chunk = '';
+  
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    
+    if (Buffer.byteLength(chunk + char) > limit) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  
+  return chunks.join('\r\n ');
+};
+
+/**
+ * Serialise one event
+ * @param {Object} event - { uid, sequence, stamp, start, end, summary, description,
+ *   location, url, status (CONFIRMED, TENTATIVE or CANCELLED) }
+ * @returns {Array} Content lines
+ */
+const buildEvent = (event) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence || 0}`,
+    `DTSTAMP:${formatDateTime(event.stamp || new Date())}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`
+  ];
+  
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  
+  lines.push(`STATUS:${event.status || 'CONFIRMED'}`);
+  lines.push('END:VEVENT');
+  
+  return lines;
+};
+
+/**
+ * Serialise a calendar
+ * @param {Object} calendar - { name, events, refreshMinutes (suggested poll interval for feeds) }
+ * @returns {string} iCalendar text with CRLF line endings
+ */
+const buildCalendar = ({ name, events = [], refreshMinutes }) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+  
+  if (name) lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+  
+  if (refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${refreshMinutes}M`);
+  }
+  
+  events.forEach(event => lines.push(...buildEvent(event)));
+  lines.push('END:VCALENDAR');
+  
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+module.exports = {
+  buildCalendar,
+  formatDateTime
+};
@@ -0,0 +1,54 @@
+/**
+ * Notification Types
+ * Every notification has a type; each type belongs to a category, and members
+ * choose per category how they want to hear about it.
+ */
+
+// How a member wants to hear about a category
+// in-app: notification center only; email: also emailed straight away;
+// digest: also included in the periodic digest email; off: not recorded
+const NOTIFICATION_CHANNELS = ['in-app', 'email', 'digest', 'off'];
+
+const NOTIFICATION_CATEGORIES = {
+  swapRequests: 'New swap requests and counter-offers',
+  swapUpdates: 'Swaps accepted, rejected, cancelled, completed, expired or scheduled',
+  ratings: 'Ratings you receive',
+  disputes: 'No-show reports, disputes and their outcomes',
+  adminMessages: 'Announcements from the SkillSwap team'
+};
+
+// Notification type -> category
+const NOTIFICATION_TYPES = {
+  'swap.created': 'swapRequests',
+  'swap.countered': 'swapRequests',
+  'swap.accepted': 'swapUpdates',
+  'swap.rejected': 'swapUpdates',
+  'swap.cancelled': 'swapUpdates',
+  'swap.completed': 'swapUpdates',
+  'swap.expired': 'swapUpdates',
+  'swap.slots-proposed': 'swapUpdates',
+  'swap.scheduled': 'swapUpdates',
+  'swap.session-added': 'swapUpdates',
+  'swap.session-cancelled': 'swapUpdates',
+  'rating.new': 'ratings',
+  'dispute.opened': 'disputes',
+  'dispute.comment': 'disputes',
+  'dispute.resolved': 'disputes',
+  'admin.message': 'adminMessages'
+};
+
+const DEFAULT_CHANNEL = 'in-app';
+
+// How often a member receives the digest email (sent at 08:00 in their time zone)
+const DIGEST_FREQUENCIES = ['daily', 'weekly', 'off'];
+
+const DEFAULT_DIGEST_FREQUENCY = 'weekly';
+
+module.exports = {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_TYPES,
+  DEFAULT_CHANNEL,
+  DIGEST_FREQUENCIES,
+  DEFAULT_DIGEST_FREQUENCY
+};
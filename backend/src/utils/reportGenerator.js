@@ -1,6 +1,7 @@
 const createCsvWriter = require('csv-writer').createObjectCsvWriter;
 const path = require('path');
 const fs = require('fs');
+const { describeOffer } = require('./swapTerms');
 
 /**
  * Report Generator Utility
@@ -52,6 +53,36 @@ const cleanupFile = (filePath) => {
   }
 };
 
+/**
+ * Delete temporary files older than a given age
+ * @param {number} maxAgeMs - Minimum age of the files to delete
+ * @param {Array} keep - File names that are never deleted
+ * @returns {Promise<number>} - Number of files deleted
+ */
+const purgeTempFiles = async (maxAgeMs, keep = []) => {
+  const tempDir = ensureTempDir();
+  const cutoff = Date.now() - maxAgeMs;
+  let removed = 0;
+  
+  for (const name of await fs.promises.readdir(tempDir)) {
+    if (keep.includes(name)) continue;
+    
+    const filePath = path.join(tempDir, name);
+    
+    try {
+      const stats = await fs.promises.stat(filePath);
+      if (stats.isFile() && stats.mtimeMs < cutoff) {
+        await fs.promises.unlink(filePath);
+        removed += 1;
+      }
+    } catch (error) {
+      console.error('Error cleaning up file:', error);
+    }
+  }
+  
+  return removed;
+};
+
 /**
  * Format user data for CSV export
  * @param {Array} users - Array of user objects
@@ -63,8 +94,8 @@ const formatUserDataForCSV = (users) => {
     name: user.name,
     email: user.email,
     location: user.location || 'Not specified',
-    skillsOffered: user.skillsOffered.join(', '),
-    skillsWanted: user.skillsWanted.join(', '),
+    skillsOffered: user.skillsOffered.map(skill => skill.name).join(', '),
+    skillsWanted: user.skillsWanted.map(skill => skill.name).join(', '),
     totalSwaps: user.totalSwaps,
     averageRating: user.averageRating,
     totalRatings: user.totalRatings,
@@ -88,7 +119,7 @@ const formatSwapDataForCSV = (swaps) => {
     receiverName: swap.receiver.name,
     receiverEmail: swap.receiver.email,
     requestedSkill: swap.requestedSkill,
-    offeredSkill: swap.offeredSkill,
+    offeredSkill: describeOffer(swap),
     status: swap.status,
     meetingType: swap.meetingType,
     location: swap.location || 'Not specified',
@@ -193,6 +224,7 @@ const getCSVHeaders = {
 module.exports = {
   generateCSV,
   cleanupFile,
+  purgeTempFiles,
   formatUserDataForCSV,
   formatSwapDataForCSV,
   formatRatingDataForCSV,
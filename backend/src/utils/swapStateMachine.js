@@ -0,0 +1,209 @@
+const { AppError } = require('../middleware/errorHandler');
+
+/**
+ * Swap State Machine
+ * Single source of truth for how a swap's status may change, who may change it
+ * and the extra conditions each change must meet.
+ *
+ * Actors are resolved relative to the swap: 'requester', 'receiver', or 'system'
+ * for changes made by the platform itself (swap chains, expiry, dispute outcomes).
+ */
+
+// Chain legs change together through their swap chain
+const notChainLeg = (swap, role) => {
+  if (swap.chain && role !== 'system') {
+    return 'This swap is part of a swap chain; respond to the chain instead';
+  }
+  return null;
+};
+
+const notExpired = (swap, role) => {
+  if (role !== 'system' && swap.responseDeadline && swap.responseDeadline < new Date()) {
+    return 'This swap request has expired';
+  }
+  return null;
+};
+
+// Only the member the latest proposal was sent to can answer it
+const awaitingResponse = (swap, role) => {
+  if (role !== 'system' && getProposerRole(swap) === role) {
+    return 'Waiting for the other member to respond to your proposal';
+  }
+  return null;
+};
+
+// Multi-session swaps are completed by the system once every agreed session
+// took place, so members cannot close one with sessions still outstanding
+const singleSession = (swap, role) => {
+  if (role !== 'system' && swap.sessionCount > 1) {
+    return 'This swap completes automatically once every agreed session is completed';
+  }
+  return null;
+};
+
+const pastDeadline = (swap) => {
+  if (!swap.responseDeadline || swap.responseDeadline >= new Date()) {
+    return 'This swap request has not expired yet';
+  }
+  return null;
+};
+
+/**
+ * Allowed transitions, keyed by action
+ * from: statuses the action can start from
+ * to: resulting status
+ * actors: who may perform the action
+ * guards: extra checks returning an error message when the action is not allowed
+ */
+const TRANSITIONS = {
+  accept: {
+    from: ['pending'],
+    to: 'accepted',
+    actors: ['requester', 'receiver', 'system'],
+    guards: [notChainLeg, notExpired, awaitingResponse]
+  },
+  reject: {
+    from: ['pending'],
+    to: 'rejected',
+    actors: ['requester', 'receiver'],
+    guards: [notChainLeg, awaitingResponse]
+  },
+  counter: {
+    from: ['pending'],
+    to: 'pending',
+    actors: ['requester', 'receiver'],
+    guards: [notChainLeg, notExpired, awaitingResponse]
+  },
+  cancel: {
+    from: ['pending', 'accepted'],
+    to: 'cancelled',
+    actors: ['requester', 'system'],
+    guards: [notChainLeg]
+  },
+  complete: {
+    from: ['accepted'],
+    to: 'completed',
+    actors: ['requester', 'receiver', 'system'],
+    guards: [singleSession]
+  },
+  expire: {
+    from: ['pending'],
+    to: 'cancelled',
+    actors: ['system'],
+    guards: [pastDeadline]
+  },
+  // An admin resolving a dispute voids the swap, even once it is completed
+  void: {
+    from: ['pending', 'accepted', 'completed'],
+    to: 'cancelled',
+    actors: ['system'],
+    guards: []
+  }
+};
+
+// Swap details can only be edited by the requester before the receiver responds
+const EDITABLE_STATUSES = ['pending'];
+
+const idOf = (value) => (value && value._id ? value._id : value).toString();
+
+/**
+ * Role of the member who made the latest proposal
+ * Swaps created before counter-offers have no revisions; the requester proposed them
+ */
+const getProposerRole = (swap) => {
+  const revisions = swap.revisions || [];
+  return revisions.length > 0 ? revisions[revisions.length - 1].proposedByRole : 'requester';
+};
+
+/**
+ * Work out the role a user plays in a swap
+ * @param {Object} swap - Swap document (participants may be populated)
+ * @param {Object|null} user - Acting user, or null for the system
+ * @returns {string|null} 'requester', 'receiver', 'system' or null for outsiders
+ */
+const getActorRole = (swap, user) => {
+  if (!user) return 'system';
+  
+  const userId = idOf(user);
+  if (idOf(swap.requester) === userId) return 'requester';
+  if (idOf(swap.receiver) === userId) return 'receiver';
+  return null;
+};
+
+/**
+ * Check an action against the transition rules
+ * @returns {Object} The transition and actor role
+ * @throws {AppError} When the action is unknown or not allowed
+ */
+const assertTransition = (swap, action, user) => {
+  const transition = TRANSITIONS[action];
+  
+  if (!transition) {
+    throw new AppError(`Unknown swap action: ${action}`, 400);
+  }
+  
+  const role = getActorRole(swap, user);
+  
+  if (!transition.actors.includes(role)) {
+    throw new AppError(`Only the ${transition.actors.filter(actor => actor !== 'system').join(' or ')} can ${action} this swap`, 403);
+  }
+  
+  if (!transition.from.includes(swap.status)) {
+    throw new AppError(`Cannot ${action} a swap that is ${swap.status}`, 400);
+  }
+  
+  for (const guard of transition.guards) {
+    const error = guard(swap, role);
+    if (error) {
+      throw new AppError(error, 400);
+    }
+  }
+  
+  return { ...transition, role };
+};
+
+/**
+ * List the actions a user may currently take on a swap
+ */
+const getAvailableActions = (swap, user) => {
+  return Object.keys(TRANSITIONS).filter(action => {
+    try {
+      assertTransition(swap, action, user);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  });
+};
+
+/**
+ * Check that a user may edit a swap's details
+ * @throws {AppError} When the swap cannot be edited by this user
+ */
+const assertEditable = (swap, user) => {
+  if (getActorRole(swap, user) !== 'requester') {
+    throw new AppError('Only the requester can update swap details', 403);
+  }
+  
+  const chainError = notChainLeg(swap, 'requester');
+  if (chainError) {
+    throw new AppError(chainError, 400);
+  }
+  
+  if (!EDITABLE_STATUSES.includes(swap.status)) {
+    throw new AppError('Cannot update swap details after it has been responded to', 400);
+  }
+  
+  if (swap.revisions && swap.revisions.length > 1) {
+    throw new AppError('Cannot update swap details once a counter-offer has been made; send a counter-offer instead', 400);
+  }
+};
+
+module.exports = {
+  TRANSITIONS,
+  getActorRole,
+  getProposerRole,
+  assertTransition,
+  getAvailableActions,
+  assertEditable
+};
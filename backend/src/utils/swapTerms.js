@@ -0,0 +1,41 @@
+/**
+ * Swap Terms Utility
+ * The negotiable terms of a swap and helpers for comparing proposals
+ */
+
+const TERM_FIELDS = ['requestedSkill', 'offeredSkill', 'meetingType', 'location', 'proposedDate', 'duration', 'sessionCount'];
+
+// Comparable form of a term value; dates compare by timestamp, empty values match
+const normalize = (field, value) => {
+  if (value === undefined || value === null || value === '') return '';
+  if (field === 'proposedDate') return new Date(value).getTime();
+  return String(value).trim();
+};
+
+/**
+ * List the terms a proposal changes
+ * @param {Object} swap - Swap document holding the current terms
+ * @param {Object} terms - Proposed terms; fields left undefined are kept as they are
+ * @returns {Array} Changes as { field, from, to }
+ */
+const diffTerms = (swap, terms) => {
+  return TERM_FIELDS
+    .filter(field => terms[field] !== undefined)
+    .filter(field => normalize(field, swap[field]) !== normalize(field, terms[field]))
+    .map(field => ({
+      field,
+      from: swap[field],
+      to: field === 'proposedDate' && terms[field] ? new Date(terms[field]) : terms[field]
+    }));
+};
+
+/**
+ * What the requester gives in return, for messages: the offered skill or time credits
+ */
+const describeOffer = (swap) => (swap.paymentType === 'credits' ? 'time credits' : swap.offeredSkill);
+
+module.exports = {
+  TERM_FIELDS,
+  diffTerms,
+  describeOffer
+};
@@ -0,0 +1,87 @@
+/**
+ * Time Zone Utilities
+ * Wall clock conversions for IANA time zones (e.g. Europe/Berlin) using Intl
+ */
+
+const DEFAULT_TIME_ZONE = 'UTC';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const isValidTimeZone = (timeZone) => {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Wall clock time of a date in a time zone
+ * @returns {Object} { year, month (1-12), day, hour, minute, second, weekday (0 = Sunday) }
+ */
+const getZonedParts = (date, timeZone) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    weekday: 'short'
+  }).formatToParts(date);
+  
+  const values = Object.fromEntries(parts.map(({ type, value }) => [type, value]));
+  
+  return {
+    year: parseInt(values.year),
+    month: parseInt(values.month),
+    day: parseInt(values.day),
+    hour: parseInt(values.hour),
+    minute: parseInt(values.minute),
+    second: parseInt(values.second),
+    weekday: WEEKDAYS.indexOf(values.weekday)
+  };
+};
+
+// Milliseconds the time zone is ahead of UTC at the given instant
+const getOffset = (timestamp, timeZone) => {
+  const parts = getZonedParts(new Date(timestamp), timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+};
+
+/**
+ * Convert a wall clock time in a time zone to a Date
+ * Times skipped by a daylight saving change resolve to the hour after
+ * @param {Object} time - { year, month (1-12), day, hour, minute }
+ * @param {string} timeZone - IANA time zone
+ */
+const zonedTimeToDate = ({ year, month, day, hour = 0, minute = 0 }, timeZone) => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wallClock - getOffset(wallClock, timeZone);
+  return new Date(wallClock - getOffset(guess, timeZone));
+};
+
+/**
+ * Format a date for people in a time zone, e.g. "Monday, 3 March 2025 at 14:00"
+ */
+const formatInTimeZone = (date, timeZone) => {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    dateStyle: 'full',
+    timeStyle: 'short'
+  }).format(date);
+};
+
+module.exports = {
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  getZonedParts,
+  zonedTimeToDate,
+  formatInTimeZone
+};
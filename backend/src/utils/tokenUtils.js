@@ -0,0 +1,30 @@
+const crypto = require('crypto');
+
+/**
+ * Token Utility
+ * Helper functions for generating and hashing one-time tokens
+ */
+
+/**
+ * Generate a random URL-safe token
+ * @param {number} bytes - Number of random bytes to use
+ * @returns {string} - Hex encoded token
+ */
+const generateRandomToken = (bytes = 32) => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+/**
+ * Hash a token before storing or looking it up
+ * Only the hash is ever persisted so a database leak cannot be replayed
+ * @param {string} token - Plain token
+ * @returns {string} - SHA-256 hex digest
+ */
+const hashToken = (token) => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+module.exports = {
+  generateRandomToken,
+  hashToken
+};
@@ -0,0 +1,155 @@
+const mongoose = require('mongoose');
+const User = require('../src/models/User');
+const Swap = require('../src/models/Swap');
+const SwapChain = require('../src/models/SwapChain');
+const SwapSession = require('../src/models/SwapSession');
+const Dispute = require('../src/models/Dispute');
+const Rating = require('../src/models/Rating');
+const Session = require('../src/models/Session');
+const SecurityEvent = require('../src/models/SecurityEvent');
+const LoginThrottle = require('../src/models/LoginThrottle');
+const Message = require('../src/models/Message');
+const Notification = require('../src/models/Notification');
+const MailMessage = require('../src/models/MailMessage');
+const { notifySwapUpdate } = require('../src/services/notificationService');
+const { anonymizeUser } = require('../src/services/accountDeletionService');
+
+jest.mock('../src/services/notificationService', () => ({
+  ...jest.requireActual('../src/services/notificationService'),
+  notifySwapUpdate: jest.fn().mockResolvedValue([])
+}));
+
+const buildUser = () => new User({
+  _id: new mongoose.Types.ObjectId(),
+  name: 'Leaving Member',
+  email: 'leaving@example.com',
+  password: 'password123'
+});
+
+const buildSwap = (fields) => new Swap({
+  requester: new mongoose.Types.ObjectId(),
+  receiver: new mongoose.Types.ObjectId(),
+  requestedSkill: 'Guitar',
+  offeredSkill: 'Spanish',
+  ...fields
+});
+
+describe('anonymizeUser', () => {
+  let user;
+  
+  beforeEach(() => {
+    user = buildUser();
+    
+    jest.spyOn(Swap.prototype, 'save').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+    jest.spyOn(User.prototype, 'save').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+    jest.spyOn(SwapChain, 'find').mockResolvedValue([]);
+    [Swap, SwapSession, Dispute, Rating, Message].forEach(model => {
+      jest.spyOn(model, 'updateMany').mockResolvedValue({ modifiedCount: 0 });
+    });
+    jest.spyOn(Session, 'deleteMany').mockResolvedValue({});
+    jest.spyOn(SecurityEvent, 'deleteMany').mockResolvedValue({});
+    jest.spyOn(LoginThrottle, 'deleteOne').mockResolvedValue({});
+    jest.spyOn(Notification, 'deleteMany').mockResolvedValue({});
+    jest.spyOn(MailMessage, 'deleteMany').mockResolvedValue({});
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+    notifySwapUpdate.mockClear();
+  });
+  
+  it('cancels open swaps through the state machine and notifies the partner', async () => {
+    const swap = buildSwap({ receiver: user._id, status: 'accepted' });
+    jest.spyOn(Swap, 'find').mockResolvedValue([swap]);
+    
+    await anonymizeUser(user);
+    
+    expect(swap.status).toBe('cancelled');
+    expect(swap.statusHistory[swap.statusHistory.length - 1]).toMatchObject({
+      action: 'cancel',
+      from: 'accepted',
+      to: 'cancelled',
+      actorRole: 'system'
+    });
+    expect(SwapSession.updateMany).toHaveBeenCalledWith(
+      { swap: swap._id, status: 'scheduled' },
+      expect.anything()
+    );
+    expect(notifySwapUpdate).toHaveBeenCalledWith(swap, 'swap.cancelled', user, expect.any(String));
+    
+    // Swaps are no longer cancelled behind the state machine's back
+    const statusUpdates = Swap.updateMany.mock.calls.filter(([, changes]) => changes.$set && changes.$set.status);
+    expect(statusUpdates).toHaveLength(0);
+  });
+  
+  it('cancels chain legs together with their chain', async () => {
+    const chain = new SwapChain({
+      initiator: user._id,
+      participants: [user._id, new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()].map(member => ({
+        user: member,
+        teaches: 'Guitar',
+        learns: 'Spanish'
+      }))
+    });
+    const leg = buildSwap({ requester: user._id, chain: chain._id });
+    const otherLeg = buildSwap({ chain: chain._id });
+    chain.legs = [leg._id, otherLeg._id];
+    
+    jest.spyOn(Swap, 'find')
+      .mockResolvedValueOnce([leg])
+      .mockResolvedValueOnce([leg, otherLeg]);
+    jest.spyOn(SwapChain, 'find').mockResolvedValue([chain]);
+    const update = jest.spyOn(SwapChain, 'findOneAndUpdate').mockResolvedValue(chain);
+    
+    await anonymizeUser(user);
+    
+    const [filter, changes] = update.mock.calls[0];
+    expect(filter).toMatchObject({ _id: chain._id, status: { $in: ['pending', 'accepted'] } });
+    expect(changes.$set).toMatchObject({ status: 'cancelled', cancelledBy: user._id });
+    expect(leg.status).toBe('cancelled');
+    expect(otherLeg.status).toBe('cancelled');
+    expect(notifySwapUpdate).toHaveBeenCalledTimes(2);
+  });
+  
+  it('leaves the legs alone when the chain was already closed', async () => {
+    const chainId = new mongoose.Types.ObjectId();
+    const leg = buildSwap({ requester: user._id, chain: chainId });
+    
+    jest.spyOn(Swap, 'find').mockResolvedValue([leg]);
+    jest.spyOn(SwapChain, 'find').mockResolvedValue([new SwapChain({ _id: chainId, initiator: user._id })]);
+    jest.spyOn(SwapChain, 'findOneAndUpdate').mockResolvedValue(null);
+    
+    await anonymizeUser(user);
+    
+    expect(leg.status).toBe('pending');
+    expect(notifySwapUpdate).not.toHaveBeenCalled();
+  });
+  
+  it('scrubs the profile once the swaps are cancelled', async () => {
+    jest.spyOn(Swap, 'find').mockResolvedValue([]);
+    
+    await anonymizeUser(user);
+    
+    expect(user.name).toBe('Deleted User');
+    expect(user.email).toBe(`deleted-${user._id}@deleted.invalid`);
+    expect(user.anonymizedAt).toBeInstanceOf(Date);
+    expect(LoginThrottle.deleteOne).toHaveBeenCalledWith({ key: 'account:leaving@example.com' });
+  });
+  
+  it('removes the text of the user\'s messages, their notifications and the emails sent to them', async () => {
+    jest.spyOn(Swap, 'find').mockResolvedValue([]);
+    
+    await anonymizeUser(user);
+    
+    expect(Message.updateMany).toHaveBeenCalledWith(
+      { sender: user._id, deletedAt: { $exists: false } },
+      { $set: { deletedAt: expect.any(Date) }, $unset: { body: 1 } }
+    );
+    expect(Notification.deleteMany).toHaveBeenCalledWith({ user: user._id });
+    expect(MailMessage.deleteMany).toHaveBeenCalledWith({ to: 'leaving@example.com' });
+  });
+});
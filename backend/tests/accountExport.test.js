@@ -0,0 +1,93 @@
+const mongoose = require('mongoose');
+const User = require('../src/models/User');
+const Swap = require('../src/models/Swap');
+const SwapSession = require('../src/models/SwapSession');
+const CreditTransaction = require('../src/models/CreditTransaction');
+const Dispute = require('../src/models/Dispute');
+const Rating = require('../src/models/Rating');
+const AdminMessage = require('../src/models/AdminMessage');
+const Conversation = require('../src/models/Conversation');
+const Message = require('../src/models/Message');
+const Notification = require('../src/models/Notification');
+const MailMessage = require('../src/models/MailMessage');
+const { writeAccountExport } = require('../src/services/accountExportService');
+const { mockQuery } = require('./helpers');
+
+// Collect the archive entries instead of zipping them
+const mockArchive = { entries: {} };
+
+jest.mock('archiver', () => () => ({
+  pipe: jest.fn(),
+  append: (content, { name }) => {
+    mockArchive.entries[name] = JSON.parse(content);
+  },
+  file: jest.fn(),
+  finalize: jest.fn().mockResolvedValue()
+}));
+
+jest.mock('../src/utils/reportGenerator', () => ({
+  ...jest.requireActual('../src/utils/reportGenerator'),
+  generateCSV: jest.fn(async (rows, headers, name) => `/tmp/${name}`),
+  cleanupFile: jest.fn()
+}));
+
+describe('writeAccountExport', () => {
+  const userId = new mongoose.Types.ObjectId();
+  const partnerId = new mongoose.Types.ObjectId();
+  const conversationId = new mongoose.Types.ObjectId();
+  
+  beforeEach(() => {
+    mockArchive.entries = {};
+    
+    jest.spyOn(User, 'findById').mockReturnValue(mockQuery({
+      _id: userId,
+      name: 'Member',
+      email: 'member@example.com',
+      password: 'hash',
+      skillsOffered: [],
+      skillsWanted: [],
+      createdAt: new Date()
+    }));
+    [Swap, SwapSession, CreditTransaction, Dispute, Rating, AdminMessage].forEach(model => {
+      jest.spyOn(model, 'find').mockReturnValue(mockQuery([]));
+    });
+    jest.spyOn(Conversation, 'find').mockReturnValue(mockQuery([
+      { _id: conversationId, participants: [userId, partnerId] }
+    ]));
+    jest.spyOn(Message, 'find').mockReturnValue(mockQuery([
+      { conversation: conversationId, sender: partnerId, body: 'Hello!' },
+      { conversation: new mongoose.Types.ObjectId(), sender: partnerId, body: 'Elsewhere' }
+    ]));
+    jest.spyOn(Notification, 'find').mockReturnValue(mockQuery([
+      { user: userId, type: 'swap.accepted', title: 'Swap accepted' }
+    ]));
+    jest.spyOn(MailMessage, 'find').mockReturnValue(mockQuery([
+      { template: 'notification', subject: 'Swap accepted', text: 'Your swap was accepted', sensitive: false },
+      { template: 'password-reset', subject: 'Reset your password', text: 'https://example.com/reset/secret', sensitive: true }
+    ]));
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('includes conversations with their messages and the user\'s notifications', async () => {
+    await writeAccountExport(userId, {});
+    
+    const [conversation] = mockArchive.entries['conversations.json'];
+    expect(Conversation.find).toHaveBeenCalledWith({ participants: userId });
+    expect(conversation.messages).toEqual([expect.objectContaining({ body: 'Hello!' })]);
+    expect(mockArchive.entries['notifications.json']).toEqual([expect.objectContaining({ type: 'swap.accepted' })]);
+    expect(mockArchive.entries['profile.json'].password).toBeUndefined();
+  });
+  
+  it('includes emails sent to the user without the bodies of one-time links', async () => {
+    await writeAccountExport(userId, {});
+    
+    expect(MailMessage.find).toHaveBeenCalledWith({ to: 'member@example.com' });
+    expect(mockArchive.entries['emails.json']).toEqual([
+      { template: 'notification', subject: 'Swap accepted', text: 'Your swap was accepted' },
+      { template: 'password-reset', subject: 'Reset your password' }
+    ]);
+  });
+});
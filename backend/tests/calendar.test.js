@@ -0,0 +1,174 @@
+const mongoose = require('mongoose');
+const User = require('../src/models/User');
+const { buildCalendar } = require('../src/utils/icalendar');
+const {
+  buildSessionEvent,
+  createFeedToken,
+  revokeFeedToken,
+  findFeedOwner
+} = require('../src/services/calendarService');
+const { getFeed } = require('../src/controllers/calendarController');
+const { mockRequest, runHandler } = require('./helpers');
+
+const unfold = (calendar) => calendar.replace(/\r\n /g, '');
+const linesOf = (calendar) => unfold(calendar).split('\r\n');
+
+describe('buildCalendar', () => {
+  const event = {
+    uid: 'session-1@skillswap.test',
+    sequence: 3,
+    stamp: new Date('2026-06-01T08:00:00Z'),
+    start: new Date('2026-06-02T17:00:00Z'),
+    end: new Date('2026-06-02T18:30:00Z'),
+    summary: 'Guitar; chords, scales',
+    description: 'Line one\nLine two \\ backslash',
+    status: 'TENTATIVE'
+  };
+  
+  it('serialises events with UTC times and escaped text', () => {
+    const lines = linesOf(buildCalendar({ name: 'Skill Swap', events: [event] }));
+    
+    expect(lines.slice(0, 5)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0', expect.stringMatching(/^PRODID:/), 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH']);
+    expect(lines).toEqual(expect.arrayContaining([
+      'BEGIN:VEVENT',
+      'UID:session-1@skillswap.test',
+      'SEQUENCE:3',
+      'DTSTAMP:20260601T080000Z',
+      'DTSTART:20260602T170000Z',
+      'DTEND:20260602T183000Z',
+      'SUMMARY:Guitar\\; chords\\, scales',
+      'DESCRIPTION:Line one\\nLine two \\\\ backslash',
+      'STATUS:TENTATIVE',
+      'END:VEVENT'
+    ]));
+    expect(lines.slice(-2)).toEqual(['END:VCALENDAR', '']);
+  });
+  
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const calendar = buildCalendar({ events: [{ ...event, description: 'é'.repeat(100) }] });
+    const physicalLines = calendar.split('\r\n');
+    
+    physicalLines.forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+    expect(linesOf(calendar)).toContain(`DESCRIPTION:${'é'.repeat(100)}`);
+  });
+  
+  it('asks calendar apps to refresh feeds', () => {
+    const lines = linesOf(buildCalendar({ name: 'Feed', refreshMinutes: 60 }));
+    
+    expect(lines).toEqual(expect.arrayContaining(['REFRESH-INTERVAL;VALUE=DURATION:PT60M', 'X-PUBLISHED-TTL:PT60M']));
+  });
+});
+
+describe('buildSessionEvent', () => {
+  const requester = { _id: new mongoose.Types.ObjectId(), name: 'Alice' };
+  const receiver = { _id: new mongoose.Types.ObjectId(), name: 'Bob' };
+  const swap = {
+    _id: new mongoose.Types.ObjectId(),
+    requester,
+    receiver,
+    requestedSkill: 'Guitar',
+    offeredSkill: 'Spanish',
+    paymentType: 'skill',
+    meetingType: 'online',
+    status: 'accepted',
+    updatedAt: new Date('2026-06-01T08:00:00Z')
+  };
+  const session = {
+    _id: new mongoose.Types.ObjectId(),
+    teacher: receiver._id,
+    scheduledFor: new Date('2026-06-02T17:00:00Z'),
+    minutes: 60,
+    status: 'scheduled',
+    updatedAt: new Date('2026-06-01T09:00:00Z')
+  };
+  
+  it('describes the session for the viewing member', () => {
+    const event = buildSessionEvent(swap, session, requester._id);
+    
+    expect(event).toMatchObject({
+      uid: `session-${session._id}@localhost`,
+      summary: 'Guitar with Bob',
+      start: session.scheduledFor,
+      end: new Date('2026-06-02T18:00:00Z'),
+      location: 'Online',
+      status: 'CONFIRMED'
+    });
+    expect(event.description).toContain('Bob teaches Guitar to Alice');
+  });
+  
+  it('keeps the uid and raises the sequence when the session is cancelled', () => {
+    const before = buildSessionEvent(swap, session, receiver._id);
+    const after = buildSessionEvent(swap, { ...session, status: 'cancelled', updatedAt: new Date('2026-06-01T10:00:00Z') }, receiver._id);
+    
+    expect(after.uid).toBe(before.uid);
+    expect(after.sequence).toBeGreaterThan(before.sequence);
+    expect(after).toMatchObject({ status: 'CANCELLED', summary: 'Cancelled: Guitar with Alice' });
+  });
+});
+
+describe('calendar feed tokens', () => {
+  let user;
+  
+  // Applies feed updates to the one stored user, and finds them by feed token hash
+  const stubUsers = () => {
+    jest.spyOn(User, 'updateOne').mockImplementation(async (filter, { $set = {}, $unset = {} }) => {
+      Object.entries($set).forEach(([path, value]) => user.set(path, value));
+      Object.keys($unset).forEach(path => user.set(path, undefined));
+      return { modifiedCount: 1 };
+    });
+    jest.spyOn(User, 'findOne').mockImplementation(async (filter) => {
+      const tokenHash = user.calendarFeed && user.calendarFeed.tokenHash;
+      const matches = tokenHash === filter['calendarFeed.tokenHash'] &&
+        user.isActive === filter.isActive &&
+        user.isBanned === filter.isBanned;
+      return matches ? user : null;
+    });
+  };
+  
+  const tokenOf = (url) => /\/api\/calendar\/(.+)\.ics$/.exec(url)[1];
+  
+  const requestFeed = (token) => runHandler(getFeed, mockRequest({ params: { token } }));
+  
+  beforeEach(() => {
+    user = new User({ name: 'Member', email: 'member@example.com', password: 'password123' });
+    stubUsers();
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('stores only a hash of the token in the feed URL', async () => {
+    const { url } = await createFeedToken(user);
+    const token = tokenOf(url);
+    
+    expect(user.calendarFeed.tokenHash).toBeDefined();
+    expect(user.calendarFeed.tokenHash).not.toBe(token);
+    expect(await findFeedOwner(token)).toBe(user);
+    expect(user.calendarFeed.lastAccessedAt).toBeInstanceOf(Date);
+  });
+  
+  it('stops serving the feed once it is turned off', async () => {
+    const token = tokenOf((await createFeedToken(user)).url);
+    
+    await revokeFeedToken(user);
+    const { error } = await requestFeed(token);
+    
+    expect(error.statusCode).toBe(404);
+  });
+  
+  it('stops serving the old URL when a new one is created', async () => {
+    const oldToken = tokenOf((await createFeedToken(user)).url);
+    const newToken = tokenOf((await createFeedToken(user)).url);
+    
+    expect((await requestFeed(oldToken)).error.statusCode).toBe(404);
+    expect(await findFeedOwner(newToken)).toBe(user);
+  });
+  
+  it('does not serve the feeds of banned members', async () => {
+    const token = tokenOf((await createFeedToken(user)).url);
+    user.isBanned = true;
+    
+    expect((await requestFeed(token)).error.statusCode).toBe(404);
+  });
+});
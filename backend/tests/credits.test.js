@@ -0,0 +1,178 @@
+const mongoose = require('mongoose');
+const Swap = require('../src/models/Swap');
+const SwapSession = require('../src/models/SwapSession');
+const CreditTransaction = require('../src/models/CreditTransaction');
+const { paySession, assertCanRefund, refundSwap } = require('../src/services/creditService');
+const { createSession, recordAttendance } = require('../src/services/swapSessionService');
+const { updateSwap, completeSwap } = require('../src/controllers/swapController');
+const { mockRequest, runHandler, mockQuery } = require('./helpers');
+
+const HOUR_AGO = () => new Date(Date.now() - 60 * 60 * 1000);
+
+/**
+ * Stub the ledger: the member's balance, and no other open credit swaps holding credits
+ */
+const stubWallet = (balance) => {
+  jest.spyOn(CreditTransaction, 'create').mockImplementation(async (entry) => ({ _id: new mongoose.Types.ObjectId(), ...entry }));
+  jest.spyOn(CreditTransaction, 'getBalance').mockResolvedValue(balance);
+  jest.spyOn(Swap, 'find').mockReturnValue(mockQuery([]));
+};
+
+const postedKinds = () => CreditTransaction.create.mock.calls.map(([entry]) => entry.kind);
+
+const buildCreditSwap = (overrides = {}) => new Swap({
+  requester: new mongoose.Types.ObjectId(),
+  receiver: new mongoose.Types.ObjectId(),
+  requestedSkill: 'Guitar',
+  paymentType: 'credits',
+  sessionCount: 1,
+  sessionMinutes: 60,
+  ...overrides
+});
+
+describe('credit swaps', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('checks the requester can afford more sessions when updating a swap', async () => {
+    const swap = buildCreditSwap();
+    stubWallet(120);
+    jest.spyOn(Swap, 'findById').mockResolvedValue(swap);
+    const update = jest.spyOn(Swap, 'findByIdAndUpdate');
+    
+    const { error } = await runHandler(updateSwap, mockRequest({
+      params: { id: swap._id.toString() },
+      user: { _id: swap.requester },
+      body: { sessionCount: 3 }
+    }));
+    
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toMatch(/costs 3 hours of time credits but only 2 hours are available/);
+    expect(update).not.toHaveBeenCalled();
+  });
+  
+  it('checks the requester can afford longer sessions when booking one', async () => {
+    const swap = buildCreditSwap({ status: 'accepted', sessionCount: 2 });
+    stubWallet(120);
+    jest.spyOn(SwapSession, 'aggregate').mockResolvedValue([]);
+    const create = jest.spyOn(SwapSession, 'create');
+    
+    await expect(createSession(swap, { scheduledFor: new Date(), minutes: 90 }, { _id: swap.requester }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(create).not.toHaveBeenCalled();
+  });
+  
+  describe('paying for sessions', () => {
+    let swap;
+    let session;
+    
+    beforeEach(() => {
+      swap = buildCreditSwap({ status: 'accepted' });
+      session = new SwapSession({
+        swap: swap._id,
+        teacher: swap.receiver,
+        learner: swap.requester,
+        scheduledFor: HOUR_AGO(),
+        minutes: 60,
+        attendance: [{ member: swap.requester, attended: true }]
+      });
+      jest.spyOn(SwapSession.prototype, 'save').mockImplementation(function() {
+        return Promise.resolve(this);
+      });
+    });
+    
+    it('moves the session minutes from the learner to the teacher', async () => {
+      stubWallet(60);
+      
+      const payment = await paySession(swap, session);
+      
+      expect(payment).toMatchObject({ kind: 'session', minutes: 60, from: swap.requester.toString(), to: swap.receiver.toString() });
+    });
+    
+    it('refuses to overdraw the learner', async () => {
+      stubWallet(30);
+      
+      await expect(paySession(swap, session)).rejects.toMatchObject({ statusCode: 400 });
+      expect(postedKinds()).not.toContain('session');
+    });
+    
+    it('lets a skill swap session overdraw its learner', async () => {
+      swap.paymentType = 'skill';
+      swap.offeredSkill = 'Spanish';
+      stubWallet(0);
+      
+      const payment = await paySession(swap, session);
+      
+      expect(payment).toMatchObject({ kind: 'session', minutes: 60 });
+      expect(CreditTransaction.getBalance).not.toHaveBeenCalled();
+    });
+    
+    it('does not complete a session the learner cannot pay for', async () => {
+      stubWallet(30);
+      
+      await expect(recordAttendance(swap, session, { _id: swap.receiver }, true)).rejects.toMatchObject({ statusCode: 400 });
+      expect(session.status).toBe('scheduled');
+      expect(SwapSession.prototype.save).not.toHaveBeenCalled();
+      expect(postedKinds()).not.toContain('session');
+    });
+  });
+  
+  it('refuses to complete a swap whose settlement the requester cannot pay', async () => {
+    const swap = buildCreditSwap({ status: 'accepted' });
+    stubWallet(30);
+    jest.spyOn(Swap, 'findById').mockResolvedValue(swap);
+    const save = jest.spyOn(Swap.prototype, 'save');
+    
+    const { error } = await runHandler(completeSwap, mockRequest({
+      params: { id: swap._id.toString() },
+      user: { _id: swap.requester }
+    }));
+    
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toMatch(/settles 1 hour of time credits/);
+    expect(swap.status).toBe('accepted');
+    expect(save).not.toHaveBeenCalled();
+    expect(postedKinds()).not.toContain('settlement');
+  });
+  
+  describe('refunding a voided swap', () => {
+    let swap;
+    let payments;
+    
+    beforeEach(() => {
+      swap = buildCreditSwap({ status: 'completed', sessionCount: 2 });
+      payments = [1, 2].map(() => ({
+        _id: new mongoose.Types.ObjectId(),
+        from: swap.requester,
+        to: swap.receiver,
+        minutes: 60,
+        kind: 'session'
+      }));
+      jest.spyOn(CreditTransaction, 'find').mockImplementation(async ({ kind }) => (kind === 'refund' ? [] : payments));
+    });
+    
+    it('refuses when the member who was paid cannot give the credits back', async () => {
+      stubWallet(90);
+      
+      await expect(assertCanRefund(swap)).rejects.toMatchObject({ statusCode: 400 });
+    });
+    
+    it('reverses every payment when the credits are there', async () => {
+      stubWallet(120);
+      
+      await expect(assertCanRefund(swap)).resolves.toBeUndefined();
+      const refunds = await refundSwap(swap);
+      
+      expect(refunds).toHaveLength(2);
+      expect(refunds[0]).toMatchObject({ kind: 'refund', from: swap.receiver, to: swap.requester, reverses: payments[0]._id });
+    });
+    
+    it('does not check skill swap refunds', async () => {
+      swap.paymentType = 'skill';
+      stubWallet(0);
+      
+      await expect(assertCanRefund(swap)).resolves.toBeUndefined();
+    });
+  });
+});
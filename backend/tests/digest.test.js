@@ -0,0 +1,130 @@
+const mongoose = require('mongoose');
+const User = require('../src/models/User');
+const Swap = require('../src/models/Swap');
+const Rating = require('../src/models/Rating');
+const AdminMessage = require('../src/models/AdminMessage');
+const Notification = require('../src/models/Notification');
+const { findMatches } = require('../src/services/matchingService');
+const { queueEmail } = require('../src/services/mailService');
+const { getNextDigestAt, processDigest } = require('../src/services/digestService');
+const { mockQuery } = require('./helpers');
+
+jest.mock('../src/services/matchingService', () => ({
+  ...jest.requireActual('../src/services/matchingService'),
+  findMatches: jest.fn()
+}));
+
+jest.mock('../src/services/mailService', () => ({
+  ...jest.requireActual('../src/services/mailService'),
+  queueEmail: jest.fn().mockResolvedValue({})
+}));
+
+const at = (iso) => new Date(iso);
+
+describe('getNextDigestAt', () => {
+  it('sends a daily digest at 08:00 later the same day when it is still early', () => {
+    // 07:00 in Tokyo (UTC+9)
+    expect(getNextDigestAt(at('2026-06-01T22:00:00Z'), 'daily', 'Asia/Tokyo')).toEqual(at('2026-06-01T23:00:00Z'));
+  });
+  
+  it('moves a daily digest to the next day once 08:00 has passed', () => {
+    // 08:00 exactly counts as passed, so a digest is never sent twice at the same time
+    expect(getNextDigestAt(at('2026-06-01T08:00:00Z'), 'daily', 'UTC')).toEqual(at('2026-06-02T08:00:00Z'));
+    expect(getNextDigestAt(at('2026-06-01T13:30:00Z'), 'daily', 'America/New_York')).toEqual(at('2026-06-02T12:00:00Z'));
+  });
+  
+  it('keeps 08:00 local time when clocks go forward', () => {
+    // Europe moves to summer time on 29 March 2026, New York on 8 March 2026
+    expect(getNextDigestAt(at('2026-03-28T12:00:00Z'), 'daily', 'Europe/Berlin')).toEqual(at('2026-03-29T06:00:00Z'));
+    expect(getNextDigestAt(at('2026-03-07T14:00:00Z'), 'daily', 'America/New_York')).toEqual(at('2026-03-08T12:00:00Z'));
+  });
+  
+  it('keeps 08:00 local time when clocks go back', () => {
+    // Europe returns to standard time on 25 October 2026
+    expect(getNextDigestAt(at('2026-10-24T07:00:00Z'), 'daily', 'Europe/Berlin')).toEqual(at('2026-10-25T07:00:00Z'));
+  });
+  
+  it('sends a weekly digest on the next Monday', () => {
+    // Monday 1 June 2026, after 08:00
+    expect(getNextDigestAt(at('2026-06-01T09:00:00Z'), 'weekly', 'UTC')).toEqual(at('2026-06-08T08:00:00Z'));
+    // Wednesday 3 June 2026
+    expect(getNextDigestAt(at('2026-06-03T09:00:00Z'), 'weekly', 'UTC')).toEqual(at('2026-06-08T08:00:00Z'));
+  });
+  
+  it('uses the member\'s own weekday for weekly digests', () => {
+    // Sunday evening in UTC is already Monday morning in Auckland (UTC+12)
+    expect(getNextDigestAt(at('2026-06-07T19:00:00Z'), 'weekly', 'Pacific/Auckland')).toEqual(at('2026-06-07T20:00:00Z'));
+    // Monday morning in UTC is still Sunday in Los Angeles (UTC-7)
+    expect(getNextDigestAt(at('2026-06-01T05:00:00Z'), 'weekly', 'America/Los_Angeles')).toEqual(at('2026-06-01T15:00:00Z'));
+  });
+});
+
+describe('processDigest', () => {
+  const now = at('2026-06-02T08:00:00Z');
+  
+  const buildUser = (digest, fields = {}) => new User({
+    _id: new mongoose.Types.ObjectId(),
+    name: 'Member',
+    email: 'member@example.com',
+    password: 'password123',
+    timezone: 'Europe/Berlin',
+    digest: { frequency: 'daily', ...digest },
+    ...fields
+  });
+  
+  beforeEach(() => {
+    jest.spyOn(User, 'updateOne').mockResolvedValue({});
+    jest.spyOn(Swap, 'find').mockReturnValue(mockQuery([]));
+    jest.spyOn(Rating, 'find').mockReturnValue(mockQuery([]));
+    jest.spyOn(AdminMessage, 'find').mockReturnValue(mockQuery([]));
+    jest.spyOn(Notification, 'find').mockReturnValue(mockQuery([]));
+    jest.spyOn(Notification, 'updateMany').mockResolvedValue({});
+    findMatches.mockResolvedValue([]);
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+    queueEmail.mockClear();
+  });
+  
+  it('only schedules the first digest of a member seen for the first time', async () => {
+    const user = buildUser({});
+    
+    expect(await processDigest(user, now)).toBe('scheduled');
+    expect(User.updateOne).toHaveBeenCalledWith({ _id: user._id }, { $set: { 'digest.nextDueAt': at('2026-06-03T06:00:00Z') } });
+    expect(queueEmail).not.toHaveBeenCalled();
+  });
+  
+  it('skips the email but schedules the next digest when there is nothing to report', async () => {
+    const user = buildUser({ nextDueAt: now });
+    
+    expect(await processDigest(user, now)).toBe('skipped');
+    expect(queueEmail).not.toHaveBeenCalled();
+    expect(User.updateOne.mock.calls[0][1].$set).toEqual({
+      'digest.nextDueAt': at('2026-06-03T06:00:00Z'),
+      'digest.lastRunAt': now
+    });
+  });
+  
+  it('sends held back notifications and marks them as emailed', async () => {
+    const user = buildUser({ nextDueAt: now });
+    const notification = { _id: new mongoose.Types.ObjectId(), type: 'swap.accepted', title: 'Swap accepted', link: '/swaps/1' };
+    Notification.find.mockReturnValue(mockQuery([notification]));
+    
+    expect(await processDigest(user, now)).toBe('sent');
+    expect(queueEmail).toHaveBeenCalledWith('digest', 'member@example.com', expect.objectContaining({
+      frequency: 'daily',
+      sections: [expect.objectContaining({ title: 'Other updates', items: [expect.objectContaining({ text: 'Swap accepted' })] })]
+    }));
+    expect(Notification.updateMany).toHaveBeenCalledWith({ _id: { $in: [notification._id] } }, { $set: { emailedAt: now } });
+    expect(User.updateOne.mock.calls[0][1].$set['digest.lastSentAt']).toEqual(now);
+  });
+  
+  it('falls back to UTC for members with an unknown time zone', async () => {
+    const user = buildUser({}, { timezone: 'Mars/Olympus_Mons' });
+    
+    await processDigest(user, now);
+    
+    expect(User.updateOne.mock.calls[0][1].$set['digest.nextDueAt']).toEqual(at('2026-06-03T08:00:00Z'));
+  });
+});
@@ -0,0 +1,183 @@
+const mongoose = require('mongoose');
+const User = require('../src/models/User');
+const Swap = require('../src/models/Swap');
+const Dispute = require('../src/models/Dispute');
+const Session = require('../src/models/Session');
+const SwapSession = require('../src/models/SwapSession');
+const CreditTransaction = require('../src/models/CreditTransaction');
+const { notifyDisputeUpdate } = require('../src/services/notificationService');
+const { resolveDispute } = require('../src/services/disputeService');
+const { mockQuery } = require('./helpers');
+
+jest.mock('../src/services/notificationService', () => ({
+  ...jest.requireActual('../src/services/notificationService'),
+  notifyDisputeUpdate: jest.fn().mockResolvedValue([])
+}));
+
+const buildDispute = (swapFields = {}) => {
+  const swap = new Swap({
+    requester: new mongoose.Types.ObjectId(),
+    receiver: new mongoose.Types.ObjectId(),
+    requestedSkill: 'Guitar',
+    offeredSkill: 'Spanish',
+    status: 'accepted',
+    ...swapFields
+  });
+  const dispute = new Dispute({
+    swap: swap._id,
+    openedBy: swap.requester,
+    against: swap.receiver,
+    reason: 'no-show',
+    comments: [{ author: swap.requester, body: 'They did not turn up' }]
+  });
+  dispute.swap = swap;
+  
+  return { dispute, swap };
+};
+
+describe('resolveDispute', () => {
+  const admin = { _id: new mongoose.Types.ObjectId() };
+  let dispute;
+  let swap;
+  
+  beforeEach(() => {
+    ({ dispute, swap } = buildDispute());
+    
+    // The claim succeeds once, like the conditional update on an open dispute
+    let open = true;
+    jest.spyOn(Dispute, 'findOneAndUpdate').mockImplementation(async (filter, { $set }) => {
+      if (!open) return null;
+      open = false;
+      return Object.assign(dispute, $set);
+    });
+    jest.spyOn(User, 'updateOne').mockResolvedValue({});
+    jest.spyOn(User, 'updateMany').mockResolvedValue({});
+    jest.spyOn(Swap.prototype, 'save').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+    notifyDisputeUpdate.mockClear();
+  });
+  
+  it('claims the dispute with a conditional update before applying the outcome', async () => {
+    const resolved = await resolveDispute(dispute, admin, { outcome: 'dismiss', note: 'Both sides agreed' });
+    
+    const [filter, changes] = Dispute.findOneAndUpdate.mock.calls[0];
+    expect(filter).toEqual({ _id: dispute._id, status: 'open' });
+    expect(changes.$set).toMatchObject({ status: 'resolved', resolution: { outcome: 'dismiss', resolvedBy: admin._id } });
+    expect(resolved.status).toBe('resolved');
+    expect(User.updateMany).toHaveBeenCalledWith(
+      { _id: { $in: [swap.requester.toString(), swap.receiver.toString()] } },
+      { $inc: { 'reliability.disputes': 1 } }
+    );
+    expect(notifyDisputeUpdate).toHaveBeenCalledWith(dispute, 'dispute.resolved', [swap.requester, swap.receiver], expect.stringContaining('dismissed'));
+  });
+  
+  it('applies the outcome only once when two admins resolve the dispute at the same time', async () => {
+    const decision = { outcome: 'warn', atFault: swap.receiver.toString() };
+    
+    const results = await Promise.allSettled([
+      resolveDispute(dispute, admin, decision),
+      resolveDispute(dispute, admin, decision)
+    ]);
+    
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(result => result.status === 'rejected').reason.statusCode).toBe(409);
+    const warnings = User.updateOne.mock.calls.filter(([, update]) => update.$inc['reliability.warnings']);
+    expect(warnings).toHaveLength(1);
+    expect(notifyDisputeUpdate).toHaveBeenCalledTimes(1);
+  });
+  
+  it('counts a lost no-show dispute against the member at fault', async () => {
+    await resolveDispute(dispute, admin, { outcome: 'warn', atFault: swap.receiver.toString() });
+    
+    expect(User.updateOne).toHaveBeenCalledWith({ _id: swap.receiver.toString() }, { $inc: { 'reliability.warnings': 1 } });
+    expect(User.updateOne).toHaveBeenCalledWith(
+      { _id: swap.receiver.toString() },
+      { $inc: { 'reliability.disputesLost': 1, 'reliability.noShows': 1 } }
+    );
+  });
+  
+  it('requires the member at fault to be part of the dispute', async () => {
+    await expect(resolveDispute(dispute, admin, { outcome: 'warn', atFault: new mongoose.Types.ObjectId().toString() }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(Dispute.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+  
+  describe('banning', () => {
+    it('bans the member at fault and signs them out everywhere', async () => {
+      const member = new User({ _id: swap.receiver, name: 'Bob', email: 'bob@example.com', password: 'password123' });
+      jest.spyOn(User, 'findById').mockResolvedValue(member);
+      jest.spyOn(User.prototype, 'save').mockResolvedValue(member);
+      jest.spyOn(Session, 'revokeAllForUser').mockResolvedValue({});
+      
+      await resolveDispute(dispute, admin, { outcome: 'ban', atFault: swap.receiver.toString(), note: 'Repeated no-shows' });
+      
+      expect(member).toMatchObject({ isBanned: true, banReason: 'Repeated no-shows' });
+      expect(Session.revokeAllForUser).toHaveBeenCalledWith(member._id, 'admin');
+    });
+    
+    it('leaves the dispute open when the member at fault no longer exists', async () => {
+      jest.spyOn(User, 'findById').mockResolvedValue(null);
+      
+      await expect(resolveDispute(dispute, admin, { outcome: 'ban', atFault: swap.receiver.toString() }))
+        .rejects.toMatchObject({ statusCode: 404 });
+      expect(Dispute.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+    
+    it('leaves the dispute open when the member at fault is an admin', async () => {
+      jest.spyOn(User, 'findById').mockResolvedValue({ _id: swap.receiver, role: 'admin' });
+      
+      await expect(resolveDispute(dispute, admin, { outcome: 'ban', atFault: swap.receiver.toString() }))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(Dispute.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('voiding the swap', () => {
+    const stubLedger = (balance, payments) => {
+      jest.spyOn(CreditTransaction, 'create').mockImplementation(async (entry) => entry);
+      jest.spyOn(CreditTransaction, 'getBalance').mockResolvedValue(balance);
+      jest.spyOn(CreditTransaction, 'find').mockImplementation(async ({ kind }) => (kind === 'refund' ? [] : payments));
+      jest.spyOn(Swap, 'find').mockReturnValue(mockQuery([]));
+      jest.spyOn(SwapSession, 'updateMany').mockResolvedValue({});
+    };
+    
+    const sessionPayment = () => ({
+      _id: new mongoose.Types.ObjectId(),
+      from: swap.requester,
+      to: swap.receiver,
+      minutes: 60,
+      kind: 'session'
+    });
+    
+    it('voids a completed swap, refunds its payments and takes it off both members\' totals', async () => {
+      ({ dispute, swap } = buildDispute({ status: 'completed', paymentType: 'credits', offeredSkill: undefined }));
+      stubLedger(60, [sessionPayment()]);
+      
+      await resolveDispute(dispute, admin, { outcome: 'void-swap' });
+      
+      expect(swap.status).toBe('cancelled');
+      expect(swap.statusHistory[swap.statusHistory.length - 1]).toMatchObject({ action: 'void', from: 'completed' });
+      expect(CreditTransaction.create).toHaveBeenCalledWith(expect.objectContaining({ kind: 'refund', from: swap.receiver, minutes: 60 }));
+      expect(User.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: [swap.requester.toString(), swap.receiver.toString()] } },
+        { $inc: { totalSwaps: -1 } }
+      );
+    });
+    
+    it('leaves the dispute and swap alone when the teacher cannot refund a credit swap', async () => {
+      ({ dispute, swap } = buildDispute({ status: 'completed', paymentType: 'credits', offeredSkill: undefined }));
+      stubLedger(30, [sessionPayment()]);
+      
+      await expect(resolveDispute(dispute, admin, { outcome: 'void-swap' })).rejects.toMatchObject({ statusCode: 400 });
+      
+      expect(Dispute.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(swap.status).toBe('completed');
+      expect(CreditTransaction.create.mock.calls.map(([entry]) => entry.kind)).not.toContain('refund');
+    });
+  });
+});
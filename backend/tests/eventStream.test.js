@@ -0,0 +1,94 @@
+const mongoose = require('mongoose');
+const User = require('../src/models/User');
+const Session = require('../src/models/Session');
+const { publish } = require('../src/services/eventService');
+const { streamEvents } = require('../src/controllers/eventController');
+const { banUser } = require('../src/controllers/adminController');
+const { mockRequest, runHandler } = require('./helpers');
+
+const HEARTBEAT_MS = 25 * 1000;
+
+const openStream = (sessionId) => {
+  const req = mockRequest({ user: { _id: new mongoose.Types.ObjectId() } });
+  req.sessionId = sessionId;
+  req.on = jest.fn();
+  
+  const res = {
+    writeHead: jest.fn(),
+    write: jest.fn(),
+    end: jest.fn()
+  };
+  
+  streamEvents(req, res, jest.fn());
+  return { req, res };
+};
+
+describe('GET /api/events', () => {
+  const sessionId = new mongoose.Types.ObjectId().toString();
+  
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+  
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+  
+  it('keeps the stream open while its session is active', async () => {
+    jest.spyOn(Session, 'findById').mockResolvedValue({ isActive: true });
+    const { req, res } = openStream(sessionId);
+    
+    await jest.advanceTimersByTimeAsync(HEARTBEAT_MS);
+    
+    expect(Session.findById).toHaveBeenCalledWith(sessionId);
+    expect(res.write).toHaveBeenLastCalledWith(': ping\n\n');
+    expect(res.end).not.toHaveBeenCalled();
+    expect(publish([req.user._id], 'notification.new', {})).toBe(1);
+    
+    // Closing the connection unsubscribes the stream
+    const [, unsubscribe] = req.on.mock.calls.find(([event]) => event === 'close');
+    unsubscribe();
+    expect(publish([req.user._id], 'notification.new', {})).toBe(0);
+  });
+  
+  it('ends the stream on the next heartbeat once its session is revoked', async () => {
+    jest.spyOn(Session, 'findById').mockResolvedValue({ isActive: false });
+    const { req, res } = openStream(sessionId);
+    
+    await jest.advanceTimersByTimeAsync(HEARTBEAT_MS);
+    
+    expect(res.end).toHaveBeenCalled();
+    expect(res.write).not.toHaveBeenCalledWith(': ping\n\n');
+    expect(publish([req.user._id], 'notification.new', {})).toBe(0);
+  });
+  
+  it('ends the stream once its session no longer exists', async () => {
+    jest.spyOn(Session, 'findById').mockResolvedValue(null);
+    const { res } = openStream(sessionId);
+    
+    await jest.advanceTimersByTimeAsync(HEARTBEAT_MS);
+    
+    expect(res.end).toHaveBeenCalled();
+  });
+});
+
+describe('PUT /api/admin/users/:id/ban', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('revokes every session of the banned user, which ends their event streams', async () => {
+    const user = new User({ name: 'Member', email: 'member@example.com', password: 'password123' });
+    jest.spyOn(User, 'findById').mockResolvedValue(user);
+    jest.spyOn(User.prototype, 'save').mockResolvedValue(user);
+    jest.spyOn(Session, 'revokeAllForUser').mockResolvedValue({ modifiedCount: 2 });
+    
+    const { res, error } = await runHandler(banUser, mockRequest({ params: { id: user._id.toString() }, body: { reason: 'Spam' } }));
+    
+    expect(error).toBeUndefined();
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(user.isBanned).toBe(true);
+    expect(Session.revokeAllForUser).toHaveBeenCalledWith(user._id, 'admin');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Test helpers
+ * Minimal Express request/response doubles for calling controllers directly
+ */
+
+const mockRequest = ({ body = {}, params = {}, query = {}, user, headers = {} } = {}) => ({
+  body,
+  params,
+  query,
+  user,
+  ip: '127.0.0.1',
+  cookies: {},
+  get: (name) => headers[name.toLowerCase()]
+});
+
+const mockResponse = () => {
+  const res = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  res.set = jest.fn(() => res);
+  res.cookie = jest.fn(() => res);
+  res.clearCookie = jest.fn(() => res);
+  return res;
+};
+
+/**
+ * Run a catchAsync handler and wait for it to respond or fail
+ * @returns {Promise<{ res: Object, error: Object }>} The response and the error passed to next, if any
+ */
+const runHandler = (handler, req) => {
+  const res = mockResponse();
+  
+  return new Promise((resolve) => {
+    res.json.mockImplementation(() => {
+      resolve({ res, error: undefined });
+      return res;
+    });
+    handler(req, res, (error) => resolve({ res, error }));
+  });
+};
+
+/**
+ * A stub for a Mongoose query that resolves to the given value
+ * Chainable methods return the query itself
+ */
+const mockQuery = (value) => {
+  const query = Promise.resolve(value);
+  ['select', 'populate', 'sort', 'skip', 'limit', 'lean', 'session'].forEach((method) => {
+    query[method] = jest.fn(() => query);
+  });
+  return query;
+};
+
+module.exports = {
+  mockRequest,
+  mockResponse,
+  runHandler,
+  mockQuery
+};
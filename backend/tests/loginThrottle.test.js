@@ -0,0 +1,157 @@
+const mongoose = require('mongoose');
+const LoginThrottle = require('../src/models/LoginThrottle');
+const SecurityEvent = require('../src/models/SecurityEvent');
+const {
+  getLoginRetryAfter,
+  recordFailedLogin,
+  clearFailedLogins,
+  sendLoginFailure
+} = require('../src/services/loginThrottleService');
+const { mockRequest, mockResponse } = require('./helpers');
+
+/**
+ * An in-memory stand-in for the throttle collection, keyed like the real one
+ */
+const stubThrottles = () => {
+  const throttles = new Map();
+  
+  jest.spyOn(LoginThrottle, 'findOneAndUpdate').mockImplementation(async ({ key }, { $inc, $set }) => {
+    const throttle = throttles.get(key) || new LoginThrottle({ key });
+    throttle.failures += $inc.failures;
+    Object.assign(throttle, $set);
+    throttles.set(key, throttle);
+    return throttle;
+  });
+  jest.spyOn(LoginThrottle.prototype, 'save').mockImplementation(function() {
+    return Promise.resolve(this);
+  });
+  jest.spyOn(LoginThrottle, 'find').mockImplementation(async ({ key }) => {
+    return key.$in.map(k => throttles.get(k)).filter(Boolean);
+  });
+  jest.spyOn(LoginThrottle, 'deleteOne').mockImplementation(async ({ key }) => {
+    throttles.delete(key);
+    return { deletedCount: 1 };
+  });
+  
+  return throttles;
+};
+
+const EMAIL = 'Member@Example.com';
+const MINUTE = 60 * 1000;
+
+const failTimes = async (count, { email = EMAIL, ip, user } = {}) => {
+  const req = mockRequest();
+  if (ip) req.ip = ip;
+  let state;
+  for (let i = 0; i < count; i++) {
+    state = await recordFailedLogin(email, req, user);
+  }
+  return state;
+};
+
+describe('login throttling', () => {
+  let throttles;
+  
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    throttles = stubThrottles();
+    jest.spyOn(SecurityEvent, 'record').mockResolvedValue({});
+  });
+  
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+  
+  it('doubles the wait between attempts for each failure on an account', async () => {
+    expect((await failTimes(1)).retryAfter).toBe(1);
+    expect((await failTimes(1)).retryAfter).toBe(2);
+    expect((await failTimes(1)).retryAfter).toBe(4);
+    
+    const state = await getLoginRetryAfter(EMAIL.toLowerCase(), '127.0.0.1');
+    expect(state).toEqual({ retryAfter: 4, locked: false });
+  });
+  
+  it('allows another attempt once the backoff window has passed', async () => {
+    await failTimes(2);
+    
+    jest.advanceTimersByTime(2000);
+    
+    expect(await getLoginRetryAfter(EMAIL, '127.0.0.1')).toEqual({ retryAfter: 0, locked: false });
+  });
+  
+  it('locks the account after five failures and records a security event for its owner', async () => {
+    const user = { _id: new mongoose.Types.ObjectId() };
+    
+    expect((await failTimes(4, { user })).locked).toBe(false);
+    const state = await failTimes(1, { user });
+    
+    expect(state).toEqual({ retryAfter: 15 * 60, locked: true });
+    expect(throttles.get('account:member@example.com')).toMatchObject({ failures: 0, lockCount: 1 });
+    expect(SecurityEvent.record).toHaveBeenCalledTimes(1);
+    expect(SecurityEvent.record).toHaveBeenCalledWith(user._id, 'account-locked', expect.anything(), expect.objectContaining({
+      failedAttempts: 5
+    }));
+  });
+  
+  it('does not record a security event when the email has no account', async () => {
+    const state = await failTimes(5);
+    
+    expect(state.locked).toBe(true);
+    expect(SecurityEvent.record).not.toHaveBeenCalled();
+  });
+  
+  it('doubles the lock duration for each lockout', async () => {
+    await failTimes(5);
+    jest.advanceTimersByTime(15 * MINUTE);
+    
+    expect(await getLoginRetryAfter(EMAIL, '127.0.0.1')).toEqual({ retryAfter: 0, locked: false });
+    
+    const state = await failTimes(5);
+    expect(state).toEqual({ retryAfter: 30 * 60, locked: true });
+  });
+  
+  it('locks an IP only after twenty failures across accounts, without backoff', async () => {
+    for (let i = 0; i < 19; i++) {
+      await failTimes(1, { email: `member${i}@example.com`, ip: '10.0.0.1' });
+    }
+    
+    expect(throttles.get('ip:10.0.0.1')).toMatchObject({ failures: 19, lockCount: 0 });
+    expect(throttles.get('ip:10.0.0.1').nextAttemptAt).toBeUndefined();
+    
+    const state = await failTimes(1, { email: 'another@example.com', ip: '10.0.0.1' });
+    
+    expect(state.locked).toBe(true);
+    expect(throttles.get('ip:10.0.0.1').isLocked).toBe(true);
+    expect(await getLoginRetryAfter('fresh@example.com', '10.0.0.1')).toEqual({ retryAfter: 15 * 60, locked: true });
+  });
+  
+  it('forgets an account\'s failures after a successful login', async () => {
+    await failTimes(3);
+    await clearFailedLogins(EMAIL);
+    
+    expect(throttles.has('account:member@example.com')).toBe(false);
+  });
+});
+
+describe('login failure responses', () => {
+  it('answers a locked account with 429 and a Retry-After header', () => {
+    const res = mockResponse();
+    
+    sendLoginFailure(res, 'Invalid email or password', { retryAfter: 900, locked: true });
+    
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.set).toHaveBeenCalledWith('Retry-After', '900');
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'ACCOUNT_LOCKED', retryAfter: 900 }));
+  });
+  
+  it('answers a plain failure with 401 and the backoff to wait', () => {
+    const res = mockResponse();
+    
+    sendLoginFailure(res, 'Invalid email or password', { retryAfter: 2, locked: false });
+    
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.set).toHaveBeenCalledWith('Retry-After', '2');
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'Invalid email or password', retryAfter: 2 }));
+  });
+});
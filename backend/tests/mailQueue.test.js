@@ -0,0 +1,120 @@
+const MailMessage = require('../src/models/MailMessage');
+const { deliverMessage, registerTransport, getTransportName } = require('../src/services/mailService');
+
+const MINUTE = 60 * 1000;
+
+const buildMessage = (fields = {}) => new MailMessage({
+  template: 'password-reset',
+  to: 'member@example.com',
+  from: 'Skill Swap <no-reply@skillswap.test>',
+  subject: 'Reset your password',
+  text: 'https://example.com/reset/secret',
+  html: '<p>https://example.com/reset/secret</p>',
+  status: 'sending',
+  ...fields
+});
+
+describe('mail queue delivery', () => {
+  const originalEnv = { ...process.env };
+  const send = jest.fn();
+  
+  beforeAll(() => {
+    registerTransport('test', { send });
+  });
+  
+  beforeEach(() => {
+    process.env.MAIL_TRANSPORT = 'test';
+    jest.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    jest.spyOn(MailMessage.prototype, 'save').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    send.mockReset();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+  
+  it('skips messages another delivery has already claimed', async () => {
+    jest.spyOn(MailMessage, 'claim').mockResolvedValue(null);
+    
+    expect(await deliverMessage('message-id')).toBe('skipped');
+    expect(send).not.toHaveBeenCalled();
+  });
+  
+  it('marks a delivered message as sent', async () => {
+    const message = buildMessage({ attempts: 1 });
+    jest.spyOn(MailMessage, 'claim').mockResolvedValue(message);
+    send.mockResolvedValue({ id: 'provider-1' });
+    
+    expect(await deliverMessage(message._id)).toBe('sent');
+    expect(message).toMatchObject({ status: 'sent', transport: 'test', providerMessageId: 'provider-1' });
+    expect(message.sentAt).toEqual(new Date());
+  });
+  
+  it.each([
+    [1, 1],
+    [2, 5],
+    [3, 30],
+    [4, 120]
+  ])('retries after failed attempt %i with a %i minute backoff', async (attempts, minutes) => {
+    const message = buildMessage({ attempts });
+    jest.spyOn(MailMessage, 'claim').mockResolvedValue(message);
+    send.mockRejectedValue(new Error('Connection refused'));
+    
+    expect(await deliverMessage(message._id)).toBe('retrying');
+    expect(message.status).toBe('queued');
+    expect(message.lastError).toBe('Connection refused');
+    expect(message.nextAttemptAt).toEqual(new Date(Date.now() + minutes * MINUTE));
+  });
+  
+  it('gives up once the message runs out of attempts', async () => {
+    const message = buildMessage({ attempts: 5 });
+    jest.spyOn(MailMessage, 'claim').mockResolvedValue(message);
+    send.mockRejectedValue(new Error('Mailbox unavailable'));
+    
+    expect(await deliverMessage(message._id)).toBe('failed');
+    expect(message.status).toBe('failed');
+  });
+  
+  it('drops the body of a sensitive message once a real transport delivered it', async () => {
+    registerTransport('smtp', { send: jest.fn().mockResolvedValue({ id: 'provider-2' }) });
+    process.env.MAIL_TRANSPORT = 'smtp';
+    const message = buildMessage({ attempts: 1, sensitive: true });
+    jest.spyOn(MailMessage, 'claim').mockResolvedValue(message);
+    
+    await deliverMessage(message._id);
+    
+    expect(message.status).toBe('sent');
+    expect(message.text).toBeUndefined();
+    expect(message.html).toBeUndefined();
+  });
+});
+
+describe('mail transport selection', () => {
+  const originalEnv = { ...process.env };
+  
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+  
+  it('defaults to smtp in production and to the outbox file elsewhere', () => {
+    delete process.env.MAIL_TRANSPORT;
+    
+    process.env.NODE_ENV = 'production';
+    expect(getTransportName()).toBe('smtp');
+    
+    process.env.NODE_ENV = 'development';
+    expect(getTransportName()).toBe('file');
+  });
+  
+  it('uses MAIL_TRANSPORT when it is set', () => {
+    process.env.NODE_ENV = 'production';
+    process.env.MAIL_TRANSPORT = 'outbox';
+    
+    expect(getTransportName()).toBe('outbox');
+  });
+});
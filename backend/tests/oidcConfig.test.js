@@ -0,0 +1,40 @@
+const { isMockProviderEnabled, getOidcProviders, getOidcProvider } = require('../src/config/oidc');
+
+describe('OIDC provider configuration', () => {
+  const originalEnv = { ...process.env };
+  
+  beforeEach(() => {
+    delete process.env.OIDC_MOCK_ENABLED;
+    delete process.env.OIDC_PROVIDERS;
+  });
+  
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+  
+  it('leaves the mock provider off unless it is enabled explicitly', () => {
+    process.env.NODE_ENV = 'development';
+    
+    expect(isMockProviderEnabled()).toBe(false);
+    expect(getOidcProvider('mock')).toBeUndefined();
+  });
+  
+  it('adds the mock provider when enabled outside production', () => {
+    process.env.NODE_ENV = 'development';
+    process.env.OIDC_MOCK_ENABLED = 'true';
+    
+    expect(isMockProviderEnabled()).toBe(true);
+    expect(getOidcProvider('mock')).toMatchObject({ name: 'Mock SSO' });
+  });
+  
+  it('never adds the mock provider in production, whatever the flag says', () => {
+    process.env.NODE_ENV = 'production';
+    process.env.OIDC_MOCK_ENABLED = 'true';
+    process.env.OIDC_PROVIDERS = JSON.stringify([
+      { id: 'acme', name: 'Acme SSO', issuer: 'https://sso.acme.com', clientId: 'skill-swap', clientSecret: 'secret' }
+    ]);
+    
+    expect(isMockProviderEnabled()).toBe(false);
+    expect(getOidcProviders().map(provider => provider.id)).toEqual(['acme']);
+  });
+});
@@ -0,0 +1,78 @@
+const mongoose = require('mongoose');
+const User = require('../src/models/User');
+const { resolveUserFromClaims } = require('../src/services/oidcService');
+
+const claims = (fields = {}) => ({
+  sub: 'provider-subject',
+  email: 'Member@Example.com',
+  email_verified: true,
+  name: 'Member',
+  ...fields
+});
+
+const buildUser = (fields = {}) => new User({
+  _id: new mongoose.Types.ObjectId(),
+  name: 'Member',
+  email: 'member@example.com',
+  password: 'password123',
+  ...fields
+});
+
+describe('resolveUserFromClaims', () => {
+  beforeEach(() => {
+    jest.spyOn(User.prototype, 'save').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('signs in the account already linked to the identity', async () => {
+    const user = buildUser({ emailVerified: true });
+    jest.spyOn(User, 'findOne').mockResolvedValueOnce(user);
+    
+    expect(await resolveUserFromClaims('acme', claims())).toBe(user);
+    expect(User.prototype.save).not.toHaveBeenCalled();
+  });
+  
+  it('links a new identity to the verified account with the same email', async () => {
+    const user = buildUser({ emailVerified: true });
+    jest.spyOn(User, 'findOne').mockResolvedValueOnce(null).mockResolvedValueOnce(user);
+    
+    const result = await resolveUserFromClaims('acme', claims());
+    
+    expect(result).toBe(user);
+    expect(User.findOne).toHaveBeenLastCalledWith({ email: 'member@example.com' });
+    expect(user.oidcIdentities).toHaveLength(1);
+    expect(user.oidcIdentities[0]).toMatchObject({ provider: 'acme', subject: 'provider-subject' });
+  });
+  
+  it('refuses to link to an unverified account, which someone else may have registered', async () => {
+    const user = buildUser({ emailVerified: false });
+    jest.spyOn(User, 'findOne').mockResolvedValueOnce(null).mockResolvedValueOnce(user);
+    
+    await expect(resolveUserFromClaims('acme', claims())).rejects.toMatchObject({ statusCode: 409 });
+    
+    expect(user.emailVerified).toBe(false);
+    expect(user.oidcIdentities).toHaveLength(0);
+    expect(User.prototype.save).not.toHaveBeenCalled();
+  });
+  
+  it('refuses an email the provider did not verify', async () => {
+    jest.spyOn(User, 'findOne').mockResolvedValueOnce(null);
+    
+    await expect(resolveUserFromClaims('acme', claims({ email_verified: false }))).rejects.toMatchObject({ statusCode: 400 });
+  });
+  
+  it('creates a verified account when nobody uses the email yet', async () => {
+    jest.spyOn(User, 'findOne').mockResolvedValue(null);
+    
+    const user = await resolveUserFromClaims('acme', claims());
+    
+    expect(user.isNew).toBe(true);
+    expect(user).toMatchObject({ email: 'member@example.com', emailVerified: true });
+    expect(user.oidcIdentities[0]).toMatchObject({ provider: 'acme', subject: 'provider-subject' });
+  });
+});
@@ -0,0 +1,82 @@
+const User = require('../src/models/User');
+const Session = require('../src/models/Session');
+const { startSession } = require('../src/services/sessionService');
+const { resetPassword } = require('../src/controllers/authController');
+const { hashToken } = require('../src/utils/tokenUtils');
+const { verifyTwoFactorChallengeToken } = require('../src/middleware/auth');
+const { mockRequest, runHandler, mockQuery } = require('./helpers');
+
+jest.mock('../src/services/sessionService', () => ({
+  ...jest.requireActual('../src/services/sessionService'),
+  startSession: jest.fn()
+}));
+
+const buildUser = (overrides = {}) => new User({
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  password: 'OldPassword1',
+  passwordResetToken: hashToken('reset-token'),
+  passwordResetExpires: Date.now() + 60 * 1000,
+  ...overrides
+});
+
+describe('POST /api/auth/reset-password/:token', () => {
+  let user;
+  
+  beforeEach(() => {
+    user = buildUser();
+    jest.spyOn(User.prototype, 'save').mockResolvedValue();
+    jest.spyOn(Session, 'revokeAllForUser').mockResolvedValue();
+    startSession.mockResolvedValue('access-token');
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+    startSession.mockReset();
+  });
+  
+  const reset = (token = 'reset-token') => runHandler(resetPassword, mockRequest({
+    params: { token },
+    body: { password: 'NewPassword1' }
+  }));
+  
+  it('looks the user up by the hashed token and rejects unknown links', async () => {
+    const findOne = jest.spyOn(User, 'findOne').mockReturnValue(mockQuery(null));
+    
+    const { error } = await reset('unknown-token');
+    
+    expect(findOne).toHaveBeenCalledWith(expect.objectContaining({ passwordResetToken: hashToken('unknown-token') }));
+    expect(error.statusCode).toBe(400);
+    expect(Session.revokeAllForUser).not.toHaveBeenCalled();
+  });
+  
+  it('sets the new password, clears the token and signs out every session', async () => {
+    jest.spyOn(User, 'findOne').mockReturnValue(mockQuery(user));
+    
+    const { res, error } = await reset();
+    
+    expect(error).toBeUndefined();
+    expect(user.password).toBe('NewPassword1');
+    expect(user.passwordResetToken).toBeUndefined();
+    expect(user.passwordResetExpires).toBeUndefined();
+    expect(Session.revokeAllForUser).toHaveBeenCalledWith(user._id, 'password-change');
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json.mock.calls[0][0].token).toBe('access-token');
+  });
+  
+  it('asks two-factor accounts for a code instead of signing them in', async () => {
+    user.twoFactorEnabled = true;
+    jest.spyOn(User, 'findOne').mockReturnValue(mockQuery(user));
+    
+    const { res, error } = await reset();
+    
+    expect(error).toBeUndefined();
+    expect(Session.revokeAllForUser).toHaveBeenCalledWith(user._id, 'password-change');
+    expect(startSession).not.toHaveBeenCalled();
+    
+    const body = res.json.mock.calls[0][0];
+    expect(body.token).toBeUndefined();
+    expect(body.data.twoFactorRequired).toBe(true);
+    expect(verifyTwoFactorChallengeToken(body.data.challengeToken).sub).toBe(user._id.toString());
+  });
+});
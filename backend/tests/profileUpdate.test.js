@@ -0,0 +1,69 @@
+const mongoose = require('mongoose');
+const User = require('../src/models/User');
+const { sendVerificationEmail } = require('../src/services/mailService');
+const { updateUserProfile } = require('../src/controllers/userController');
+const { mockRequest, runHandler } = require('./helpers');
+
+jest.mock('../src/services/mailService', () => ({
+  ...jest.requireActual('../src/services/mailService'),
+  sendVerificationEmail: jest.fn()
+}));
+
+describe('PUT /api/users/:id', () => {
+  const userId = new mongoose.Types.ObjectId();
+  const currentUser = { _id: userId, email: 'ada@example.com' };
+  
+  beforeEach(() => {
+    jest.spyOn(User, 'findOne').mockResolvedValue(null);
+    jest.spyOn(User, 'findByIdAndUpdate').mockImplementation(async (id, updates) => ({
+      _id: id,
+      email: currentUser.email,
+      emailVerified: true,
+      ...updates
+    }));
+    sendVerificationEmail.mockResolvedValue(true);
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+    sendVerificationEmail.mockReset();
+  });
+  
+  const update = (body) => runHandler(updateUserProfile, mockRequest({
+    params: { id: userId.toString() },
+    user: currentUser,
+    body
+  }));
+  
+  it('marks a new email address unverified and sends a verification link to it', async () => {
+    const { res, error } = await update({ email: 'Ada@Example.org' });
+    
+    expect(error).toBeUndefined();
+    const [, updates] = User.findByIdAndUpdate.mock.calls[0];
+    expect(updates).toMatchObject({
+      email: 'ada@example.org',
+      emailVerified: false,
+      $unset: { emailVerifiedAt: 1 }
+    });
+    expect(sendVerificationEmail).toHaveBeenCalledWith(expect.objectContaining({ email: 'ada@example.org' }));
+    expect(res.json.mock.calls[0][0].data.user.emailVerified).toBe(false);
+  });
+  
+  it('keeps the verified status when the email is unchanged', async () => {
+    const { error } = await update({ name: 'Ada King', email: 'ADA@example.com' });
+    
+    expect(error).toBeUndefined();
+    const [, updates] = User.findByIdAndUpdate.mock.calls[0];
+    expect(updates).not.toHaveProperty('emailVerified');
+    expect(sendVerificationEmail).not.toHaveBeenCalled();
+  });
+  
+  it('rejects an address that belongs to another account', async () => {
+    User.findOne.mockResolvedValue({ _id: new mongoose.Types.ObjectId() });
+    
+    const { error } = await update({ email: 'taken@example.com' });
+    
+    expect(error.statusCode).toBe(400);
+    expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,171 @@
+const mongoose = require('mongoose');
+const User = require('../src/models/User');
+const Swap = require('../src/models/Swap');
+const SwapSession = require('../src/models/SwapSession');
+const {
+  expandAvailability,
+  findBookedSessions,
+  findOpenSlots,
+  assertSlotsOpen
+} = require('../src/services/schedulingService');
+const { mockQuery } = require('./helpers');
+
+const HOUR = 60 * 60 * 1000;
+const at = (iso) => new Date(iso);
+const ms = (iso) => at(iso).getTime();
+
+const member = (timezone, availabilityWindows) => ({
+  _id: new mongoose.Types.ObjectId(),
+  name: 'Member',
+  timezone,
+  availabilityWindows
+});
+
+// Monday 1 June 2026
+const MONDAY = 1;
+
+describe('expandAvailability', () => {
+  it('turns weekly windows in the member\'s time zone into UTC intervals', () => {
+    // Berlin is on summer time (UTC+2) in June
+    const user = member('Europe/Berlin', [{ day: MONDAY, start: '18:00', end: '20:00' }]);
+    
+    expect(expandAvailability(user, ms('2026-05-31T00:00:00Z'), ms('2026-06-14T00:00:00Z'))).toEqual([
+      { start: ms('2026-06-01T16:00:00Z'), end: ms('2026-06-01T18:00:00Z') },
+      { start: ms('2026-06-08T16:00:00Z'), end: ms('2026-06-08T18:00:00Z') }
+    ]);
+  });
+  
+  it('follows the member\'s clock across a DST change', () => {
+    // New York moves to summer time on Sunday 8 March 2026
+    const user = member('America/New_York', [{ day: MONDAY, start: '09:00', end: '10:00' }]);
+    
+    expect(expandAvailability(user, ms('2026-03-01T00:00:00Z'), ms('2026-03-15T00:00:00Z'))).toEqual([
+      { start: ms('2026-03-02T14:00:00Z'), end: ms('2026-03-02T15:00:00Z') },
+      { start: ms('2026-03-09T13:00:00Z'), end: ms('2026-03-09T14:00:00Z') }
+    ]);
+  });
+  
+  it('merges windows running into the next day and clips them to the range', () => {
+    const user = member('UTC', [
+      { day: 0, start: '22:00', end: '24:00' },
+      { day: MONDAY, start: '00:00', end: '02:00' }
+    ]);
+    
+    expect(expandAvailability(user, ms('2026-05-31T23:00:00Z'), ms('2026-06-01T01:00:00Z'))).toEqual([
+      { start: ms('2026-05-31T23:00:00Z'), end: ms('2026-06-01T01:00:00Z') }
+    ]);
+  });
+  
+  it('has no intervals for members without windows', () => {
+    expect(expandAvailability(member('UTC', []), ms('2026-06-01T00:00:00Z'), ms('2026-06-08T00:00:00Z'))).toEqual([]);
+  });
+});
+
+describe('findBookedSessions', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('combines scheduled sessions with swaps that only have a confirmed date', async () => {
+    const swapId = new mongoose.Types.ObjectId();
+    jest.spyOn(Swap, 'find').mockReturnValue(mockQuery([
+      { confirmedDate: at('2026-06-01T10:00:00Z'), sessionMinutes: 90 },
+      // Ended before the range starts
+      { confirmedDate: at('2026-06-01T06:00:00Z') }
+    ]));
+    jest.spyOn(SwapSession, 'find').mockReturnValue(mockQuery([
+      { swap: swapId, scheduledFor: at('2026-06-01T14:00:00Z'), minutes: 60 }
+    ]));
+    const exclude = new mongoose.Types.ObjectId();
+    
+    const booked = await findBookedSessions(['a', 'b'], ms('2026-06-01T08:00:00Z'), ms('2026-06-02T00:00:00Z'), exclude);
+    
+    expect(booked.map(({ start, end }) => ({ start, end }))).toEqual([
+      { start: ms('2026-06-01T10:00:00Z'), end: ms('2026-06-01T11:30:00Z') },
+      { start: ms('2026-06-01T14:00:00Z'), end: ms('2026-06-01T15:00:00Z') }
+    ]);
+    expect(Swap.find.mock.calls[0][0]).toMatchObject({ _id: { $ne: exclude }, status: { $in: ['pending', 'accepted'] } });
+    expect(SwapSession.find.mock.calls[0][0]).toMatchObject({ status: 'scheduled' });
+  });
+});
+
+describe('finding and checking session times', () => {
+  // Both members are free 10:00-12:00 UTC on Monday
+  const requester = member('UTC', [{ day: MONDAY, start: '09:00', end: '12:00' }]);
+  const receiver = member('America/New_York', [{ day: MONDAY, start: '06:00', end: '09:00' }]);
+  const swap = { _id: new mongoose.Types.ObjectId(), requester: requester._id, receiver: receiver._id };
+  const range = { from: at('2026-06-01T00:00:00Z'), to: at('2026-06-02T00:00:00Z') };
+  
+  const bookSessions = (sessions) => {
+    jest.spyOn(SwapSession, 'find').mockReturnValue(mockQuery(sessions));
+  };
+  
+  beforeEach(() => {
+    jest.useFakeTimers({ now: at('2026-05-31T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    jest.spyOn(User, 'find').mockReturnValue(mockQuery([requester, receiver]));
+    jest.spyOn(Swap, 'find').mockReturnValue(mockQuery([]));
+    bookSessions([]);
+  });
+  
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+  
+  it('offers half-hourly slots when both members are available', async () => {
+    const { slots } = await findOpenSlots(swap, { ...range, minutes: 60 });
+    
+    expect(slots.map(slot => slot.start)).toEqual([
+      at('2026-06-01T10:00:00Z'),
+      at('2026-06-01T10:30:00Z'),
+      at('2026-06-01T11:00:00Z')
+    ]);
+    expect(slots[0].end).toEqual(at('2026-06-01T11:00:00Z'));
+  });
+  
+  it('leaves out times that clash with either member\'s other sessions', async () => {
+    bookSessions([{ swap: new mongoose.Types.ObjectId(), scheduledFor: at('2026-06-01T10:30:00Z'), minutes: 60 }]);
+    
+    expect((await findOpenSlots(swap, { ...range, minutes: 60 })).slots).toEqual([]);
+    expect((await findOpenSlots(swap, { ...range, minutes: 30 })).slots.map(slot => slot.start)).toEqual([
+      at('2026-06-01T10:00:00Z'),
+      at('2026-06-01T11:30:00Z')
+    ]);
+  });
+  
+  it('does not offer times in the past', async () => {
+    jest.setSystemTime(at('2026-06-01T10:45:00Z'));
+    
+    const { slots } = await findOpenSlots(swap, { ...range, minutes: 60 });
+    
+    expect(slots.map(slot => slot.start)).toEqual([at('2026-06-01T11:00:00Z')]);
+  });
+  
+  it('accepts a session inside both members\' free time', async () => {
+    const slot = { start: at('2026-06-01T10:00:00Z'), end: at('2026-06-01T11:00:00Z') };
+    
+    await expect(assertSlotsOpen(swap, [slot], requester)).resolves.toBeUndefined();
+  });
+  
+  it('rejects a session outside either member\'s availability', async () => {
+    const slot = { start: at('2026-06-01T09:00:00Z'), end: at('2026-06-01T10:00:00Z') };
+    
+    await expect(assertSlotsOpen(swap, [slot], requester)).rejects.toMatchObject({ statusCode: 409 });
+  });
+  
+  it('rejects a session that clashes with another booked session', async () => {
+    bookSessions([{ swap: new mongoose.Types.ObjectId(), scheduledFor: at('2026-06-01T11:00:00Z'), minutes: 30 }]);
+    const slot = { start: at('2026-06-01T10:30:00Z'), end: at('2026-06-01T11:30:00Z') };
+    
+    const error = await assertSlotsOpen(swap, [slot], receiver).catch(caught => caught);
+    
+    expect(error.statusCode).toBe(409);
+    expect(error.message).toMatch(/no longer free for both members/);
+  });
+  
+  it('rejects session times in the past', async () => {
+    const slot = { start: at('2026-05-31T10:00:00Z'), end: new Date(ms('2026-05-31T10:00:00Z') + HOUR) };
+    
+    await expect(assertSlotsOpen(swap, [slot], requester)).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
@@ -0,0 +1,110 @@
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const Session = require('../src/models/Session');
+const { rotateSession } = require('../src/services/sessionService');
+const { hashToken } = require('../src/utils/tokenUtils');
+const { mockRequest, mockResponse } = require('./helpers');
+
+/**
+ * An in-memory stand-in for the sessions collection, enough for rotation:
+ * conditional updates on the current token and lookups by old tokens
+ */
+const stubSessions = (sessions) => {
+  const matches = (session, filter) => Object.entries(filter).every(([key, condition]) => {
+    const value = session[key];
+    if (condition && condition.$exists === false) return value === undefined;
+    if (condition && condition.$gt) return value > condition.$gt;
+    if (Array.isArray(value)) return value.includes(condition);
+    return value === condition;
+  });
+  const find = (filter) => sessions.find(session => matches(session, filter)) || null;
+  
+  jest.spyOn(Session, 'findOneAndUpdate').mockImplementation(async (filter, { $set, $push }) => {
+    const session = find(filter);
+    if (!session) return null;
+    Object.assign(session, $set);
+    session.rotatedTokenHashes.push($push.rotatedTokenHashes);
+    return session;
+  });
+  jest.spyOn(Session, 'exists').mockImplementation(async (filter) => find(filter) && { _id: find(filter)._id });
+  jest.spyOn(Session, 'findOne').mockImplementation(async (filter) => find(filter));
+};
+
+const buildSession = (refreshToken) => ({
+  _id: new mongoose.Types.ObjectId(),
+  user: new mongoose.Types.ObjectId(),
+  refreshTokenHash: hashToken(refreshToken),
+  rotatedTokenHashes: [],
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  revoke: jest.fn(function(reason) {
+    this.revokedAt = new Date();
+    this.revokedReason = reason;
+    return Promise.resolve(this);
+  })
+});
+
+const sessionOf = (accessToken) => jwt.verify(accessToken, process.env.JWT_SECRET).sid;
+
+const refresh = async (token) => {
+  const res = mockResponse();
+  const result = await rotateSession(token, mockRequest(), res);
+  const cookie = res.cookie.mock.calls[0];
+  return { ...result, res, newToken: cookie && cookie[1] };
+};
+
+describe('refresh token rotation', () => {
+  let session;
+  
+  beforeEach(() => {
+    session = buildSession('first-token');
+    stubSessions([session]);
+  });
+  
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+  
+  it('rotates the token with a conditional update and issues an access token for the session', async () => {
+    const { accessToken, newToken } = await refresh('first-token');
+    
+    expect(Session.findOneAndUpdate.mock.calls[0][0]).toMatchObject({ refreshTokenHash: hashToken('first-token') });
+    expect(session.refreshTokenHash).toBe(hashToken(newToken));
+    expect(session.rotatedTokenHashes).toEqual([hashToken('first-token')]);
+    expect(sessionOf(accessToken)).toBe(session._id.toString());
+  });
+  
+  it('lets a second tab refreshing with the same token share the rotation', async () => {
+    const first = await refresh('first-token');
+    const second = await refresh('first-token');
+    
+    expect(sessionOf(second.accessToken)).toBe(session._id.toString());
+    // The browser keeps the cookie set by the first response
+    expect(second.newToken).toBeUndefined();
+    expect(session.refreshTokenHash).toBe(hashToken(first.newToken));
+    expect(session.revokedAt).toBeUndefined();
+  });
+  
+  it('revokes the session when a rotated token is reused after the grace window', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    await refresh('first-token');
+    jest.advanceTimersByTime(31 * 1000);
+    
+    await expect(refresh('first-token')).rejects.toMatchObject({ statusCode: 401 });
+    expect(session.revoke).toHaveBeenCalledWith('token-reuse');
+  });
+  
+  it('treats a token older than the previous one as reuse straight away', async () => {
+    const { newToken } = await refresh('first-token');
+    await refresh(newToken);
+    
+    await expect(refresh('first-token')).rejects.toMatchObject({ statusCode: 401 });
+    expect(session.revoke).toHaveBeenCalledWith('token-reuse');
+  });
+  
+  it('rejects the current token of a revoked session', async () => {
+    session.revokedAt = new Date();
+    
+    await expect(refresh('first-token')).rejects.toMatchObject({ statusCode: 401, message: 'Session has expired. Please login again.' });
+  });
+});
@@ -0,0 +1,5 @@
+// Environment for the test suite: no database or mail server is needed,
+// models are stubbed per test and mail goes through the console transport
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.MAIL_TRANSPORT = 'console';
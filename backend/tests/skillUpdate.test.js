@@ -0,0 +1,55 @@
+const User = require('../src/models/User');
+const { updateUserSkills } = require('../src/controllers/userController');
+const { mockRequest, runHandler } = require('./helpers');
+
+describe('PUT /api/users/:id/skills', () => {
+  const submittedAt = new Date('2026-01-01T00:00:00Z');
+  let user;
+  
+  beforeEach(() => {
+    user = new User({
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      password: 'Password1',
+      skillsOffered: [{ name: 'Pottery', isApproved: true, submittedAt }]
+    });
+    jest.spyOn(User, 'findById').mockResolvedValue(user);
+    jest.spyOn(User.prototype, 'save').mockResolvedValue();
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  const updateOffered = (skillsOffered) => runHandler(updateUserSkills, mockRequest({
+    params: { id: user._id.toString() },
+    user: { _id: user._id },
+    body: { skillsOffered }
+  }));
+  
+  it('keeps the approval of a skill whose name is unchanged', async () => {
+    const [existing] = user.skillsOffered;
+    
+    const { error } = await updateOffered([{ id: existing.id, name: ' pottery ', level: 'expert' }]);
+    
+    expect(error).toBeUndefined();
+    const [skill] = user.skillsOffered;
+    expect(skill.id).toBe(existing.id);
+    expect(skill.level).toBe('expert');
+    expect(skill.isApproved).toBe(true);
+    expect(skill.submittedAt).toEqual(submittedAt);
+  });
+  
+  it('sends a skill renamed through its id back to moderation', async () => {
+    const [existing] = user.skillsOffered;
+    
+    const { error } = await updateOffered([{ id: existing.id, name: 'Something else entirely' }]);
+    
+    expect(error).toBeUndefined();
+    const [skill] = user.skillsOffered;
+    expect(skill.id).toBe(existing.id);
+    expect(skill.name).toBe('Something else entirely');
+    expect(skill.isApproved).toBe(false);
+    expect(skill.submittedAt.getTime()).toBeGreaterThan(submittedAt.getTime());
+  });
+});
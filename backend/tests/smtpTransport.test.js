@@ -0,0 +1,135 @@
+const net = require('net');
+const { createSmtpTransport } = require('../src/services/smtpTransport');
+
+const MAIL = {
+  from: 'Skill Swap <no-reply@skillswap.test>',
+  to: 'member@example.com',
+  subject: 'Hello',
+  text: 'Plain body',
+  html: '<p>HTML body</p>'
+};
+
+/**
+ * A scripted SMTP server without TLS that records every command it receives
+ * @param {Object} options - { extensions: EHLO keywords, replies: command -> reply overrides }
+ */
+const startFakeServer = ({ extensions = [], replies = {} } = {}) => new Promise((resolve) => {
+  const commands = [];
+  
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    
+    socket.write('220 fake.test ESMTP\r\n');
+    
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          commands.push({ data: buffer.slice(0, end) });
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 2.0.0 Ok: queued as FAKE1\r\n');
+          continue;
+        }
+        
+        const end = buffer.indexOf('\r\n');
+        if (end === -1) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        commands.push(line);
+        
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (replies[verb]) {
+          socket.write(`${replies[verb]}\r\n`);
+        } else if (verb === 'EHLO') {
+          socket.write(['250-fake.test', ...extensions.map(ext => `250-${ext}`), '250 8BITMIME'].join('\r\n') + '\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 2.7.0 Authentication successful\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 2.0.0 Bye\r\n');
+        } else {
+          socket.write('250 2.1.0 Ok\r\n');
+        }
+      }
+    });
+  });
+  
+  server.listen(0, '127.0.0.1', () => resolve({ server, commands, port: server.address().port }));
+});
+
+describe('SMTP transport', () => {
+  let fake;
+  
+  afterEach(async () => {
+    if (fake) {
+      await new Promise(resolve => fake.server.close(resolve));
+      fake = null;
+    }
+  });
+  
+  it('delivers a multipart message through the SMTP dialogue', async () => {
+    fake = await startFakeServer();
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: fake.port });
+    
+    const info = await transport.send(MAIL);
+    
+    const lines = fake.commands.filter(command => typeof command === 'string');
+    expect(lines[0]).toMatch(/^EHLO /);
+    expect(lines).toEqual(expect.arrayContaining([
+      'MAIL FROM:<no-reply@skillswap.test>',
+      'RCPT TO:<member@example.com>',
+      'DATA'
+    ]));
+    expect(lines[lines.length - 1]).toBe('QUIT');
+    
+    const { data } = fake.commands.find(command => command.data);
+    expect(data).toContain('Subject: Hello');
+    expect(data).toContain('Content-Type: multipart/alternative');
+    expect(data).toContain(Buffer.from(MAIL.html).toString('base64'));
+    expect(info).toMatchObject({ transport: 'smtp', response: expect.stringContaining('queued as FAKE1') });
+  });
+  
+  it('refuses to send credentials when the server does not offer STARTTLS', async () => {
+    fake = await startFakeServer();
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: fake.port, user: 'mailer', pass: 'secret' });
+    
+    await expect(transport.send(MAIL)).rejects.toThrow(/refusing to send credentials/);
+    
+    expect(fake.commands.some(command => typeof command === 'string' && command.startsWith('AUTH'))).toBe(false);
+    expect(fake.commands.some(command => command.data)).toBe(false);
+  });
+  
+  it('authenticates without TLS only when that is explicitly allowed', async () => {
+    fake = await startFakeServer();
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port: fake.port,
+      user: 'mailer',
+      pass: 'secret',
+      allowInsecureAuth: true
+    });
+    
+    await transport.send(MAIL);
+    
+    const credentials = Buffer.from('\u0000mailer\u0000secret').toString('base64');
+    expect(fake.commands).toContain(`AUTH PLAIN ${credentials}`);
+  });
+  
+  it('fails with the server\'s reply when a command is rejected', async () => {
+    fake = await startFakeServer({ replies: { RCPT: '550 5.1.1 No such user' } });
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: fake.port });
+    
+    await expect(transport.send(MAIL)).rejects.toThrow('SMTP RCPT failed: 550 5.1.1 No such user');
+  });
+  
+  it('requires a host', () => {
+    expect(() => createSmtpTransport({})).toThrow('SMTP transport requires EMAIL_HOST');
+  });
+});
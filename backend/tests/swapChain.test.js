@@ -0,0 +1,144 @@
+const mongoose = require('mongoose');
+const User = require('../src/models/User');
+const Swap = require('../src/models/Swap');
+const SwapChain = require('../src/models/SwapChain');
+const { findOverlap } = require('../src/services/matchingService');
+const { findChainSuggestions } = require('../src/services/swapChainService');
+const { mockQuery } = require('./helpers');
+
+jest.mock('../src/services/matchingService', () => {
+  const actual = jest.requireActual('../src/services/matchingService');
+  return { ...actual, findOverlap: jest.fn(actual.findOverlap) };
+});
+
+const skill = (name) => ({ name, level: 'intermediate', isApproved: true });
+
+const buildChain = () => {
+  const users = [0, 1, 2].map(() => new mongoose.Types.ObjectId());
+  
+  return new SwapChain({
+    initiator: users[0],
+    participants: users.map((user, index) => ({
+      user,
+      teaches: `Skill ${index}`,
+      learns: `Skill ${(index + 2) % 3}`,
+      status: index === 0 ? 'confirmed' : 'pending'
+    })),
+    legs: [new mongoose.Types.ObjectId()]
+  });
+};
+
+describe('SwapChain responses', () => {
+  let chain;
+  
+  beforeEach(() => {
+    chain = buildChain();
+    jest.spyOn(SwapChain.prototype, 'transitionLegs').mockResolvedValue();
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('confirms a participant with a conditional update instead of saving the whole chain', async () => {
+    const save = jest.spyOn(SwapChain.prototype, 'save');
+    const update = jest.spyOn(SwapChain, 'findOneAndUpdate')
+      .mockResolvedValueOnce(chain)
+      .mockResolvedValueOnce(null);
+    const member = chain.participants[1].user;
+    
+    const result = await chain.confirm(member);
+    
+    expect(result).toBe(chain);
+    expect(save).not.toHaveBeenCalled();
+    const [filter, changes] = update.mock.calls[0];
+    expect(filter).toMatchObject({
+      _id: chain._id,
+      status: 'pending',
+      participants: { $elemMatch: { user: member, status: 'pending' } }
+    });
+    expect(changes.$set['participants.$.status']).toBe('confirmed');
+    
+    // The chain is only accepted when nobody is still pending
+    const [acceptFilter, acceptChanges] = update.mock.calls[1];
+    expect(acceptFilter).toMatchObject({ status: 'pending', 'participants.status': { $nin: ['pending', 'rejected'] } });
+    expect(acceptChanges.$set.status).toBe('accepted');
+    expect(SwapChain.prototype.transitionLegs).not.toHaveBeenCalled();
+  });
+  
+  it('accepts the legs only for the confirmation that activated the chain', async () => {
+    const accepted = buildChain();
+    jest.spyOn(SwapChain, 'findOneAndUpdate')
+      .mockResolvedValueOnce(chain)
+      .mockResolvedValueOnce(accepted);
+    
+    const result = await chain.confirm(chain.participants[2].user);
+    
+    expect(result).toBe(accepted);
+    expect(SwapChain.prototype.transitionLegs).toHaveBeenCalledTimes(1);
+    expect(SwapChain.prototype.transitionLegs.mock.instances[0]).toBe(accepted);
+  });
+  
+  it('returns null when the participant can no longer confirm', async () => {
+    const update = jest.spyOn(SwapChain, 'findOneAndUpdate').mockResolvedValue(null);
+    
+    await expect(chain.confirm(chain.participants[1].user)).resolves.toBeNull();
+    expect(update).toHaveBeenCalledTimes(1);
+  });
+  
+  it('expires the pending legs of a chain that was cancelled for missing its deadline', async () => {
+    const leg = { transition: jest.fn().mockResolvedValue() };
+    jest.spyOn(SwapChain, 'updateOne').mockResolvedValue({ modifiedCount: 1 });
+    jest.spyOn(SwapChain, 'exists').mockResolvedValue({ _id: chain._id });
+    const find = jest.spyOn(Swap, 'find').mockResolvedValue([leg]);
+    
+    const legs = await chain.expire('No response before the deadline');
+    
+    expect(SwapChain.updateOne).toHaveBeenCalledWith(
+      { _id: chain._id, status: 'pending' },
+      expect.objectContaining({ $set: expect.objectContaining({ status: 'cancelled' }) })
+    );
+    expect(find.mock.calls[0][0]).toMatchObject({ status: 'pending', responseDeadline: { $lt: expect.any(Date) } });
+    expect(leg.transition).toHaveBeenCalledWith('expire', { reason: 'No response before the deadline' });
+    expect(legs).toHaveLength(1);
+  });
+  
+  it('leaves the legs alone when every member confirmed in the meantime', async () => {
+    jest.spyOn(SwapChain, 'updateOne').mockResolvedValue({ modifiedCount: 0 });
+    jest.spyOn(SwapChain, 'exists').mockResolvedValue(null);
+    const find = jest.spyOn(Swap, 'find');
+    
+    await expect(chain.expire('No response before the deadline')).resolves.toEqual([]);
+    expect(find).not.toHaveBeenCalled();
+  });
+});
+
+describe('findChainSuggestions', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    findOverlap.mockClear();
+  });
+  
+  it('bounds the search in a dense graph that has no cycles back to the user', async () => {
+    // Everyone teaches each other, but nobody can teach the user, so no cycle closes
+    const pool = Array.from({ length: 500 }, (_, index) => ({
+      _id: new mongoose.Types.ObjectId(),
+      name: `Member ${index}`,
+      skillsOffered: [skill('Chess')],
+      skillsWanted: [skill('Chess'), skill('Guitar')]
+    }));
+    jest.spyOn(User, 'find').mockReturnValue(mockQuery(pool));
+    
+    const user = {
+      _id: new mongoose.Types.ObjectId(),
+      skillsOffered: [skill('Guitar')],
+      skillsWanted: [skill('Welsh')]
+    };
+    
+    const suggestions = await findChainSuggestions(user);
+    
+    expect(suggestions).toEqual([]);
+    // An unbounded search compares every pair of members: 250,000 comparisons
+    expect(findOverlap.mock.calls.length).toBeLessThan(25000);
+  });
+});
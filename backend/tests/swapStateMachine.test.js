@@ -0,0 +1,34 @@
+const mongoose = require('mongoose');
+const { assertTransition, getAvailableActions } = require('../src/utils/swapStateMachine');
+
+const buildSwap = (overrides = {}) => ({
+  requester: new mongoose.Types.ObjectId(),
+  receiver: new mongoose.Types.ObjectId(),
+  status: 'accepted',
+  sessionCount: 1,
+  revisions: [],
+  ...overrides
+});
+
+describe('swap state machine: complete', () => {
+  it('lets either member complete a single-session swap', () => {
+    const swap = buildSwap();
+    
+    expect(assertTransition(swap, 'complete', { _id: swap.requester }).to).toBe('completed');
+    expect(getAvailableActions(swap, { _id: swap.receiver })).toContain('complete');
+  });
+  
+  it('does not let members complete a multi-session swap by hand', () => {
+    const swap = buildSwap({ sessionCount: 3, sessionsGiven: { requester: 1, receiver: 3 } });
+    
+    expect(() => assertTransition(swap, 'complete', { _id: swap.requester }))
+      .toThrow('This swap completes automatically once every agreed session is completed');
+    expect(getAvailableActions(swap, { _id: swap.requester })).not.toContain('complete');
+  });
+  
+  it('lets the system complete a multi-session swap once its sessions are done', () => {
+    const swap = buildSwap({ sessionCount: 3 });
+    
+    expect(assertTransition(swap, 'complete', null).role).toBe('system');
+  });
+});
@@ -5,17 +5,32 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { SkillSwapProvider } from "@/contexts/SkillSwapContext";
 import { ThemeProvider } from "@/contexts/ThemeContext";
+import { useEventStream } from "@/hooks/useEventStream";
 import Login from "./pages/Auth/Login";
 import Register from "./pages/Auth/Register";
+import ForgotPassword from "./pages/Auth/ForgotPassword";
+import TwoFactorLogin from "./pages/Auth/TwoFactorLogin";
+import ResetPassword from "./pages/Auth/ResetPassword";
+import VerifyEmail from "./pages/Auth/VerifyEmail";
+import OidcCallback from "./pages/Auth/OidcCallback";
 import Dashboard from "./pages/Dashboard";
 import Profile from "./pages/Profile";
 import Browse from "./pages/Browse";
 import SwapRequests from "./pages/SwapRequests";
+import SwapDetail from "./pages/SwapDetail";
+import Notifications from "./pages/Notifications";
+import Wallet from "./pages/Wallet";
 import AdminDashboard from "./pages/AdminDashboard";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
+// Keeps the signed-in member's data live from the server event stream
+const RealtimeUpdates = () => {
+  useEventStream();
+  return null;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider>
@@ -23,15 +38,27 @@ const App = () => (
         <SkillSwapProvider>
           <Toaster />
           <Sonner />
+          <RealtimeUpdates />
           <BrowserRouter>
             <Routes>
               <Route path="/" element={<Navigate to="/login" replace />} />
               <Route path="/login" element={<Login />} />
+              <Route path="/login/two-factor" element={<TwoFactorLogin />} />
               <Route path="/register" element={<Register />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route
+                path="/reset-password/:token"
+                element={<ResetPassword />}
+              />
+              <Route path="/verify-email/:token" element={<VerifyEmail />} />
+              <Route path="/auth/callback" element={<OidcCallback />} />
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/profile" element={<Profile />} />
               <Route path="/browse" element={<Browse />} />
               <Route path="/swap-requests" element={<SwapRequests />} />
+              <Route path="/swaps/:id" element={<SwapDetail />} />
+              <Route path="/notifications" element={<Notifications />} />
+              <Route path="/wallet" element={<Wallet />} />
               <Route path="/admin" element={<AdminDashboard />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
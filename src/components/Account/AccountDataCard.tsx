@@ -0,0 +1,140 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { api } from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { Download, Trash2, Database } from "lucide-react";
+
+const AccountDataCard = () => {
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const [exporting, setExporting] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [password, setPassword] = useState("");
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleExport = async () => {
+    setError("");
+    setExporting(true);
+    try {
+      const blob = await api.exportAccountData();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `skill-swap-data-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setError("");
+    setDeleting(true);
+    try {
+      const { deletionScheduledFor } = await api.deleteAccount(password);
+      await logout();
+      navigate("/login", {
+        state: {
+          message: `Your account will be deleted on ${new Date(
+            deletionScheduledFor,
+          ).toLocaleDateString()}. Log in before then to keep it.`,
+        },
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not delete account");
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5" />
+          Your Data
+        </CardTitle>
+        <CardDescription>
+          Download a copy of your data or delete your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && !deleteOpen && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" disabled={exporting} onClick={handleExport}>
+            <Download className="h-4 w-4 mr-1" />
+            {exporting ? "Preparing export..." : "Download my data"}
+          </Button>
+          <Button
+            variant="outline"
+            className="text-red-600"
+            onClick={() => {
+              setError("");
+              setDeleteOpen(true);
+            }}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete account
+          </Button>
+        </div>
+
+        <Dialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Delete your account?</DialogTitle>
+              <DialogDescription>
+                You will be signed out everywhere. Your account is permanently
+                anonymised after 30 days; logging in before then cancels the
+                deletion.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              type="password"
+              placeholder="Confirm your password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <DialogFooter>
+              <Button variant="ghost" onClick={() => setDeleteOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={!password || deleting}
+                onClick={handleDelete}
+              >
+                {deleting ? "Deleting..." : "Delete account"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AccountDataCard;
@@ -0,0 +1,84 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useSessions, useRevokeSession } from "@/hooks/useApi";
+import { Monitor, LogOut } from "lucide-react";
+
+const ActiveSessionsCard = () => {
+  const { data: sessions = [], isLoading } = useSessions();
+  const revokeSession = useRevokeSession();
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="h-5 w-5" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices that are currently signed in to your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && (
+          <p className="text-sm text-gray-500">Loading sessions...</p>
+        )}
+
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className="flex items-center justify-between p-3 border rounded-lg"
+          >
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{session.device}</span>
+                {session.isCurrent && (
+                  <Badge variant="secondary" className="text-xs">
+                    This device
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                {session.ipAddress} · Last active{" "}
+                {new Date(session.lastUsedAt).toLocaleString()}
+              </p>
+            </div>
+            {!session.isCurrent && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={revokeSession.isPending}
+                onClick={() => revokeSession.mutate(session.id)}
+              >
+                <LogOut className="h-4 w-4 mr-1" />
+                Sign out
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {hasOtherSessions && (
+          <Button
+            variant="outline"
+            className="w-full text-red-600"
+            disabled={revokeSession.isPending}
+            onClick={() => revokeSession.mutate(undefined)}
+          >
+            Sign out of all other devices
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveSessionsCard;
@@ -0,0 +1,60 @@
+import React from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useSecurityEvents } from "@/hooks/useApi";
+import { SecurityEvent } from "@/types";
+import { ShieldAlert } from "lucide-react";
+
+const describeEvent = (event: SecurityEvent) => {
+  switch (event.type) {
+    case "account-locked":
+      return `Account locked after ${event.details?.failedAttempts ?? "several"} failed login attempts`;
+    default:
+      return event.type;
+  }
+};
+
+const SecurityEventsCard = () => {
+  const { data: events = [], isLoading } = useSecurityEvents();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Security Activity
+        </CardTitle>
+        <CardDescription>
+          Recent security events on your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && (
+          <p className="text-sm text-gray-500">Loading activity...</p>
+        )}
+
+        {!isLoading && events.length === 0 && (
+          <p className="text-sm text-gray-500">No security events recorded.</p>
+        )}
+
+        {events.map((event) => (
+          <div key={event.id} className="p-3 border rounded-lg">
+            <p className="font-medium text-sm">{describeEvent(event)}</p>
+            <p className="text-xs text-gray-500">
+              {event.ipAddress} · {new Date(event.createdAt).toLocaleString()}
+              {event.details?.lockedUntil &&
+                ` · Locked until ${new Date(event.details.lockedUntil).toLocaleTimeString()}`}
+            </p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SecurityEventsCard;
@@ -0,0 +1,246 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import {
+  useTwoFactorStatus,
+  useSetupTwoFactor,
+  useEnableTwoFactor,
+  useRegenerateRecoveryCodes,
+  useDisableTwoFactor,
+} from "@/hooks/useApi";
+import { ShieldCheck, ShieldAlert } from "lucide-react";
+
+const CodeInput = ({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) => (
+  <InputOTP maxLength={6} value={value} onChange={onChange}>
+    <InputOTPGroup>
+      {Array.from({ length: 6 }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+const TwoFactorCard = () => {
+  const { data: status, isLoading } = useTwoFactorStatus();
+  const setupTwoFactor = useSetupTwoFactor();
+  const enableTwoFactor = useEnableTwoFactor();
+  const regenerateRecoveryCodes = useRegenerateRecoveryCodes();
+  const disableTwoFactor = useDisableTwoFactor();
+
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [action, setAction] = useState<"regenerate" | "disable" | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [error, setError] = useState("");
+
+  const enrolment = setupTwoFactor.data;
+
+  const resetForm = () => {
+    setCode("");
+    setPassword("");
+    setAction(null);
+    setError("");
+  };
+
+  const handleError = (err: unknown) => {
+    setError(err instanceof Error ? err.message : "Something went wrong");
+    setCode("");
+  };
+
+  const handleEnable = () => {
+    setError("");
+    enableTwoFactor.mutate(code, {
+      onSuccess: (codes) => {
+        setRecoveryCodes(codes);
+        setupTwoFactor.reset();
+        resetForm();
+      },
+      onError: handleError,
+    });
+  };
+
+  const handleConfirmAction = () => {
+    setError("");
+    if (action === "regenerate") {
+      regenerateRecoveryCodes.mutate(code, {
+        onSuccess: (codes) => {
+          setRecoveryCodes(codes);
+          resetForm();
+        },
+        onError: handleError,
+      });
+    } else if (action === "disable") {
+      disableTwoFactor.mutate(
+        { password, code },
+        { onSuccess: resetForm, onError: handleError },
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && (
+            <Badge variant="secondary" className="text-xs">
+              Enabled
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when signing in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-gray-500">Loading...</p>}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {recoveryCodes.length > 0 && (
+          <div className="p-4 border rounded-lg bg-amber-50 dark:bg-amber-900/20 space-y-3">
+            <p className="text-sm font-medium">
+              Save these recovery codes somewhere safe. Each one can be used
+              once if you lose access to your authenticator app. They will not
+              be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button size="sm" onClick={() => setRecoveryCodes([])}>
+              I have saved my codes
+            </Button>
+          </div>
+        )}
+
+        {status && !status.enabled && (
+          <>
+            {status.required && (
+              <div className="flex items-center gap-2 text-sm text-amber-700 dark:text-amber-300">
+                <ShieldAlert className="h-4 w-4" />
+                Two-factor authentication is required for admin accounts.
+              </div>
+            )}
+
+            {!enrolment ? (
+              <Button
+                disabled={setupTwoFactor.isPending}
+                onClick={() => setupTwoFactor.mutate()}
+              >
+                Set up two-factor authentication
+              </Button>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  Scan this QR code with your authenticator app, then enter the
+                  6-digit code it shows.
+                </p>
+                <img
+                  src={enrolment.qrCode}
+                  alt="Two-factor authentication QR code"
+                  className="w-44 h-44 border rounded-lg bg-white"
+                />
+                <p className="text-xs text-gray-500">
+                  Can't scan? Enter this key manually:{" "}
+                  <span className="font-mono break-all">
+                    {enrolment.secret}
+                  </span>
+                </p>
+                <CodeInput value={code} onChange={setCode} />
+                <Button
+                  disabled={code.length < 6 || enableTwoFactor.isPending}
+                  onClick={handleEnable}
+                >
+                  Verify and enable
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {status?.enabled && (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {status.recoveryCodesRemaining} recovery codes remaining
+            </p>
+
+            {!action ? (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setAction("regenerate")}
+                >
+                  Generate new recovery codes
+                </Button>
+                {!status.required && (
+                  <Button
+                    variant="outline"
+                    className="text-red-600"
+                    onClick={() => setAction("disable")}
+                  >
+                    Disable
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  Enter a code from your authenticator app to continue.
+                </p>
+                {action === "disable" && (
+                  <Input
+                    type="password"
+                    placeholder="Current password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                )}
+                <CodeInput value={code} onChange={setCode} />
+                <div className="flex gap-2">
+                  <Button
+                    disabled={
+                      code.length < 6 ||
+                      (action === "disable" && !password) ||
+                      regenerateRecoveryCodes.isPending ||
+                      disableTwoFactor.isPending
+                    }
+                    onClick={handleConfirmAction}
+                  >
+                    Confirm
+                  </Button>
+                  <Button variant="ghost" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorCard;
@@ -0,0 +1,359 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import DisputeComments from "@/components/Swaps/DisputeComments";
+import { useDisputeQueue, useResolveDispute } from "@/hooks/useApi";
+import {
+  describeOffer,
+  disputeOutcomeLabels,
+  disputeReasonLabels,
+} from "@/lib/utils";
+import { Dispute, DisputeMember, DisputeOutcome } from "@/types";
+import { CheckCircle, ChevronLeft, ChevronRight, Gavel } from "lucide-react";
+
+// Outcomes that act on the member at fault
+const FAULT_OUTCOMES: DisputeOutcome[] = ["warn", "ban"];
+
+const outcomeDescriptions: Record<DisputeOutcome, string> = {
+  dismiss: "Dismiss: no further action",
+  "void-swap": "Void swap: cancel it and refund its credits",
+  warn: "Warn the member at fault",
+  ban: "Ban the member at fault",
+};
+
+// Select value for "neither member"
+const NO_FAULT = "none";
+
+// A member of a dispute with their track record
+const MemberSummary = ({
+  label,
+  member,
+}: {
+  label: string;
+  member: DisputeMember;
+}) => (
+  <div className="p-3 bg-gray-50 rounded-lg text-sm space-y-1">
+    <p className="text-xs text-gray-500">{label}</p>
+    <div className="flex items-center gap-2">
+      <span className="font-medium">{member.name}</span>
+      {member.isBanned && <Badge variant="destructive">Banned</Badge>}
+    </div>
+    {member.email && <p className="text-xs text-gray-500">{member.email}</p>}
+    <p className="text-xs text-gray-600">
+      {(member.averageRating ?? 0).toFixed(1)} ★ ({member.totalRatings ?? 0}{" "}
+      ratings) · {member.totalSwaps ?? 0} swaps
+    </p>
+    {member.reliability && (
+      <p className="text-xs text-gray-600">
+        Disputes {member.reliability.disputes} · lost{" "}
+        {member.reliability.disputesLost} · no-shows{" "}
+        {member.reliability.noShows} · warnings {member.reliability.warnings}
+      </p>
+    )}
+  </div>
+);
+
+// Admin queue of disputes between swap partners, oldest first, with the
+// outcome recorded against both members' reliability stats
+const DisputeQueueCard = () => {
+  const [status, setStatus] = useState<Dispute["status"]>("open");
+  const [page, setPage] = useState(1);
+  const [resolving, setResolving] = useState<Dispute | null>(null);
+  const [outcome, setOutcome] = useState<DisputeOutcome>("dismiss");
+  const [atFault, setAtFault] = useState(NO_FAULT);
+  const [note, setNote] = useState("");
+  const [error, setError] = useState("");
+
+  const { data, isLoading } = useDisputeQueue(status, page);
+  const resolveDispute = useResolveDispute();
+
+  const disputes = data?.disputes ?? [];
+  const pagination = data?.pagination;
+  const needsFault = FAULT_OUTCOMES.includes(outcome) && atFault === NO_FAULT;
+
+  const startResolving = (dispute: Dispute) => {
+    setError("");
+    setOutcome("dismiss");
+    setAtFault(NO_FAULT);
+    setNote("");
+    setResolving(dispute);
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+
+    setError("");
+    try {
+      await resolveDispute.mutateAsync({
+        disputeId: resolving.id,
+        resolution: {
+          outcome,
+          atFault: atFault === NO_FAULT ? undefined : atFault,
+          note: note.trim() || undefined,
+        },
+      });
+      setResolving(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Could not resolve dispute",
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Disputes</CardTitle>
+            <CardDescription>
+              No-show reports and complaints between swap partners
+              {pagination ? ` · ${pagination.totalDisputes} ${status}` : ""}
+            </CardDescription>
+          </div>
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as Dispute["status"]);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {error && !resolving && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {isLoading && (
+            <p className="text-sm text-gray-500">Loading disputes...</p>
+          )}
+
+          {disputes.map((dispute) => (
+            <div key={dispute.id} className="p-4 border rounded-lg space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium">
+                      {dispute.swap.requestedSkill} for{" "}
+                      {describeOffer(dispute.swap)}
+                    </h3>
+                    <Badge variant="destructive">
+                      {disputeReasonLabels[dispute.reason]}
+                    </Badge>
+                    <Badge variant="outline">{dispute.swap.status}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Opened {format(new Date(dispute.createdAt), "d MMM yyyy")}
+                    {dispute.session &&
+                      ` · session of ${format(new Date(dispute.session.scheduledFor), "d MMM yyyy, HH:mm")}`}
+                  </p>
+                </div>
+                {dispute.status === "open" && (
+                  <Button size="sm" onClick={() => startResolving(dispute)}>
+                    <Gavel className="h-4 w-4 mr-1" />
+                    Resolve
+                  </Button>
+                )}
+              </div>
+
+              <div className="grid gap-3 md:grid-cols-2">
+                <MemberSummary label="Opened by" member={dispute.openedBy} />
+                <MemberSummary label="About" member={dispute.against} />
+              </div>
+
+              <DisputeComments comments={dispute.comments} />
+
+              {dispute.resolution && (
+                <div className="text-sm p-3 border rounded-lg">
+                  <span className="font-medium">
+                    {disputeOutcomeLabels[dispute.resolution.outcome]}
+                  </span>
+                  {dispute.resolution.atFault &&
+                    ` · at fault: ${dispute.resolution.atFault.name}`}
+                  {dispute.resolution.resolvedBy &&
+                    ` · by ${dispute.resolution.resolvedBy.name}`}{" "}
+                  <span className="text-xs text-gray-500">
+                    {format(
+                      new Date(dispute.resolution.resolvedAt),
+                      "d MMM yyyy",
+                    )}
+                  </span>
+                  {dispute.resolution.note && (
+                    <p className="text-gray-600 italic">
+                      "{dispute.resolution.note}"
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {!isLoading && disputes.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              <CheckCircle className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+              <p>
+                {status === "open"
+                  ? "No disputes waiting for a decision"
+                  : "No resolved disputes yet"}
+              </p>
+            </div>
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!pagination.hasPrevPage}
+                onClick={() => setPage((current) => current - 1)}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-sm text-gray-500">
+                Page {pagination.currentPage} of {pagination.totalPages}
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!pagination.hasNextPage}
+                onClick={() => setPage((current) => current + 1)}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog
+        open={resolving !== null}
+        onOpenChange={(open) => {
+          if (!open) setResolving(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve dispute</DialogTitle>
+            <DialogDescription>
+              Both members are notified, and the dispute counts towards both
+              members' reliability stats.
+            </DialogDescription>
+          </DialogHeader>
+          {resolving && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Outcome</Label>
+                <Select
+                  value={outcome}
+                  onValueChange={(value) => setOutcome(value as DisputeOutcome)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(outcomeDescriptions) as DisputeOutcome[]).map(
+                      (option) => (
+                        <SelectItem key={option} value={option}>
+                          {outcomeDescriptions[option]}
+                        </SelectItem>
+                      ),
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Member at fault</Label>
+                <Select value={atFault} onValueChange={setAtFault}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_FAULT}>Neither member</SelectItem>
+                    <SelectItem value={resolving.openedBy.id}>
+                      {resolving.openedBy.name} (opened the dispute)
+                    </SelectItem>
+                    <SelectItem value={resolving.against.id}>
+                      {resolving.against.name}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="resolution-note">Note to both members</Label>
+                <Textarea
+                  id="resolution-note"
+                  value={note}
+                  maxLength={1000}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder={
+                    outcome === "ban"
+                      ? "Also used as the ban reason"
+                      : "Explain the decision"
+                  }
+                  rows={3}
+                />
+              </div>
+              {needsFault && (
+                <p className="text-sm text-gray-600">
+                  Choose the member at fault to {outcome} them.
+                </p>
+              )}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={outcome === "ban" ? "destructive" : "default"}
+              disabled={needsFault || resolveDispute.isPending}
+              onClick={handleResolve}
+            >
+              Resolve Dispute
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default DisputeQueueCard;
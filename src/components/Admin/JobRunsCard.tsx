@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useJobRuns } from "@/hooks/useApi";
+import { JobRun } from "@/types";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+const statusStyles: Record<JobRun["status"], string> = {
+  running: "bg-blue-100 text-blue-700",
+  succeeded: "bg-emerald-100 text-emerald-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+// e.g. { expired: 3, failed: 0 } -> "expired 3 · failed 0"
+const describeResult = (result?: Record<string, number>) =>
+  Object.entries(result ?? {})
+    .map(([key, value]) => `${key} ${value}`)
+    .join(" · ");
+
+// Admin view of background jobs and their recent runs
+const JobRunsCard = () => {
+  const [page, setPage] = useState(1);
+  const [job, setJob] = useState<string | undefined>();
+  const { data, isLoading } = useJobRuns({ job, page });
+
+  const jobs = data?.jobs ?? [];
+  const runs = data?.runs ?? [];
+  const pagination = data?.pagination;
+
+  const selectJob = (name?: string) => {
+    setJob(name);
+    setPage(1);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Background Jobs</CardTitle>
+        <CardDescription>
+          Scheduled housekeeping jobs and their last 30 days of runs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-3 md:grid-cols-2">
+          {jobs.map((entry) => (
+            <button
+              key={entry.name}
+              type="button"
+              onClick={() =>
+                selectJob(job === entry.name ? undefined : entry.name)
+              }
+              className={`p-3 border rounded-lg text-left ${
+                job === entry.name ? "border-primary" : ""
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{entry.name}</span>
+                {entry.lockedBy ? (
+                  <Badge className={`border-0 ${statusStyles.running}`}>
+                    running
+                  </Badge>
+                ) : (
+                  entry.lastStatus && (
+                    <Badge
+                      className={`border-0 ${statusStyles[entry.lastStatus]}`}
+                    >
+                      {entry.lastStatus}
+                    </Badge>
+                  )
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                Next run {new Date(entry.nextRunAt).toLocaleString()}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          {isLoading && (
+            <p className="text-sm text-gray-500">Loading job runs...</p>
+          )}
+          {!isLoading && runs.length === 0 && (
+            <p className="text-sm text-gray-500">No job runs yet</p>
+          )}
+          {runs.map((run) => (
+            <div
+              key={run.id}
+              className="flex items-center justify-between p-3 border rounded-lg text-sm"
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{run.job}</span>
+                  <Badge className={`border-0 ${statusStyles[run.status]}`}>
+                    {run.status}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {run.error ?? describeResult(run.result)}
+                </p>
+              </div>
+              <div className="text-right text-xs text-gray-500">
+                <p>{new Date(run.startedAt).toLocaleString()}</p>
+                {run.durationMs !== undefined && <p>{run.durationMs} ms</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!pagination.hasPrevPage}
+              onClick={() => setPage((current) => current - 1)}
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <span className="text-sm text-gray-500">
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!pagination.hasNextPage}
+              onClick={() => setPage((current) => current + 1)}
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JobRunsCard;
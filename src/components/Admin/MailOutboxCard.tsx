@@ -0,0 +1,238 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  useMailMessage,
+  useMailOutbox,
+  useRetryMailMessage,
+} from "@/hooks/useApi";
+import { MailMessage } from "@/types";
+import { ChevronLeft, ChevronRight, RotateCw } from "lucide-react";
+
+const statusStyles: Record<MailMessage["status"], string> = {
+  queued: "bg-gray-100 text-gray-700",
+  sending: "bg-blue-100 text-blue-700",
+  sent: "bg-emerald-100 text-emerald-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+const statuses = Object.keys(statusStyles) as MailMessage["status"][];
+
+// Shows one message's HTML and text bodies
+const MailPreviewDialog = ({
+  messageId,
+  onClose,
+}: {
+  messageId: string | null;
+  onClose: () => void;
+}) => {
+  const { data: message, isLoading } = useMailMessage(messageId ?? undefined);
+
+  return (
+    <Dialog open={!!messageId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{message?.subject ?? "Mail message"}</DialogTitle>
+          {message && (
+            <DialogDescription>
+              {message.from} → {message.to} · {message.template}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        {isLoading && <p className="text-sm text-gray-500">Loading...</p>}
+        {message && !message.text && !message.html && (
+          <p className="text-sm text-gray-500">
+            The body of this message was removed after delivery because it
+            contained a one-time link.
+          </p>
+        )}
+        {message?.html && (
+          <iframe
+            title="HTML preview"
+            sandbox=""
+            srcDoc={message.html}
+            className="w-full h-80 border rounded-lg bg-white"
+          />
+        )}
+        {message?.text && (
+          <pre className="max-h-48 overflow-auto p-3 border rounded-lg text-xs whitespace-pre-wrap">
+            {message.text}
+          </pre>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Admin view of outbound email: the delivery queue and sent messages
+const MailOutboxCard = () => {
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<MailMessage["status"] | undefined>();
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const { data, isLoading } = useMailOutbox({ status, page });
+  const retryMessage = useRetryMailMessage();
+
+  const messages = data?.messages ?? [];
+  const pagination = data?.pagination;
+
+  const selectStatus = (value?: MailMessage["status"]) => {
+    setStatus(value);
+    setPage(1);
+  };
+
+  const handleRetry = async (messageId: string) => {
+    setError("");
+    try {
+      await retryMessage.mutateAsync(messageId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not retry message");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Mail Outbox</CardTitle>
+        <CardDescription>
+          Email sent by the platform over the last 30 days
+          {data ? ` · delivered with the ${data.transport} transport` : ""}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant={status ? "ghost" : "secondary"}
+            onClick={() => selectStatus(undefined)}
+          >
+            All
+          </Button>
+          {statuses.map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={status === value ? "secondary" : "ghost"}
+              onClick={() => selectStatus(value)}
+            >
+              {value} ({data?.counts[value] ?? 0})
+            </Button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="space-y-2">
+          {isLoading && (
+            <p className="text-sm text-gray-500">Loading messages...</p>
+          )}
+          {!isLoading && messages.length === 0 && (
+            <p className="text-sm text-gray-500">No messages</p>
+          )}
+          {messages.map((message) => (
+            <div
+              key={message.id}
+              className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm"
+            >
+              <button
+                type="button"
+                className="flex-1 min-w-0 text-left"
+                onClick={() => setPreviewId(message.id)}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">
+                    {message.subject}
+                  </span>
+                  <Badge className={`border-0 ${statusStyles[message.status]}`}>
+                    {message.status}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500 truncate">
+                  {message.to} · {message.template} · attempt {message.attempts}{" "}
+                  of {message.maxAttempts}
+                </p>
+                {message.lastError && (
+                  <p className="text-xs text-red-600 truncate">
+                    {message.lastError}
+                  </p>
+                )}
+              </button>
+              <div className="flex items-center gap-3">
+                <div className="text-right text-xs text-gray-500">
+                  <p>
+                    {new Date(
+                      message.sentAt ?? message.createdAt,
+                    ).toLocaleString()}
+                  </p>
+                  {message.status === "queued" && message.attempts > 0 && (
+                    <p>
+                      Retry {new Date(message.nextAttemptAt).toLocaleString()}
+                    </p>
+                  )}
+                </div>
+                {message.status === "failed" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={retryMessage.isPending}
+                    onClick={() => handleRetry(message.id)}
+                  >
+                    <RotateCw className="h-4 w-4 mr-1" />
+                    Retry
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!pagination.hasPrevPage}
+              onClick={() => setPage((current) => current - 1)}
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <span className="text-sm text-gray-500">
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!pagination.hasNextPage}
+              onClick={() => setPage((current) => current + 1)}
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <MailPreviewDialog
+        messageId={previewId}
+        onClose={() => setPreviewId(null)}
+      />
+    </Card>
+  );
+};
+
+export default MailOutboxCard;
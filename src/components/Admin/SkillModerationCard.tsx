@@ -0,0 +1,218 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  usePendingSkills,
+  useApproveSkill,
+  useRejectSkill,
+} from "@/hooks/useApi";
+import { PendingSkill } from "@/types";
+import { CheckCircle, XCircle, ChevronLeft, ChevronRight } from "lucide-react";
+
+// Admin queue of custom skills waiting for approval
+const SkillModerationCard = () => {
+  const [page, setPage] = useState(1);
+  const [rejecting, setRejecting] = useState<PendingSkill | null>(null);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+
+  const { data, isLoading } = usePendingSkills(page);
+  const approveSkill = useApproveSkill();
+  const rejectSkill = useRejectSkill();
+
+  const skills = data?.skills ?? [];
+  const pagination = data?.pagination;
+
+  const handleApprove = async (skillId: string) => {
+    setError("");
+    try {
+      await approveSkill.mutateAsync(skillId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not approve skill");
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+
+    setError("");
+    try {
+      await rejectSkill.mutateAsync({
+        skillId: rejecting.id,
+        reason: reason.trim(),
+      });
+      setRejecting(null);
+      setReason("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not reject skill");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Skills Moderation</CardTitle>
+        <CardDescription>
+          Review custom skills before they appear in search results
+          {pagination ? ` · ${pagination.totalSkills} pending` : ""}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {error && !rejecting && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {isLoading && (
+            <p className="text-sm text-gray-500">Loading pending skills...</p>
+          )}
+
+          {skills.map((skill) => (
+            <div key={skill.id} className="p-4 border rounded-lg">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium">{skill.name}</h3>
+                    <Badge variant="outline" className="text-xs">
+                      {skill.type === "offered" ? "Offered" : "Wanted"}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {skill.category} • {skill.level}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    By: {skill.user.name} ({skill.user.email})
+                  </p>
+                  {skill.description && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {skill.description}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-1">
+                    Submitted {new Date(skill.submittedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={approveSkill.isPending}
+                    onClick={() => handleApprove(skill.id)}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => {
+                      setError("");
+                      setRejecting(skill);
+                    }}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {!isLoading && skills.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              <CheckCircle className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+              <p>No skills waiting for approval</p>
+            </div>
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!pagination.hasPrevPage}
+                onClick={() => setPage((current) => current - 1)}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-sm text-gray-500">
+                Page {pagination.currentPage} of {pagination.totalPages}
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!pagination.hasNextPage}
+                onClick={() => setPage((current) => current + 1)}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog
+        open={rejecting !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejecting(null);
+            setReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject "{rejecting?.name}"</DialogTitle>
+            <DialogDescription>
+              The skill is removed from {rejecting?.user.name}'s profile and
+              they are emailed the reason below.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-reason">Reason</Label>
+            <Textarea
+              id="reject-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Explain why this skill was not approved"
+              rows={3}
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={reason.trim().length < 3 || rejectSkill.isPending}
+              onClick={handleReject}
+            >
+              Reject Skill
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default SkillModerationCard;
@@ -0,0 +1,39 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api";
+import { useOidcProviders } from "@/hooks/useApi";
+import { KeyRound } from "lucide-react";
+
+// "Continue with…" buttons for the external sign-in providers configured on the server
+const OidcProviderButtons = () => {
+  const { data: providers } = useOidcProviders();
+
+  if (!providers || providers.length === 0) return null;
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center gap-3 text-xs uppercase text-gray-400">
+        <div className="h-px flex-1 bg-gray-200 dark:bg-gray-700" />
+        or
+        <div className="h-px flex-1 bg-gray-200 dark:bg-gray-700" />
+      </div>
+      {providers.map((provider) => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          className="w-full rounded-2xl py-3 border-2"
+          onClick={() => {
+            // Full-page navigation so the provider can redirect back with cookies
+            window.location.assign(api.getOidcAuthorizeUrl(provider.id));
+          }}
+        >
+          <KeyRound className="h-4 w-4 mr-2" />
+          Continue with {provider.name}
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+export default OidcProviderButtons;
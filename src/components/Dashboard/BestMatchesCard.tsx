@@ -0,0 +1,206 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMatches } from "@/hooks/useApi";
+import { MeetingType } from "@/types";
+import {
+  ArrowLeftRight,
+  ChevronDown,
+  ChevronUp,
+  Star,
+  Users,
+} from "lucide-react";
+
+// Suggested swap partners scored by the server's matching engine
+const BestMatchesCard = () => {
+  const navigate = useNavigate();
+  const [meetingType, setMeetingType] = useState<MeetingType>("hybrid");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { data: matches = [], isLoading } = useMatches({
+    meetingType,
+    limit: 5,
+  });
+
+  return (
+    <Card className="border-0 shadow-xl shadow-purple-500/10 backdrop-blur-sm bg-white/80 dark:bg-gray-800/95 rounded-3xl overflow-hidden transition-colors duration-300">
+      <CardHeader className="bg-gradient-to-r from-amber-50 to-pink-50 dark:from-gray-800 dark:to-gray-700 border-b border-amber-100/50 dark:border-gray-600">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-3">
+              <div className="p-2 bg-gradient-to-r from-amber-500 to-pink-500 rounded-xl">
+                <Users className="h-5 w-5 text-white" />
+              </div>
+              <span className="bg-gradient-to-r from-amber-600 to-pink-600 bg-clip-text text-transparent">
+                Best matches for you
+              </span>
+            </CardTitle>
+            <CardDescription className="dark:text-gray-100">
+              People who teach what you want to learn and want to learn what you
+              teach
+            </CardDescription>
+          </div>
+          <Select
+            value={meetingType}
+            onValueChange={(value) => setMeetingType(value as MeetingType)}
+          >
+            <SelectTrigger className="w-full md:w-40 rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hybrid">Online or in person</SelectItem>
+              <SelectItem value="online">Online only</SelectItem>
+              <SelectItem value="in-person">In person only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6">
+        {isLoading && (
+          <p className="text-sm text-gray-500 dark:text-gray-100">
+            Finding your matches...
+          </p>
+        )}
+
+        {!isLoading && matches.length === 0 && (
+          <div className="text-center py-8 space-y-3">
+            <p className="text-gray-600 dark:text-white font-medium">
+              No matches yet
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-100">
+              Add the skills you offer and want to learn to get matched
+            </p>
+            <Button
+              variant="outline"
+              className="rounded-2xl"
+              onClick={() => navigate("/profile")}
+            >
+              Update your skills
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {matches.map((match) => {
+            const isExpanded = expandedId === match.user.id;
+
+            return (
+              <div
+                key={match.user.id}
+                className="p-4 bg-gradient-to-r from-gray-50 to-white dark:from-gray-700 dark:to-gray-800 rounded-2xl border border-gray-100 dark:border-gray-600"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-start gap-3">
+                    <Avatar>
+                      <AvatarImage src={match.user.profilePhoto} />
+                      <AvatarFallback>
+                        {match.user.name.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold text-gray-800 dark:text-white">
+                          {match.user.name}
+                        </p>
+                        {match.isReciprocal && (
+                          <Badge className="bg-gradient-to-r from-emerald-500 to-teal-500 text-white border-0 text-xs">
+                            <ArrowLeftRight className="h-3 w-3 mr-1" />
+                            Two-way
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-100 flex items-center gap-1">
+                        {match.user.location && (
+                          <span>{match.user.location} ·</span>
+                        )}
+                        <Star className="h-3 w-3 text-amber-500" />
+                        {match.user.totalRatings > 0
+                          ? match.user.averageRating.toFixed(1)
+                          : "New"}
+                      </p>
+                      <div className="flex flex-wrap gap-1 pt-1">
+                        {match.matchedSkills.theyTeach.map((skill) => (
+                          <Badge
+                            key={`teach-${skill}`}
+                            className="bg-blue-100 text-blue-700 border border-blue-200 text-xs"
+                          >
+                            Learn {skill}
+                          </Badge>
+                        ))}
+                        {match.matchedSkills.youTeach.map((skill) => (
+                          <Badge
+                            key={`learn-${skill}`}
+                            className="bg-emerald-100 text-emerald-700 border border-emerald-200 text-xs"
+                          >
+                            Teach {skill}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-2xl font-bold text-gray-800 dark:text-white">
+                      {Math.round(match.score)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-100">
+                      / 100
+                    </p>
+                  </div>
+                </div>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="mt-2 h-auto p-1 text-xs text-purple-600 dark:text-purple-300"
+                  onClick={() =>
+                    setExpandedId(isExpanded ? null : match.user.id)
+                  }
+                >
+                  Why this match?
+                  {isExpanded ? (
+                    <ChevronUp className="h-3 w-3 ml-1" />
+                  ) : (
+                    <ChevronDown className="h-3 w-3 ml-1" />
+                  )}
+                </Button>
+
+                {isExpanded && (
+                  <ul className="mt-2 space-y-1">
+                    {match.explanations.map((explanation) => (
+                      <li
+                        key={explanation.factor}
+                        className="flex justify-between gap-4 text-xs text-gray-600 dark:text-gray-100"
+                      >
+                        <span>{explanation.reason}</span>
+                        <span className="whitespace-nowrap font-medium">
+                          {explanation.points} / {explanation.maxPoints}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BestMatchesCard;
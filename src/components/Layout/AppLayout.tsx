@@ -12,6 +12,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/contexts/AuthContext";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
+import NotificationBell from "@/components/Layout/NotificationBell";
 import {
   Users,
   Search,
@@ -24,6 +25,7 @@ import {
   Sparkles,
   Zap,
   Heart,
+  Hourglass,
 } from "lucide-react";
 
 interface AppLayoutProps {
@@ -54,6 +56,12 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
       path: "/swap-requests",
       gradient: "from-emerald-500 to-teal-500",
     },
+    {
+      icon: Hourglass,
+      label: "Wallet",
+      path: "/wallet",
+      gradient: "from-amber-500 to-yellow-500",
+    },
     {
       icon: User,
       label: "Profile",
@@ -150,14 +158,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
             {/* User Menu */}
             <div className="flex items-center gap-4">
               <ThemeToggle />
-              <Button
-                variant="ghost"
-                size="sm"
-                className="relative hover:bg-white/60 dark:hover:bg-white/10 backdrop-blur-sm border border-white/30 dark:border-white/20 hover:shadow-md group"
-              >
-                <Bell className="h-4 w-4" />
-                <div className="absolute top-1 right-1 w-2 h-2 bg-gradient-to-r from-pink-500 to-red-500 rounded-full animate-pulse"></div>
-              </Button>
+              <NotificationBell />
 
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -211,6 +212,13 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
                     <User className="mr-2 h-4 w-4 text-purple-600" />
                     Profile
                   </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => navigate("/notifications")}
+                    className="hover:bg-purple-50/50 dark:hover:bg-purple-900/20 cursor-pointer"
+                  >
+                    <Bell className="mr-2 h-4 w-4 text-gray-600" />
+                    Notifications
+                  </DropdownMenuItem>
                   <DropdownMenuItem className="hover:bg-purple-50/50 dark:hover:bg-purple-900/20 cursor-pointer">
                     <Settings className="mr-2 h-4 w-4 text-gray-600" />
                     Settings
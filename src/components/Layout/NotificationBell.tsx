@@ -0,0 +1,121 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotifications,
+  useUnreadNotificationCount,
+} from "@/hooks/useApi";
+import { AppNotification } from "@/types";
+import { Bell } from "lucide-react";
+
+const PREVIEW_LIMIT = 5;
+
+// Header bell with the unread count and the latest notifications
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { data: unreadCount = 0 } = useUnreadNotificationCount();
+  const { data } = useNotifications(1, false, PREVIEW_LIMIT);
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const notifications = data?.notifications ?? [];
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.isRead) {
+      markRead.mutate(notification.id);
+    }
+    navigate(notification.link ?? "/notifications");
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label={`Notifications (${unreadCount} unread)`}
+          className="relative hover:bg-white/60 dark:hover:bg-white/10 backdrop-blur-sm border border-white/30 dark:border-white/20 hover:shadow-md group"
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-gradient-to-r from-pink-500 to-red-500 text-[10px] font-semibold leading-[1.1rem] text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="w-80 backdrop-blur-md bg-white/90 dark:bg-gray-800/90 border border-white/20 dark:border-gray-700/50 shadow-xl"
+      >
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              disabled={markAllRead.isPending}
+              onClick={() => markAllRead.mutate()}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 && (
+          <p className="px-2 py-6 text-center text-sm text-gray-500">
+            You're all caught up
+          </p>
+        )}
+        {notifications.map((notification) => (
+          <DropdownMenuItem
+            key={notification.id}
+            onClick={() => openNotification(notification)}
+            className="flex items-start gap-2 cursor-pointer"
+          >
+            <span
+              className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                notification.isRead ? "bg-transparent" : "bg-purple-500"
+              }`}
+            />
+            <div className="min-w-0">
+              <p
+                className={`text-sm ${notification.isRead ? "" : "font-semibold"}`}
+              >
+                {notification.title}
+              </p>
+              {notification.body && (
+                <p className="text-xs text-gray-500 line-clamp-2">
+                  {notification.body}
+                </p>
+              )}
+              <p className="text-xs text-gray-400">
+                {new Date(notification.createdAt).toLocaleString()}
+              </p>
+            </div>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          onClick={() => navigate("/notifications")}
+          className="justify-center cursor-pointer text-sm font-medium"
+        >
+          View all notifications
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,64 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { MailWarning } from "lucide-react";
+
+interface VerifyEmailBannerProps {
+  email: string;
+  onResend: () => Promise<void>;
+}
+
+const VerifyEmailBanner: React.FC<VerifyEmailBannerProps> = ({
+  email,
+  onResend,
+}) => {
+  const [status, setStatus] = useState<"idle" | "sending" | "sent" | "error">(
+    "idle",
+  );
+
+  const handleResend = async () => {
+    setStatus("sending");
+    try {
+      await onResend();
+      setStatus("sent");
+    } catch (error) {
+      setStatus("error");
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-50 bg-gradient-to-r from-amber-100 to-orange-100 dark:from-amber-900/60 dark:to-orange-900/60 border-b border-amber-200 dark:border-amber-800">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm text-amber-900 dark:text-amber-100">
+          <MailWarning className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Please verify your email address (<strong>{email}</strong>) to
+            request swaps and leave ratings.
+          </span>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          {status === "sent" && (
+            <span className="text-emerald-700 dark:text-emerald-300">
+              Verification email sent!
+            </span>
+          )}
+          {status === "error" && (
+            <span className="text-red-700 dark:text-red-300">
+              Could not send email. Try again later.
+            </span>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={status === "sending" || status === "sent"}
+            onClick={handleResend}
+            className="border-amber-300 bg-white/60 hover:bg-white dark:bg-gray-900/40"
+          >
+            {status === "sending" ? "Sending..." : "Resend email"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailBanner;
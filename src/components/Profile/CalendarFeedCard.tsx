@@ -0,0 +1,138 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  useCalendarFeed,
+  useCreateCalendarFeed,
+  useDeleteCalendarFeed,
+} from "@/hooks/useApi";
+import { CalendarFeedLink } from "@/types";
+import { CalendarDays, Copy } from "lucide-react";
+
+// Subscribable calendar of the member's swap sessions; the feed URL is only
+// known right after it is created
+const CalendarFeedCard = () => {
+  const { data: feed, isLoading } = useCalendarFeed();
+  const createFeed = useCreateCalendarFeed();
+  const deleteFeed = useDeleteCalendarFeed();
+  const [link, setLink] = useState<CalendarFeedLink>();
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleCreate = async () => {
+    setError("");
+    setCopied(false);
+    try {
+      setLink(await createFeed.mutateAsync());
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Could not create calendar feed",
+      );
+    }
+  };
+
+  const handleDelete = async () => {
+    setError("");
+    try {
+      await deleteFeed.mutateAsync();
+      setLink(undefined);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Could not turn off calendar feed",
+      );
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopied(true);
+    } catch {
+      setError("Could not copy the link. Select it and copy it instead.");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe to your swap sessions in Google Calendar, Apple Calendar or
+          Outlook. Booked, rescheduled and cancelled sessions update
+          automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-gray-500">Loading...</p>}
+
+        {link && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              Copy this link into your calendar app now. For your privacy it
+              will not be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={link.url}
+                onFocus={(e) => e.target.select()}
+              />
+              <Button variant="outline" onClick={handleCopy}>
+                <Copy className="h-4 w-4 mr-1" />
+                {copied ? "Copied" : "Copy"}
+              </Button>
+            </div>
+            <a href={link.webcalUrl} className="text-sm underline">
+              Open in my calendar app
+            </a>
+          </div>
+        )}
+
+        {feed && !link && (
+          <p className="text-sm text-gray-600">
+            {feed.enabled
+              ? `Your feed was created on ${format(new Date(feed.createdAt!), "d MMMM yyyy")}${
+                  feed.lastAccessedAt
+                    ? ` and last checked by a calendar app ${format(new Date(feed.lastAccessedAt), "d MMMM, HH:mm")}`
+                    : ""
+                }. Create a new link if you lost it or shared it by mistake; the old link will stop working.`
+              : "Your calendar feed is off."}
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {feed && (
+          <div className="flex justify-end gap-2">
+            {feed.enabled && (
+              <Button
+                variant="outline"
+                onClick={handleDelete}
+                disabled={deleteFeed.isPending}
+              >
+                Turn off
+              </Button>
+            )}
+            <Button onClick={handleCreate} disabled={createFeed.isPending}>
+              {feed.enabled ? "Create new link" : "Create feed link"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalendarFeedCard;
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useAvailability, useUpdateAvailability } from "@/hooks/useApi";
+import { AvailabilityWindow } from "@/types";
+import { CalendarClock, Plus, X } from "lucide-react";
+
+const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Monday first; day numbers match the API (0 = Sunday)
+const days = [
+  { day: 1, label: "Monday" },
+  { day: 2, label: "Tuesday" },
+  { day: 3, label: "Wednesday" },
+  { day: 4, label: "Thursday" },
+  { day: 5, label: "Friday" },
+  { day: 6, label: "Saturday" },
+  { day: 0, label: "Sunday" },
+];
+
+// Time inputs cannot show 24:00, so midnight at the end of a day is shown as 00:00
+const toInputTime = (time: string) => (time === "24:00" ? "00:00" : time);
+const fromInputEnd = (time: string) => (time === "00:00" ? "24:00" : time);
+
+const isValidWindow = (window: AvailabilityWindow) =>
+  !!window.start && !!window.end && fromInputEnd(window.end) > window.start;
+
+// Weekly times the member is free for sessions, used to offer session times in swaps
+const WeeklyAvailabilityCard = () => {
+  const { data, isLoading } = useAvailability();
+  const updateAvailability = useUpdateAvailability();
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+  const [timezone, setTimezone] = useState("");
+  const [isDirty, setIsDirty] = useState(false);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (data && !isDirty) {
+      setWindows(
+        data.windows.map((window) => ({
+          ...window,
+          end: toInputTime(window.end),
+        })),
+      );
+      setTimezone(data.timezone);
+    }
+  }, [data, isDirty]);
+
+  const edit = (next: AvailabilityWindow[]) => {
+    setWindows(next);
+    setIsDirty(true);
+    setSaved(false);
+  };
+
+  const addWindow = (day: number) =>
+    edit([...windows, { day, start: "18:00", end: "20:00" }]);
+
+  const updateWindow = (index: number, field: "start" | "end", value: string) =>
+    edit(
+      windows.map((window, i) =>
+        i === index ? { ...window, [field]: value } : window,
+      ),
+    );
+
+  const removeWindow = (index: number) =>
+    edit(windows.filter((_, i) => i !== index));
+
+  const selectDeviceTimeZone = () => {
+    setTimezone(deviceTimeZone);
+    setIsDirty(true);
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setError("");
+    if (!windows.every(isValidWindow)) {
+      setError("Each time range must end after it starts");
+      return;
+    }
+    try {
+      await updateAvailability.mutateAsync({
+        windows: windows.map((window) => ({
+          ...window,
+          end: fromInputEnd(window.end),
+        })),
+        timezone,
+      });
+      setIsDirty(false);
+      setSaved(true);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Could not save availability",
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Weekly Schedule
+        </CardTitle>
+        <CardDescription>
+          Times you are free for sessions each week. Swap partners can only
+          propose session times when you are both free.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-gray-500">Loading...</p>}
+
+        {data && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-600">
+                Times are in <span className="font-medium">{timezone}</span>
+              </span>
+              {deviceTimeZone && deviceTimeZone !== timezone && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={selectDeviceTimeZone}
+                >
+                  Use {deviceTimeZone}
+                </Button>
+              )}
+            </div>
+
+            <div className="divide-y border rounded-lg">
+              {days.map(({ day, label }) => {
+                const dayWindows = windows
+                  .map((window, index) => ({ window, index }))
+                  .filter(({ window }) => window.day === day);
+
+                return (
+                  <div
+                    key={day}
+                    className="flex flex-col sm:flex-row sm:items-start gap-2 p-3"
+                  >
+                    <span className="w-28 pt-2 text-sm font-medium">
+                      {label}
+                    </span>
+                    <div className="flex-1 space-y-2">
+                      {dayWindows.length === 0 && (
+                        <p className="pt-2 text-sm text-gray-400">
+                          Unavailable
+                        </p>
+                      )}
+                      {dayWindows.map(({ window, index }) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <Input
+                            type="time"
+                            className="w-32"
+                            value={window.start}
+                            onChange={(e) =>
+                              updateWindow(index, "start", e.target.value)
+                            }
+                          />
+                          <span className="text-sm text-gray-500">to</span>
+                          <Input
+                            type="time"
+                            className={`w-32 ${isValidWindow(window) ? "" : "border-red-500"}`}
+                            value={window.end}
+                            onChange={(e) =>
+                              updateWindow(index, "end", e.target.value)
+                            }
+                          />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            aria-label="Remove time range"
+                            onClick={() => removeWindow(index)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => addWindow(day)}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex items-center justify-end gap-3">
+              {saved && <span className="text-sm text-emerald-600">Saved</span>}
+              <Button
+                onClick={handleSave}
+                disabled={!isDirty || updateAvailability.isPending}
+              >
+                {updateAvailability.isPending ? "Saving..." : "Save schedule"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WeeklyAvailabilityCard;
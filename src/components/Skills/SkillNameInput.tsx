@@ -0,0 +1,55 @@
+import React, { useId } from "react";
+import { Input } from "@/components/ui/input";
+import { useSkillSuggestions } from "@/hooks/useApi";
+import { SkillSuggestion } from "@/types";
+
+interface SkillNameInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSuggestionSelect?: (suggestion: SkillSuggestion) => void;
+  placeholder?: string;
+}
+
+// Skill name input with autocomplete from the server's skill taxonomy
+const SkillNameInput = ({
+  value,
+  onChange,
+  onSuggestionSelect,
+  placeholder,
+}: SkillNameInputProps) => {
+  const listId = useId();
+  const { data: suggestions = [] } = useSkillSuggestions(value);
+
+  const handleChange = (text: string) => {
+    onChange(text);
+
+    // Picking an option from the list fills in the canonical name exactly
+    const match = suggestions.find(
+      (suggestion) => suggestion.name.toLowerCase() === text.toLowerCase(),
+    );
+    if (match && onSuggestionSelect) {
+      onSuggestionSelect(match);
+    }
+  };
+
+  return (
+    <>
+      <Input
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        list={listId}
+        autoComplete="off"
+      />
+      <datalist id={listId}>
+        {suggestions.map((suggestion) => (
+          <option key={suggestion.slug} value={suggestion.name}>
+            {suggestion.category}
+          </option>
+        ))}
+      </datalist>
+    </>
+  );
+};
+
+export default SkillNameInput;
@@ -0,0 +1,228 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCounterSwap } from "@/hooks/useApi";
+import { SwapPaymentType, SwapTerms } from "@/types";
+
+// datetime-local inputs take "YYYY-MM-DDTHH:mm" in local time
+const toLocalInput = (value?: string) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+// Every term is edited as text; sessionCount is turned back into a number on submit
+type CounterForm = Record<keyof SwapTerms, string>;
+
+const toFormTerms = (terms: SwapTerms): CounterForm => ({
+  requestedSkill: terms.requestedSkill,
+  offeredSkill: terms.offeredSkill ?? "",
+  meetingType: terms.meetingType,
+  location: terms.location ?? "",
+  duration: terms.duration ?? "",
+  proposedDate: toLocalInput(terms.proposedDate),
+  sessionCount: String(terms.sessionCount ?? 1),
+});
+
+interface CounterOfferDialogProps {
+  swapId: string;
+  terms: SwapTerms & { paymentType?: SwapPaymentType };
+  onClose: () => void;
+}
+
+// Propose different terms for a pending swap; only changed terms are sent.
+// Render it while open so the form starts from the current terms each time.
+const CounterOfferDialog = ({
+  swapId,
+  terms,
+  onClose,
+}: CounterOfferDialogProps) => {
+  const [form, setForm] = useState<CounterForm>(() => toFormTerms(terms));
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  const counterSwap = useCounterSwap();
+
+  const updateField = (field: keyof SwapTerms, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    const initial = toFormTerms(terms);
+    const changed: Partial<Record<keyof SwapTerms, string>> = {};
+
+    (Object.keys(form) as (keyof SwapTerms)[]).forEach((field) => {
+      const value = form[field]?.trim();
+      if (value && value !== initial[field]?.trim()) {
+        changed[field] = value;
+      }
+    });
+
+    if (changed.proposedDate) {
+      changed.proposedDate = new Date(changed.proposedDate).toISOString();
+    }
+
+    const { sessionCount, ...textTerms } = changed;
+
+    if (Object.keys(changed).length === 0) {
+      setError("Change at least one term to send a counter-offer");
+      return;
+    }
+
+    setError("");
+    try {
+      await counterSwap.mutateAsync({
+        swapId,
+        terms: {
+          ...(textTerms as Partial<SwapTerms>),
+          sessionCount: sessionCount ? Number(sessionCount) : undefined,
+          message: message.trim() || undefined,
+        },
+      });
+      onClose();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Could not send counter-offer",
+      );
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Send a Counter-Offer</DialogTitle>
+          <DialogDescription>
+            Change the terms you would like to swap on. The other member can
+            accept, reject or counter again.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="counter-requested">Skill to learn</Label>
+              <Input
+                id="counter-requested"
+                value={form.requestedSkill}
+                onChange={(e) => updateField("requestedSkill", e.target.value)}
+              />
+            </div>
+            {terms.paymentType === "credits" ? (
+              <div className="space-y-2">
+                <Label>In return</Label>
+                <p className="text-sm text-gray-600 pt-2">Time credits</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="counter-offered">Skill in return</Label>
+                <Input
+                  id="counter-offered"
+                  value={form.offeredSkill}
+                  onChange={(e) => updateField("offeredSkill", e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Meeting type</Label>
+              <Select
+                value={form.meetingType}
+                onValueChange={(value) => updateField("meetingType", value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="online">Online</SelectItem>
+                  <SelectItem value="in-person">In person</SelectItem>
+                  <SelectItem value="hybrid">Hybrid</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="counter-duration">Duration</Label>
+              <Input
+                id="counter-duration"
+                value={form.duration}
+                onChange={(e) => updateField("duration", e.target.value)}
+                placeholder="e.g. 2 hours"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="counter-date">Date</Label>
+              <Input
+                id="counter-date"
+                type="datetime-local"
+                value={form.proposedDate}
+                onChange={(e) => updateField("proposedDate", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="counter-location">Location</Label>
+              <Input
+                id="counter-location"
+                value={form.location}
+                onChange={(e) => updateField("location", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="counter-sessions">Sessions each</Label>
+            <Input
+              id="counter-sessions"
+              type="number"
+              min={1}
+              max={20}
+              className="w-32"
+              value={form.sessionCount}
+              onChange={(e) => updateField("sessionCount", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="counter-message">Message (optional)</Label>
+            <Textarea
+              id="counter-message"
+              value={message}
+              maxLength={500}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Explain what you would like to change"
+              rows={3}
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={counterSwap.isPending} onClick={handleSubmit}>
+            Send Counter-Offer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CounterOfferDialog;
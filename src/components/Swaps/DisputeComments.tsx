@@ -0,0 +1,45 @@
+import React from "react";
+import { format } from "date-fns";
+import { DisputeComment } from "@/types";
+import { Link2 } from "lucide-react";
+
+interface DisputeCommentsProps {
+  comments: DisputeComment[];
+  viewerId?: string;
+}
+
+// A dispute's statements in order, each with its evidence links
+const DisputeComments = ({ comments, viewerId }: DisputeCommentsProps) => (
+  <div className="space-y-2">
+    {comments.map((comment) => (
+      <div key={comment.id} className="bg-gray-50 p-2 rounded text-sm">
+        <span className="font-medium">
+          {comment.author.id === viewerId ? "You" : comment.author.name}
+        </span>{" "}
+        <span className="text-xs text-gray-500">
+          {format(new Date(comment.createdAt), "d MMM, HH:mm")}
+        </span>
+        <p className="whitespace-pre-wrap">{comment.body}</p>
+        {comment.evidence.length > 0 && (
+          <ul className="mt-1 space-y-0.5">
+            {comment.evidence.map((link) => (
+              <li key={link}>
+                <a
+                  href={link}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-blue-600 underline inline-flex items-center gap-1 break-all"
+                >
+                  <Link2 className="h-3 w-3 shrink-0" />
+                  {link}
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default DisputeComments;
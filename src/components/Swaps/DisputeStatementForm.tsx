@@ -0,0 +1,80 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { DisputeStatement } from "@/types";
+
+const MAX_EVIDENCE = 5;
+
+interface DisputeStatementFormProps {
+  submitLabel: string;
+  placeholder: string;
+  isPending: boolean;
+  // Resolves to whether the statement was saved, so a failed one can be retried
+  onSubmit: (statement: DisputeStatement) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+// A member's side of a dispute: what happened, plus up to five evidence
+// links (one per line) to screenshots, chat logs and the like
+const DisputeStatementForm = ({
+  submitLabel,
+  placeholder,
+  isPending,
+  onSubmit,
+  onCancel,
+}: DisputeStatementFormProps) => {
+  const [body, setBody] = useState("");
+  const [evidence, setEvidence] = useState("");
+
+  const links = evidence
+    .split("\n")
+    .map((link) => link.trim())
+    .filter(Boolean);
+
+  const handleSubmit = async () => {
+    if (await onSubmit({ body: body.trim(), evidence: links })) {
+      setBody("");
+      setEvidence("");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        maxLength={2000}
+        rows={3}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+      />
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-500">
+          Evidence links (optional, one per line, up to {MAX_EVIDENCE})
+        </Label>
+        <Textarea
+          value={evidence}
+          rows={2}
+          onChange={(e) => setEvidence(e.target.value)}
+          placeholder="https://..."
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button size="sm" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          size="sm"
+          disabled={!body.trim() || links.length > MAX_EVIDENCE || isPending}
+          onClick={handleSubmit}
+        >
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DisputeStatementForm;
@@ -0,0 +1,249 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useSwapChainSuggestions,
+  useSwapChains,
+  useCreateSwapChain,
+  useRespondToSwapChain,
+} from "@/hooks/useApi";
+import { SwapChainParticipant } from "@/types";
+import {
+  ArrowRight,
+  CheckCircle,
+  Link2,
+  RefreshCw,
+  XCircle,
+} from "lucide-react";
+
+const participantStatusStyles = {
+  pending: "bg-amber-100 text-amber-700",
+  confirmed: "bg-emerald-100 text-emerald-700",
+  rejected: "bg-red-100 text-red-700",
+};
+
+const chainStatusStyles = {
+  pending: "bg-amber-500",
+  accepted: "bg-emerald-500",
+  cancelled: "bg-gray-400",
+};
+
+// Cycle of members, each teaching the next and the last teaching the first
+// legs[i] is the swap in which member i teaches, when the chain has been proposed
+const ChainPath = ({
+  participants,
+  currentUserId,
+  legs,
+}: {
+  participants: (SwapChainParticipant & {
+    status?: keyof typeof participantStatusStyles;
+  })[];
+  currentUserId: string;
+  legs?: string[];
+}) => (
+  <div className="flex flex-wrap items-center gap-2">
+    {participants.map((participant, index) => (
+      <React.Fragment key={participant.user.id}>
+        <div className="p-2 border rounded-lg text-sm">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">
+              {participant.user.id === currentUserId
+                ? "You"
+                : participant.user.name}
+            </span>
+            {participant.status && (
+              <Badge
+                className={`text-xs border-0 ${participantStatusStyles[participant.status]}`}
+              >
+                {participant.status}
+              </Badge>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            teaches{" "}
+            {legs?.[index] ? (
+              <Link to={`/swaps/${legs[index]}`} className="underline">
+                {participant.teaches}
+              </Link>
+            ) : (
+              participant.teaches
+            )}
+          </p>
+        </div>
+        <ArrowRight className="h-4 w-4 text-gray-400" />
+        {index === participants.length - 1 && (
+          <RefreshCw className="h-4 w-4 text-gray-400" />
+        )}
+      </React.Fragment>
+    ))}
+  </div>
+);
+
+// Suggested multi-party swap cycles and the chains the user takes part in
+const SwapChainsPanel = () => {
+  const { user } = useAuth();
+  const [error, setError] = useState("");
+  const { data: suggestions = [], isLoading: suggestionsLoading } =
+    useSwapChainSuggestions();
+  const { data: chains = [], isLoading: chainsLoading } = useSwapChains();
+  const createChain = useCreateSwapChain();
+  const respondToChain = useRespondToSwapChain();
+
+  if (!user) return null;
+
+  const handlePropose = async (participants: SwapChainParticipant[]) => {
+    setError("");
+    try {
+      await createChain.mutateAsync({
+        participants: participants.slice(1).map((entry) => entry.user.id),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not propose chain");
+    }
+  };
+
+  const handleRespond = async (
+    chainId: string,
+    action: "confirm" | "reject",
+  ) => {
+    setError("");
+    try {
+      await respondToChain.mutateAsync({ chainId, action });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not update chain");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Suggested Swap Chains
+          </CardTitle>
+          <CardDescription>
+            No direct match? Swap in a circle of three or four people, where
+            everyone teaches the next person
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {suggestionsLoading && (
+            <p className="text-sm text-gray-500">Looking for swap chains...</p>
+          )}
+          {!suggestionsLoading && suggestions.length === 0 && (
+            <p className="text-sm text-gray-500">
+              No swap chains found for your skills right now.
+            </p>
+          )}
+          {suggestions.map((suggestion) => (
+            <div
+              key={suggestion.participants
+                .map((participant) => participant.user.id)
+                .join("-")}
+              className="p-4 border rounded-lg space-y-3"
+            >
+              <ChainPath
+                participants={suggestion.participants}
+                currentUserId={user.id}
+              />
+              <Button
+                size="sm"
+                disabled={createChain.isPending}
+                onClick={() => handlePropose(suggestion.participants)}
+              >
+                Propose Chain
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Swap Chains</CardTitle>
+          <CardDescription>
+            A chain starts once every member confirms. One rejection cancels it
+            for everyone.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {chainsLoading && (
+            <p className="text-sm text-gray-500">Loading swap chains...</p>
+          )}
+          {!chainsLoading && chains.length === 0 && (
+            <p className="text-sm text-gray-500">
+              You are not part of any swap chains yet.
+            </p>
+          )}
+          {chains.map((chain) => {
+            const me = chain.participants.find(
+              (participant) => participant.user.id === user.id,
+            );
+            const canRespond =
+              chain.status === "pending" && me?.status === "pending";
+
+            return (
+              <div key={chain.id} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <Badge
+                    className={`text-white border-0 ${chainStatusStyles[chain.status]}`}
+                  >
+                    {chain.status}
+                  </Badge>
+                  <span className="text-xs text-gray-500">
+                    Proposed {new Date(chain.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <ChainPath
+                  participants={chain.participants}
+                  currentUserId={user.id}
+                  legs={chain.legs}
+                />
+                {chain.message && (
+                  <p className="text-sm text-gray-600 italic">
+                    "{chain.message}"
+                  </p>
+                )}
+                {canRespond && (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={respondToChain.isPending}
+                      onClick={() => handleRespond(chain.id, "confirm")}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Confirm
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={respondToChain.isPending}
+                      onClick={() => handleRespond(chain.id, "reject")}
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SwapChainsPanel;
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useSwapMessages,
+  useSendSwapMessage,
+  useMarkSwapMessagesRead,
+  useEditSwapMessage,
+  useDeleteSwapMessage,
+} from "@/hooks/useApi";
+import { SwapMessage } from "@/types";
+import { Check, CheckCheck, Pencil, Send, Trash2 } from "lucide-react";
+
+interface SwapChatPanelProps {
+  swapId: string;
+  // Admins can read a swap's thread without taking part in it
+  readOnly?: boolean;
+}
+
+const isBefore = (deadline: string) => new Date() < new Date(deadline);
+
+// Message thread between the two members of a swap
+const SwapChatPanel = ({ swapId, readOnly = false }: SwapChatPanelProps) => {
+  const { user } = useAuth();
+  const [page, setPage] = useState(1);
+  const [draft, setDraft] = useState("");
+  const [editing, setEditing] = useState<SwapMessage | null>(null);
+  const [error, setError] = useState("");
+
+  const { data, isLoading } = useSwapMessages(swapId, page);
+  const sendMessage = useSendSwapMessage();
+  const markRead = useMarkSwapMessagesRead();
+  const editMessage = useEditSwapMessage();
+  const deleteMessage = useDeleteSwapMessage();
+
+  const unreadCount = data?.unreadCount ?? 0;
+  const { mutate: markThreadRead } = markRead;
+
+  useEffect(() => {
+    if (!readOnly && unreadCount > 0) {
+      markThreadRead(swapId);
+    }
+  }, [readOnly, unreadCount, swapId, markThreadRead]);
+
+  if (!user) return null;
+
+  // The API pages newest first; show each page oldest first
+  const messages = [...(data?.messages ?? [])].reverse();
+  const pagination = data?.pagination;
+  const isSaving = sendMessage.isPending || editMessage.isPending;
+
+  const handleSubmit = async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    setError("");
+    try {
+      if (editing) {
+        await editMessage.mutateAsync({
+          swapId,
+          messageId: editing.id,
+          body,
+        });
+        setEditing(null);
+      } else {
+        await sendMessage.mutateAsync({ swapId, body });
+        setPage(1);
+      }
+      setDraft("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send message");
+    }
+  };
+
+  const handleDelete = async (message: SwapMessage) => {
+    setError("");
+    try {
+      await deleteMessage.mutateAsync({ swapId, messageId: message.id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not delete message");
+    }
+  };
+
+  const startEditing = (message: SwapMessage) => {
+    setEditing(message);
+    setDraft(message.body ?? "");
+  };
+
+  const cancelEditing = () => {
+    setEditing(null);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-4">
+      {pagination?.hasNextPage && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="w-full"
+          onClick={() => setPage((current) => current + 1)}
+        >
+          Show older messages
+        </Button>
+      )}
+
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {isLoading && (
+          <p className="text-sm text-gray-500">Loading messages...</p>
+        )}
+        {!isLoading && messages.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No messages yet. Say hello and agree the details of your swap.
+          </p>
+        )}
+        {messages.map((message) => {
+          const isOwn = message.sender.id === user.id;
+
+          return (
+            <div
+              key={message.id}
+              className={`flex ${isOwn ? "justify-end" : "justify-start"}`}
+            >
+              <div
+                className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${
+                  isOwn ? "bg-primary text-primary-foreground" : "bg-gray-100"
+                }`}
+              >
+                {!isOwn && (
+                  <p className="text-xs font-medium mb-1">
+                    {message.sender.name}
+                  </p>
+                )}
+                {message.isDeleted ? (
+                  <p className="italic opacity-70">Message deleted</p>
+                ) : (
+                  <p className="whitespace-pre-wrap">{message.body}</p>
+                )}
+                <div className="flex items-center justify-end gap-2 mt-1 text-xs opacity-70">
+                  {message.editedAt && !message.isDeleted && (
+                    <span>edited</span>
+                  )}
+                  <span>
+                    {new Date(message.createdAt).toLocaleTimeString([], {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                  {isOwn &&
+                    !message.isDeleted &&
+                    (message.readAt ? (
+                      <CheckCheck className="h-3 w-3" aria-label="Read" />
+                    ) : (
+                      <Check className="h-3 w-3" aria-label="Sent" />
+                    ))}
+                  {isOwn &&
+                    !readOnly &&
+                    !message.isDeleted &&
+                    isBefore(message.editableUntil) && (
+                      <button
+                        type="button"
+                        onClick={() => startEditing(message)}
+                        aria-label="Edit message"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </button>
+                    )}
+                  {isOwn &&
+                    !message.isDeleted &&
+                    isBefore(message.deletableUntil) && (
+                      <button
+                        type="button"
+                        disabled={deleteMessage.isPending}
+                        onClick={() => handleDelete(message)}
+                        aria-label="Delete message"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {pagination?.hasPrevPage && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="w-full"
+          onClick={() => setPage((current) => current - 1)}
+        >
+          Show newer messages
+        </Button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!readOnly && (
+        <div className="space-y-2">
+          {editing && (
+            <p className="text-xs text-gray-500">
+              Editing your message ·{" "}
+              <button
+                type="button"
+                className="underline"
+                onClick={cancelEditing}
+              >
+                cancel
+              </button>
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Textarea
+              value={draft}
+              maxLength={2000}
+              rows={2}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Write a message..."
+            />
+            <Button
+              disabled={isSaving || !draft.trim()}
+              onClick={handleSubmit}
+              aria-label={editing ? "Save message" : "Send message"}
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SwapChatPanel;
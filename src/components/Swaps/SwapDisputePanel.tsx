@@ -0,0 +1,181 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import DisputeStatementForm from "@/components/Swaps/DisputeStatementForm";
+import DisputeComments from "@/components/Swaps/DisputeComments";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useAddDisputeComment,
+  useOpenDispute,
+  useSwapDisputes,
+} from "@/hooks/useApi";
+import { disputeOutcomeLabels, disputeReasonLabels } from "@/lib/utils";
+import { Dispute, DisputeReason, DisputeStatement, SwapDetail } from "@/types";
+import { Flag } from "lucide-react";
+
+interface SwapDisputePanelProps {
+  swap: SwapDetail;
+}
+
+// Disputes about a swap: the open one with both members' comments, past
+// outcomes, and a form to open a new one once the swap was accepted
+const SwapDisputePanel = ({ swap }: SwapDisputePanelProps) => {
+  const { user } = useAuth();
+  const { data, isLoading } = useSwapDisputes(swap.id);
+  const openDispute = useOpenDispute();
+  const addComment = useAddDisputeComment();
+  const [isOpening, setIsOpening] = useState(false);
+  const [reason, setReason] = useState<DisputeReason>("not-as-agreed");
+  const [error, setError] = useState("");
+
+  const disputes = data?.disputes ?? [];
+  const open = disputes.find((dispute) => dispute.status === "open");
+  const resolved = disputes.filter((dispute) => dispute.status === "resolved");
+  const wasAccepted = swap.statusHistory.some(
+    (change) => change.action === "accept",
+  );
+
+  const submit = async (action: () => Promise<unknown>, fallback: string) => {
+    setError("");
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    }
+  };
+
+  const handleOpen = async (statement: DisputeStatement) => {
+    const saved = await submit(
+      () => openDispute.mutateAsync({ swap: swap.id, reason, ...statement }),
+      "Could not open dispute",
+    );
+    if (saved) setIsOpening(false);
+    return saved;
+  };
+
+  const handleComment = (dispute: Dispute) => (statement: DisputeStatement) =>
+    submit(
+      () =>
+        addComment.mutateAsync({ disputeId: dispute.id, comment: statement }),
+      "Could not add comment",
+    );
+
+  const describeMember = (member: Dispute["openedBy"]) =>
+    member.id === user?.id ? "you" : member.name;
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {open ? (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm">
+              Opened by {describeMember(open.openedBy)} about{" "}
+              {describeMember(open.against)} on{" "}
+              {format(new Date(open.createdAt), "d MMM yyyy")}. An admin will
+              review both sides.
+            </p>
+            <Badge variant="destructive">
+              {disputeReasonLabels[open.reason]}
+            </Badge>
+          </div>
+          <DisputeComments comments={open.comments} viewerId={user?.id} />
+          <DisputeStatementForm
+            submitLabel="Add comment"
+            placeholder="Add your side of the story or more details"
+            isPending={addComment.isPending}
+            onSubmit={handleComment(open)}
+          />
+        </div>
+      ) : isOpening ? (
+        <div className="space-y-2">
+          <div className="space-y-1">
+            <Label>Reason</Label>
+            <Select
+              value={reason}
+              onValueChange={(value) => setReason(value as DisputeReason)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(disputeReasonLabels) as DisputeReason[]).map(
+                  (option) => (
+                    <SelectItem key={option} value={option}>
+                      {disputeReasonLabels[option]}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+          <DisputeStatementForm
+            submitLabel="Open dispute"
+            placeholder="What went wrong? Your swap partner will be asked for their side."
+            isPending={openDispute.isPending}
+            onSubmit={handleOpen}
+            onCancel={() => setIsOpening(false)}
+          />
+        </div>
+      ) : wasAccepted ? (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-600">
+            If something went wrong that you could not sort out together, an
+            admin can step in.
+          </p>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setIsOpening(true)}
+          >
+            <Flag className="h-4 w-4 mr-1" />
+            Open a dispute
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600">
+          Disputes can be opened once the swap is accepted.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {resolved.map((dispute) => (
+        <div key={dispute.id} className="p-3 border rounded-lg text-sm">
+          <div className="flex items-center justify-between gap-4">
+            <span>
+              {disputeReasonLabels[dispute.reason]} dispute opened by{" "}
+              {describeMember(dispute.openedBy)}
+            </span>
+            {dispute.resolution && (
+              <Badge variant="outline">
+                {disputeOutcomeLabels[dispute.resolution.outcome]}
+              </Badge>
+            )}
+          </div>
+          {dispute.resolution?.note && (
+            <p className="mt-1 text-gray-600 italic">
+              "{dispute.resolution.note}"
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SwapDisputePanel;
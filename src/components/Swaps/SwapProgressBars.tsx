@@ -0,0 +1,44 @@
+import React from "react";
+import { Progress } from "@/components/ui/progress";
+import { SwapProgress, SwapRole } from "@/types";
+
+interface SwapProgressBarsProps {
+  progress: SwapProgress;
+  viewerRole: SwapRole;
+  otherName: string;
+}
+
+// One bar per teaching member: completed sessions out of the agreed count
+const SwapProgressBars = ({
+  progress,
+  viewerRole,
+  otherName,
+}: SwapProgressBarsProps) => (
+  <div className="space-y-2">
+    {progress.teachingRoles.map((role) => {
+      const given = Math.min(
+        progress.sessionsGiven[role],
+        progress.sessionCount,
+      );
+      return (
+        <div key={role} className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span>
+              {role === viewerRole ? "You taught" : `${otherName} taught`}
+            </span>
+            <span>
+              {given} of {progress.sessionCount}{" "}
+              {progress.sessionCount === 1 ? "session" : "sessions"}
+            </span>
+          </div>
+          <Progress
+            value={(given / progress.sessionCount) * 100}
+            className="h-2"
+          />
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default SwapProgressBars;
@@ -0,0 +1,406 @@
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { addDays, format, isSameDay, startOfDay } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { api } from "@/lib/api";
+import {
+  useConfirmSessionSlot,
+  useOpenSlots,
+  useProposeSessionSlots,
+} from "@/hooks/useApi";
+import { SessionSlot, SwapDetail, SwapRole } from "@/types";
+import { CalendarCheck, CalendarPlus, Check, X } from "lucide-react";
+
+// Matches the limits of the scheduling API
+const MAX_PROPOSED_SLOTS = 5;
+const SEARCH_DAYS = 28;
+
+const sessionLengths = [30, 45, 60, 90, 120];
+
+const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const formatTime = (value: string) => format(new Date(value), "HH:mm");
+const formatSlot = (slot: SessionSlot) =>
+  `${format(new Date(slot.start), "EEE d MMM, HH:mm")} – ${formatTime(slot.end)}`;
+
+interface SlotCalendarProps {
+  slots: SessionSlot[];
+  selectedDay?: Date;
+  onSelectDay: (day?: Date) => void;
+}
+
+// Month view where only days with session times can be picked
+const SlotCalendar = ({
+  slots,
+  selectedDay,
+  onSelectDay,
+}: SlotCalendarProps) => {
+  const slotDays = useMemo(
+    () => slots.map((slot) => startOfDay(new Date(slot.start))),
+    [slots],
+  );
+
+  return (
+    <Calendar
+      mode="single"
+      selected={selectedDay}
+      onSelect={onSelectDay}
+      fromDate={new Date()}
+      toDate={addDays(new Date(), SEARCH_DAYS)}
+      disabled={(day) => !slotDays.some((slotDay) => isSameDay(slotDay, day))}
+      modifiers={{ hasSlots: slotDays }}
+      modifiersClassNames={{
+        hasSlots: "font-semibold text-emerald-700 underline",
+      }}
+      className="rounded-md border w-fit"
+    />
+  );
+};
+
+// Only the receiver teaches in a swap chain leg
+const teachingRoles = (swap: SwapDetail): SwapRole[] =>
+  swap.chain ? ["receiver"] : ["requester", "receiver"];
+
+interface SwapSchedulePanelProps {
+  swap: SwapDetail;
+}
+
+// Agreeing a session time: one member proposes times both members are free,
+// the other confirms one, which books the session
+const SwapSchedulePanel = ({ swap }: SwapSchedulePanelProps) => {
+  const { user } = useAuth();
+  const [isProposing, setIsProposing] = useState(false);
+  const [minutes, setMinutes] = useState(swap.sessionMinutes);
+  const [teacher, setTeacher] = useState<SwapRole>(() =>
+    teachingRoles(swap).reduce((fewest, role) =>
+      swap.sessionsGiven[role] < swap.sessionsGiven[fewest] ? role : fewest,
+    ),
+  );
+  const [selectedDay, setSelectedDay] = useState<Date>();
+  const [selectedSlots, setSelectedSlots] = useState<string[]>([]);
+  const [error, setError] = useState("");
+  const proposeSlots = useProposeSessionSlots();
+  const confirmSlot = useConfirmSessionSlot();
+
+  const proposal = swap.slotProposal;
+  const isSchedulable = ["pending", "accepted"].includes(swap.status);
+  const otherMember =
+    swap.requester.id === user?.id ? swap.receiver : swap.requester;
+  const isProposer = proposal?.proposedBy === user?.id;
+  const canPick = !!proposal && !isProposer && isSchedulable;
+  const showPicker =
+    isSchedulable && (isProposing || (!proposal && !swap.confirmedDate));
+
+  const { data: openSlots, isLoading } = useOpenSlots(
+    swap.id,
+    { minutes },
+    showPicker,
+  );
+
+  const daySlots = (slots: SessionSlot[]) =>
+    selectedDay
+      ? slots.filter((slot) => isSameDay(new Date(slot.start), selectedDay))
+      : [];
+
+  const missingAvailability = openSlots
+    ? Object.values(openSlots.members).filter(
+        (member) => !member.hasAvailability,
+      )
+    : [];
+
+  const selectDay = (day?: Date) => {
+    setSelectedDay(day);
+    setError("");
+  };
+
+  const toggleSlot = (start: string) => {
+    setError("");
+    if (selectedSlots.includes(start)) {
+      setSelectedSlots(selectedSlots.filter((slot) => slot !== start));
+    } else if (selectedSlots.length < MAX_PROPOSED_SLOTS) {
+      setSelectedSlots([...selectedSlots, start].sort());
+    } else {
+      setError(`You can propose up to ${MAX_PROPOSED_SLOTS} times`);
+    }
+  };
+
+  const changeLength = (value: string) => {
+    setMinutes(Number(value));
+    setSelectedSlots([]);
+  };
+
+  const handlePropose = async () => {
+    setError("");
+    try {
+      await proposeSlots.mutateAsync({
+        swapId: swap.id,
+        slots: selectedSlots,
+        sessionMinutes: minutes,
+        teacher: swap[teacher].id,
+      });
+      setSelectedSlots([]);
+      setSelectedDay(undefined);
+      setIsProposing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not propose times");
+    }
+  };
+
+  const handleDownload = async () => {
+    setError("");
+    try {
+      const blob = await api.downloadSwapCalendar(swap.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `skill-swap-${swap.id}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Download failed");
+    }
+  };
+
+  const handleConfirm = async (slotId: string) => {
+    setError("");
+    try {
+      await confirmSlot.mutateAsync({ swapId: swap.id, slotId });
+      setSelectedDay(undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not confirm time");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {swap.confirmedDate && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-emerald-50 text-sm text-emerald-800">
+          <CalendarCheck className="h-4 w-4" />
+          Next session booked for{" "}
+          {format(new Date(swap.confirmedDate), "EEEE d MMMM, HH:mm")} (
+          {swap.sessionMinutes} minutes)
+        </div>
+      )}
+
+      {swap.confirmedDate && !isProposing && (
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={handleDownload}>
+            <CalendarPlus className="h-4 w-4 mr-1" />
+            Add to calendar
+          </Button>
+          {!proposal && isSchedulable && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsProposing(true)}
+            >
+              Schedule another session
+            </Button>
+          )}
+        </div>
+      )}
+
+      {(proposal || showPicker) && (
+        <p className="text-xs text-gray-500">
+          Times are shown in your device's time zone ({deviceTimeZone}).
+        </p>
+      )}
+
+      {proposal && !isProposing && (
+        <div className="space-y-3">
+          <p className="text-sm">
+            {isProposer
+              ? `Waiting for ${otherMember.name} to pick one of the times you proposed.`
+              : `${otherMember.name} proposed these times. Pick the one that suits you.`}
+            {proposal.teacher &&
+              ` ${proposal.teacher === user?.id ? "You" : otherMember.name} will teach.`}
+          </p>
+          <div className="space-y-2">
+            {proposal.slots.map((slot) => (
+              <div
+                key={slot.id}
+                className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm"
+              >
+                <span>{formatSlot(slot)}</span>
+                {canPick && (
+                  <Button
+                    size="sm"
+                    disabled={confirmSlot.isPending}
+                    onClick={() => handleConfirm(slot.id)}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Confirm
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+          {isSchedulable && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsProposing(true)}
+            >
+              {isProposer ? "Propose different times" : "Suggest other times"}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {showPicker && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <span className="text-sm">Session length</span>
+            <Select value={String(minutes)} onValueChange={changeLength}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sessionLengths.map((length) => (
+                  <SelectItem key={length} value={String(length)}>
+                    {length} minutes
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {teachingRoles(swap).length > 1 && (
+              <Select
+                value={teacher}
+                onValueChange={(value) => setTeacher(value as SwapRole)}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {teachingRoles(swap).map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {swap[role].id === user?.id ? "You" : swap[role].name}{" "}
+                      teach{swap[role].id === user?.id ? "" : "es"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {isLoading && (
+            <p className="text-sm text-gray-500">Finding free times...</p>
+          )}
+
+          {missingAvailability.length > 0 && (
+            <p className="text-sm text-amber-700">
+              {missingAvailability
+                .map((member) => (member.id === user?.id ? "You" : member.name))
+                .join(" and ")}{" "}
+              {missingAvailability.length > 1 ||
+              missingAvailability[0].id === user?.id
+                ? "have"
+                : "has"}{" "}
+              not set a weekly schedule yet, so there are no shared free times.{" "}
+              <Link to="/profile" className="underline">
+                Set your schedule
+              </Link>
+            </p>
+          )}
+
+          {openSlots &&
+            missingAvailability.length === 0 &&
+            openSlots.slots.length === 0 && (
+              <p className="text-sm text-gray-500">
+                You have no free time in common over the next {SEARCH_DAYS}{" "}
+                days.
+              </p>
+            )}
+
+          {openSlots && openSlots.slots.length > 0 && (
+            <div className="flex flex-col sm:flex-row gap-4">
+              <SlotCalendar
+                slots={openSlots.slots}
+                selectedDay={selectedDay}
+                onSelectDay={selectDay}
+              />
+              <div className="flex-1 space-y-2">
+                {!selectedDay && (
+                  <p className="text-sm text-gray-500">
+                    Pick a highlighted day to see the times you are both free.
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {daySlots(openSlots.slots).map((slot) => (
+                    <Button
+                      key={slot.start}
+                      size="sm"
+                      variant={
+                        selectedSlots.includes(slot.start)
+                          ? "default"
+                          : "outline"
+                      }
+                      onClick={() => toggleSlot(slot.start)}
+                    >
+                      {formatTime(slot.start)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {selectedSlots.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {selectedSlots.map((start) => (
+                <Badge key={start} variant="secondary" className="gap-1">
+                  {format(new Date(start), "EEE d MMM, HH:mm")}
+                  <button
+                    type="button"
+                    aria-label="Remove time"
+                    onClick={() => toggleSlot(start)}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={selectedSlots.length === 0 || proposeSlots.isPending}
+              onClick={handlePropose}
+            >
+              Propose {selectedSlots.length || ""}{" "}
+              {selectedSlots.length === 1 ? "time" : "times"} to{" "}
+              {otherMember.name}
+            </Button>
+            {(proposal || swap.confirmedDate) && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  setIsProposing(false);
+                  setSelectedSlots([]);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default SwapSchedulePanel;
@@ -0,0 +1,367 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import SwapProgressBars from "@/components/Swaps/SwapProgressBars";
+import DisputeStatementForm from "@/components/Swaps/DisputeStatementForm";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useAddSessionNote,
+  useAddSwapSession,
+  useCancelSwapSession,
+  useRecordAttendance,
+  useReportNoShow,
+  useSwapSessions,
+} from "@/hooks/useApi";
+import {
+  DisputeStatement,
+  SwapDetail,
+  SwapRole,
+  SwapSession,
+  SwapSessionStatus,
+} from "@/types";
+import { Check, Flag, StickyNote, X } from "lucide-react";
+
+const statusVariants: Record<
+  SwapSessionStatus,
+  "default" | "secondary" | "outline" | "destructive"
+> = {
+  scheduled: "secondary",
+  completed: "default",
+  missed: "destructive",
+  cancelled: "outline",
+};
+
+interface SessionItemProps {
+  swap: SwapDetail;
+  session: SwapSession;
+  onError: (message: string) => void;
+}
+
+const SessionItem = ({ swap, session, onError }: SessionItemProps) => {
+  const { user } = useAuth();
+  const [note, setNote] = useState("");
+  const [showNotes, setShowNotes] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+  const recordAttendance = useRecordAttendance();
+  const addNote = useAddSessionNote();
+  const cancelSession = useCancelSwapSession();
+  const reportNoShow = useReportNoShow();
+
+  const isScheduled = session.status === "scheduled";
+  const hasStarted = new Date(session.scheduledFor) <= new Date();
+  const myAnswer = session.attendance.find(
+    (entry) => entry.member === user?.id,
+  );
+  const teacherName =
+    session.teacher.id === user?.id ? "You" : session.teacher.name;
+  const learnerName =
+    session.learner.id === user?.id ? "you" : session.learner.name;
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    onError("");
+    try {
+      await action();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  const handleAttendance = (attended: boolean) =>
+    run(
+      () =>
+        recordAttendance.mutateAsync({
+          swapId: swap.id,
+          sessionId: session.id,
+          attended,
+        }),
+      "Could not record attendance",
+    );
+
+  const handleCancel = () =>
+    run(
+      () =>
+        cancelSession.mutateAsync({ swapId: swap.id, sessionId: session.id }),
+      "Could not cancel session",
+    );
+
+  // The session becomes missed and the report goes to an admin as a dispute
+  const handleReportNoShow = async (report: DisputeStatement) => {
+    onError("");
+    try {
+      await reportNoShow.mutateAsync({
+        swapId: swap.id,
+        sessionId: session.id,
+        report,
+      });
+      setIsReporting(false);
+      return true;
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Could not report no-show");
+      return false;
+    }
+  };
+
+  const handleAddNote = () =>
+    run(async () => {
+      await addNote.mutateAsync({
+        swapId: swap.id,
+        sessionId: session.id,
+        body: note.trim(),
+      });
+      setNote("");
+    }, "Could not add note");
+
+  return (
+    <li className="p-3 border rounded-lg space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium">
+            {format(new Date(session.scheduledFor), "EEE d MMM, HH:mm")} ·{" "}
+            {session.minutes} minutes
+          </p>
+          <p className="text-xs text-gray-500">
+            {teacherName}{" "}
+            {session.teacher.id === user?.id ? "teach" : "teaches"}{" "}
+            {learnerName}
+          </p>
+        </div>
+        <Badge variant={statusVariants[session.status]}>{session.status}</Badge>
+      </div>
+
+      {session.noShowReportedBy && (
+        <p className="text-xs text-red-600">
+          {session.noShowReportedBy === user?.id
+            ? "You reported that the other member did not turn up."
+            : "Reported as a no-show by the other member."}
+        </p>
+      )}
+
+      {session.cancellationReason && (
+        <p className="text-xs text-gray-500 italic">
+          "{session.cancellationReason}"
+        </p>
+      )}
+
+      {isScheduled && hasStarted && swap.status === "accepted" && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span>
+            {myAnswer
+              ? `You said you ${myAnswer.attended ? "attended" : "missed it"}. Waiting for the other member.`
+              : "Did this session take place?"}
+          </span>
+          <Button
+            size="sm"
+            variant={myAnswer?.attended ? "default" : "outline"}
+            disabled={recordAttendance.isPending}
+            onClick={() => handleAttendance(true)}
+          >
+            <Check className="h-4 w-4 mr-1" />I attended
+          </Button>
+          <Button
+            size="sm"
+            variant={myAnswer && !myAnswer.attended ? "default" : "outline"}
+            disabled={recordAttendance.isPending}
+            onClick={() => handleAttendance(false)}
+          >
+            <X className="h-4 w-4 mr-1" />
+            It did not happen
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-red-600"
+            onClick={() => setIsReporting(!isReporting)}
+          >
+            <Flag className="h-4 w-4 mr-1" />
+            Report no-show
+          </Button>
+        </div>
+      )}
+
+      {isReporting && isScheduled && (
+        <DisputeStatementForm
+          submitLabel="Report no-show"
+          placeholder="What happened? An admin will review your report and hear from the other member."
+          isPending={reportNoShow.isPending}
+          onSubmit={handleReportNoShow}
+          onCancel={() => setIsReporting(false)}
+        />
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setShowNotes(!showNotes)}
+        >
+          <StickyNote className="h-4 w-4 mr-1" />
+          Notes ({session.notes.length})
+        </Button>
+        {isScheduled && !hasStarted && (
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={cancelSession.isPending}
+            onClick={handleCancel}
+          >
+            Cancel session
+          </Button>
+        )}
+      </div>
+
+      {showNotes && (
+        <div className="space-y-2">
+          {session.notes.map((entry) => (
+            <div key={entry.id} className="bg-gray-50 p-2 rounded text-sm">
+              <span className="font-medium">
+                {entry.author.id === user?.id ? "You" : entry.author.name}
+              </span>{" "}
+              <span className="text-xs text-gray-500">
+                {format(new Date(entry.createdAt), "d MMM, HH:mm")}
+              </span>
+              <p className="whitespace-pre-wrap">{entry.body}</p>
+            </div>
+          ))}
+          <Textarea
+            value={note}
+            maxLength={1000}
+            rows={2}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What did you cover? What is next?"
+          />
+          <Button
+            size="sm"
+            disabled={!note.trim() || addNote.isPending}
+            onClick={handleAddNote}
+          >
+            Add note
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+};
+
+interface SwapSessionsPanelProps {
+  swap: SwapDetail;
+}
+
+// Sessions of a swap with each member's progress towards the agreed count;
+// sessions that took place outside the scheduler can be logged afterwards
+const SwapSessionsPanel = ({ swap }: SwapSessionsPanelProps) => {
+  const { user } = useAuth();
+  const { data, isLoading } = useSwapSessions(swap.id);
+  const addSession = useAddSwapSession();
+  const [isLogging, setIsLogging] = useState(false);
+  const [loggedAt, setLoggedAt] = useState("");
+  const [teacher, setTeacher] = useState<SwapRole>("receiver");
+  const [error, setError] = useState("");
+
+  const viewerRole: SwapRole =
+    swap.requester.id === user?.id ? "requester" : "receiver";
+  const otherName =
+    swap[viewerRole === "requester" ? "receiver" : "requester"].name;
+
+  const handleLog = async () => {
+    setError("");
+    try {
+      await addSession.mutateAsync({
+        swapId: swap.id,
+        session: {
+          scheduledFor: new Date(loggedAt).toISOString(),
+          teacher: swap[teacher].id,
+        },
+      });
+      setLoggedAt("");
+      setIsLogging(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not log session");
+    }
+  };
+
+  if (isLoading || !data) {
+    return isLoading ? (
+      <p className="text-sm text-gray-500">Loading sessions...</p>
+    ) : null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <SwapProgressBars
+        progress={data.progress}
+        viewerRole={viewerRole}
+        otherName={otherName}
+      />
+
+      {data.sessions.length > 0 && (
+        <ul className="space-y-2">
+          {data.sessions.map((session) => (
+            <SessionItem
+              key={session.id}
+              swap={swap}
+              session={session}
+              onError={setError}
+            />
+          ))}
+        </ul>
+      )}
+
+      {swap.status === "accepted" && !isLogging && (
+        <Button size="sm" variant="outline" onClick={() => setIsLogging(true)}>
+          Log a past session
+        </Button>
+      )}
+
+      {isLogging && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="datetime-local"
+            className="w-56"
+            value={loggedAt}
+            max={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+            onChange={(e) => setLoggedAt(e.target.value)}
+          />
+          <Select
+            value={teacher}
+            onValueChange={(value) => setTeacher(value as SwapRole)}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {data.progress.teachingRoles.map((role) => (
+                <SelectItem key={role} value={role}>
+                  {role === viewerRole ? "You" : otherName} taught
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            disabled={!loggedAt || addSession.isPending}
+            onClick={handleLog}
+          >
+            Log session
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setIsLogging(false)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default SwapSessionsPanel;
@@ -1,9 +1,17 @@
 import React, { createContext, useContext, useState, useEffect } from "react";
-import { User, AuthContextType } from "@/types";
-import { api } from "@/lib/api";
+import { User, AuthContextType, Skill, SkillInput } from "@/types";
+import { api, ApiError } from "@/lib/api";
+import VerifyEmailBanner from "@/components/Layout/VerifyEmailBanner";
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const toSkillInput = ({ name, category, description, level }: Skill): SkillInput => ({
+  name,
+  category,
+  description,
+  level,
+});
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -25,7 +33,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       api.setToken(token);
       fetchCurrentUser();
     } else {
-      setIsLoading(false);
+      // No access token stored: try to resume the session from the refresh cookie
+      api.refreshAccessToken().then((refreshed) => {
+        if (refreshed) {
+          fetchCurrentUser();
+        } else {
+          setIsLoading(false);
+        }
+      });
     }
   }, []);
 
@@ -43,16 +58,48 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
-  const login = async (email: string, password: string): Promise<{ success: boolean; error?: string }> => {
+  const login = async (
+    email: string,
+    password: string,
+  ): Promise<{
+    success: boolean;
+    error?: string;
+    challengeToken?: string;
+    retryAfter?: number;
+  }> => {
     try {
-      const { user: userData, token } = await api.login(email, password);
-      setUser(userData);
-      localStorage.setItem("skillswap-user", JSON.stringify(userData));
+      const result = await api.login(email, password);
+
+      // Two-factor accounts get a challenge instead of a session
+      if ("twoFactorRequired" in result) {
+        return { success: false, challengeToken: result.challengeToken };
+      }
+
+      setUser(result.user);
+      localStorage.setItem("skillswap-user", JSON.stringify(result.user));
       return { success: true };
     } catch (error) {
       console.error("Login failed:", error);
       const errorMessage = error instanceof Error ? error.message : "An error occurred during login";
-      return { success: false, error: errorMessage };
+      const retryAfter = error instanceof ApiError ? error.retryAfter : undefined;
+      return { success: false, error: errorMessage, retryAfter };
+    }
+  };
+
+  const completeTwoFactorLogin = async (
+    challengeToken: string,
+    credentials: { code?: string; recoveryCode?: string },
+  ): Promise<{ success: boolean; error?: string; retryAfter?: number }> => {
+    try {
+      const { user: userData } = await api.verifyTwoFactorLogin(challengeToken, credentials);
+      setUser(userData);
+      localStorage.setItem("skillswap-user", JSON.stringify(userData));
+      return { success: true };
+    } catch (error) {
+      console.error("Two-factor verification failed:", error);
+      const errorMessage = error instanceof Error ? error.message : "An error occurred during verification";
+      const retryAfter = error instanceof ApiError ? error.retryAfter : undefined;
+      return { success: false, error: errorMessage, retryAfter };
     }
   };
 
@@ -65,8 +112,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
         email: userData.email || "",
         password: userData.password,
         location: userData.location,
-        skillsOffered: userData.skillsOffered?.map(skill => skill.name) || [],
-        skillsWanted: userData.skillsWanted?.map(skill => skill.name) || [],
+        skillsOffered: userData.skillsOffered?.map(toSkillInput) || [],
+        skillsWanted: userData.skillsWanted?.map(toSkillInput) || [],
         availability: userData.availability || [],
       });
       
@@ -95,7 +142,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     if (!user) return;
     
     try {
-      const updatedUser = await api.updateUserProfile(user.id, userData);
+      const { skillsOffered, skillsWanted, ...profileData } = userData;
+      let updatedUser = user;
+
+      // Skills have their own endpoint; the profile endpoint ignores them
+      if (skillsOffered || skillsWanted) {
+        const skills = await api.updateUserSkills(user.id, { skillsOffered, skillsWanted });
+        updatedUser = { ...updatedUser, ...skills };
+      }
+
+      if (Object.keys(profileData).length > 0) {
+        updatedUser = { ...updatedUser, ...(await api.updateUserProfile(user.id, profileData)) };
+      }
+
       setUser(updatedUser);
       localStorage.setItem("skillswap-user", JSON.stringify(updatedUser));
     } catch (error) {
@@ -104,14 +163,37 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
+  const refreshUser = async () => {
+    const userData = await api.getCurrentUser();
+    setUser(userData);
+    localStorage.setItem("skillswap-user", JSON.stringify(userData));
+  };
+
+  const resendVerificationEmail = async () => {
+    await api.resendVerificationEmail();
+  };
+
   const value: AuthContextType = {
     user,
     login,
+    completeTwoFactorLogin,
     register,
     logout,
     updateProfile,
+    refreshUser,
+    resendVerificationEmail,
     isLoading,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {user && user.emailVerified === false && (
+        <VerifyEmailBanner
+          email={user.email}
+          onResend={resendVerificationEmail}
+        />
+      )}
+      {children}
+    </AuthContext.Provider>
+  );
 };
@@ -261,32 +261,6 @@ export const SkillSwapProvider: React.FC<{ children: React.ReactNode }> = ({
     );
   };
 
-  const approveSkill = (skillId: string) => {
-    setUsers((prev) =>
-      prev.map((user) => ({
-        ...user,
-        skillsOffered: user.skillsOffered.map((skill) =>
-          skill.id === skillId ? { ...skill, isApproved: true } : skill,
-        ),
-        skillsWanted: user.skillsWanted.map((skill) =>
-          skill.id === skillId ? { ...skill, isApproved: true } : skill,
-        ),
-      })),
-    );
-  };
-
-  const rejectSkill = (skillId: string) => {
-    setUsers((prev) =>
-      prev.map((user) => ({
-        ...user,
-        skillsOffered: user.skillsOffered.filter(
-          (skill) => skill.id !== skillId,
-        ),
-        skillsWanted: user.skillsWanted.filter((skill) => skill.id !== skillId),
-      })),
-    );
-  };
-
   const sendAdminMessage = (
     message: Omit<AdminMessage, "id" | "createdAt">,
   ) => {
@@ -309,8 +283,6 @@ export const SkillSwapProvider: React.FC<{ children: React.ReactNode }> = ({
     addReview,
     searchUsers,
     banUser,
-    approveSkill,
-    rejectSkill,
     sendAdminMessage,
   };
 
@@ -1,9 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import { User, SwapRequest, Review } from '@/types';
+import { User, SwapRequest, SwapTerms, Review, MeetingType, JobRun, MailMessage, NotificationSettingsUpdate, AvailabilitySettings, NewSwapSession, NewDispute, DisputeStatement, DisputeResolution, Dispute } from '@/types';
 
 // User hooks
-export const useUsers = (filters: { skill?: string; location?: string; page?: number; limit?: number }) => {
+export const useUsers = (filters: { skill?: string; category?: string; location?: string; page?: number; limit?: number }) => {
   return useQuery({
     queryKey: ['users', 'search', filters],
     queryFn: () => api.searchUsers(filters),
@@ -27,6 +27,52 @@ export const useUserStats = (userId: string) => {
   });
 };
 
+export const useMatches = (options: { meetingType?: MeetingType; limit?: number } = {}) => {
+  return useQuery({
+    queryKey: ['users', 'matches', options],
+    queryFn: () => api.getMatches(options),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useAvailability = () => {
+  return useQuery({
+    queryKey: ['users', 'availability'],
+    queryFn: () => api.getAvailability(),
+  });
+};
+
+export const useUpdateAvailability = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (settings: AvailabilitySettings) => api.updateAvailability(settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users', 'availability'] });
+      queryClient.invalidateQueries({ queryKey: ['notification-preferences'] });
+      queryClient.invalidateQueries({ queryKey: ['swap-slots'] });
+    },
+  });
+};
+
+// Skill taxonomy hooks
+export const useSkillSuggestions = (text: string) => {
+  return useQuery({
+    queryKey: ['skills', 'autocomplete', text],
+    queryFn: () => api.autocompleteSkills(text),
+    enabled: text.trim().length > 0,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+};
+
+export const useSkillCategories = () => {
+  return useQuery({
+    queryKey: ['skills', 'categories'],
+    queryFn: () => api.getSkillCategories(),
+    staleTime: 60 * 60 * 1000, // 1 hour
+  });
+};
+
 // Swap hooks
 export const useSwaps = (filters: { status?: string; page?: number; limit?: number } = {}) => {
   return useQuery({
@@ -50,6 +96,8 @@ export const useCreateSwap = () => {
     mutationFn: api.createSwap,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['swaps'] });
+      // Credit swaps hold part of the requester's balance
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
     },
   });
 };
@@ -58,14 +106,14 @@ export const useUpdateSwap = () => {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ({ swapId, action }: { swapId: string; action: 'accept' | 'reject' | 'complete' }) => {
+    mutationFn: ({ swapId, action, reason }: { swapId: string; action: 'accept' | 'reject' | 'complete'; reason?: string }) => {
       switch (action) {
         case 'accept':
-          return api.acceptSwap(swapId);
+          return api.acceptSwap(swapId, reason);
         case 'reject':
-          return api.rejectSwap(swapId);
+          return api.rejectSwap(swapId, reason);
         case 'complete':
-          return api.completeSwap(swapId);
+          return api.completeSwap(swapId, reason);
         default:
           throw new Error('Invalid action');
       }
@@ -73,6 +121,21 @@ export const useUpdateSwap = () => {
     onSuccess: (_, { swapId }) => {
       queryClient.invalidateQueries({ queryKey: ['swaps'] });
       queryClient.invalidateQueries({ queryKey: ['swap', swapId] });
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+    },
+  });
+};
+
+export const useCounterSwap = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ swapId, terms }: { swapId: string; terms: Partial<SwapTerms> & { message?: string } }) => 
+      api.counterSwap(swapId, terms),
+    onSuccess: (_, { swapId }) => {
+      queryClient.invalidateQueries({ queryKey: ['swaps'] });
+      queryClient.invalidateQueries({ queryKey: ['swap', swapId] });
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
     },
   });
 };
@@ -81,9 +144,381 @@ export const useDeleteSwap = () => {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: api.cancelSwap,
+    mutationFn: ({ swapId, reason }: { swapId: string; reason?: string }) => api.cancelSwap(swapId, reason),
+    onSuccess: (_, { swapId }) => {
+      queryClient.invalidateQueries({ queryKey: ['swaps'] });
+      queryClient.invalidateQueries({ queryKey: ['swap', swapId] });
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+    },
+  });
+};
+
+// Swap chain hooks
+export const useSwapChainSuggestions = () => {
+  return useQuery({
+    queryKey: ['swap-chains', 'suggestions'],
+    queryFn: () => api.getSwapChainSuggestions(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useSwapChains = () => {
+  return useQuery({
+    queryKey: ['swap-chains', 'mine'],
+    queryFn: () => api.getSwapChains(),
+  });
+};
+
+export const useCreateSwapChain = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ participants, message }: { participants: string[]; message?: string }) => 
+      api.createSwapChain(participants, message),
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['swap-chains'] });
+      queryClient.invalidateQueries({ queryKey: ['swaps'] });
+    },
+  });
+};
+
+export const useRespondToSwapChain = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ chainId, action }: { chainId: string; action: 'confirm' | 'reject' }) => 
+      action === 'confirm' ? api.confirmSwapChain(chainId) : api.rejectSwapChain(chainId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['swap-chains'] });
+      queryClient.invalidateQueries({ queryKey: ['swaps'] });
+    },
+  });
+};
+
+// Session scheduling hooks
+export const useOpenSlots = (swapId: string, range: { from?: string; to?: string; minutes?: number } = {}, enabled = true) => {
+  return useQuery({
+    queryKey: ['swap-slots', swapId, range],
+    queryFn: () => api.getOpenSlots(swapId, range),
+    enabled: !!swapId && enabled,
+  });
+};
+
+export const useProposeSessionSlots = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ swapId, slots, sessionMinutes, teacher }: { swapId: string; slots: string[]; sessionMinutes?: number; teacher?: string }) => 
+      api.proposeSessionSlots(swapId, slots, sessionMinutes, teacher),
+    onSuccess: (_, { swapId }) => {
+      queryClient.invalidateQueries({ queryKey: ['swap', swapId] });
+      queryClient.invalidateQueries({ queryKey: ['swap-slots', swapId] });
+    },
+  });
+};
+
+export const useConfirmSessionSlot = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ swapId, slotId }: { swapId: string; slotId: string }) => api.confirmSessionSlot(swapId, slotId),
+    onSuccess: (_, { swapId }) => {
       queryClient.invalidateQueries({ queryKey: ['swaps'] });
+      queryClient.invalidateQueries({ queryKey: ['swap', swapId] });
+      queryClient.invalidateQueries({ queryKey: ['swap-slots'] });
+      queryClient.invalidateQueries({ queryKey: ['swap-sessions', swapId] });
+    },
+  });
+};
+
+// Wallet hooks
+export const useWallet = () => {
+  return useQuery({
+    queryKey: ['wallet'],
+    queryFn: () => api.getWallet(),
+  });
+};
+
+export const useCreditTransactions = (page = 1, limit = 20) => {
+  return useQuery({
+    queryKey: ['wallet', 'transactions', page, limit],
+    queryFn: () => api.getCreditTransactions({ page, limit }),
+  });
+};
+
+// Swap session hooks
+export const useSwapSessions = (swapId: string) => {
+  return useQuery({
+    queryKey: ['swap-sessions', swapId],
+    queryFn: () => api.getSwapSessions(swapId),
+    enabled: !!swapId,
+  });
+};
+
+// Session changes can move the swap's next session, progress and status
+const useInvalidateSwapSessions = () => {
+  const queryClient = useQueryClient();
+  
+  return (swapId: string) => {
+    queryClient.invalidateQueries({ queryKey: ['swap-sessions', swapId] });
+    queryClient.invalidateQueries({ queryKey: ['swap', swapId] });
+    queryClient.invalidateQueries({ queryKey: ['swaps'] });
+    queryClient.invalidateQueries({ queryKey: ['swap-slots'] });
+    queryClient.invalidateQueries({ queryKey: ['wallet'] });
+  };
+};
+
+export const useAddSwapSession = () => {
+  const invalidate = useInvalidateSwapSessions();
+  
+  return useMutation({
+    mutationFn: ({ swapId, session }: { swapId: string; session: NewSwapSession }) => api.addSwapSession(swapId, session),
+    onSuccess: (_, { swapId }) => invalidate(swapId),
+  });
+};
+
+export const useRecordAttendance = () => {
+  const invalidate = useInvalidateSwapSessions();
+  
+  return useMutation({
+    mutationFn: ({ swapId, sessionId, attended }: { swapId: string; sessionId: string; attended: boolean }) => 
+      api.recordSessionAttendance(swapId, sessionId, attended),
+    onSuccess: (_, { swapId }) => invalidate(swapId),
+  });
+};
+
+export const useAddSessionNote = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ swapId, sessionId, body }: { swapId: string; sessionId: string; body: string }) => 
+      api.addSessionNote(swapId, sessionId, body),
+    onSuccess: (_, { swapId }) => {
+      queryClient.invalidateQueries({ queryKey: ['swap-sessions', swapId] });
+    },
+  });
+};
+
+export const useCancelSwapSession = () => {
+  const invalidate = useInvalidateSwapSessions();
+  
+  return useMutation({
+    mutationFn: ({ swapId, sessionId, reason }: { swapId: string; sessionId: string; reason?: string }) => 
+      api.cancelSwapSession(swapId, sessionId, reason),
+    onSuccess: (_, { swapId }) => invalidate(swapId),
+  });
+};
+
+export const useReportNoShow = () => {
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidateSwapSessions();
+  
+  return useMutation({
+    mutationFn: ({ swapId, sessionId, report }: { swapId: string; sessionId: string; report: DisputeStatement }) => 
+      api.reportSessionNoShow(swapId, sessionId, report),
+    onSuccess: (_, { swapId }) => {
+      invalidate(swapId);
+      queryClient.invalidateQueries({ queryKey: ['disputes'] });
+    },
+  });
+};
+
+// Dispute hooks
+export const useSwapDisputes = (swapId: string) => {
+  return useQuery({
+    queryKey: ['disputes', swapId],
+    queryFn: () => api.getDisputes({ swap: swapId }),
+    enabled: !!swapId,
+  });
+};
+
+export const useOpenDispute = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (dispute: NewDispute) => api.openDispute(dispute),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['disputes'] });
+    },
+  });
+};
+
+export const useAddDisputeComment = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ disputeId, comment }: { disputeId: string; comment: DisputeStatement }) => 
+      api.addDisputeComment(disputeId, comment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['disputes'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'disputes'] });
+    },
+  });
+};
+
+// Calendar feed hooks
+export const useCalendarFeed = () => {
+  return useQuery({
+    queryKey: ['calendar-feed'],
+    queryFn: () => api.getCalendarFeed(),
+  });
+};
+
+export const useCreateCalendarFeed = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: () => api.createCalendarFeed(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed'] });
+    },
+  });
+};
+
+export const useDeleteCalendarFeed = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: () => api.deleteCalendarFeed(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed'] });
+    },
+  });
+};
+
+// Swap message hooks
+export const useSwapMessages = (swapId: string, page = 1) => {
+  return useQuery({
+    queryKey: ['swap-messages', swapId, page],
+    queryFn: () => api.getSwapMessages(swapId, page),
+    enabled: !!swapId,
+    refetchInterval: 15 * 1000, // 15 seconds
+  });
+};
+
+export const useSendSwapMessage = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ swapId, body }: { swapId: string; body: string }) => api.sendSwapMessage(swapId, body),
+    onSuccess: (_, { swapId }) => {
+      queryClient.invalidateQueries({ queryKey: ['swap-messages', swapId] });
+    },
+  });
+};
+
+export const useMarkSwapMessagesRead = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (swapId: string) => api.markSwapMessagesRead(swapId),
+    onSuccess: (_, swapId) => {
+      queryClient.invalidateQueries({ queryKey: ['swap-messages', swapId] });
+    },
+  });
+};
+
+export const useEditSwapMessage = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ swapId, messageId, body }: { swapId: string; messageId: string; body: string }) => 
+      api.editSwapMessage(swapId, messageId, body),
+    onSuccess: (_, { swapId }) => {
+      queryClient.invalidateQueries({ queryKey: ['swap-messages', swapId] });
+    },
+  });
+};
+
+export const useDeleteSwapMessage = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ swapId, messageId }: { swapId: string; messageId: string }) => 
+      api.deleteSwapMessage(swapId, messageId),
+    onSuccess: (_, { swapId }) => {
+      queryClient.invalidateQueries({ queryKey: ['swap-messages', swapId] });
+    },
+  });
+};
+
+// Notification hooks
+export const useNotifications = (page = 1, unreadOnly = false, limit = 20) => {
+  return useQuery({
+    queryKey: ['notifications', 'list', page, unreadOnly, limit],
+    queryFn: () => api.getNotifications({ page, limit, unread: unreadOnly }),
+  });
+};
+
+export const useUnreadNotificationCount = () => {
+  return useQuery({
+    queryKey: ['notifications', 'unread-count'],
+    queryFn: () => api.getUnreadNotificationCount(),
+    refetchInterval: 60 * 1000, // 1 minute
+  });
+};
+
+export const useMarkNotificationRead = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (notificationId: string) => api.markNotificationRead(notificationId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+};
+
+export const useMarkAllNotificationsRead = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: () => api.markAllNotificationsRead(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+};
+
+export const useDeleteNotification = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (notificationId: string) => api.deleteNotification(notificationId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+};
+
+export const useClearNotifications = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (scope: 'read' | 'all') => api.clearNotifications(scope),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+};
+
+export const useNotificationPreferences = () => {
+  return useQuery({
+    queryKey: ['notification-preferences'],
+    queryFn: () => api.getNotificationPreferences(),
+  });
+};
+
+export const useUpdateNotificationPreferences = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (settings: NotificationSettingsUpdate) => 
+      api.updateNotificationPreferences(settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notification-preferences'] });
+      // The time zone is shared with the availability windows
+      queryClient.invalidateQueries({ queryKey: ['users', 'availability'] });
     },
   });
 };
@@ -123,6 +558,89 @@ export const useCreateRating = () => {
   });
 };
 
+// Session hooks
+export const useSessions = () => {
+  return useQuery({
+    queryKey: ['auth', 'sessions'],
+    queryFn: () => api.getSessions(),
+  });
+};
+
+export const useRevokeSession = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (sessionId?: string) =>
+      sessionId ? api.revokeSession(sessionId) : api.revokeOtherSessions(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth', 'sessions'] });
+    },
+  });
+};
+
+export const useOidcProviders = () => {
+  return useQuery({
+    queryKey: ['auth', 'oidc-providers'],
+    queryFn: () => api.getOidcProviders(),
+    staleTime: 30 * 60 * 1000, // 30 minutes
+  });
+};
+
+export const useSecurityEvents = () => {
+  return useQuery({
+    queryKey: ['auth', 'security-events'],
+    queryFn: () => api.getSecurityEvents(),
+  });
+};
+
+// Two-factor hooks
+export const useTwoFactorStatus = () => {
+  return useQuery({
+    queryKey: ['auth', 'two-factor'],
+    queryFn: () => api.getTwoFactorStatus(),
+  });
+};
+
+export const useSetupTwoFactor = () => {
+  return useMutation({
+    mutationFn: () => api.setupTwoFactor(),
+  });
+};
+
+export const useEnableTwoFactor = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (code: string) => api.enableTwoFactor(code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth', 'two-factor'] });
+    },
+  });
+};
+
+export const useRegenerateRecoveryCodes = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (code: string) => api.regenerateRecoveryCodes(code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth', 'two-factor'] });
+    },
+  });
+};
+
+export const useDisableTwoFactor = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ password, code }: { password: string; code: string }) =>
+      api.disableTwoFactor(password, code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth', 'two-factor'] });
+    },
+  });
+};
+
 // Admin hooks
 export const useAdminDashboard = () => {
   return useQuery({
@@ -152,4 +670,93 @@ export const useUnbanUser = () => {
       queryClient.invalidateQueries({ queryKey: ['users'] });
     },
   });
+};
+
+export const usePendingSkills = (page = 1) => {
+  return useQuery({
+    queryKey: ['admin', 'skills', 'pending', page],
+    queryFn: () => api.getPendingSkills(page),
+  });
+};
+
+export const useJobRuns = (filters: { job?: string; status?: JobRun['status']; page?: number } = {}) => {
+  return useQuery({
+    queryKey: ['admin', 'jobs', filters],
+    queryFn: () => api.getJobRuns(filters),
+    refetchInterval: 60 * 1000, // jobs are checked every minute
+  });
+};
+
+export const useMailOutbox = (filters: { status?: MailMessage['status']; template?: string; to?: string; page?: number } = {}) => {
+  return useQuery({
+    queryKey: ['admin', 'mail', 'list', filters],
+    queryFn: () => api.getMailMessages(filters),
+  });
+};
+
+export const useMailMessage = (messageId?: string) => {
+  return useQuery({
+    queryKey: ['admin', 'mail', 'message', messageId],
+    queryFn: () => api.getMailMessage(messageId!),
+    enabled: !!messageId,
+  });
+};
+
+export const useRetryMailMessage = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (messageId: string) => api.retryMailMessage(messageId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'mail'] });
+    },
+  });
+};
+
+export const useDisputeQueue = (status: Dispute['status'] = 'open', page = 1) => {
+  return useQuery({
+    queryKey: ['admin', 'disputes', status, page],
+    queryFn: () => api.getDisputeQueue(status, page),
+  });
+};
+
+// Resolving can void the swap, refund credits and ban a member
+export const useResolveDispute = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ disputeId, resolution }: { disputeId: string; resolution: DisputeResolution }) => 
+      api.resolveDispute(disputeId, resolution),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'disputes'] });
+      queryClient.invalidateQueries({ queryKey: ['disputes'] });
+      queryClient.invalidateQueries({ queryKey: ['swaps'] });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+  });
+};
+
+export const useApproveSkill = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (skillId: string) => api.approveSkill(skillId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'skills'] });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+  });
+};
+
+export const useRejectSkill = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ skillId, reason }: { skillId: string; reason: string }) => 
+      api.rejectSkill(skillId, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'skills'] });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+  });
 };
\ No newline at end of file
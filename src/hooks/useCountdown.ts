@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+
+// Counts down the seconds left until a retry is allowed.
+// Call start(seconds) to begin; returns 0 once the wait is over.
+export function useCountdown() {
+  const [until, setUntil] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (until === null) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((until - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        setUntil(null);
+      }
+    };
+
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [until]);
+
+  const start = (seconds: number) => {
+    if (seconds > 0) {
+      setUntil(Date.now() + seconds * 1000);
+    }
+  };
+
+  return { secondsLeft, start };
+}
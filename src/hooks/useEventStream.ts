@@ -0,0 +1,161 @@
+import { useEffect } from "react";
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import { api, ApiError } from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "@/hooks/use-toast";
+import { RealtimeEvent, SwapEventType } from "@/types";
+
+const MIN_RECONNECT_MS = 2 * 1000;
+const MAX_RECONNECT_MS = 60 * 1000;
+
+const swapEventTitles: Record<SwapEventType, string> = {
+  "swap.created": "New swap request",
+  "swap.accepted": "Swap accepted",
+  "swap.rejected": "Swap rejected",
+  "swap.countered": "New counter-offer",
+  "swap.cancelled": "Swap cancelled",
+  "swap.completed": "Swap completed",
+  "swap.expired": "Swap request expired",
+  "swap.slots-proposed": "Session times proposed",
+  "swap.scheduled": "Session scheduled",
+  "swap.session-updated": "Session updated",
+};
+
+const handleEvent = (
+  event: RealtimeEvent,
+  queryClient: QueryClient,
+  userId: string,
+) => {
+  switch (event.type) {
+    case "message.new":
+    case "message.updated":
+    case "message.deleted":
+    case "message.read": {
+      queryClient.invalidateQueries({
+        queryKey: ["swap-messages", event.data.swapId],
+      });
+
+      // The open thread already shows the message
+      if (
+        event.type === "message.new" &&
+        event.data.senderId !== userId &&
+        window.location.pathname !== `/swaps/${event.data.swapId}`
+      ) {
+        toast({
+          title: `New message from ${event.data.senderName}`,
+        });
+      }
+      break;
+    }
+    case "rating.new":
+      queryClient.invalidateQueries({ queryKey: ["ratings"] });
+      queryClient.invalidateQueries({ queryKey: ["user", userId] });
+      toast({
+        title: "New rating",
+        description: `${event.data.reviewerName ?? "Someone"} rated you ${event.data.rating}/5`,
+      });
+      break;
+    case "notification.new":
+      // The matching swap, rating or announcement event raises the toast
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+      // Disputes have no events of their own
+      if (event.data.type.startsWith("dispute.")) {
+        queryClient.invalidateQueries({ queryKey: ["disputes"] });
+      }
+      break;
+    case "admin.message":
+      toast({
+        title: event.data.title,
+        description: "New message from the SkillSwap team",
+      });
+      break;
+    default: {
+      const { data } = event;
+      queryClient.invalidateQueries({ queryKey: ["swaps"] });
+      queryClient.invalidateQueries({ queryKey: ["swap", data.swapId] });
+      if (event.type === "swap.completed") {
+        queryClient.invalidateQueries({ queryKey: ["user", userId] });
+      }
+      // Completed sessions and swaps move time credits; voided swaps refund them
+      if (
+        event.type === "swap.completed" ||
+        event.type === "swap.session-updated" ||
+        (event.type === "swap.cancelled" && event.data.action === "void")
+      ) {
+        queryClient.invalidateQueries({ queryKey: ["wallet"] });
+      }
+      // A booked session changes the free times of the member's other swaps
+      if (event.type === "swap.scheduled") {
+        queryClient.invalidateQueries({ queryKey: ["swap-slots"] });
+      }
+      if (
+        event.type === "swap.scheduled" ||
+        event.type === "swap.session-updated"
+      ) {
+        queryClient.invalidateQueries({
+          queryKey: ["swap-sessions", data.swapId],
+        });
+      }
+
+      // Members already see the result of their own actions
+      if (data.actorId !== userId) {
+        const skills = `${data.requestedSkill} for ${data.offeredSkill}`;
+        toast({
+          title: swapEventTitles[event.type],
+          description:
+            event.type === "swap.created" && data.actorName
+              ? `${data.actorName} would like to swap ${data.offeredSkill} for ${data.requestedSkill}`
+              : data.reason
+                ? `${skills}: "${data.reason}"`
+                : skills,
+        });
+      }
+    }
+  }
+};
+
+// Keeps React Query data fresh from the server event stream while signed in,
+// reconnecting with backoff when the stream drops
+export function useEventStream() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const controller = new AbortController();
+    let reconnectTimer: number | undefined;
+    let delay = MIN_RECONNECT_MS;
+
+    const connect = async () => {
+      try {
+        await api.streamEvents((event) => {
+          delay = MIN_RECONNECT_MS;
+          handleEvent(event, queryClient, userId);
+        }, controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        // Signed out or banned; the auth flow handles it from here
+        if (
+          error instanceof ApiError &&
+          (error.status === 401 || error.status === 403)
+        ) {
+          return;
+        }
+      }
+
+      if (controller.signal.aborted) return;
+
+      reconnectTimer = window.setTimeout(connect, delay);
+      delay = Math.min(delay * 2, MAX_RECONNECT_MS);
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(reconnectTimer);
+    };
+  }, [userId, queryClient]);
+}
@@ -1,4 +1,48 @@
-import { User, SwapRequest, Review, AdminMessage, Skill } from '@/types';
+import {
+  User,
+  SwapRequest,
+  SwapDetail,
+  SwapAction,
+  SwapTerms,
+  SwapMessage,
+  SwapChain,
+  SwapChainSuggestion,
+  Review,
+  AdminMessage,
+  Skill,
+  SkillInput,
+  SkillSuggestion,
+  SkillCategory,
+  PendingSkill,
+  JobState,
+  JobRun,
+  MailMessage,
+  SkillMatch,
+  MeetingType,
+  AuthSession,
+  SecurityEvent,
+  TwoFactorChallenge,
+  TwoFactorStatus,
+  TwoFactorEnrolment,
+  OidcProvider,
+  RealtimeEvent,
+  AppNotification,
+  NotificationSettings,
+  NotificationSettingsUpdate,
+  AvailabilitySettings,
+  OpenSlots,
+  CalendarFeedStatus,
+  CalendarFeedLink,
+  SwapSession,
+  SwapSessions,
+  NewSwapSession,
+  Wallet,
+  CreditTransaction,
+  Dispute,
+  DisputeStatement,
+  NewDispute,
+  DisputeResolution,
+} from '@/types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
@@ -7,9 +51,31 @@ interface ApiResponse<T = any> {
   success: boolean;
   message: string;
   data?: T;
+  token?: string;
+  code?: string;
+  retryAfter?: number;
   errors?: Array<{ field: string; message: string }>;
 }
 
+// Error thrown for non-2xx responses
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  // Seconds to wait before retrying (from the Retry-After header)
+  retryAfter?: number;
+
+  constructor(message: string, status: number, code?: string, retryAfter?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Endpoints that must never trigger a refresh-and-retry
+const NO_REFRESH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
 // API Client class
 class ApiClient {
   private baseURL: string;
@@ -20,27 +86,50 @@ class ApiClient {
     this.token = localStorage.getItem('skillswap-token');
   }
 
+  private refreshPromise: Promise<boolean> | null = null;
+
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    retryOnUnauthorized = true
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseURL}${endpoint}`;
     
     const config: RequestInit = {
+      credentials: 'include',
+      ...options,
       headers: {
         'Content-Type': 'application/json',
         ...(this.token && { Authorization: `Bearer ${this.token}` }),
         ...options.headers,
       },
-      ...options,
     };
 
     try {
       const response = await fetch(url, config);
+
+      // Access token expired or revoked: refresh once and replay the request
+      if (
+        response.status === 401 &&
+        retryOnUnauthorized &&
+        !NO_REFRESH_ENDPOINTS.some((path) => endpoint.startsWith(path))
+      ) {
+        const refreshed = await this.refreshAccessToken();
+        if (refreshed) {
+          return this.request<T>(endpoint, options, false);
+        }
+      }
+
       const data: ApiResponse<T> = await response.json();
       
       if (!response.ok) {
-        throw new Error(data.message || 'API request failed');
+        const retryAfterHeader = response.headers.get('Retry-After');
+        throw new ApiError(
+          data.message || 'API request failed',
+          response.status,
+          data.code,
+          retryAfterHeader ? Number(retryAfterHeader) : data.retryAfter
+        );
       }
       
       return data;
@@ -50,6 +139,32 @@ class ApiClient {
     }
   }
 
+  // Exchange the httpOnly refresh cookie for a new access token.
+  // Concurrent callers share a single in-flight refresh.
+  async refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = fetch(`${this.baseURL}/auth/refresh`, {
+        method: 'POST',
+        credentials: 'include',
+      })
+        .then(async (response) => {
+          const data: ApiResponse = await response.json();
+          if (!response.ok || !data.token) {
+            this.clearToken();
+            return false;
+          }
+          this.setToken(data.token);
+          return true;
+        })
+        .catch(() => false)
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+
+    return this.refreshPromise;
+  }
+
   setToken(token: string) {
     this.token = token;
     localStorage.setItem('skillswap-token', token);
@@ -61,14 +176,50 @@ class ApiClient {
   }
 
   // Auth endpoints
-  async login(email: string, password: string): Promise<{ user: User; token: string }> {
-    const response = await this.request<{ user: User; token: string }>('/auth/login', {
+  async login(
+    email: string,
+    password: string
+  ): Promise<{ user: User; token: string } | TwoFactorChallenge> {
+    const response = await this.request<{ user: User; token: string } | TwoFactorChallenge>(
+      '/auth/login',
+      {
+        method: 'POST',
+        body: JSON.stringify({ email, password }),
+      }
+    );
+    
+    const token = response.token;
+    if (token) {
+      this.setToken(token);
+    }
+    
+    return response.data!;
+  }
+
+  // External sign-in providers configured on the server
+  async getOidcProviders(): Promise<OidcProvider[]> {
+    const response = await this.request<{ providers: OidcProvider[] }>('/auth/oidc/providers');
+    return response.data!.providers;
+  }
+
+  // Full-page navigation target; the server redirects on to the provider
+  getOidcAuthorizeUrl(providerId: string): string {
+    return `${this.baseURL}/auth/oidc/${encodeURIComponent(providerId)}/authorize`;
+  }
+
+  // Second login step for accounts with two-factor authentication
+  async verifyTwoFactorLogin(
+    challengeToken: string,
+    credentials: { code?: string; recoveryCode?: string }
+  ): Promise<{ user: User; token: string }> {
+    const response = await this.request<{ user: User; token: string }>('/auth/login/2fa', {
       method: 'POST',
-      body: JSON.stringify({ email, password }),
+      body: JSON.stringify({ challengeToken, ...credentials }),
     });
     
-    if (response.data?.token) {
-      this.setToken(response.data.token);
+    const token = response.token || response.data?.token;
+    if (token) {
+      this.setToken(token);
     }
     
     return response.data!;
@@ -79,8 +230,8 @@ class ApiClient {
     email: string;
     password: string;
     location?: string;
-    skillsOffered?: string[];
-    skillsWanted?: string[];
+    skillsOffered?: SkillInput[];
+    skillsWanted?: SkillInput[];
     availability?: string[];
   }): Promise<{ user: User; token: string }> {
     const response = await this.request<{ user: User; token: string }>('/auth/register', {
@@ -88,8 +239,9 @@ class ApiClient {
       body: JSON.stringify(userData),
     });
     
-    if (response.data?.token) {
-      this.setToken(response.data.token);
+    const token = response.token || response.data?.token;
+    if (token) {
+      this.setToken(token);
     }
     
     return response.data!;
@@ -111,6 +263,119 @@ class ApiClient {
     });
   }
 
+  async forgotPassword(email: string): Promise<string> {
+    const response = await this.request('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+    return response.message;
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    await this.request(`/auth/reset-password/${token}`, {
+      method: 'POST',
+      body: JSON.stringify({
+        password,
+        confirmPassword: password,
+      }),
+    });
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    await this.request(`/auth/verify/${token}`);
+  }
+
+  async resendVerificationEmail(): Promise<void> {
+    await this.request('/auth/verify/resend', { method: 'POST' });
+  }
+
+  async getSessions(): Promise<AuthSession[]> {
+    const response = await this.request<{ sessions: AuthSession[] }>('/auth/sessions');
+    return response.data!.sessions;
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.request(`/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async revokeOtherSessions(): Promise<void> {
+    await this.request('/auth/sessions', {
+      method: 'DELETE',
+    });
+  }
+
+  async getSecurityEvents(): Promise<SecurityEvent[]> {
+    const response = await this.request<{ events: SecurityEvent[] }>('/auth/security-events');
+    return response.data!.events;
+  }
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await this.request<TwoFactorStatus>('/auth/2fa');
+    return response.data!;
+  }
+
+  async setupTwoFactor(): Promise<TwoFactorEnrolment> {
+    const response = await this.request<TwoFactorEnrolment>('/auth/2fa/setup', {
+      method: 'POST',
+    });
+    return response.data!;
+  }
+
+  async enableTwoFactor(code: string): Promise<string[]> {
+    const response = await this.request<{ recoveryCodes: string[] }>('/auth/2fa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+    return response.data!.recoveryCodes;
+  }
+
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await this.request<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+    return response.data!.recoveryCodes;
+  }
+
+  async disableTwoFactor(password: string, code: string): Promise<void> {
+    await this.request('/auth/2fa/disable', {
+      method: 'POST',
+      body: JSON.stringify({ password, code }),
+    });
+  }
+
+  // Binary download, so it bypasses request() (which parses JSON)
+  async exportAccountData(): Promise<Blob> {
+    const download = () =>
+      fetch(`${this.baseURL}/auth/account/export`, {
+        credentials: 'include',
+        headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+      });
+
+    let response = await download();
+    if (response.status === 401 && (await this.refreshAccessToken())) {
+      response = await download();
+    }
+
+    if (!response.ok) {
+      const data: Partial<ApiResponse> = await response.json().catch(() => ({}));
+      throw new ApiError(data.message || 'Export failed', response.status, data.code);
+    }
+
+    return response.blob();
+  }
+
+  async deleteAccount(password: string): Promise<{ deletionScheduledFor: string }> {
+    const response = await this.request<{ deletionScheduledFor: string }>('/auth/account', {
+      method: 'DELETE',
+      body: JSON.stringify({ password }),
+    });
+    this.clearToken();
+    return response.data!;
+  }
+
   async logout(): Promise<void> {
     try {
       await this.request('/auth/logout', { method: 'POST' });
@@ -122,12 +387,14 @@ class ApiClient {
   // User endpoints
   async searchUsers(filters: {
     skill?: string;
+    category?: string;
     location?: string;
     page?: number;
     limit?: number;
   }): Promise<{ users: User[]; total: number; page: number; totalPages: number }> {
     const params = new URLSearchParams();
     if (filters.skill) params.append('skill', filters.skill);
+    if (filters.category) params.append('category', filters.category);
     if (filters.location) params.append('location', filters.location);
     if (filters.page) params.append('page', filters.page.toString());
     if (filters.limit) params.append('limit', filters.limit.toString());
@@ -138,6 +405,42 @@ class ApiClient {
     return response.data!;
   }
 
+  async getMatches(options: { meetingType?: MeetingType; limit?: number } = {}): Promise<SkillMatch[]> {
+    const params = new URLSearchParams();
+    if (options.meetingType) params.append('meetingType', options.meetingType);
+    if (options.limit) params.append('limit', options.limit.toString());
+
+    const response = await this.request<{ matches: SkillMatch[] }>(`/users/matches?${params}`);
+    return response.data!.matches;
+  }
+
+  async getAvailability(): Promise<AvailabilitySettings> {
+    const response = await this.request<AvailabilitySettings>('/users/me/availability');
+    return response.data!;
+  }
+
+  async updateAvailability(settings: AvailabilitySettings): Promise<AvailabilitySettings> {
+    const response = await this.request<AvailabilitySettings>('/users/me/availability', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+    return response.data!;
+  }
+
+  // Skill taxonomy endpoints
+  async autocompleteSkills(text: string, limit = 8): Promise<SkillSuggestion[]> {
+    const params = new URLSearchParams({ q: text, limit: limit.toString() });
+    const response = await this.request<{ suggestions: SkillSuggestion[] }>(
+      `/skills/autocomplete?${params}`
+    );
+    return response.data!.suggestions;
+  }
+
+  async getSkillCategories(): Promise<SkillCategory[]> {
+    const response = await this.request<{ categories: SkillCategory[] }>('/skills/categories');
+    return response.data!.categories;
+  }
+
   async getUserProfile(userId: string): Promise<User> {
     const response = await this.request<User>(`/users/${userId}`);
     return response.data!;
@@ -152,14 +455,17 @@ class ApiClient {
   }
 
   async updateUserSkills(userId: string, skills: {
-    skillsOffered: string[];
-    skillsWanted: string[];
-  }): Promise<User> {
-    const response = await this.request<User>(`/users/${userId}/skills`, {
-      method: 'PUT',
-      body: JSON.stringify(skills),
-    });
-    return response.data!;
+    skillsOffered?: SkillInput[];
+    skillsWanted?: SkillInput[];
+  }): Promise<Pick<User, 'skillsOffered' | 'skillsWanted'>> {
+    const response = await this.request<{ user: Pick<User, 'skillsOffered' | 'skillsWanted'> }>(
+      `/users/${userId}/skills`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(skills),
+      }
+    );
+    return response.data!.user;
   }
 
   async getUserStats(userId: string): Promise<{
@@ -181,10 +487,12 @@ class ApiClient {
   async createSwap(swapData: {
     receiver: string;
     requestedSkill: string;
-    offeredSkill: string;
+    offeredSkill?: string;
+    paymentType?: 'skill' | 'credits';
     message: string;
     meetingType?: string;
     proposedDate?: string;
+    sessionCount?: number;
   }): Promise<SwapRequest> {
     const response = await this.request<SwapRequest>('/swaps', {
       method: 'POST',
@@ -209,38 +517,340 @@ class ApiClient {
     return response.data!;
   }
 
-  async getSwap(swapId: string): Promise<SwapRequest> {
-    const response = await this.request<SwapRequest>(`/swaps/${swapId}`);
+  async getSwap(swapId: string): Promise<{ swap: SwapDetail; allowedActions: SwapAction[] }> {
+    const response = await this.request<{ swap: SwapDetail; allowedActions: SwapAction[] }>(`/swaps/${swapId}`);
     return response.data!;
   }
 
-  async acceptSwap(swapId: string): Promise<SwapRequest> {
-    const response = await this.request<SwapRequest>(`/swaps/${swapId}/accept`, {
+  async acceptSwap(swapId: string, reason?: string): Promise<SwapDetail> {
+    const response = await this.request<{ swap: SwapDetail }>(`/swaps/${swapId}/accept`, {
       method: 'PUT',
+      body: JSON.stringify({ reason }),
     });
-    return response.data!;
+    return response.data!.swap;
   }
 
-  async rejectSwap(swapId: string): Promise<SwapRequest> {
-    const response = await this.request<SwapRequest>(`/swaps/${swapId}/reject`, {
+  async rejectSwap(swapId: string, reason?: string): Promise<SwapDetail> {
+    const response = await this.request<{ swap: SwapDetail }>(`/swaps/${swapId}/reject`, {
       method: 'PUT',
+      body: JSON.stringify({ reason }),
     });
-    return response.data!;
+    return response.data!.swap;
+  }
+
+  async counterSwap(swapId: string, terms: Partial<SwapTerms> & { message?: string }): Promise<SwapDetail> {
+    const response = await this.request<{ swap: SwapDetail }>(`/swaps/${swapId}/counter`, {
+      method: 'PUT',
+      body: JSON.stringify(terms),
+    });
+    return response.data!.swap;
   }
 
-  async cancelSwap(swapId: string): Promise<void> {
+  async cancelSwap(swapId: string, reason?: string): Promise<void> {
     await this.request(`/swaps/${swapId}`, {
       method: 'DELETE',
+      body: JSON.stringify({ reason }),
     });
   }
 
-  async completeSwap(swapId: string): Promise<SwapRequest> {
-    const response = await this.request<SwapRequest>(`/swaps/${swapId}/complete`, {
+  async completeSwap(swapId: string, reason?: string): Promise<SwapDetail> {
+    const response = await this.request<{ swap: SwapDetail }>(`/swaps/${swapId}/complete`, {
       method: 'PUT',
+      body: JSON.stringify({ reason }),
     });
+    return response.data!.swap;
+  }
+
+  // Session scheduling endpoints
+  async getOpenSlots(swapId: string, range: { from?: string; to?: string; minutes?: number } = {}): Promise<OpenSlots> {
+    const params = new URLSearchParams();
+    if (range.from) params.append('from', range.from);
+    if (range.to) params.append('to', range.to);
+    if (range.minutes) params.append('minutes', range.minutes.toString());
+
+    const response = await this.request<OpenSlots>(`/swaps/${swapId}/schedule/slots?${params}`);
     return response.data!;
   }
 
+  async proposeSessionSlots(swapId: string, slots: string[], sessionMinutes?: number, teacher?: string): Promise<SwapDetail> {
+    const response = await this.request<{ swap: SwapDetail }>(`/swaps/${swapId}/schedule/proposal`, {
+      method: 'POST',
+      body: JSON.stringify({ slots, sessionMinutes, teacher }),
+    });
+    return response.data!.swap;
+  }
+
+  async confirmSessionSlot(swapId: string, slotId: string): Promise<SwapDetail> {
+    const response = await this.request<{ swap: SwapDetail }>(`/swaps/${swapId}/schedule/confirm`, {
+      method: 'POST',
+      body: JSON.stringify({ slotId }),
+    });
+    return response.data!.swap;
+  }
+
+  // Swap session endpoints
+  async getSwapSessions(swapId: string): Promise<SwapSessions> {
+    const response = await this.request<SwapSessions>(`/swaps/${swapId}/sessions`);
+    return response.data!;
+  }
+
+  async addSwapSession(swapId: string, session: NewSwapSession): Promise<SwapSession> {
+    const response = await this.request<{ session: SwapSession }>(`/swaps/${swapId}/sessions`, {
+      method: 'POST',
+      body: JSON.stringify(session),
+    });
+    return response.data!.session;
+  }
+
+  async recordSessionAttendance(swapId: string, sessionId: string, attended: boolean): Promise<SwapSession> {
+    const response = await this.request<{ session: SwapSession }>(`/swaps/${swapId}/sessions/${sessionId}/attendance`, {
+      method: 'PUT',
+      body: JSON.stringify({ attended }),
+    });
+    return response.data!.session;
+  }
+
+  async addSessionNote(swapId: string, sessionId: string, body: string): Promise<SwapSession> {
+    const response = await this.request<{ session: SwapSession }>(`/swaps/${swapId}/sessions/${sessionId}/notes`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    });
+    return response.data!.session;
+  }
+
+  async cancelSwapSession(swapId: string, sessionId: string, reason?: string): Promise<SwapSession> {
+    const response = await this.request<{ session: SwapSession }>(`/swaps/${swapId}/sessions/${sessionId}/cancel`, {
+      method: 'PUT',
+      body: JSON.stringify({ reason }),
+    });
+    return response.data!.session;
+  }
+
+  // Marks the session missed and opens a no-show dispute, or adds to the swap's open one
+  async reportSessionNoShow(swapId: string, sessionId: string, report: DisputeStatement): Promise<{
+    session: SwapSession;
+    dispute: Dispute;
+  }> {
+    const response = await this.request<{ session: SwapSession; dispute: Dispute }>(
+      `/swaps/${swapId}/sessions/${sessionId}/no-show`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(report),
+      }
+    );
+    return response.data!;
+  }
+
+  // Calendar endpoints
+  async downloadSwapCalendar(swapId: string): Promise<Blob> {
+    const download = () =>
+      fetch(`${this.baseURL}/swaps/${swapId}/calendar.ics`, {
+        credentials: 'include',
+        headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+      });
+
+    let response = await download();
+    if (response.status === 401 && (await this.refreshAccessToken())) {
+      response = await download();
+    }
+
+    if (!response.ok) {
+      const data: Partial<ApiResponse> = await response.json().catch(() => ({}));
+      throw new ApiError(data.message || 'Download failed', response.status, data.code);
+    }
+
+    return response.blob();
+  }
+
+  async getCalendarFeed(): Promise<CalendarFeedStatus> {
+    const response = await this.request<CalendarFeedStatus>('/calendar/feed');
+    return response.data!;
+  }
+
+  async createCalendarFeed(): Promise<CalendarFeedLink> {
+    const response = await this.request<CalendarFeedLink>('/calendar/feed', {
+      method: 'POST',
+    });
+    return response.data!;
+  }
+
+  async deleteCalendarFeed(): Promise<void> {
+    await this.request('/calendar/feed', {
+      method: 'DELETE',
+    });
+  }
+
+  // Wallet endpoints
+  async getWallet(): Promise<Wallet> {
+    const response = await this.request<{ wallet: Wallet }>('/wallet');
+    return response.data!.wallet;
+  }
+
+  async getCreditTransactions(filters: { page?: number; limit?: number } = {}): Promise<{
+    transactions: CreditTransaction[];
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalTransactions: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  }> {
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+
+    const response = await this.request<{
+      transactions: CreditTransaction[];
+      pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalTransactions: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+      };
+    }>(`/wallet/transactions?${params}`);
+    return response.data!;
+  }
+
+  // Dispute endpoints
+  async getDisputes(filters: { swap?: string; status?: Dispute['status']; page?: number; limit?: number } = {}): Promise<{
+    disputes: Dispute[];
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalDisputes: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  }> {
+    const params = new URLSearchParams();
+    if (filters.swap) params.append('swap', filters.swap);
+    if (filters.status) params.append('status', filters.status);
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+
+    const response = await this.request<{
+      disputes: Dispute[];
+      pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalDisputes: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+      };
+    }>(`/disputes?${params}`);
+    return response.data!;
+  }
+
+  async openDispute(dispute: NewDispute): Promise<Dispute> {
+    const response = await this.request<{ dispute: Dispute }>('/disputes', {
+      method: 'POST',
+      body: JSON.stringify(dispute),
+    });
+    return response.data!.dispute;
+  }
+
+  async addDisputeComment(disputeId: string, comment: DisputeStatement): Promise<Dispute> {
+    const response = await this.request<{ dispute: Dispute }>(`/disputes/${disputeId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify(comment),
+    });
+    return response.data!.dispute;
+  }
+
+  // Swap message endpoints
+  async getSwapMessages(swapId: string, page = 1, limit = 30): Promise<{
+    messages: SwapMessage[];
+    unreadCount: number;
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalMessages: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  }> {
+    const response = await this.request<{
+      messages: SwapMessage[];
+      unreadCount: number;
+      pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalMessages: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+      };
+    }>(`/swaps/${swapId}/messages?page=${page}&limit=${limit}`);
+    return response.data!;
+  }
+
+  async sendSwapMessage(swapId: string, body: string): Promise<SwapMessage> {
+    const response = await this.request<{ message: SwapMessage }>(`/swaps/${swapId}/messages`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    });
+    return response.data!.message;
+  }
+
+  async markSwapMessagesRead(swapId: string): Promise<void> {
+    await this.request(`/swaps/${swapId}/messages/read`, {
+      method: 'PUT',
+    });
+  }
+
+  async editSwapMessage(swapId: string, messageId: string, body: string): Promise<SwapMessage> {
+    const response = await this.request<{ message: SwapMessage }>(`/swaps/${swapId}/messages/${messageId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ body }),
+    });
+    return response.data!.message;
+  }
+
+  async deleteSwapMessage(swapId: string, messageId: string): Promise<void> {
+    await this.request(`/swaps/${swapId}/messages/${messageId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Swap chain endpoints
+  async getSwapChainSuggestions(limit = 5): Promise<SwapChainSuggestion[]> {
+    const response = await this.request<{ chains: SwapChainSuggestion[] }>(
+      `/swap-chains/suggestions?limit=${limit}`
+    );
+    return response.data!.chains;
+  }
+
+  async getSwapChains(status?: SwapChain['status']): Promise<SwapChain[]> {
+    const params = new URLSearchParams();
+    if (status) params.append('status', status);
+
+    const response = await this.request<{ chains: SwapChain[] }>(`/swap-chains?${params}`);
+    return response.data!.chains;
+  }
+
+  async createSwapChain(participants: string[], message?: string): Promise<SwapChain> {
+    const response = await this.request<{ chain: SwapChain }>('/swap-chains', {
+      method: 'POST',
+      body: JSON.stringify({ participants, message }),
+    });
+    return response.data!.chain;
+  }
+
+  async confirmSwapChain(chainId: string): Promise<SwapChain> {
+    const response = await this.request<{ chain: SwapChain }>(`/swap-chains/${chainId}/confirm`, {
+      method: 'PUT',
+    });
+    return response.data!.chain;
+  }
+
+  async rejectSwapChain(chainId: string): Promise<SwapChain> {
+    const response = await this.request<{ chain: SwapChain }>(`/swap-chains/${chainId}/reject`, {
+      method: 'PUT',
+    });
+    return response.data!.chain;
+  }
+
   // Rating endpoints
   async createRating(ratingData: {
     swap: string;
@@ -308,6 +918,83 @@ class ApiClient {
     return response.data!;
   }
 
+  // Notification endpoints
+  async getNotifications(filters: { page?: number; limit?: number; unread?: boolean } = {}): Promise<{
+    notifications: AppNotification[];
+    unreadCount: number;
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalNotifications: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  }> {
+    const params = new URLSearchParams();
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+    if (filters.unread) params.append('unread', 'true');
+
+    const response = await this.request<{
+      notifications: AppNotification[];
+      unreadCount: number;
+      pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalNotifications: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+      };
+    }>(`/notifications?${params}`);
+    return response.data!;
+  }
+
+  async getUnreadNotificationCount(): Promise<number> {
+    const response = await this.request<{ unreadCount: number }>('/notifications/unread-count');
+    return response.data!.unreadCount;
+  }
+
+  async markNotificationRead(notificationId: string): Promise<AppNotification> {
+    const response = await this.request<{ notification: AppNotification }>(
+      `/notifications/${notificationId}/read`,
+      { method: 'PUT' }
+    );
+    return response.data!.notification;
+  }
+
+  async markAllNotificationsRead(): Promise<void> {
+    await this.request('/notifications/read-all', {
+      method: 'PUT',
+    });
+  }
+
+  async deleteNotification(notificationId: string): Promise<void> {
+    await this.request(`/notifications/${notificationId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Clears read notifications, or every notification with scope 'all'
+  async clearNotifications(scope: 'read' | 'all' = 'read'): Promise<number> {
+    const response = await this.request<{ deleted: number }>(`/notifications?scope=${scope}`, {
+      method: 'DELETE',
+    });
+    return response.data!.deleted;
+  }
+
+  async getNotificationPreferences(): Promise<NotificationSettings> {
+    const response = await this.request<NotificationSettings>('/notifications/preferences');
+    return response.data!;
+  }
+
+  async updateNotificationPreferences(settings: NotificationSettingsUpdate): Promise<NotificationSettings> {
+    const response = await this.request<NotificationSettings>('/notifications/preferences', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+    return response.data!;
+  }
+
   // Admin endpoints
   async getAdminDashboard(): Promise<{
     totalUsers: number;
@@ -352,6 +1039,218 @@ class ApiClient {
     });
     return response.data!;
   }
+
+  async getPendingSkills(page = 1, limit = 20): Promise<{
+    skills: PendingSkill[];
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalSkills: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  }> {
+    const response = await this.request<{
+      skills: PendingSkill[];
+      pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalSkills: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+      };
+    }>(`/admin/skills/pending?page=${page}&limit=${limit}`);
+    return response.data!;
+  }
+
+  async approveSkill(skillId: string): Promise<void> {
+    await this.request(`/admin/skills/${skillId}/approve`, {
+      method: 'PUT',
+    });
+  }
+
+  async rejectSkill(skillId: string, reason: string): Promise<void> {
+    await this.request(`/admin/skills/${skillId}/reject`, {
+      method: 'PUT',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  async getDisputeQueue(status: Dispute['status'] = 'open', page = 1, limit = 20): Promise<{
+    disputes: Dispute[];
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalDisputes: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  }> {
+    const response = await this.request<{
+      disputes: Dispute[];
+      pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalDisputes: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+      };
+    }>(`/admin/disputes?status=${status}&page=${page}&limit=${limit}`);
+    return response.data!;
+  }
+
+  async resolveDispute(disputeId: string, resolution: DisputeResolution): Promise<Dispute> {
+    const response = await this.request<{ dispute: Dispute }>(`/admin/disputes/${disputeId}/resolve`, {
+      method: 'PUT',
+      body: JSON.stringify(resolution),
+    });
+    return response.data!.dispute;
+  }
+
+  async getJobRuns(filters: {
+    job?: string;
+    status?: JobRun['status'];
+    page?: number;
+    limit?: number;
+  } = {}): Promise<{
+    jobs: JobState[];
+    runs: JobRun[];
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalRuns: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  }> {
+    const params = new URLSearchParams();
+    if (filters.job) params.append('job', filters.job);
+    if (filters.status) params.append('status', filters.status);
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+
+    const response = await this.request<{
+      jobs: JobState[];
+      runs: JobRun[];
+      pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalRuns: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+      };
+    }>(`/admin/jobs/runs?${params}`);
+    return response.data!;
+  }
+
+  async getMailMessages(filters: {
+    status?: MailMessage['status'];
+    template?: string;
+    to?: string;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<{
+    messages: MailMessage[];
+    transport: string;
+    counts: Partial<Record<MailMessage['status'], number>>;
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalMessages: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+  }> {
+    const params = new URLSearchParams();
+    if (filters.status) params.append('status', filters.status);
+    if (filters.template) params.append('template', filters.template);
+    if (filters.to) params.append('to', filters.to);
+    if (filters.page) params.append('page', filters.page.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+
+    const response = await this.request<{
+      messages: MailMessage[];
+      transport: string;
+      counts: Partial<Record<MailMessage['status'], number>>;
+      pagination: {
+        currentPage: number;
+        totalPages: number;
+        totalMessages: number;
+        hasNextPage: boolean;
+        hasPrevPage: boolean;
+      };
+    }>(`/admin/mail?${params}`);
+    return response.data!;
+  }
+
+  async getMailMessage(messageId: string): Promise<MailMessage> {
+    const response = await this.request<{ message: MailMessage }>(`/admin/mail/${messageId}`);
+    return response.data!.message;
+  }
+
+  async retryMailMessage(messageId: string): Promise<{ outcome: 'sent' | 'retrying'; message: MailMessage }> {
+    const response = await this.request<{ outcome: 'sent' | 'retrying'; message: MailMessage }>(
+      `/admin/mail/${messageId}/retry`,
+      { method: 'POST' }
+    );
+    return response.data!;
+  }
+
+  // Real-time events
+  // Reads the server-sent event stream until it ends or the signal aborts.
+  // EventSource cannot send the bearer token, so the stream is read with fetch.
+  async streamEvents(
+    onEvent: (event: RealtimeEvent) => void,
+    signal: AbortSignal,
+    retryOnUnauthorized = true
+  ): Promise<void> {
+    const response = await fetch(`${this.baseURL}/events`, {
+      credentials: 'include',
+      headers: {
+        Accept: 'text/event-stream',
+        ...(this.token && { Authorization: `Bearer ${this.token}` }),
+      },
+      signal,
+    });
+
+    if (response.status === 401 && retryOnUnauthorized) {
+      const refreshed = await this.refreshAccessToken();
+      if (refreshed) {
+        return this.streamEvents(onEvent, signal, false);
+      }
+    }
+
+    if (!response.ok || !response.body) {
+      throw new ApiError('Could not open the event stream', response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      // Events end with a blank line; keep any partial event for the next chunk
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() ?? '';
+
+      blocks.forEach((block) => {
+        let type = '';
+        let data = '';
+        block.split('\n').forEach((line) => {
+          if (line.startsWith('event: ')) type = line.slice(7);
+          if (line.startsWith('data: ')) data += line.slice(6);
+        });
+
+        if (type && type !== 'ready' && data) {
+          onEvent({ type, data: JSON.parse(data) } as RealtimeEvent);
+        }
+      });
+    }
+  }
 }
 
 // Create and export API instance
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { cn, describeOffer, formatCredits } from "@/lib/utils";
+
+describe("cn", () => {
+  it("merges conflicting Tailwind classes, keeping the last one", () => {
+    expect(cn("px-2 text-sm", false && "hidden", "px-4")).toBe("text-sm px-4");
+  });
+});
+
+describe("formatCredits", () => {
+  it("shows minutes as hours", () => {
+    expect(formatCredits(90)).toBe("1.5 hours");
+    expect(formatCredits(60)).toBe("1 hour");
+    expect(formatCredits(-60)).toBe("-1 hour");
+  });
+});
+
+describe("describeOffer", () => {
+  it("names the offered skill, or time credits for credit swaps", () => {
+    expect(
+      describeOffer({ paymentType: "skill", offeredSkill: "Guitar" }),
+    ).toBe("Guitar");
+    expect(describeOffer({ paymentType: "credits" })).toBe("time credits");
+  });
+});
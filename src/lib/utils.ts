@@ -1,6 +1,38 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { DisputeOutcome, DisputeReason } from "@/types";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Minutes of time credit as hours, e.g. "1.5 hours"
+export function formatCredits(minutes: number) {
+  const hours = Math.round((minutes / 60) * 100) / 100;
+  return `${hours} ${Math.abs(hours) === 1 ? "hour" : "hours"}`;
+}
+
+// What the requester of a swap gives in return
+export function describeOffer(swap: {
+  paymentType?: "skill" | "credits";
+  offeredSkill?: string;
+}) {
+  return swap.paymentType === "credits"
+    ? "time credits"
+    : (swap.offeredSkill ?? "");
+}
+
+// Display names for dispute reasons and admin outcomes
+export const disputeReasonLabels: Record<DisputeReason, string> = {
+  "no-show": "No-show",
+  "not-as-agreed": "Not as agreed",
+  conduct: "Conduct",
+  other: "Other",
+};
+
+export const disputeOutcomeLabels: Record<DisputeOutcome, string> = {
+  dismiss: "Dismissed",
+  "void-swap": "Swap voided",
+  warn: "Warning given",
+  ban: "Member banned",
+};
@@ -1,5 +1,9 @@
 import React, { useState } from "react";
 import AppLayout from "@/components/Layout/AppLayout";
+import SkillModerationCard from "@/components/Admin/SkillModerationCard";
+import JobRunsCard from "@/components/Admin/JobRunsCard";
+import MailOutboxCard from "@/components/Admin/MailOutboxCard";
+import DisputeQueueCard from "@/components/Admin/DisputeQueueCard";
 import { useAuth } from "@/contexts/AuthContext";
 import { useSkillSwap } from "@/contexts/SkillSwapContext";
 import { Button } from "@/components/ui/button";
@@ -39,7 +43,6 @@ import {
   AlertTriangle,
   Ban,
   CheckCircle,
-  XCircle,
   Download,
   Send,
   Settings,
@@ -54,8 +57,6 @@ const AdminDashboard = () => {
     reviews,
     adminMessages,
     banUser,
-    approveSkill,
-    rejectSkill,
     sendAdminMessage,
   } = useSkillSwap();
   const navigate = useNavigate();
@@ -243,11 +244,14 @@ const AdminDashboard = () => {
 
         {/* Tabs */}
         <Tabs defaultValue="users" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="swaps">Swap Requests</TabsTrigger>
             <TabsTrigger value="skills">Skills</TabsTrigger>
+            <TabsTrigger value="disputes">Disputes</TabsTrigger>
             <TabsTrigger value="messages">Messages</TabsTrigger>
+            <TabsTrigger value="jobs">Jobs</TabsTrigger>
+            <TabsTrigger value="mail">Mail</TabsTrigger>
           </TabsList>
 
           {/* Users Tab */}
@@ -374,63 +378,12 @@ const AdminDashboard = () => {
 
           {/* Skills Tab */}
           <TabsContent value="skills" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Skills Moderation</CardTitle>
-                <CardDescription>
-                  Review and approve user skills
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {users.flatMap((user) =>
-                    [...user.skillsOffered, ...user.skillsWanted].map(
-                      (skill) => (
-                        <div key={skill.id} className="p-4 border rounded-lg">
-                          <div className="flex items-center justify-between">
-                            <div>
-                              <h3 className="font-medium">{skill.name}</h3>
-                              <p className="text-sm text-gray-600">
-                                {skill.category} • {skill.level}
-                              </p>
-                              <p className="text-sm text-gray-600">
-                                By: {user.name}
-                              </p>
-                              <p className="text-xs text-gray-500 mt-1">
-                                {skill.description}
-                              </p>
-                            </div>
-                            <div className="flex gap-2">
-                              {skill.isApproved ? (
-                                <Badge variant="default">Approved</Badge>
-                              ) : (
-                                <>
-                                  <Button
-                                    size="sm"
-                                    onClick={() => approveSkill(skill.id)}
-                                  >
-                                    <CheckCircle className="h-4 w-4 mr-1" />
-                                    Approve
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant="destructive"
-                                    onClick={() => rejectSkill(skill.id)}
-                                  >
-                                    <XCircle className="h-4 w-4 mr-1" />
-                                    Reject
-                                  </Button>
-                                </>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                      ),
-                    ),
-                  )}
-                </div>
-              </CardContent>
-            </Card>
+            <SkillModerationCard />
+          </TabsContent>
+
+          {/* Disputes Tab */}
+          <TabsContent value="disputes" className="space-y-4">
+            <DisputeQueueCard />
           </TabsContent>
 
           {/* Messages Tab */}
@@ -479,6 +432,16 @@ const AdminDashboard = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Jobs Tab */}
+          <TabsContent value="jobs" className="space-y-4">
+            <JobRunsCard />
+          </TabsContent>
+
+          {/* Mail Tab */}
+          <TabsContent value="mail" className="space-y-4">
+            <MailOutboxCard />
+          </TabsContent>
         </Tabs>
 
         {/* Send Message Dialog */}
@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { api } from "@/lib/api";
+import { KeyRound, Mail, ArrowLeft, Send } from "lucide-react";
+
+const ForgotPassword = () => {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setMessage("");
+    setLoading(true);
+
+    try {
+      const result = await api.forgotPassword(email);
+      setMessage(result);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Could not send reset email",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-cyan-50 dark:from-gray-900 dark:via-purple-900/20 dark:to-gray-900 flex items-center justify-center p-4 transition-colors duration-500">
+      <div className="w-full max-w-md space-y-8">
+        <Card className="border-0 shadow-2xl shadow-purple-500/20 backdrop-blur-lg bg-white/80 dark:bg-gray-800/80 rounded-3xl overflow-hidden transition-colors duration-300">
+          <CardHeader className="text-center pb-6 bg-gradient-to-r from-purple-50/50 to-pink-50/50 dark:from-purple-900/30 dark:to-pink-900/30">
+            <CardTitle className="flex items-center justify-center gap-3 text-xl">
+              <div className="p-2 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl">
+                <KeyRound className="h-5 w-5 text-white" />
+              </div>
+              <span className="gradient-text-purple">Forgot Password</span>
+            </CardTitle>
+            <CardDescription className="text-gray-600 dark:text-purple-200">
+              Enter your email and we'll send you a reset link
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-6 p-6">
+              {error && (
+                <Alert className="border-red-200 bg-red-50 rounded-2xl">
+                  <AlertDescription className="text-red-700">
+                    {error}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {message && (
+                <Alert className="border-emerald-200 bg-emerald-50 rounded-2xl">
+                  <AlertDescription className="text-emerald-700">
+                    {message}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label
+                  htmlFor="email"
+                  className="flex items-center gap-2 text-gray-700 dark:text-gray-100 font-medium"
+                >
+                  <Mail className="h-4 w-4 text-purple-500" />
+                  Email
+                </Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="your.email@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="rounded-2xl border-2 border-gray-200 focus:border-purple-500 focus:ring-purple-500/20 transition-all duration-300 py-3"
+                />
+              </div>
+            </CardContent>
+
+            <CardFooter className="flex flex-col space-y-4 p-6 pt-0">
+              <Button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold py-3 rounded-2xl shadow-lg shadow-purple-500/25 transition-all duration-300"
+              >
+                {loading ? (
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                    Sending...
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <Send className="h-4 w-4" />
+                    Send Reset Link
+                  </div>
+                )}
+              </Button>
+
+              <Link
+                to="/login"
+                className="flex items-center gap-1 text-purple-600 hover:text-purple-700 font-semibold hover:underline transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back to sign in
+              </Link>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -1,5 +1,10 @@
 import React, { useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import {
+  useNavigate,
+  useLocation,
+  useSearchParams,
+  Link,
+} from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -12,7 +17,9 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import OidcProviderButtons from "@/components/Auth/OidcProviderButtons";
 import { useAuth } from "@/contexts/AuthContext";
+import { useCountdown } from "@/hooks/useCountdown";
 import {
   UserCircle,
   Mail,
@@ -32,7 +39,13 @@ const Login = () => {
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
   const { login } = useAuth();
+  const { secondsLeft, start: startCountdown } = useCountdown();
   const navigate = useNavigate();
+  const location = useLocation();
+  const notice = (location.state as { message?: string } | null)?.message;
+  // External sign-in failures are reported back via ?error=
+  const [searchParams] = useSearchParams();
+  const oidcError = searchParams.get("error");
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,8 +56,13 @@ const Login = () => {
       const result = await login(email, password);
       if (result.success) {
         navigate("/dashboard");
+      } else if (result.challengeToken) {
+        navigate("/login/two-factor", {
+          state: { challengeToken: result.challengeToken },
+        });
       } else {
         setError(result.error || "Login failed");
+        startCountdown(result.retryAfter || 0);
       }
     } catch (err) {
       setError("An error occurred during login");
@@ -62,8 +80,13 @@ const Login = () => {
       const result = await login(demoEmail, "demo");
       if (result.success) {
         navigate("/dashboard");
+      } else if (result.challengeToken) {
+        navigate("/login/two-factor", {
+          state: { challengeToken: result.challengeToken },
+        });
       } else {
         setError(result.error || "Demo login failed");
+        startCountdown(result.retryAfter || 0);
       }
     } catch (err) {
       setError("Demo login failed");
@@ -134,10 +157,31 @@ const Login = () => {
           </CardHeader>
           <form onSubmit={handleSubmit}>
             <CardContent className="space-y-6 p-6">
+              {oidcError && !error && (
+                <Alert className="border-red-200 bg-red-50 rounded-2xl">
+                  <AlertDescription className="text-red-700">
+                    {oidcError}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {notice && !error && (
+                <Alert className="border-emerald-200 bg-emerald-50 rounded-2xl">
+                  <AlertDescription className="text-emerald-700">
+                    {notice}
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {error && (
                 <Alert className="border-red-200 bg-red-50 rounded-2xl">
                   <AlertDescription className="text-red-700">
                     {error}
+                    {secondsLeft > 0 && (
+                      <span className="block mt-1 font-medium">
+                        You can try again in {secondsLeft}s.
+                      </span>
+                    )}
                   </AlertDescription>
                 </Alert>
               )}
@@ -162,13 +206,21 @@ const Login = () => {
               </div>
 
               <div className="space-y-2">
-                <Label
-                  htmlFor="password"
-                  className="flex items-center gap-2 text-gray-700 dark:text-gray-100 font-medium"
-                >
-                  <Lock className="h-4 w-4 text-purple-500" />
-                  Password
-                </Label>
+                <div className="flex items-center justify-between">
+                  <Label
+                    htmlFor="password"
+                    className="flex items-center gap-2 text-gray-700 dark:text-gray-100 font-medium"
+                  >
+                    <Lock className="h-4 w-4 text-purple-500" />
+                    Password
+                  </Label>
+                  <Link
+                    to="/forgot-password"
+                    className="text-sm text-purple-600 hover:text-purple-700 hover:underline transition-colors"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
                 <Input
                   id="password"
                   type="password"
@@ -184,7 +236,7 @@ const Login = () => {
             <CardFooter className="flex flex-col space-y-4 p-6 pt-0">
               <Button
                 type="submit"
-                disabled={loading}
+                disabled={loading || secondsLeft > 0}
                 className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold py-3 rounded-2xl shadow-lg shadow-purple-500/25 hover:shadow-xl hover:shadow-purple-500/40 transition-all duration-300 hover:scale-[1.02] group"
               >
                 {loading ? (
@@ -192,6 +244,11 @@ const Login = () => {
                     <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
                     Signing you in...
                   </div>
+                ) : secondsLeft > 0 ? (
+                  <div className="flex items-center gap-2">
+                    <Lock className="h-4 w-4" />
+                    Try again in {secondsLeft}s
+                  </div>
                 ) : (
                   <div className="flex items-center gap-2">
                     <Zap className="h-4 w-4 group-hover:animate-bounce" />
@@ -200,6 +257,8 @@ const Login = () => {
                 )}
               </Button>
 
+              <OidcProviderButtons />
+
               <div className="text-center">
                 <span className="text-gray-600 dark:text-purple-200">
                   New to SkillSwap?{" "}
@@ -0,0 +1,59 @@
+import React, { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { api } from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { KeyRound } from "lucide-react";
+
+// Landing page after external sign-in: the server has set the refresh cookie,
+// so exchange it for an access token and load the user
+const OidcCallback = () => {
+  const { refreshUser } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const finish = async () => {
+      try {
+        if (!(await api.refreshAccessToken())) {
+          throw new Error("No session");
+        }
+        await refreshUser();
+        navigate("/dashboard", { replace: true });
+      } catch (err) {
+        navigate(
+          `/login?error=${encodeURIComponent("Sign-in could not be completed. Please try again.")}`,
+          { replace: true },
+        );
+      }
+    };
+
+    finish();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-cyan-50 dark:from-gray-900 dark:via-purple-900/20 dark:to-gray-900 flex items-center justify-center p-4 transition-colors duration-500">
+      <div className="w-full max-w-md">
+        <Card className="border-0 shadow-2xl shadow-purple-500/20 backdrop-blur-lg bg-white/80 dark:bg-gray-800/80 rounded-3xl overflow-hidden transition-colors duration-300">
+          <CardHeader className="text-center pb-6 bg-gradient-to-r from-purple-50/50 to-pink-50/50 dark:from-purple-900/30 dark:to-pink-900/30">
+            <CardTitle className="flex items-center justify-center gap-3 text-xl">
+              <div className="p-2 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl">
+                <KeyRound className="h-5 w-5 text-white" />
+              </div>
+              <span className="gradient-text-purple">Signing you in</span>
+            </CardTitle>
+            <CardDescription className="text-gray-600 dark:text-purple-200">
+              Finishing sign-in...
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default OidcCallback;
@@ -21,6 +21,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import OidcProviderButtons from "@/components/Auth/OidcProviderButtons";
 import { useAuth } from "@/contexts/AuthContext";
 import { User, Mail, Lock, MapPin, Users } from "lucide-react";
 
@@ -258,6 +259,8 @@ const Register = () => {
                 {loading ? "Creating Account..." : "Create Account"}
               </Button>
 
+              <OidcProviderButtons />
+
               <div className="text-center text-sm">
                 Already have an account?{" "}
                 <Link
@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { useNavigate, useParams, Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { api } from "@/lib/api";
+import { KeyRound, Lock, ArrowLeft, CheckCircle } from "lucide-react";
+
+const ResetPassword = () => {
+  const { token } = useParams<{ token: string }>();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    if (password.length < 6) {
+      setError("Password must be at least 6 characters");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await api.resetPassword(token || "", password);
+      navigate("/login", {
+        state: { message: "Password reset successfully. Please sign in." },
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Password reset failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-cyan-50 dark:from-gray-900 dark:via-purple-900/20 dark:to-gray-900 flex items-center justify-center p-4 transition-colors duration-500">
+      <div className="w-full max-w-md space-y-8">
+        <Card className="border-0 shadow-2xl shadow-purple-500/20 backdrop-blur-lg bg-white/80 dark:bg-gray-800/80 rounded-3xl overflow-hidden transition-colors duration-300">
+          <CardHeader className="text-center pb-6 bg-gradient-to-r from-purple-50/50 to-pink-50/50 dark:from-purple-900/30 dark:to-pink-900/30">
+            <CardTitle className="flex items-center justify-center gap-3 text-xl">
+              <div className="p-2 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl">
+                <KeyRound className="h-5 w-5 text-white" />
+              </div>
+              <span className="gradient-text-purple">Reset Password</span>
+            </CardTitle>
+            <CardDescription className="text-gray-600 dark:text-purple-200">
+              Choose a new password for your account
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-6 p-6">
+              {error && (
+                <Alert className="border-red-200 bg-red-50 rounded-2xl">
+                  <AlertDescription className="text-red-700">
+                    {error}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label
+                  htmlFor="password"
+                  className="flex items-center gap-2 text-gray-700 dark:text-gray-100 font-medium"
+                >
+                  <Lock className="h-4 w-4 text-purple-500" />
+                  New Password
+                </Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="At least 6 characters"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="rounded-2xl border-2 border-gray-200 focus:border-purple-500 focus:ring-purple-500/20 transition-all duration-300 py-3"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label
+                  htmlFor="confirmPassword"
+                  className="flex items-center gap-2 text-gray-700 dark:text-gray-100 font-medium"
+                >
+                  <Lock className="h-4 w-4 text-purple-500" />
+                  Confirm Password
+                </Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="Repeat your new password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  className="rounded-2xl border-2 border-gray-200 focus:border-purple-500 focus:ring-purple-500/20 transition-all duration-300 py-3"
+                />
+              </div>
+            </CardContent>
+
+            <CardFooter className="flex flex-col space-y-4 p-6 pt-0">
+              <Button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold py-3 rounded-2xl shadow-lg shadow-purple-500/25 transition-all duration-300"
+              >
+                {loading ? (
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                    Resetting...
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4" />
+                    Reset Password
+                  </div>
+                )}
+              </Button>
+
+              <Link
+                to="/login"
+                className="flex items-center gap-1 text-purple-600 hover:text-purple-700 font-semibold hover:underline transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back to sign in
+              </Link>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
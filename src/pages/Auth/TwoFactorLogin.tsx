@@ -0,0 +1,195 @@
+import React, { useState } from "react";
+import { Link, Navigate, useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCountdown } from "@/hooks/useCountdown";
+import { ShieldCheck, ArrowLeft, KeyRound } from "lucide-react";
+
+const TwoFactorLogin = () => {
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { completeTwoFactorLogin } = useAuth();
+  const { secondsLeft, start: startCountdown } = useCountdown();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Password logins pass the challenge in state; external sign-in redirects put it in the hash
+  const challengeToken =
+    (location.state as { challengeToken?: string } | null)?.challengeToken ||
+    new URLSearchParams(location.hash.slice(1)).get("challenge");
+
+  // The challenge only exists in memory; without it the user must sign in again
+  if (!challengeToken) {
+    return <Navigate to="/login" replace />;
+  }
+
+  const verify = async (credentials: {
+    code?: string;
+    recoveryCode?: string;
+  }) => {
+    setError("");
+    setLoading(true);
+
+    try {
+      const result = await completeTwoFactorLogin(challengeToken, credentials);
+      if (result.success) {
+        navigate("/dashboard");
+      } else {
+        setError(result.error || "Verification failed");
+        setCode("");
+        startCountdown(result.retryAfter || 0);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (useRecoveryCode) {
+      verify({ recoveryCode: recoveryCode.trim() });
+    } else {
+      verify({ code });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-cyan-50 dark:from-gray-900 dark:via-purple-900/20 dark:to-gray-900 flex items-center justify-center p-4 transition-colors duration-500">
+      <div className="w-full max-w-md space-y-8">
+        <Card className="border-0 shadow-2xl shadow-purple-500/20 backdrop-blur-lg bg-white/80 dark:bg-gray-800/80 rounded-3xl overflow-hidden transition-colors duration-300">
+          <CardHeader className="text-center pb-6 bg-gradient-to-r from-purple-50/50 to-pink-50/50 dark:from-purple-900/30 dark:to-pink-900/30">
+            <CardTitle className="flex items-center justify-center gap-3 text-xl">
+              <div className="p-2 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl">
+                <ShieldCheck className="h-5 w-5 text-white" />
+              </div>
+              <span className="gradient-text-purple">
+                Two-Factor Authentication
+              </span>
+            </CardTitle>
+            <CardDescription className="text-gray-600 dark:text-purple-200">
+              {useRecoveryCode
+                ? "Enter one of your recovery codes"
+                : "Enter the 6-digit code from your authenticator app"}
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-6 p-6">
+              {error && (
+                <Alert className="border-red-200 bg-red-50 rounded-2xl">
+                  <AlertDescription className="text-red-700">
+                    {error}
+                    {secondsLeft > 0 && (
+                      <span className="block mt-1 font-medium">
+                        You can try again in {secondsLeft}s.
+                      </span>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label
+                    htmlFor="recoveryCode"
+                    className="flex items-center gap-2 text-gray-700 dark:text-gray-100 font-medium"
+                  >
+                    <KeyRound className="h-4 w-4 text-purple-500" />
+                    Recovery code
+                  </Label>
+                  <Input
+                    id="recoveryCode"
+                    placeholder="xxxxx-xxxxx"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    autoComplete="off"
+                    required
+                    className="rounded-2xl border-2 border-gray-200 focus:border-purple-500 focus:ring-purple-500/20 transition-all duration-300 py-3 font-mono"
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={6}
+                    value={code}
+                    onChange={setCode}
+                    onComplete={(value: string) => verify({ code: value })}
+                    disabled={loading || secondsLeft > 0}
+                    autoFocus
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+            </CardContent>
+
+            <CardFooter className="flex flex-col space-y-4 p-6 pt-0">
+              <Button
+                type="submit"
+                disabled={
+                  loading ||
+                  secondsLeft > 0 ||
+                  (useRecoveryCode ? !recoveryCode : code.length < 6)
+                }
+                className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold py-3 rounded-2xl shadow-lg shadow-purple-500/25 transition-all duration-300"
+              >
+                {loading ? (
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                    Verifying...
+                  </div>
+                ) : (
+                  "Verify"
+                )}
+              </Button>
+
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setError("");
+                }}
+                className="text-sm text-purple-600 hover:text-purple-700 hover:underline transition-colors"
+              >
+                {useRecoveryCode
+                  ? "Use your authenticator app instead"
+                  : "Lost your device? Use a recovery code"}
+              </button>
+
+              <Link
+                to="/login"
+                className="flex items-center gap-1 text-purple-600 hover:text-purple-700 font-semibold hover:underline transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back to sign in
+              </Link>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorLogin;
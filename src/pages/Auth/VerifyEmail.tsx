@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { api } from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { MailCheck, XCircle } from "lucide-react";
+
+const VerifyEmail = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, refreshUser } = useAuth();
+  const [status, setStatus] = useState<"verifying" | "success" | "error">(
+    "verifying",
+  );
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        await api.verifyEmail(token || "");
+        setStatus("success");
+        if (user) {
+          await refreshUser();
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Verification failed");
+        setStatus("error");
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-cyan-50 dark:from-gray-900 dark:via-purple-900/20 dark:to-gray-900 flex items-center justify-center p-4 transition-colors duration-500">
+      <div className="w-full max-w-md">
+        <Card className="border-0 shadow-2xl shadow-purple-500/20 backdrop-blur-lg bg-white/80 dark:bg-gray-800/80 rounded-3xl overflow-hidden transition-colors duration-300">
+          <CardHeader className="text-center pb-6 bg-gradient-to-r from-purple-50/50 to-pink-50/50 dark:from-purple-900/30 dark:to-pink-900/30">
+            <CardTitle className="flex items-center justify-center gap-3 text-xl">
+              <div className="p-2 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl">
+                {status === "error" ? (
+                  <XCircle className="h-5 w-5 text-white" />
+                ) : (
+                  <MailCheck className="h-5 w-5 text-white" />
+                )}
+              </div>
+              <span className="gradient-text-purple">Email Verification</span>
+            </CardTitle>
+            <CardDescription className="text-gray-600 dark:text-purple-200">
+              {status === "verifying" && "Verifying your email address..."}
+              {status === "success" && "Your email address has been verified!"}
+              {status === "error" && error}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6 text-center">
+            {status !== "verifying" && (
+              <Link
+                to={user ? "/dashboard" : "/login"}
+                className="text-purple-600 hover:text-purple-700 font-semibold hover:underline transition-colors"
+              >
+                {user ? "Go to your dashboard" : "Continue to sign in"}
+              </Link>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
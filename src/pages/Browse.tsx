@@ -1,7 +1,8 @@
 import React, { useState } from "react";
 import AppLayout from "@/components/Layout/AppLayout";
 import { useAuth } from "@/contexts/AuthContext";
-import { useUsers, useCreateSwap } from "@/hooks/useApi";
+import { useUsers, useCreateSwap, useSkillCategories, useWallet } from "@/hooks/useApi";
+import { formatCredits } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -43,6 +44,9 @@ import {
 } from "lucide-react";
 import { User as UserType } from "@/types";
 
+// Offered-skill choice for paying in time credits instead of a skill
+const PAY_WITH_CREDITS = "__credits__";
+
 const Browse = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -54,10 +58,13 @@ const Browse = () => {
   // API hooks for real data
   const { data: usersResponse, isLoading, error } = useUsers({
     skill: searchTerm,
+    category: selectedCategory === "all" ? undefined : selectedCategory,
     page: 1,
     limit: 50
   });
+  const { data: categories = [] } = useSkillCategories();
   const createSwap = useCreateSwap();
+  const { data: wallet } = useWallet();
   const [swapRequestDialog, setSwapRequestDialog] = useState({
     open: false,
     targetUser: null as UserType | null,
@@ -65,26 +72,13 @@ const Browse = () => {
   });
   const [requestMessage, setRequestMessage] = useState("");
   const [selectedOfferedSkill, setSelectedOfferedSkill] = useState("");
+  const [sessionCount, setSessionCount] = useState(1);
 
   if (!user) {
     navigate("/login");
     return null;
   }
 
-  const categories = [
-    "Programming",
-    "Design",
-    "Language",
-    "Music",
-    "Sports",
-    "Cooking",
-    "Business",
-    "Arts",
-    "Fitness",
-    "Office",
-    "Other",
-  ];
-
   // Extract users from API response and add loading/error handling
   const users = usersResponse?.users || [];
   
@@ -116,6 +110,7 @@ const Browse = () => {
     });
     setRequestMessage("");
     setSelectedOfferedSkill("");
+    setSessionCount(1);
   };
 
   const sendSwapRequest = async () => {
@@ -125,8 +120,11 @@ const Browse = () => {
       await createSwap.mutateAsync({
         receiver: swapRequestDialog.targetUser.id,
         requestedSkill: swapRequestDialog.targetSkill,
-        offeredSkill: selectedOfferedSkill,
+        ...(selectedOfferedSkill === PAY_WITH_CREDITS
+          ? { paymentType: "credits" as const }
+          : { offeredSkill: selectedOfferedSkill }),
         message: requestMessage,
+        sessionCount,
       });
 
       setSwapRequestDialog({ open: false, targetUser: null, targetSkill: "" });
@@ -214,8 +212,8 @@ const Browse = () => {
                   <SelectContent>
                     <SelectItem value="all">All Categories</SelectItem>
                     {categories.map((category) => (
-                      <SelectItem key={category} value={category}>
-                        {category}
+                      <SelectItem key={category.name} value={category.name}>
+                        {category.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -400,8 +398,29 @@ const Browse = () => {
                         {skill.name} ({skill.level})
                       </SelectItem>
                     ))}
+                    <SelectItem value={PAY_WITH_CREDITS}>
+                      Time credits instead of a skill
+                    </SelectItem>
                   </SelectContent>
                 </Select>
+                {selectedOfferedSkill === PAY_WITH_CREDITS && wallet && (
+                  <p className="text-xs text-gray-500">
+                    Each session costs its length in credits. You have{" "}
+                    {formatCredits(wallet.available)} available.
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="session-count">Sessions each</Label>
+                <Input
+                  id="session-count"
+                  type="number"
+                  min={1}
+                  max={20}
+                  className="w-32"
+                  value={sessionCount}
+                  onChange={(e) => setSessionCount(Number(e.target.value) || 1)}
+                />
               </div>
               <div className="space-y-2">
                 <Label>Personal message (optional)</Label>
@@ -1,5 +1,6 @@
 import React from "react";
 import AppLayout from "@/components/Layout/AppLayout";
+import BestMatchesCard from "@/components/Dashboard/BestMatchesCard";
 import { useAuth } from "@/contexts/AuthContext";
 import { useSkillSwap } from "@/contexts/SkillSwapContext";
 import {
@@ -242,6 +243,9 @@ const Dashboard = () => {
           })}
         </div>
 
+        {/* Suggested swap partners */}
+        <BestMatchesCard />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Recent Swap Requests with modern card design */}
           <Card className="border-0 shadow-xl shadow-purple-500/10 backdrop-blur-sm bg-white/80 dark:bg-gray-800/95 rounded-3xl overflow-hidden transition-colors duration-300">
@@ -0,0 +1,339 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import AppLayout from "@/components/Layout/AppLayout";
+import {
+  useClearNotifications,
+  useDeleteNotification,
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotificationPreferences,
+  useNotifications,
+  useUpdateNotificationPreferences,
+} from "@/hooks/useApi";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AppNotification,
+  DigestFrequency,
+  NotificationCategory,
+  NotificationChannel,
+} from "@/types";
+import { Bell, Check, CheckCheck, Trash2 } from "lucide-react";
+
+const channelLabels: Record<NotificationChannel, string> = {
+  "in-app": "In-app only",
+  email: "In-app and email",
+  digest: "In-app and digest email",
+  off: "Off",
+};
+
+const digestLabels: Record<DigestFrequency, string> = {
+  daily: "Daily",
+  weekly: "Weekly, on Mondays",
+  off: "Off",
+};
+
+const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const NotificationPreferencesCard = () => {
+  const { data } = useNotificationPreferences();
+  const updatePreferences = useUpdateNotificationPreferences();
+
+  if (!data) return null;
+
+  const categories = Object.keys(data.categories) as NotificationCategory[];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Preferences</CardTitle>
+        <CardDescription>
+          Choose how you hear about each kind of notification
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {categories.map((category) => (
+          <div
+            key={category}
+            className="flex items-center justify-between gap-4"
+          >
+            <span className="text-sm">{data.categories[category]}</span>
+            <Select
+              value={data.preferences[category]}
+              disabled={updatePreferences.isPending}
+              onValueChange={(value) =>
+                updatePreferences.mutate({
+                  [category]: value as NotificationChannel,
+                })
+              }
+            >
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(channelLabels) as NotificationChannel[]).map(
+                  (channel) => (
+                    <SelectItem key={channel} value={channel}>
+                      {channelLabels[channel]}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+
+        <div className="pt-4 border-t space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <span className="text-sm">Digest email</span>
+              <p className="text-xs text-gray-500">
+                A summary sent at 8:00 in {data.timezone}, skipped when there is
+                nothing new
+                {data.digest.nextDueAt &&
+                  ` · next ${new Date(data.digest.nextDueAt).toLocaleString()}`}
+              </p>
+            </div>
+            <Select
+              value={data.digest.frequency}
+              disabled={updatePreferences.isPending}
+              onValueChange={(value) =>
+                updatePreferences.mutate({
+                  digestFrequency: value as DigestFrequency,
+                })
+              }
+            >
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(digestLabels) as DigestFrequency[]).map(
+                  (frequency) => (
+                    <SelectItem key={frequency} value={frequency}>
+                      {digestLabels[frequency]}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+          {deviceTimeZone && deviceTimeZone !== data.timezone && (
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-sm text-gray-600">
+                This device is set to {deviceTimeZone}
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={updatePreferences.isPending}
+                onClick={() =>
+                  updatePreferences.mutate({ timezone: deviceTimeZone })
+                }
+              >
+                Use {deviceTimeZone}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const Notifications = () => {
+  const navigate = useNavigate();
+  const [page, setPage] = useState(1);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const { data, isLoading } = useNotifications(page, unreadOnly);
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+  const deleteNotification = useDeleteNotification();
+  const clearNotifications = useClearNotifications();
+
+  const notifications = data?.notifications ?? [];
+  const pagination = data?.pagination;
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const showFilter = (unread: boolean) => {
+    setUnreadOnly(unread);
+    setPage(1);
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.isRead) {
+      markRead.mutate(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Bell className="h-5 w-5" />
+                  Notifications
+                  {unreadCount > 0 && (
+                    <Badge variant="secondary">{unreadCount} unread</Badge>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  Swap requests, updates, ratings and announcements
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={unreadCount === 0 || markAllRead.isPending}
+                  onClick={() => markAllRead.mutate()}
+                >
+                  <CheckCheck className="h-4 w-4 mr-1" />
+                  Mark all read
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={clearNotifications.isPending}
+                  onClick={() => clearNotifications.mutate("read")}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Clear read
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant={unreadOnly ? "ghost" : "secondary"}
+                onClick={() => showFilter(false)}
+              >
+                All
+              </Button>
+              <Button
+                size="sm"
+                variant={unreadOnly ? "secondary" : "ghost"}
+                onClick={() => showFilter(true)}
+              >
+                Unread
+              </Button>
+            </div>
+
+            {isLoading && (
+              <p className="text-sm text-gray-500">Loading notifications...</p>
+            )}
+            {!isLoading && notifications.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-8">
+                {unreadOnly
+                  ? "You have no unread notifications."
+                  : "You have no notifications yet."}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              {notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`flex items-start gap-3 p-3 border rounded-lg ${
+                    notification.isRead ? "" : "bg-purple-50/60"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => openNotification(notification)}
+                  >
+                    <p
+                      className={`text-sm ${notification.isRead ? "" : "font-semibold"}`}
+                    >
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="text-sm text-gray-600 whitespace-pre-line">
+                        {notification.body}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </p>
+                  </button>
+                  <div className="flex gap-1">
+                    {!notification.isRead && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        aria-label="Mark as read"
+                        disabled={markRead.isPending}
+                        onClick={() => markRead.mutate(notification.id)}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      aria-label="Delete notification"
+                      disabled={deleteNotification.isPending}
+                      onClick={() => deleteNotification.mutate(notification.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!pagination.hasPrevPage}
+                  onClick={() => setPage((current) => current - 1)}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-500">
+                  Page {pagination.currentPage} of {pagination.totalPages}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!pagination.hasNextPage}
+                  onClick={() => setPage((current) => current + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <NotificationPreferencesCard />
+      </div>
+    </AppLayout>
+  );
+};
+
+export default Notifications;
@@ -1,6 +1,14 @@
 import React, { useState } from "react";
 import AppLayout from "@/components/Layout/AppLayout";
+import ActiveSessionsCard from "@/components/Account/ActiveSessionsCard";
+import TwoFactorCard from "@/components/Account/TwoFactorCard";
+import SecurityEventsCard from "@/components/Account/SecurityEventsCard";
+import AccountDataCard from "@/components/Account/AccountDataCard";
+import WeeklyAvailabilityCard from "@/components/Profile/WeeklyAvailabilityCard";
+import CalendarFeedCard from "@/components/Profile/CalendarFeedCard";
+import SkillNameInput from "@/components/Skills/SkillNameInput";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSkillCategories } from "@/hooks/useApi";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -67,6 +75,8 @@ const Profile = () => {
     level: "beginner" as Skill["level"],
   });
 
+  const { data: skillCategories = [] } = useSkillCategories();
+
   if (!user) {
     navigate("/login");
     return null;
@@ -80,20 +90,6 @@ const Profile = () => {
     "evenings",
   ];
 
-  const skillCategories = [
-    "Programming",
-    "Design",
-    "Language",
-    "Music",
-    "Sports",
-    "Cooking",
-    "Business",
-    "Arts",
-    "Fitness",
-    "Office",
-    "Other",
-  ];
-
   const skillLevels = ["beginner", "intermediate", "advanced", "expert"];
 
   const handleSaveProfile = () => {
@@ -354,6 +350,10 @@ const Profile = () => {
           </CardContent>
         </Card>
 
+        <WeeklyAvailabilityCard />
+
+        <CalendarFeedCard />
+
         {/* Skills Offered */}
         <Card>
           <CardHeader>
@@ -379,6 +379,11 @@ const Profile = () => {
                     >
                       {skill.level}
                     </Badge>
+                    {!skill.isApproved && (
+                      <Badge variant="secondary" className="ml-2 text-xs">
+                        Pending approval
+                      </Badge>
+                    )}
                   </div>
                   <Button
                     size="sm"
@@ -397,13 +402,16 @@ const Profile = () => {
             <div className="space-y-3">
               <h4 className="font-medium">Add New Skill</h4>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                <Input
+                <SkillNameInput
                   placeholder="Skill name (e.g., Photoshop)"
                   value={newSkillOffered.name}
-                  onChange={(e) =>
+                  onChange={(name) =>
+                    setNewSkillOffered((prev) => ({ ...prev, name }))
+                  }
+                  onSuggestionSelect={(suggestion) =>
                     setNewSkillOffered((prev) => ({
                       ...prev,
-                      name: e.target.value,
+                      category: suggestion.category,
                     }))
                   }
                 />
@@ -418,8 +426,8 @@ const Profile = () => {
                   </SelectTrigger>
                   <SelectContent>
                     {skillCategories.map((category) => (
-                      <SelectItem key={category} value={category}>
-                        {category}
+                      <SelectItem key={category.name} value={category.name}>
+                        {category.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -493,6 +501,11 @@ const Profile = () => {
                     >
                       {skill.level}
                     </Badge>
+                    {!skill.isApproved && (
+                      <Badge variant="secondary" className="ml-2 text-xs">
+                        Pending approval
+                      </Badge>
+                    )}
                   </div>
                   <Button
                     size="sm"
@@ -511,13 +524,16 @@ const Profile = () => {
             <div className="space-y-3">
               <h4 className="font-medium">Add New Skill Interest</h4>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                <Input
+                <SkillNameInput
                   placeholder="Skill name (e.g., Spanish)"
                   value={newSkillWanted.name}
-                  onChange={(e) =>
+                  onChange={(name) =>
+                    setNewSkillWanted((prev) => ({ ...prev, name }))
+                  }
+                  onSuggestionSelect={(suggestion) =>
                     setNewSkillWanted((prev) => ({
                       ...prev,
-                      name: e.target.value,
+                      category: suggestion.category,
                     }))
                   }
                 />
@@ -532,8 +548,8 @@ const Profile = () => {
                   </SelectTrigger>
                   <SelectContent>
                     {skillCategories.map((category) => (
-                      <SelectItem key={category} value={category}>
-                        {category}
+                      <SelectItem key={category.name} value={category.name}>
+                        {category.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -583,6 +599,12 @@ const Profile = () => {
             </div>
           </CardContent>
         </Card>
+
+        {/* Account Security */}
+        <TwoFactorCard />
+        <ActiveSessionsCard />
+        <SecurityEventsCard />
+        <AccountDataCard />
       </div>
     </AppLayout>
   );
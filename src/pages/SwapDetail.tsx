@@ -0,0 +1,392 @@
+import React, { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import AppLayout from "@/components/Layout/AppLayout";
+import CounterOfferDialog from "@/components/Swaps/CounterOfferDialog";
+import SwapChatPanel from "@/components/Swaps/SwapChatPanel";
+import SwapSchedulePanel from "@/components/Swaps/SwapSchedulePanel";
+import SwapSessionsPanel from "@/components/Swaps/SwapSessionsPanel";
+import SwapDisputePanel from "@/components/Swaps/SwapDisputePanel";
+import { useAuth } from "@/contexts/AuthContext";
+import { describeOffer } from "@/lib/utils";
+import { useDeleteSwap, useSwap, useUpdateSwap } from "@/hooks/useApi";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ArrowLeft,
+  ArrowLeftRight,
+  Calendar,
+  CheckCircle,
+  Clock,
+  Link2,
+  XCircle,
+} from "lucide-react";
+import {
+  SwapAction,
+  SwapStatusChange,
+  SwapTermChange,
+  SwapTerms,
+} from "@/types";
+
+// Actions a member can take from this page; expiry and voiding are system-only
+const actionLabels: Partial<Record<SwapAction, string>> = {
+  accept: "Accept",
+  reject: "Reject",
+  complete: "Mark Completed",
+  cancel: "Cancel Swap",
+};
+
+const historyLabels: Record<SwapStatusChange["action"], string> = {
+  create: "requested the swap",
+  accept: "accepted the swap",
+  reject: "rejected the swap",
+  counter: "sent a counter-offer",
+  cancel: "cancelled the swap",
+  complete: "marked the swap completed",
+  expire: "expired the swap",
+  void: "voided the swap after a dispute",
+};
+
+const termLabels: Record<keyof SwapTerms, string> = {
+  requestedSkill: "Skill to learn",
+  offeredSkill: "Skill in return",
+  meetingType: "Meeting type",
+  location: "Location",
+  proposedDate: "Date",
+  duration: "Duration",
+  sessionCount: "Sessions each",
+};
+
+const formatTerm = (field: keyof SwapTerms, value?: string | number) => {
+  if (!value) return "not set";
+  return field === "proposedDate"
+    ? new Date(value).toLocaleString()
+    : String(value);
+};
+
+const TermChange = ({ change }: { change: SwapTermChange }) => (
+  <li className="text-sm">
+    <span className="text-gray-500">{termLabels[change.field]}:</span>{" "}
+    <span className="line-through text-red-600">
+      {formatTerm(change.field, change.from)}
+    </span>{" "}
+    → {formatTerm(change.field, change.to)}
+  </li>
+);
+
+const SwapDetail = () => {
+  const { id = "" } = useParams();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+  const [counterOpen, setCounterOpen] = useState(false);
+  const { data, isLoading } = useSwap(id);
+  const updateSwap = useUpdateSwap();
+  const deleteSwap = useDeleteSwap();
+
+  if (!user) {
+    navigate("/login");
+    return null;
+  }
+
+  const handleAction = async (action: SwapAction) => {
+    setError("");
+    try {
+      const trimmed = reason.trim() || undefined;
+      if (action === "cancel") {
+        await deleteSwap.mutateAsync({ swapId: id, reason: trimmed });
+      } else if (
+        action !== "expire" &&
+        action !== "counter" &&
+        action !== "void"
+      ) {
+        await updateSwap.mutateAsync({ swapId: id, action, reason: trimmed });
+      }
+      setReason("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not update swap");
+    }
+  };
+
+  const describeActor = (change: SwapStatusChange) => {
+    if (change.actorRole === "system") return "SkillSwap";
+    if (change.actor?.id === user.id) return "You";
+    return change.actor?.name ?? change.actorRole;
+  };
+
+  if (isLoading || !data) {
+    return (
+      <AppLayout>
+        <p className="text-sm text-gray-500">
+          {isLoading ? "Loading swap..." : "Swap not found."}
+        </p>
+      </AppLayout>
+    );
+  }
+
+  const { swap, allowedActions } = data;
+  const memberActions = allowedActions.filter((action) => actionLabels[action]);
+  const isPending = updateSwap.isPending || deleteSwap.isPending;
+  const canCounter = allowedActions.includes("counter");
+  const isParticipant = [swap.requester.id, swap.receiver.id].includes(user.id);
+
+  return (
+    <AppLayout>
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/swap-requests")}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Swap Requests
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>
+                {swap.requestedSkill} for {describeOffer(swap)}
+              </CardTitle>
+              <Badge variant="secondary">{swap.status}</Badge>
+            </div>
+            <CardDescription>
+              {swap.requester.name} asked {swap.receiver.name} to teach{" "}
+              {swap.requestedSkill} in return for {describeOffer(swap)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {swap.message && (
+              <div className="bg-gray-50 p-3 rounded-lg">
+                <p className="text-sm italic">"{swap.message}"</p>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+              {swap.meetingType && <span>Meeting: {swap.meetingType}</span>}
+              {swap.duration && <span>Duration: {swap.duration}</span>}
+              <span>
+                {swap.sessionCount}{" "}
+                {swap.sessionCount === 1 ? "session" : "sessions"}{" "}
+                {swap.chain || swap.paymentType === "credits"
+                  ? "from " + swap.receiver.name
+                  : "each"}
+              </span>
+              {swap.proposedDate && (
+                <span className="flex items-center gap-1">
+                  <Calendar className="h-4 w-4" />
+                  {new Date(swap.proposedDate).toLocaleString()}
+                </span>
+              )}
+              {swap.status === "pending" && swap.responseDeadline && (
+                <span className="flex items-center gap-1">
+                  <Clock className="h-4 w-4" />
+                  Respond by{" "}
+                  {new Date(swap.responseDeadline).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+
+            {swap.chain && (
+              <p className="flex items-center gap-2 text-sm text-gray-600">
+                <Link2 className="h-4 w-4" />
+                This swap is part of a{" "}
+                <Link to="/swap-requests" className="underline">
+                  swap chain
+                </Link>
+                and changes with it.
+              </p>
+            )}
+
+            {(memberActions.length > 0 || canCounter) && (
+              <div className="space-y-3 border-t pt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reason">Reason (optional)</Label>
+                  <Textarea
+                    id="reason"
+                    value={reason}
+                    maxLength={500}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Let the other member know why"
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {memberActions.map((action) => (
+                    <Button
+                      key={action}
+                      size="sm"
+                      disabled={isPending}
+                      variant={
+                        action === "reject" || action === "cancel"
+                          ? "outline"
+                          : "default"
+                      }
+                      onClick={() => handleAction(action)}
+                    >
+                      {action === "reject" || action === "cancel" ? (
+                        <XCircle className="h-4 w-4 mr-1" />
+                      ) : (
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                      )}
+                      {actionLabels[action]}
+                    </Button>
+                  ))}
+                  {canCounter && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isPending}
+                      onClick={() => setCounterOpen(true)}
+                    >
+                      <ArrowLeftRight className="h-4 w-4 mr-1" />
+                      Counter
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </CardContent>
+        </Card>
+
+        {isParticipant &&
+          (["pending", "accepted", "completed"].includes(swap.status) ||
+            swap.confirmedDate) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Sessions</CardTitle>
+                <CardDescription>
+                  Pick times when you are both free, then record who turned up
+                  after each session
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <SwapSchedulePanel swap={swap} />
+                <SwapSessionsPanel swap={swap} />
+              </CardContent>
+            </Card>
+          )}
+
+        {isParticipant && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Disputes</CardTitle>
+              <CardDescription>
+                Report a problem with this swap to the SkillSwap team
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SwapDisputePanel swap={swap} />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Messages</CardTitle>
+            <CardDescription>
+              Agree the details of your swap with{" "}
+              {swap.requester.id === user.id
+                ? swap.receiver.name
+                : swap.requester.name}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SwapChatPanel swapId={swap.id} readOnly={!isParticipant} />
+          </CardContent>
+        </Card>
+
+        {swap.revisions.length > 1 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Negotiation</CardTitle>
+              <CardDescription>
+                Each proposal and what it changed from the one before
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {swap.revisions.map((revision) => (
+                <div key={revision.version} className="p-3 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">
+                      {revision.proposedBy.id === user.id
+                        ? "You"
+                        : revision.proposedBy.name}{" "}
+                      {revision.version === 1
+                        ? "sent the original request"
+                        : "countered"}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      Version {revision.version} ·{" "}
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {revision.changes.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {revision.changes.map((change) => (
+                        <TermChange key={change.field} change={change} />
+                      ))}
+                    </ul>
+                  )}
+                  {revision.message && (
+                    <p className="mt-2 text-sm text-gray-600 italic">
+                      "{revision.message}"
+                    </p>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>History</CardTitle>
+            <CardDescription>Every status change on this swap</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+              {swap.statusHistory.map((change, index) => (
+                <li key={index} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                  <p className="text-sm">
+                    <span className="font-medium">{describeActor(change)}</span>{" "}
+                    {historyLabels[change.action]}
+                    {change.from && (
+                      <span className="text-gray-500">
+                        {" "}
+                        ({change.from} → {change.to})
+                      </span>
+                    )}
+                  </p>
+                  {change.reason && (
+                    <p className="text-sm text-gray-600 italic">
+                      "{change.reason}"
+                    </p>
+                  )}
+                  <time className="text-xs text-gray-500">
+                    {new Date(change.at).toLocaleString()}
+                  </time>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      </div>
+
+      {counterOpen && (
+        <CounterOfferDialog
+          swapId={swap.id}
+          terms={swap}
+          onClose={() => setCounterOpen(false)}
+        />
+      )}
+    </AppLayout>
+  );
+};
+
+export default SwapDetail;
@@ -1,6 +1,11 @@
 import React, { useState } from "react";
 import AppLayout from "@/components/Layout/AppLayout";
+import SwapChainsPanel from "@/components/Swaps/SwapChainsPanel";
+import CounterOfferDialog from "@/components/Swaps/CounterOfferDialog";
+import SwapChatPanel from "@/components/Swaps/SwapChatPanel";
+import SwapProgressBars from "@/components/Swaps/SwapProgressBars";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSwapSessions } from "@/hooks/useApi";
 import { useSkillSwap } from "@/contexts/SkillSwapContext";
 import { Button } from "@/components/ui/button";
 import {
@@ -40,8 +45,31 @@ import {
   Trash2,
   User,
   Calendar,
+  ArrowLeftRight,
 } from "lucide-react";
-import { SwapRequest } from "@/types";
+import { SwapRequest, SwapRole } from "@/types";
+
+// Session progress of an active swap; nothing shows until sessions load
+const ActiveSwapProgress = ({
+  swapId,
+  viewerRole,
+  otherName,
+}: {
+  swapId: string;
+  viewerRole: SwapRole;
+  otherName: string;
+}) => {
+  const { data } = useSwapSessions(swapId);
+  if (!data) return null;
+
+  return (
+    <SwapProgressBars
+      progress={data.progress}
+      viewerRole={viewerRole}
+      otherName={otherName}
+    />
+  );
+};
 
 const SwapRequests = () => {
   const { user } = useAuth();
@@ -57,6 +85,10 @@ const SwapRequests = () => {
     rating: 5,
     comment: "",
   });
+  const [counterRequest, setCounterRequest] = useState<SwapRequest | null>(
+    null,
+  );
+  const [chatRequest, setChatRequest] = useState<SwapRequest | null>(null);
 
   if (!user) {
     navigate("/login");
@@ -189,10 +221,27 @@ const SwapRequests = () => {
                     {request.status}
                   </Badge>
                 </div>
+                {type === "active" && (
+                  <ActiveSwapProgress
+                    swapId={request.id}
+                    viewerRole={isFromCurrentUser ? "requester" : "receiver"}
+                    otherName={otherUserName}
+                  />
+                )}
               </div>
             </div>
 
             <div className="flex gap-2 ml-4">
+              {type !== "completed" && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setChatRequest(request)}
+                >
+                  <MessageSquare className="h-4 w-4 mr-1" />
+                  Chat
+                </Button>
+              )}
               {type === "incoming" && (
                 <>
                   <Button
@@ -210,6 +259,14 @@ const SwapRequests = () => {
                     <XCircle className="h-4 w-4 mr-1" />
                     Reject
                   </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setCounterRequest(request)}
+                  >
+                    <ArrowLeftRight className="h-4 w-4 mr-1" />
+                    Counter
+                  </Button>
                 </>
               )}
               {type === "outgoing" && (
@@ -258,7 +315,7 @@ const SwapRequests = () => {
 
         {/* Tabs */}
         <Tabs defaultValue="incoming" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="incoming" className="relative">
               Incoming
               {incomingRequests.length > 0 && (
@@ -279,8 +336,14 @@ const SwapRequests = () => {
             <TabsTrigger value="completed">
               Completed ({completedSwaps.length})
             </TabsTrigger>
+            <TabsTrigger value="chains">Chains</TabsTrigger>
           </TabsList>
 
+          {/* Multi-party swap chains */}
+          <TabsContent value="chains" className="space-y-4">
+            <SwapChainsPanel />
+          </TabsContent>
+
           {/* Incoming Requests */}
           <TabsContent value="incoming" className="space-y-4">
             <Card>
@@ -500,6 +563,34 @@ const SwapRequests = () => {
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        {/* Chat Dialog */}
+        <Dialog
+          open={chatRequest !== null}
+          onOpenChange={(open) => !open && setChatRequest(null)}
+        >
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Messages</DialogTitle>
+              <DialogDescription>
+                {chatRequest?.requestedSkill} for {chatRequest?.offeredSkill}
+              </DialogDescription>
+            </DialogHeader>
+            {chatRequest && <SwapChatPanel swapId={chatRequest.id} />}
+          </DialogContent>
+        </Dialog>
+
+        {/* Counter-Offer Dialog */}
+        {counterRequest && (
+          <CounterOfferDialog
+            swapId={counterRequest.id}
+            terms={{
+              requestedSkill: counterRequest.requestedSkill,
+              offeredSkill: counterRequest.offeredSkill,
+            }}
+            onClose={() => setCounterRequest(null)}
+          />
+        )}
       </div>
     </AppLayout>
   );
@@ -0,0 +1,176 @@
+import React, { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import AppLayout from "@/components/Layout/AppLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCreditTransactions, useWallet } from "@/hooks/useApi";
+import { formatCredits } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { CreditTransaction, CreditTransactionKind } from "@/types";
+import { Hourglass } from "lucide-react";
+
+const kindLabels: Record<CreditTransactionKind, string> = {
+  welcome: "Welcome",
+  session: "Session",
+  settlement: "Settlement",
+  refund: "Refund",
+};
+
+// The other side of a transaction, from the member's point of view
+const describeCounterparty = (transaction: CreditTransaction) => {
+  const other = transaction.amount > 0 ? transaction.from : transaction.to;
+  if (!other) return "SkillSwap";
+  return transaction.amount > 0 ? `From ${other.name}` : `To ${other.name}`;
+};
+
+const Wallet = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [page, setPage] = useState(1);
+  const { data: wallet } = useWallet();
+  const { data, isLoading } = useCreditTransactions(page);
+
+  if (!user) {
+    navigate("/login");
+    return null;
+  }
+
+  const transactions = data?.transactions ?? [];
+  const pagination = data?.pagination;
+
+  return (
+    <AppLayout>
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hourglass className="h-5 w-5" />
+              Time Credits
+            </CardTitle>
+            <CardDescription>
+              Earn an hour of credit for every hour you teach and spend it on
+              swaps with members who do not need any of your skills.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {wallet && (
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-2xl font-bold">
+                    {formatCredits(wallet.balance)}
+                  </p>
+                  <p className="text-sm text-gray-500">Balance</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">
+                    {formatCredits(wallet.held)}
+                  </p>
+                  <p className="text-sm text-gray-500">Held for open swaps</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-emerald-700">
+                    {formatCredits(wallet.available)}
+                  </p>
+                  <p className="text-sm text-gray-500">Available</p>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Transactions</CardTitle>
+            <CardDescription>
+              Every credit you received or spent, newest first
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading && (
+              <p className="text-sm text-gray-500">Loading transactions...</p>
+            )}
+            {!isLoading && transactions.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-8">
+                You have no transactions yet.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              {transactions.map((transaction) => (
+                <div
+                  key={transaction.id}
+                  className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      {transaction.swap ? (
+                        <Link
+                          to={`/swaps/${transaction.swap.id}`}
+                          className="hover:underline"
+                        >
+                          {transaction.description}
+                        </Link>
+                      ) : (
+                        transaction.description
+                      )}
+                      <Badge variant="outline">
+                        {kindLabels[transaction.kind]}
+                      </Badge>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {describeCounterparty(transaction)} ·{" "}
+                      {new Date(transaction.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <span
+                    className={`text-sm font-semibold whitespace-nowrap ${
+                      transaction.amount > 0
+                        ? "text-emerald-700"
+                        : "text-red-600"
+                    }`}
+                  >
+                    {transaction.amount > 0 ? "+" : "−"}
+                    {formatCredits(Math.abs(transaction.amount))}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!pagination.hasPrevPage}
+                  onClick={() => setPage((current) => current - 1)}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-500">
+                  Page {pagination.currentPage} of {pagination.totalPages}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!pagination.hasNextPage}
+                  onClick={() => setPage((current) => current + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default Wallet;
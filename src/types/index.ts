@@ -13,6 +13,8 @@ export interface User {
   joinedDate: Date;
   isBanned: boolean;
   role: "user" | "admin";
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
 }
 
 export interface Skill {
@@ -24,6 +26,104 @@ export interface Skill {
   isApproved: boolean;
 }
 
+// Canonical skill from the server's skill taxonomy
+export interface SkillSuggestion {
+  name: string;
+  slug: string;
+  category: string;
+  aliases: string[];
+}
+
+export interface SkillCategory {
+  name: string;
+  skillCount: number;
+}
+
+// Skill fields a user can submit; the server assigns ids and approval
+export type SkillInput = Pick<Skill, "name"> &
+  Partial<Pick<Skill, "id" | "category" | "description" | "level">>;
+
+export type MeetingType = "online" | "in-person" | "hybrid";
+
+export interface MatchExplanation {
+  factor: "skills" | "availability" | "location" | "rating";
+  points: number;
+  maxPoints: number;
+  reason: string;
+}
+
+// Suggested swap partner with a score out of 100
+export interface SkillMatch {
+  user: Pick<
+    User,
+    | "id"
+    | "name"
+    | "location"
+    | "profilePhoto"
+    | "availability"
+    | "skillsOffered"
+    | "skillsWanted"
+  > & { averageRating: number; totalRatings: number; totalSwaps: number };
+  score: number;
+  isReciprocal: boolean;
+  matchedSkills: { theyTeach: string[]; youTeach: string[] };
+  explanations: MatchExplanation[];
+}
+
+// Custom skill waiting in the admin moderation queue
+export interface PendingSkill {
+  id: string;
+  name: string;
+  category: string;
+  description?: string;
+  level: Skill["level"];
+  type: "offered" | "wanted";
+  submittedAt: string;
+  user: { id: string; name: string; email: string };
+}
+
+// Background job schedule and lock state
+export interface JobState {
+  name: string;
+  nextRunAt: string;
+  lockedBy?: string;
+  lockedUntil?: string;
+  lastRunAt?: string;
+  lastStatus?: "succeeded" | "failed";
+}
+
+export interface JobRun {
+  id: string;
+  job: string;
+  status: "running" | "succeeded" | "failed";
+  instance?: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  result?: Record<string, number>;
+  error?: string;
+}
+
+// Outbound email in the mail queue; text and html are only returned for a single message
+export interface MailMessage {
+  id: string;
+  template: string;
+  to: string;
+  from: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  sensitive: boolean;
+  status: "queued" | "sending" | "sent" | "failed";
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  transport?: string;
+  sentAt?: string;
+  createdAt: string;
+}
+
 export interface SwapRequest {
   id: string;
   fromUserId: string;
@@ -36,6 +136,351 @@ export interface SwapRequest {
   updatedAt: Date;
 }
 
+export type SwapAction =
+  | "accept"
+  | "reject"
+  | "counter"
+  | "cancel"
+  | "complete"
+  | "expire"
+  | "void";
+
+// One entry in a swap's status history; actor is unset for system changes
+export interface SwapStatusChange {
+  action: "create" | SwapAction;
+  from?: SwapRequest["status"];
+  to: SwapRequest["status"];
+  actor?: { id: string; name: string };
+  actorRole: "requester" | "receiver" | "system";
+  reason?: string;
+  at: string;
+}
+
+// Negotiable terms of a swap; a counter-offer changes one or more of them
+export interface SwapTerms {
+  requestedSkill: string;
+  // Unset for swaps paid in time credits
+  offeredSkill?: string;
+  meetingType?: MeetingType;
+  location?: string;
+  proposedDate?: string;
+  duration?: string;
+  // Sessions each member agrees to give
+  sessionCount?: number;
+}
+
+export interface SwapTermChange {
+  field: keyof SwapTerms;
+  from?: string | number;
+  to?: string | number;
+}
+
+// A proposal: the original request (version 1) or a counter-offer
+export interface SwapRevision {
+  version: number;
+  proposedBy: { id: string; name: string };
+  proposedByRole: "requester" | "receiver";
+  changes: SwapTermChange[];
+  message?: string;
+  createdAt: string;
+}
+
+export interface SwapParty {
+  id: string;
+  name: string;
+  email: string;
+  profilePhoto?: string;
+  averageRating?: number;
+}
+
+// How the requester pays: by teaching offeredSkill or in time credits
+export type SwapPaymentType = "skill" | "credits";
+
+export interface SwapDetail extends SwapTerms {
+  id: string;
+  paymentType: SwapPaymentType;
+  requester: SwapParty;
+  receiver: SwapParty;
+  message?: string;
+  status: SwapRequest["status"];
+  responseDeadline?: string;
+  chain?: string;
+  statusHistory: SwapStatusChange[];
+  revisions: SwapRevision[];
+  // Start of the next scheduled session
+  confirmedDate?: string;
+  sessionMinutes: number;
+  slotProposal?: SlotProposal;
+  sessionCount: number;
+  // Completed sessions given by each member
+  sessionsGiven: Record<SwapRole, number>;
+  createdAt: string;
+}
+
+export type SwapRole = "requester" | "receiver";
+
+// A weekly period a member is free, in their time zone (day 0 = Sunday)
+export interface AvailabilityWindow {
+  day: number;
+  start: string;
+  end: string;
+}
+
+export interface AvailabilitySettings {
+  windows: AvailabilityWindow[];
+  timezone: string;
+}
+
+export interface SessionSlot {
+  start: string;
+  end: string;
+}
+
+// Session times one member offered; the other member confirms one
+export interface SlotProposal {
+  proposedBy: string;
+  slots: (SessionSlot & { id: string })[];
+  // Member who will give the session
+  teacher?: string;
+  createdAt: string;
+}
+
+// completed: both members attended; missed: a member says it did not happen
+export type SwapSessionStatus =
+  | "scheduled"
+  | "completed"
+  | "missed"
+  | "cancelled";
+
+export interface SessionNote {
+  id: string;
+  author: { id: string; name: string };
+  body: string;
+  createdAt: string;
+}
+
+// One lesson of a swap, given by one member to the other
+export interface SwapSession {
+  id: string;
+  swap: string;
+  teacher: { id: string; name: string; profilePhoto?: string };
+  learner: { id: string; name: string; profilePhoto?: string };
+  scheduledFor: string;
+  minutes: number;
+  endsAt: string;
+  status: SwapSessionStatus;
+  attendance: { member: string; attended: boolean; recordedAt: string }[];
+  // Member who reported that the other one did not turn up
+  noShowReportedBy?: string;
+  notes: SessionNote[];
+  cancellationReason?: string;
+  createdAt: string;
+}
+
+export interface NewSwapSession {
+  scheduledFor: string;
+  minutes?: number;
+  // Defaults to the teaching member with the fewest sessions
+  teacher?: string;
+  note?: string;
+}
+
+export interface SwapProgress {
+  sessionCount: number;
+  sessionsGiven: Record<SwapRole, number>;
+  // Members who teach; in a swap chain leg only the receiver
+  teachingRoles: SwapRole[];
+}
+
+export interface SwapSessions {
+  sessions: SwapSession[];
+  progress: SwapProgress;
+}
+
+export interface ScheduleMember {
+  id: string;
+  name: string;
+  timezone: string;
+  hasAvailability: boolean;
+}
+
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  createdAt?: string;
+  lastAccessedAt?: string;
+}
+
+// Returned once when a feed is created; only a hash of the token is stored
+export interface CalendarFeedLink {
+  url: string;
+  webcalUrl: string;
+  createdAt: string;
+}
+
+export interface OpenSlots {
+  slots: SessionSlot[];
+  sessionMinutes: number;
+  members: { requester: ScheduleMember; receiver: ScheduleMember };
+}
+
+// Message in a swap's thread; deleted messages have no body
+export interface SwapMessage {
+  id: string;
+  conversation: string;
+  sender: { id: string; name: string; profilePhoto?: string };
+  body?: string;
+  readAt?: string;
+  editedAt?: string;
+  isDeleted: boolean;
+  editableUntil: string;
+  deletableUntil: string;
+  createdAt: string;
+}
+
+// Events pushed by the server over GET /api/events
+export type SwapEventType =
+  | "swap.created"
+  | "swap.accepted"
+  | "swap.rejected"
+  | "swap.countered"
+  | "swap.cancelled"
+  | "swap.completed"
+  | "swap.expired"
+  | "swap.slots-proposed"
+  | "swap.scheduled"
+  | "swap.session-updated";
+
+export interface SwapEventData {
+  swapId: string;
+  status: SwapRequest["status"];
+  requestedSkill: string;
+  offeredSkill: string;
+  action?: SwapAction;
+  // Null when the system made the change
+  actorId: string | null;
+  actorName?: string;
+  actorRole?: SwapStatusChange["actorRole"];
+  reason?: string;
+  // Set on swap.scheduled
+  confirmedDate?: string;
+  // Set on swap.scheduled and swap.session-updated
+  sessionId?: string;
+  sessionStatus?: SwapSessionStatus;
+}
+
+export interface MessageEventData {
+  swapId: string;
+  messageId: string;
+  senderId: string;
+  senderName: string;
+}
+
+export interface RatingEventData {
+  ratingId: string;
+  swapId: string;
+  rating: number;
+  // Null for anonymous ratings
+  reviewerName: string | null;
+}
+
+export interface AdminMessageEventData {
+  messageId: string;
+  title: string;
+  type: string;
+  priority: string;
+}
+
+export type RealtimeEvent =
+  | { type: SwapEventType; data: SwapEventData }
+  | {
+      type: "message.new" | "message.updated" | "message.deleted";
+      data: MessageEventData;
+    }
+  | { type: "message.read"; data: { swapId: string; readerId: string } }
+  | { type: "rating.new"; data: RatingEventData }
+  | { type: "admin.message"; data: AdminMessageEventData }
+  | { type: "notification.new"; data: { type: string; title: string } };
+
+// Named to avoid clashing with the browser's Notification API
+export interface AppNotification {
+  id: string;
+  type:
+    | SwapEventType
+    | "rating.new"
+    | "admin.message"
+    | DisputeNotificationType;
+  title: string;
+  body?: string;
+  // Frontend path to open when the notification is clicked
+  link?: string;
+  swap?: string;
+  channel: Exclude<NotificationChannel, "off">;
+  isRead: boolean;
+  readAt?: string;
+  createdAt: string;
+}
+
+export type NotificationChannel = "in-app" | "email" | "digest" | "off";
+
+export type NotificationCategory =
+  | "swapRequests"
+  | "swapUpdates"
+  | "ratings"
+  | "adminMessages"
+  | "disputes";
+
+export type NotificationPreferences = Record<
+  NotificationCategory,
+  NotificationChannel
+>;
+
+export type DigestFrequency = "daily" | "weekly" | "off";
+
+// Notification preferences with the digest settings and the member's time zone
+export interface NotificationSettings {
+  preferences: NotificationPreferences;
+  categories: Record<NotificationCategory, string>;
+  digest: {
+    frequency: DigestFrequency;
+    nextDueAt?: string;
+    lastSentAt?: string;
+  };
+  timezone: string;
+}
+
+export type NotificationSettingsUpdate = Partial<NotificationPreferences> & {
+  digestFrequency?: DigestFrequency;
+  timezone?: string;
+};
+
+// Swap chain member: teaches the next member and learns from the previous one
+export interface SwapChainParticipant {
+  user: Pick<User, "id" | "name" | "location" | "profilePhoto"> & {
+    averageRating?: number;
+  };
+  teaches: string;
+  learns: string;
+}
+
+export interface SwapChainSuggestion {
+  participants: SwapChainParticipant[];
+}
+
+export interface SwapChain {
+  id: string;
+  participants: (SwapChainParticipant & {
+    status: "pending" | "confirmed" | "rejected";
+    respondedAt?: string;
+  })[];
+  legs: string[];
+  initiator: string;
+  message?: string;
+  status: "pending" | "accepted" | "cancelled";
+  acceptedAt?: string;
+  cancelledAt?: string;
+  createdAt: string;
+}
+
 export interface Review {
   id: string;
   swapRequestId: string;
@@ -55,14 +500,70 @@ export interface AdminMessage {
   isActive: boolean;
 }
 
+export interface AuthSession {
+  id: string;
+  device: string;
+  ipAddress?: string;
+  userAgent?: string;
+  lastUsedAt: string;
+  createdAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+export interface SecurityEvent {
+  id: string;
+  type: "account-locked";
+  ipAddress?: string;
+  userAgent?: string;
+  details?: { failedAttempts?: number; lockedUntil?: string };
+  createdAt: string;
+}
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export interface OidcProvider {
+  id: string;
+  name: string;
+}
+
 export interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  login: (
+    email: string,
+    password: string,
+  ) => Promise<{
+    success: boolean;
+    error?: string;
+    challengeToken?: string;
+    retryAfter?: number;
+  }>;
+  completeTwoFactorLogin: (
+    challengeToken: string,
+    credentials: { code?: string; recoveryCode?: string },
+  ) => Promise<{ success: boolean; error?: string; retryAfter?: number }>;
   register: (
     userData: Partial<User> & { password: string },
   ) => Promise<{ success: boolean; error?: string }>;
   logout: () => Promise<void>;
   updateProfile: (userData: Partial<User>) => Promise<void>;
+  refreshUser: () => Promise<void>;
+  resendVerificationEmail: () => Promise<void>;
   isLoading: boolean;
 }
 
@@ -79,7 +580,123 @@ export interface SkillSwapContextType {
   addReview: (review: Omit<Review, "id" | "createdAt">) => void;
   searchUsers: (skill: string) => User[];
   banUser: (userId: string) => void;
-  approveSkill: (skillId: string) => void;
-  rejectSkill: (skillId: string) => void;
   sendAdminMessage: (message: Omit<AdminMessage, "id" | "createdAt">) => void;
 }
+
+// Time-credit balance in minutes; held is promised to open credit swaps
+export interface Wallet {
+  balance: number;
+  held: number;
+  available: number;
+}
+
+export type CreditTransactionKind =
+  | "welcome"
+  | "session"
+  | "settlement"
+  | "refund";
+
+// One ledger entry; from or to is unset for the platform account
+export interface CreditTransaction {
+  id: string;
+  kind: CreditTransactionKind;
+  from?: { id: string; name: string };
+  to?: { id: string; name: string };
+  // Minutes, positive when received and negative when spent
+  amount: number;
+  swap?: { id: string; requestedSkill: string };
+  description?: string;
+  createdAt: string;
+}
+
+export type DisputeReason = "no-show" | "not-as-agreed" | "conduct" | "other";
+
+// void-swap cancels the swap and refunds its credits; warn and ban act on the member at fault
+export type DisputeOutcome = "dismiss" | "void-swap" | "warn" | "ban";
+
+export type DisputeNotificationType =
+  | "dispute.opened"
+  | "dispute.comment"
+  | "dispute.resolved";
+
+// Outcomes of the resolved disputes a member was part of
+export interface Reliability {
+  disputes: number;
+  disputesLost: number;
+  noShows: number;
+  warnings: number;
+}
+
+// Admins also see the member's track record
+export interface DisputeMember {
+  id: string;
+  name: string;
+  profilePhoto?: string;
+  email?: string;
+  averageRating?: number;
+  totalRatings?: number;
+  totalSwaps?: number;
+  reliability?: Reliability;
+  isBanned?: boolean;
+}
+
+export interface DisputeComment {
+  id: string;
+  author: { id: string; name: string };
+  body: string;
+  // Links to screenshots, chat logs and the like
+  evidence: string[];
+  createdAt: string;
+}
+
+export interface Dispute {
+  id: string;
+  swap: {
+    id: string;
+    requester: string;
+    receiver: string;
+    requestedSkill: string;
+    offeredSkill?: string;
+    paymentType?: SwapPaymentType;
+    status: SwapRequest["status"];
+  };
+  // Set for disputes about a single session, such as no-show reports
+  session?: {
+    id: string;
+    scheduledFor: string;
+    minutes: number;
+    status: SwapSessionStatus;
+  };
+  openedBy: DisputeMember;
+  against: DisputeMember;
+  reason: DisputeReason;
+  status: "open" | "resolved";
+  // The opening statement first
+  comments: DisputeComment[];
+  resolution?: {
+    outcome: DisputeOutcome;
+    atFault?: { id: string; name: string };
+    note?: string;
+    resolvedBy?: { id: string; name: string };
+    resolvedAt: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DisputeStatement {
+  body: string;
+  evidence?: string[];
+}
+
+export interface NewDispute extends DisputeStatement {
+  swap: string;
+  session?: string;
+  reason: DisputeReason;
+}
+
+export interface DisputeResolution {
+  outcome: DisputeOutcome;
+  atFault?: string;
+  note?: string;
+}